@@ -0,0 +1,81 @@
+/*
+ * BroBookMe booking widget.
+ *
+ *   <div data-brobookme="your-username"
+ *        data-service="haircut"            (optional: lock to one service)
+ *        data-theme="dark"                 (optional: light | dark)
+ *        data-primary-color="#2563eb"      (optional)
+ *        data-radius="0.75"></div>         (optional: corner radius in rem)
+ *   <script src="https://brobookme.com/embed.js" async></script>
+ *
+ * The widget dispatches these DOM events on its element, and they bubble up
+ * the page:
+ *   brobookme:slot_selected, brobookme:booking_completed, brobookme:payment_failed
+ * Each event's `detail` holds the event's data.
+ *
+ * Stripe Checkout can't run in a frame, so paying by Stripe leaves this page.
+ * A canceled payment comes straight back here; after a successful one the
+ * confirmation page links back here, but no booking_completed event fires.
+ */
+(function () {
+  var SOURCE = 'brobookme';
+  var script = document.currentScript;
+  var origin = script ? new URL(script.src).origin : window.location.origin;
+  var widgets = [];
+
+  function mount(element) {
+    if (element.getAttribute('data-brobookme-mounted')) return;
+    var username = element.getAttribute('data-brobookme');
+    if (!username) return;
+    element.setAttribute('data-brobookme-mounted', 'true');
+
+    var params = new URLSearchParams();
+    var attributes = { service: 'data-service', theme: 'data-theme', primaryColor: 'data-primary-color', radius: 'data-radius' };
+    Object.keys(attributes).forEach(function (key) {
+      var value = element.getAttribute(attributes[key]);
+      if (value) params.set(key, value);
+    });
+    // Where Stripe Checkout, which takes over this page, sends the customer back to.
+    params.set('returnUrl', window.location.href);
+
+    var iframe = document.createElement('iframe');
+    iframe.src = origin + '/embed/' + encodeURIComponent(username) + (params.toString() ? '?' + params.toString() : '');
+    iframe.title = 'Book an appointment';
+    iframe.loading = 'lazy';
+    iframe.allow = 'payment';
+    iframe.style.width = '100%';
+    iframe.style.height = element.getAttribute('data-height') || '700px';
+    iframe.style.border = '0';
+    iframe.style.display = 'block';
+    element.appendChild(iframe);
+    widgets.push({ element: element, iframe: iframe });
+  }
+
+  function mountAll() {
+    var elements = document.querySelectorAll('[data-brobookme]');
+    for (var i = 0; i < elements.length; i++) mount(elements[i]);
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.origin !== origin || !event.data || event.data.source !== SOURCE) return;
+    for (var i = 0; i < widgets.length; i++) {
+      var widget = widgets[i];
+      if (widget.iframe.contentWindow !== event.source) continue;
+
+      if (event.data.type === 'resize') {
+        widget.iframe.style.height = event.data.data.height + 'px';
+      } else if (event.data.type !== 'ready') {
+        widget.element.dispatchEvent(new CustomEvent(SOURCE + ':' + event.data.type, { detail: event.data.data, bubbles: true }));
+      }
+      return;
+    }
+  });
+
+  window.BroBookMe = { mount: mount, mountAll: mountAll };
+
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', mountAll);
+  } else {
+    mountAll();
+  }
+})();
@@ -2,8 +2,11 @@
 
 'use client';
 
-import { getBookingsByProvider, getProviderByEmail, updateBookingStatus, deleteBooking, getBookingsForDay /*, getNotificationsForProvider, markAllNotificationsRead, clearAllNotifications */ } from "@/lib/data";
-import { cancelBooking, rescheduleBooking } from "@/lib/actions";
+import { getBookingsByProvider, getProviderByEmail, deleteBooking, getWaitlistEntries, getAllBookingNotes /*, getNotificationsForProvider, markAllNotificationsRead, clearAllNotifications */ } from "@/lib/data";
+import { approveBooking, cancelBooking, cancelBookingSeries, markBookingOutcome, rescheduleBooking, rescheduleBookingSeries } from "@/lib/actions";
+import { getAvailabilitySummary, getDayAvailability } from "@/lib/availability.actions";
+import { offerWaitlistEntry, removeWaitlistEntry } from "@/lib/waitlist.actions";
+import { DATE_KEY_FORMAT, findStaffMember, getBookingTitle } from "@/lib/availability";
 import {
   Card,
   CardContent,
@@ -40,31 +43,50 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import type { Booking, BookingStatus, Provider } from "@/lib/types";
+import type { AvailabilityDaySummary, Booking, BookingNotes, BookingStatus, DayAvailability, Provider, WaitlistEntry } from "@/lib/types";
 import { formatInTimeZone, toDate } from 'date-fns-tz';
-import { add, format, parse, startOfDay, isEqual, addDays, startOfToday, isToday } from 'date-fns';
+import { format, startOfToday, startOfMonth, endOfMonth } from 'date-fns';
 import { Button } from "@/components/ui/button";
-import { Eye, Check, X, Trash2, Loader2, Calendar, Clock, User, Mail, Phone, MapPin, Globe, CalendarPlus, BadgeCent, Video, Banknote } from "lucide-react";
-import { useEffect, useState, useTransition, useMemo, useCallback } from "react";
+import { Eye, Check, X, Trash2, Loader2, Calendar, Clock, User, Mail, Phone, MapPin, Globe, CalendarPlus, BadgeCent, Video, Banknote, BellRing, PlusCircle, Download, ExternalLink, UserX, Search } from "lucide-react";
+import { useEffect, useState, useTransition, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { auth } from "@/lib/firebase";
+import { auth, getIdToken } from "@/lib/firebase";
 import { onAuthStateChanged } from "firebase/auth";
 import { useRouter } from "next/navigation";
 import { Calendar as RescheduleCalendar } from '@/components/ui/calendar';
 import Link from 'next/link';
 import { Separator } from "@/components/ui/separator";
 import { getCurrency } from "@/lib/currencies";
-import { getWorkingPeriods } from "@/lib/utils";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getTeamRole, hasPermission } from "@/lib/permissions";
+import { manualBookingSources } from "@/lib/schema";
+import { AddBookingDialog } from "@/components/add-booking-dialog";
+import { DeclineBookingDialog } from "@/components/decline-booking-dialog";
+import { BookingActivityTimeline } from "@/components/booking-activity-timeline";
+import { BookingNotesPanel } from "@/components/booking-notes-panel";
+import { getBookingsCsv } from "@/lib/booking-export";
+import { formatIntakeAnswer } from "@/lib/intake";
+import { getBookingNotesSearchText } from "@/lib/booking-notes";
 
 type EnrichedBooking = Booking & { status: BookingStatus };
 
 export default function BookingsPage() {
   const [bookings, setBookings] = useState<EnrichedBooking[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [provider, setProvider] = useState<Provider | null>(null);
   const [loading, setLoading] = useState(true);
   const [dialogState, setDialogState] = useState<{ open: boolean; action: 'cancel' | 'delete' | null; booking: EnrichedBooking | null }>({ open: false, action: null, booking: null });
   const [viewDialogState, setViewDialogState] = useState<{ open: boolean; booking: EnrichedBooking | null }>({ open: false, booking: null });
   const [rescheduleDialogState, setRescheduleDialogState] = useState<{ open: boolean; booking: EnrichedBooking | null }>({ open: false, booking: null });
+  const [staffFilter, setStaffFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [bookingNotes, setBookingNotes] = useState<Record<string, BookingNotes>>({});
+  const [canManage, setCanManage] = useState(false);
+  const [isAddBookingOpen, setIsAddBookingOpen] = useState(false);
+  const [bookingToDecline, setBookingToDecline] = useState<EnrichedBooking | null>(null);
   const [isPending, startTransition] = useTransition();
   const { toast } = useToast();
   const router = useRouter();
@@ -80,9 +102,14 @@ export default function BookingsPage() {
           router.push('/login');
           return;
         }
-        const bookingsData = await getBookingsByProvider(providerData.username);
+        const [bookingsData, waitlistData, notesData] = await Promise.all([
+          getBookingsByProvider(providerData.username),
+          getWaitlistEntries(providerData.username),
+          getAllBookingNotes(providerData.username),
+        ]);
         
         setProvider(providerData);
+        setCanManage(hasPermission(getTeamRole(providerData, email), 'bookings:manage'));
 
         const enrichedBookings = bookingsData.map(b => {
             let status: BookingStatus = b.status || 'Upcoming';
@@ -90,9 +117,11 @@ export default function BookingsPage() {
                 status = 'Not Completed';
             }
             return { ...b, status };
-        }).filter(b => b.status !== 'Pending') as EnrichedBooking[]; // Filter out pending bookings
+        }).filter(b => b.status !== 'Pending' && b.status !== 'Expired') as EnrichedBooking[]; // Filter out unpaid bookings
 
         setBookings(enrichedBookings);
+        setBookingNotes(Object.fromEntries(notesData.map(notes => [notes.bookingId, notes])));
+        setWaitlist(waitlistData.filter(entry => entry.status === 'Waiting' || entry.status === 'Offered'));
       } catch (error) {
         toast({ title: 'Error', description: 'Failed to fetch bookings.', variant: 'destructive' });
       } finally {
@@ -111,17 +140,17 @@ export default function BookingsPage() {
      return () => unsubscribe();
   }, [router]);
 
-  const handleUpdateStatus = (bookingId: string, status: BookingStatus) => {
+  const handleUpdateStatus = (bookingId: string, status: 'Completed' | 'No-Show') => {
     if (!provider) return;
     startTransition(async () => {
-      try {
-        await updateBookingStatus(provider.username, bookingId, status);
+      const result = await markBookingOutcome(await getIdToken(), provider.username, bookingId, status);
+      if (result.success) {
         setBookings(prevBookings => 
           prevBookings.map(b => b.id === bookingId ? { ...b, status } : b)
         );
         toast({ title: 'Success', description: `Booking marked as ${status}.` });
-      } catch (error) {
-        toast({ title: 'Error', description: 'Failed to update booking status.', variant: 'destructive' });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
       }
     });
   };
@@ -129,7 +158,7 @@ export default function BookingsPage() {
   const handleCancelBooking = (booking: EnrichedBooking) => {
     if (!provider) return;
     startTransition(async () => {
-      const result = await cancelBooking(provider, booking);
+      const result = await cancelBooking(await getIdToken(), provider.username, booking.id);
       if (result.success) {
         setBookings(prevBookings =>
           prevBookings.map(b => (b.id === booking.id ? { ...b, status: 'Canceled' } : b))
@@ -141,6 +170,71 @@ export default function BookingsPage() {
     });
   };
 
+  const handleCancelSeries = (booking: EnrichedBooking) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await cancelBookingSeries(await getIdToken(), provider.username, booking.id);
+      if (result.success) {
+        const canceledIds = new Set(result.canceledIds ?? [booking.id]);
+        setBookings(prevBookings =>
+          prevBookings.map(b => (canceledIds.has(b.id) ? { ...b, status: 'Canceled' } : b))
+        );
+        toast({ title: 'Series Canceled', description: `${canceledIds.size} upcoming sessions were canceled. The customer has been notified.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleApproveBooking = (booking: EnrichedBooking) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await approveBooking(await getIdToken(), provider.username, booking.id);
+      if (result.success) {
+        const approvedIds = new Set(result.bookingIds ?? [booking.id]);
+        setBookings(prevBookings =>
+          prevBookings.map(b => (approvedIds.has(b.id) ? { ...b, status: 'Upcoming' } : b))
+        );
+        toast({ title: 'Booking Approved', description: `${booking.customerName} has been sent a confirmation.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleDeclined = (bookingIds: string[]) => {
+    const declinedIds = new Set(bookingIds);
+    setBookings(prevBookings =>
+      prevBookings.map(b => (declinedIds.has(b.id) ? { ...b, status: 'Declined' } : b))
+    );
+  };
+
+  const handleOfferWaitlistEntry = (entry: WaitlistEntry) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await offerWaitlistEntry(await getIdToken(), provider.username, entry.id);
+      if (result.success) {
+        setWaitlist(prev => prev.map(e => e.id === entry.id ? { ...e, status: 'Offered', offeredSlot: result.offeredSlot } : e));
+        toast({ title: 'Offer Sent', description: `${entry.customerName} has been emailed a link to claim the slot.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleRemoveWaitlistEntry = (entry: WaitlistEntry) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await removeWaitlistEntry(await getIdToken(), provider.username, entry.id);
+      if (result.success) {
+        setWaitlist(prev => prev.filter(e => e.id !== entry.id));
+        toast({ title: 'Removed', description: `${entry.customerName} has been removed from the waitlist.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
   const handleDelete = (bookingId: string) => {
     if (!provider) return;
     startTransition(async () => {
@@ -160,6 +254,11 @@ export default function BookingsPage() {
     setBookings(prev => prev.map(b => b.id === bookingId ? {...b, dateTime: newDateTime, status: 'Upcoming'} : b));
   }
 
+  const handleSeriesRescheduleSuccess = (moved: { id: string; dateTime: string }[]) => {
+    const movedById = new Map(moved.map(m => [m.id, new Date(m.dateTime)]));
+    setBookings(prev => prev.map(b => movedById.has(b.id) ? { ...b, dateTime: movedById.get(b.id)!, status: 'Upcoming' } : b));
+  }
+
   const openDialog = (action: 'cancel' | 'delete', booking: EnrichedBooking) => {
     setDialogState({ open: true, action, booking });
   };
@@ -191,8 +290,40 @@ export default function BookingsPage() {
   const dateFormat = provider?.settings?.dateFormat || 'PPP';
   const timezone = provider?.settings?.timezone || 'UTC';
 
-  const upcomingBookings = bookings.filter(b => b.status === 'Upcoming');
-  const pastBookings = bookings.filter(b => b.status === 'Completed' || b.status === 'Canceled' || b.status === 'Not Completed');
+  const staffMembers = provider?.settings.staff || [];
+  const searchTerm = search.trim().toLowerCase();
+  // Searches the customer, the service and the team's private notes and file names.
+  const matchesSearch = (booking: Booking) => !searchTerm || [
+    booking.customerName,
+    booking.customerEmail,
+    booking.customerPhone,
+    provider ? getBookingTitle(provider.settings, booking) : null,
+    booking.serviceType,
+    getBookingNotesSearchText(bookingNotes[booking.id]),
+  ].some(value => value?.toLowerCase().includes(searchTerm));
+  const filteredBookings = (staffFilter === 'all'
+    ? bookings
+    : bookings.filter(b => staffFilter === 'unassigned' ? !b.staffId : b.staffId === staffFilter)
+  ).filter(matchesSearch);
+  const approvalRequests = filteredBookings.filter(b => b.status === 'Awaiting Approval');
+  const upcomingBookings = filteredBookings.filter(b => b.status === 'Upcoming');
+  const pastBookings = filteredBookings.filter(b => b.status === 'Completed' || b.status === 'Canceled' || b.status === 'Not Completed' || b.status === 'No-Show' || b.status === 'Declined');
+  const getStaffName = (booking: Booking) => provider ? findStaffMember(provider.settings, booking.staffId)?.name : undefined;
+  const getSourceName = (booking: Booking) => manualBookingSources.find(source => source.id === booking.source)?.name;
+
+  const handleExport = () => {
+    if (!provider) return;
+    const exported = [...filteredBookings].sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+    const blob = new Blob([getBookingsCsv(provider, exported)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bookings-${provider.username}-${format(new Date(), DATE_KEY_FORMAT)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
 
   const getStatusVariant = (status: BookingStatus) => {
     switch (status) {
@@ -201,7 +332,11 @@ export default function BookingsPage() {
         case 'Completed':
             return 'secondary';
         case 'Canceled':
+        case 'Declined':
+        case 'No-Show':
             return 'destructive';
+        case 'Awaiting Approval':
+            return 'secondary';
         case 'Not Completed':
             return 'outline';
         default:
@@ -226,8 +361,7 @@ export default function BookingsPage() {
           <TableBody>
             {bookings.length > 0 ? (
               bookings.map((booking) => {
-                const service = provider?.settings.services?.find(s => s.slug === booking.serviceSlug || s.id === booking.serviceSlug);
-                const serviceTitle = service?.title || booking.serviceType;
+                const serviceTitle = (provider && getBookingTitle(provider.settings, booking)) || booking.serviceType;
                 return (
                 <TableRow key={booking.id} className={isPending && (dialogState.booking?.id === booking.id || viewDialogState.booking?.id === booking.id) ? 'opacity-50' : ''}>
                   <TableCell>
@@ -235,8 +369,17 @@ export default function BookingsPage() {
                     <div className="text-sm text-muted-foreground">{booking.customerEmail}</div>
                   </TableCell>
                   <TableCell>
-                    <div className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''}</div>
+                    <div className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''}{booking.seats && booking.seats > 1 ? ` (${booking.seats} seats)` : ''}</div>
                     <div className="text-sm text-muted-foreground">{booking.serviceType}</div>
+                    {getStaffName(booking) && (
+                      <div className="text-xs text-muted-foreground">with {getStaffName(booking)}</div>
+                    )}
+                    {getSourceName(booking) && (
+                      <div className="text-xs text-muted-foreground">Booked via {getSourceName(booking)}</div>
+                    )}
+                    {booking.recurrence && (
+                      <div className="text-xs text-muted-foreground">Session {(booking.seriesIndex || 0) + 1} of {booking.recurrence.count}</div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div>{formatInTimeZone(booking.dateTime, timezone, dateFormat)}</div>
@@ -251,12 +394,14 @@ export default function BookingsPage() {
                             <Eye className="h-4 w-4" />
                             <span className="sr-only">View</span>
                         </Button>
-                        {isUpcoming && (
+                        {isUpcoming && canManage && (
                             <>
-                                <Button variant="ghost" size="icon" onClick={() => openRescheduleDialog(booking)}>
-                                    <CalendarPlus className="h-4 w-4" />
-                                    <span className="sr-only">Reschedule</span>
-                                </Button>
+                                {!booking.classId && (
+                                    <Button variant="ghost" size="icon" onClick={() => openRescheduleDialog(booking)}>
+                                        <CalendarPlus className="h-4 w-4" />
+                                        <span className="sr-only">Reschedule</span>
+                                    </Button>
+                                )}
                                 <Button variant="ghost" size="icon" className="text-green-500 hover:text-green-600" onClick={() => handleUpdateStatus(booking.id, 'Completed')}>
                                     <Check className="h-4 w-4" />
                                     <span className="sr-only">Accept</span>
@@ -267,10 +412,24 @@ export default function BookingsPage() {
                                 </Button>
                             </>
                         )}
-                        <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => openDialog('delete', booking)}>
-                            <Trash2 className="h-4 w-4" />
-                            <span className="sr-only">Delete</span>
-                        </Button>
+                        {booking.status === 'Not Completed' && canManage && (
+                            <>
+                                <Button variant="ghost" size="icon" className="text-green-500 hover:text-green-600" onClick={() => handleUpdateStatus(booking.id, 'Completed')}>
+                                    <Check className="h-4 w-4" />
+                                    <span className="sr-only">Mark as completed</span>
+                                </Button>
+                                <Button variant="ghost" size="icon" className="text-orange-500 hover:text-orange-600" onClick={() => handleUpdateStatus(booking.id, 'No-Show')}>
+                                    <UserX className="h-4 w-4" />
+                                    <span className="sr-only">Mark as no-show</span>
+                                </Button>
+                            </>
+                        )}
+                        {canManage && (
+                            <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => openDialog('delete', booking)}>
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Delete</span>
+                            </Button>
+                        )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -287,8 +446,7 @@ export default function BookingsPage() {
       <div className="md:hidden space-y-4">
         {bookings.length > 0 ? (
           bookings.map((booking) => {
-            const service = provider?.settings.services?.find(s => s.slug === booking.serviceSlug || s.id === booking.serviceSlug);
-            const serviceTitle = service?.title || booking.serviceType;
+            const serviceTitle = (provider && getBookingTitle(provider.settings, booking)) || booking.serviceType;
             return (
             <Card key={booking.id} className={isPending && (dialogState.booking?.id === booking.id || viewDialogState.booking?.id === booking.id) ? 'opacity-50' : ''}>
               <CardContent className="p-4 space-y-4">
@@ -303,7 +461,16 @@ export default function BookingsPage() {
                 <div className="space-y-2 text-sm">
                     <div className="flex flex-col">
                         <span className="text-muted-foreground text-xs">Service</span>
-                        <span className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''} ({booking.serviceType})</span>
+                        <span className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''}{booking.seats && booking.seats > 1 ? ` (${booking.seats} seats)` : ''} ({booking.serviceType})</span>
+                        {getStaffName(booking) && (
+                            <span className="text-xs text-muted-foreground">with {getStaffName(booking)}</span>
+                        )}
+                        {getSourceName(booking) && (
+                            <span className="text-xs text-muted-foreground">Booked via {getSourceName(booking)}</span>
+                        )}
+                        {booking.recurrence && (
+                            <span className="text-xs text-muted-foreground">Session {(booking.seriesIndex || 0) + 1} of {booking.recurrence.count}</span>
+                        )}
                     </div>
                     <div className="flex flex-col">
                         <span className="text-muted-foreground text-xs">Date</span>
@@ -319,7 +486,7 @@ export default function BookingsPage() {
                  <Button variant="ghost" size="sm" onClick={() => openViewDialog(booking)}>
                     <Eye className="h-4 w-4 mr-2" /> View
                 </Button>
-                 {isUpcoming && (
+                 {isUpcoming && canManage && (
                     <>
                         <Button variant="ghost" size="icon" className="text-green-500 hover:text-green-600" onClick={() => handleUpdateStatus(booking.id, 'Completed')}>
                             <Check className="h-4 w-4" />
@@ -331,10 +498,24 @@ export default function BookingsPage() {
                         </Button>
                     </>
                 )}
-                 <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => openDialog('delete', booking)}>
-                    <Trash2 className="h-4 w-4" />
-                    <span className="sr-only">Delete</span>
-                </Button>
+                 {booking.status === 'Not Completed' && canManage && (
+                    <>
+                        <Button variant="ghost" size="icon" className="text-green-500 hover:text-green-600" onClick={() => handleUpdateStatus(booking.id, 'Completed')}>
+                            <Check className="h-4 w-4" />
+                            <span className="sr-only">Mark as completed</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="text-orange-500 hover:text-orange-600" onClick={() => handleUpdateStatus(booking.id, 'No-Show')}>
+                            <UserX className="h-4 w-4" />
+                            <span className="sr-only">Mark as no-show</span>
+                        </Button>
+                    </>
+                )}
+                 {canManage && (
+                    <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => openDialog('delete', booking)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete</span>
+                    </Button>
+                 )}
               </CardFooter>
             </Card>
           )})
@@ -350,8 +531,7 @@ export default function BookingsPage() {
     if (!booking || !provider) return null;
 
     const payment = booking.payment;
-    const service = provider.settings.services?.find(s => s.slug === booking.serviceSlug || s.id === booking.serviceSlug);
-    const serviceTitle = service?.title || booking.serviceType;
+    const serviceTitle = getBookingTitle(provider.settings, booking) || booking.serviceType;
     const isPaid = payment?.status === 'Paid' && payment.amount && payment.amount > 0;
     const isPayLater = payment?.status === 'Pending' && payment.amount && payment.amount > 0;
     const isFree = !payment || payment.amount === 0;
@@ -389,8 +569,14 @@ export default function BookingsPage() {
                         <div className="flex items-start gap-3">
                             <div className="w-5 text-muted-foreground flex items-center justify-center pt-1"><BadgeCent className="h-5 w-5" /></div>
                             <div>
-                                <p className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''}</p>
+                                <p className="font-medium">{serviceTitle} {booking.quantity && booking.quantity > 1 ? `(x${booking.quantity})` : ''}{booking.seats && booking.seats > 1 ? ` (${booking.seats} seats)` : ''}</p>
                                 <p className="text-muted-foreground text-sm">{booking.serviceType}</p>
+                                {getStaffName(booking) && (
+                                    <p className="text-muted-foreground text-sm">with {getStaffName(booking)}</p>
+                                )}
+                                {getSourceName(booking) && (
+                                    <p className="text-muted-foreground text-sm">Booked via {getSourceName(booking)}</p>
+                                )}
                             </div>
                         </div>
                         <div className="flex items-center gap-3">
@@ -440,6 +626,26 @@ export default function BookingsPage() {
                              </div>
                          )}
                     </div>
+
+                    {booking.intakeAnswers && booking.intakeAnswers.length > 0 && (
+                        <>
+                            <h3 className="font-semibold text-lg pt-2">Intake Answers</h3>
+                            <div className="space-y-3 rounded-lg border bg-muted/50 p-4">
+                                {booking.intakeAnswers.map(answer => (
+                                    <div key={answer.questionId}>
+                                        <p className="text-sm text-muted-foreground">{answer.question}</p>
+                                        {answer.type === 'file' ? (
+                                            <Link href={formatIntakeAnswer(answer)} target="_blank" rel="noopener noreferrer" className="inline-flex items-center font-medium text-primary hover:underline">
+                                                <ExternalLink className="mr-1 h-4 w-4" /> View file
+                                            </Link>
+                                        ) : (
+                                            <p className="font-medium whitespace-pre-wrap">{formatIntakeAnswer(answer)}</p>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
                      
                     <div className="space-y-3 rounded-lg border bg-muted/50 p-4 mt-4">
                         <h3 className="font-semibold text-base mb-2">Payment Details</h3>
@@ -467,6 +673,41 @@ export default function BookingsPage() {
                                 <span className="font-medium">This is a free booking.</span>
                             </div>
                         )}
+                        {payment?.refundDue && (
+                            <p className="text-sm text-destructive">
+                                Refund due: the payment arrived after this booking was no longer available.
+                            </p>
+                        )}
+                        {booking.cancellation && (
+                            <p className="text-sm text-muted-foreground">
+                                Canceled by {booking.cancellation.canceledBy}.
+                                {booking.cancellation.fee > 0 && ` Cancellation fee: ${currency?.symbol}${booking.cancellation.fee.toLocaleString()}.`}
+                                {booking.cancellation.refundAmount > 0 && ` Refund due: ${currency?.symbol}${booking.cancellation.refundAmount.toLocaleString()}.`}
+                            </p>
+                        )}
+                        {booking.decline && (
+                            <p className="text-sm text-muted-foreground">
+                                Declined by {booking.decline.declinedBy}: {booking.decline.reason}
+                            </p>
+                        )}
+                    </div>
+
+                    <h3 className="font-semibold text-lg pt-2">Private Notes</h3>
+                    <div className="rounded-lg border bg-muted/50 p-4">
+                        <BookingNotesPanel
+                            username={provider.username}
+                            bookingId={booking.id}
+                            bookingNotes={bookingNotes[booking.id] || null}
+                            canManage={canManage}
+                            timezone={timezone}
+                            dateFormat={dateFormat}
+                            onChange={notes => setBookingNotes(prev => ({ ...prev, [booking.id]: notes }))}
+                        />
+                    </div>
+
+                    <h3 className="font-semibold text-lg pt-2">Activity</h3>
+                    <div className="rounded-lg border bg-muted/50 p-4">
+                        <BookingActivityTimeline username={provider.username} bookingId={booking.id} timezone={timezone} dateFormat={dateFormat} />
                     </div>
                 </div>
               </div>
@@ -483,90 +724,60 @@ export default function BookingsPage() {
     const booking = rescheduleDialogState.booking;
     const [selectedDate, setSelectedDate] = useState<Date>(booking ? toDate(booking.dateTime) : startOfToday());
     const [selectedTime, setSelectedTime] = useState<string | null>(null);
-    const [dailyBookings, setDailyBookings] = useState<Booking[]>([]);
+    const [month, setMonth] = useState<Date>(selectedDate);
+    const [dayAvailability, setDayAvailability] = useState<DayAvailability | null>(null);
+    const [monthAvailability, setMonthAvailability] = useState<Record<string, AvailabilityDaySummary>>({});
     const [isRescheduling, startRescheduleTransition] = useTransition();
+    const [moveWholeSeries, setMoveWholeSeries] = useState(false);
 
     useEffect(() => {
-        if (provider && selectedDate) {
-            getBookingsForDay(provider.username, selectedDate).then(setDailyBookings);
+        if (provider && booking && selectedDate) {
+            getDayAvailability(provider.username, format(selectedDate, DATE_KEY_FORMAT), {
+                excludeBookingId: booking.id,
+                serviceSlug: booking.serviceSlug,
+                serviceType: booking.serviceType,
+                quantity: booking.quantity,
+                staffId: booking.staffId,
+            }).then(setDayAvailability);
         }
-    }, [provider, selectedDate]);
-    
-     const getPotentialTimeSlots = useCallback((date: Date, provider: Provider): string[] => {
-        if (!date || !provider.settings.workingHours) return [];
-        const dayOfWeek = format(date, 'EEEE').toLowerCase();
-        const workingHours = provider.settings.workingHours[dayOfWeek as keyof typeof provider.settings.workingHours];
-        if (!workingHours) return [];
-        const blockedDates = provider.settings.blockedDates || [];
-        if (blockedDates.includes(format(date, 'yyyy-MM-dd'))) return [];
-
-        const slots = [];
-        const periods = getWorkingPeriods(workingHours);
-        const totalSlotTime = provider.settings.slotDuration + (provider.settings.breakTime || 0);
-
-        const now = new Date();
-        const bookingDelayLimit = add(now, { hours: provider.settings.bookingDelay || 0 });
-        const isSelectedDateToday = isToday(date);
-        
-        for (const period of periods) {
-            let currentTime = parse(period.start, 'HH:mm', startOfDay(date));
-            const endTime = parse(period.end, 'HH:mm', startOfDay(date));
-            while (currentTime < endTime) {
-                let isAvailable = true;
-                if (isSelectedDateToday && currentTime <= bookingDelayLimit) {
-                    isAvailable = false;
-                }
+    }, [provider, booking, selectedDate]);
 
-                if (isAvailable) {
-                  slots.push(format(currentTime, 'p'));
-                }
-                currentTime = add(currentTime, { minutes: totalSlotTime });
-            }
-        }
-        return slots;
-    }, []);
+    useEffect(() => {
+        if (!provider || !booking) return;
+        getAvailabilitySummary(
+            provider.username,
+            format(startOfMonth(month), DATE_KEY_FORMAT),
+            format(endOfMonth(month), DATE_KEY_FORMAT),
+            { excludeBookingId: booking.id, serviceSlug: booking.serviceSlug, serviceType: booking.serviceType, quantity: booking.quantity, staffId: booking.staffId }
+        ).then(summaries => {
+            setMonthAvailability(prev => {
+                const next = { ...prev };
+                summaries.forEach(day => { next[day.date] = day; });
+                return next;
+            });
+        });
+    }, [provider, booking, month]);
 
     const timeSlots = useMemo(() => {
-        if (!provider || !selectedDate) return [];
-        
-        const potentialSlots = getPotentialTimeSlots(selectedDate, provider);
-        const blockedSlotsISO = new Set(provider.settings.blockedSlots || []);
-
-        return potentialSlots.map(time => {
-            const slotDateTime = parse(time, 'p', selectedDate);
-            const slotISO = slotDateTime.toISOString();
-
-            const bookingsInSlot = dailyBookings.filter(b => isEqual(b.dateTime, slotDateTime) && b.id !== booking?.id).length;
-            
-            const isFull = provider.settings.multipleBookingsPerSlot && bookingsInSlot >= provider.settings.bookingsPerSlot;
-            const isSingleBooked = !provider.settings.multipleBookingsPerSlot && bookingsInSlot > 0;
-            const isBooked = isFull || isSingleBooked;
-
-            const isBlocked = blockedSlotsISO.has(slotISO);
-            
-            const availability = provider.settings.multipleBookingsPerSlot
-                ? provider.settings.bookingsPerSlot - bookingsInSlot
-                : isBooked ? 0 : 1;
-
-            return {
-                time,
-                isBooked,
-                isBlocked,
-                availability: Math.max(0, availability)
-            };
-        }).filter(slot => !slot.isBlocked && !slot.isBooked);
-        
-    }, [provider, selectedDate, dailyBookings, booking, getPotentialTimeSlots]);
+        if (!dayAvailability) return [];
+        return dayAvailability.slots.filter(slot => slot.isAvailable);
+    }, [dayAvailability]);
 
     const handleConfirmReschedule = () => {
         if (!provider || !booking || !selectedTime) return;
-        const newDateTime = parse(selectedTime, 'p', selectedDate);
+        const newDateTime = new Date(selectedTime);
 
         startRescheduleTransition(async () => {
-            const result = await rescheduleBooking(provider.username, booking.id, newDateTime);
+            const result = moveWholeSeries && booking.seriesId
+                ? await rescheduleBookingSeries(await getIdToken(), provider.username, booking.id, newDateTime)
+                : await rescheduleBooking(await getIdToken(), provider.username, booking.id, newDateTime);
             if (result.success) {
                 toast({ title: "Booking Rescheduled", description: "The booking has been successfully updated." });
-                handleRescheduleSuccess(booking.id, newDateTime);
+                if ('moved' in result && result.moved) {
+                    handleSeriesRescheduleSuccess(result.moved);
+                } else {
+                    handleRescheduleSuccess(booking.id, newDateTime);
+                }
                 setRescheduleDialogState({ open: false, booking: null });
             } else {
                 toast({ title: "Error", description: result.error, variant: 'destructive' });
@@ -597,10 +808,12 @@ export default function BookingsPage() {
                                     setSelectedTime(null);
                                 }
                             }}
+                            month={month}
+                            onMonthChange={setMonth}
                            disabled={(date) => {
                                 if (date < startOfToday()) return true;
-                                const availableSlots = getPotentialTimeSlots(date, provider);
-                                return availableSlots.length === 0;
+                                const summary = monthAvailability[format(date, DATE_KEY_FORMAT)];
+                                return !!summary && summary.availableSlots === 0;
                            }}
                             className="rounded-md border mx-auto"
                         />
@@ -611,16 +824,15 @@ export default function BookingsPage() {
                             <div className="p-4 grid grid-cols-2 gap-2">
                                 {timeSlots.length > 0 ? timeSlots.map(slot => (
                                     <Button
-                                        key={slot.time}
-                                        variant={selectedTime === slot.time ? "default" : "outline"}
-                                        onClick={() => setSelectedTime(slot.time)}
-                                        disabled={slot.isBooked || slot.isBlocked}
+                                        key={slot.start}
+                                        variant={selectedTime === slot.start ? "default" : "outline"}
+                                        onClick={() => setSelectedTime(slot.start)}
                                         className="relative justify-between"
                                     >
-                                        <span>{slot.time}</span>
-                                          {provider.settings.multipleBookingsPerSlot && slot.availability > 0 && (
+                                        <span>{formatInTimeZone(slot.start, provider.settings.timezone || 'UTC', 'p')}</span>
+                                          {provider.settings.multipleBookingsPerSlot && slot.remaining > 0 && (
                                             <span className="text-xs bg-primary/20 text-primary-foreground rounded-full h-5 w-5 flex items-center justify-center">
-                                              {slot.availability}
+                                              {slot.remaining}
                                             </span>
                                           )}
                                     </Button>
@@ -631,6 +843,12 @@ export default function BookingsPage() {
                         </ScrollArea>
                     </div>
                 </div>
+                {booking.seriesId && (
+                    <div className="flex items-center space-x-2">
+                        <Checkbox id="move-whole-series" checked={moveWholeSeries} onCheckedChange={(checked) => setMoveWholeSeries(checked === true)} />
+                        <Label htmlFor="move-whole-series">Move all upcoming sessions in this series by the same amount</Label>
+                    </div>
+                )}
                 <DialogFooter>
                     <Button variant="outline" onClick={() => setRescheduleDialogState({ open: false, booking: null })}>Cancel</Button>
                     <Button onClick={handleConfirmReschedule} disabled={!selectedTime || isRescheduling}>
@@ -644,8 +862,138 @@ export default function BookingsPage() {
   };
 
 
+  const ApprovalRequestList = ({ requests }: { requests: EnrichedBooking[] }) => (
+    <div className="space-y-3">
+      {requests.map(booking => {
+        const serviceTitle = (provider && getBookingTitle(provider.settings, booking)) || booking.serviceType;
+        return (
+          <div key={booking.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border rounded-md p-3">
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">{booking.customerName} <span className="text-muted-foreground font-normal">· {booking.customerEmail}</span></p>
+              <p className="text-muted-foreground">
+                {serviceTitle} · {formatInTimeZone(booking.dateTime, timezone, dateFormat)} · {formatInTimeZone(booking.dateTime, timezone, 'p')}
+                {getStaffName(booking) && ` · with ${getStaffName(booking)}`}
+              </p>
+              {booking.recurrence && (
+                <p className="text-muted-foreground">Session {(booking.seriesIndex || 0) + 1} of {booking.recurrence.count}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="icon" onClick={() => openViewDialog(booking)}>
+                <Eye className="h-4 w-4" />
+                <span className="sr-only">View</span>
+              </Button>
+              {canManage && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => handleApproveBooking(booking)} disabled={isPending}>
+                    <Check className="mr-2 h-4 w-4" /> Approve
+                  </Button>
+                  <Button variant="outline" size="sm" className="text-red-500 hover:text-red-600" onClick={() => setBookingToDecline(booking)} disabled={isPending}>
+                    <X className="mr-2 h-4 w-4" /> Decline
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const WaitlistTable = ({ entries }: { entries: WaitlistEntry[] }) => {
+    const timezone = provider?.settings.timezone || 'UTC';
+    const dateFormat = provider?.settings.dateFormat || 'PPP';
+
+    if (entries.length === 0) {
+      return <p className="text-sm text-muted-foreground text-center">No one is on the waitlist.</p>;
+    }
+
+    return (
+      <div className="space-y-3">
+        {entries.map(entry => {
+          const service = provider?.settings.services?.find(s => s.slug === entry.serviceSlug || s.id === entry.serviceSlug);
+          const wanted = entry.slot ? formatInTimeZone(entry.slot, timezone, 'p') : 'Any time';
+          return (
+            <div key={entry.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border rounded-md p-3">
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">{entry.customerName} <span className="text-muted-foreground font-normal">· {entry.customerEmail}</span></p>
+                <p className="text-muted-foreground">
+                  {service?.title || entry.serviceType} · {formatInTimeZone(toDate(entry.date, { timeZone: timezone }), timezone, dateFormat)} · {wanted}
+                </p>
+                {entry.status === 'Offered' && entry.offeredSlot && (
+                  <p className="text-muted-foreground">
+                    Offered {formatInTimeZone(entry.offeredSlot, timezone, 'p')}
+                    {entry.offerExpiresAt && ` until ${formatInTimeZone(entry.offerExpiresAt, timezone, `${dateFormat} p`)}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={entry.status === 'Offered' ? 'default' : 'secondary'}>{entry.status}</Badge>
+                {canManage && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => handleOfferWaitlistEntry(entry)} disabled={isPending}>
+                      <BellRing className="mr-2 h-4 w-4" />
+                      {entry.status === 'Offered' ? 'Re-send Offer' : 'Offer Slot'}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => handleRemoveWaitlistEntry(entry)} disabled={isPending}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+
   return (
     <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <div className="relative mr-auto w-full sm:w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search customers, services or notes" className="pl-9" />
+        </div>
+        {staffMembers.length > 0 && (
+          <>
+            <Label htmlFor="staff-filter" className="text-sm text-muted-foreground">Staff</Label>
+            <Select value={staffFilter} onValueChange={setStaffFilter}>
+              <SelectTrigger id="staff-filter" className="w-48"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All staff</SelectItem>
+                {staffMembers.map(member => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        <Button variant="outline" onClick={handleExport} disabled={filteredBookings.length === 0}>
+          <Download className="mr-2 h-4 w-4" /> Export CSV
+        </Button>
+        {canManage && (
+          <Button onClick={() => setIsAddBookingOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Booking
+          </Button>
+        )}
+      </div>
+      {approvalRequests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Awaiting Approval</CardTitle>
+            <CardDescription>
+              Booking requests holding their slot until you decide. Approving sends the customer their confirmation; declining frees the slot.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ApprovalRequestList requests={approvalRequests} />
+          </CardContent>
+        </Card>
+      )}
       <Card>
         <CardHeader>
           <CardTitle>Upcoming Bookings</CardTitle>
@@ -657,11 +1005,24 @@ export default function BookingsPage() {
           <BookingTable bookings={upcomingBookings} isUpcoming={true} />
         </CardContent>
       </Card>
+      {(provider?.settings.waitlistEnabled || waitlist.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Waitlist</CardTitle>
+            <CardDescription>
+              Customers waiting for a fully booked slot. When a booking is canceled or expires, the next person in line is offered the slot automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WaitlistTable entries={waitlist} />
+          </CardContent>
+        </Card>
+      )}
       <Card>
         <CardHeader>
           <CardTitle>Past Bookings</CardTitle>
           <CardDescription>
-            A record of your completed and canceled appointments.
+            A record of your completed, canceled and declined appointments and no-shows.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -671,6 +1032,22 @@ export default function BookingsPage() {
       
       <ViewBookingDialog />
       <RescheduleBookingDialog />
+      {provider && (
+        <AddBookingDialog
+          provider={provider}
+          open={isAddBookingOpen}
+          onOpenChange={setIsAddBookingOpen}
+          onCreated={() => auth.currentUser?.email && fetchData(auth.currentUser.email)}
+        />
+      )}
+      {provider && (
+        <DeclineBookingDialog
+          username={provider.username}
+          booking={bookingToDecline}
+          onOpenChange={(open) => { if (!open) setBookingToDecline(null); }}
+          onDeclined={handleDeclined}
+        />
+      )}
 
        <AlertDialog open={dialogState.open} onOpenChange={(open) => setDialogState({ ...dialogState, open })}>
         <AlertDialogContent>
@@ -682,9 +1059,14 @@ export default function BookingsPage() {
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {dialogState.action === 'cancel' && dialogState.booking?.seriesId && (
+              <AlertDialogAction onClick={() => { handleCancelSeries(dialogState.booking!); setDialogState({ open: false, action: null, booking: null }); }} disabled={isPending}>
+                Cancel Entire Series
+              </AlertDialogAction>
+            )}
             <AlertDialogAction onClick={onConfirmDialog} disabled={isPending}>
               {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Continue
+              {dialogState.action === 'cancel' && dialogState.booking?.seriesId ? 'Cancel This Session' : 'Continue'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -9,10 +9,12 @@ import { Button } from '@/components/ui/button';
 import { Loader2, CheckCircle, XCircle, ExternalLink } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { auth } from '@/lib/firebase';
+import { auth, getIdToken } from '@/lib/firebase';
 import { getProviderByEmail, getProviderByUsername } from '@/lib/data';
 import type { Provider } from '@/lib/types';
 import { getGoogleAuthUrl, getOutlookAuthUrl, disconnectCalendar } from '@/lib/calendar.actions';
+import { CalendarFeedCard } from '@/components/calendar-feed-card';
+import { GoogleBusyCalendarsCard } from '@/components/google-busy-calendars-card';
 
 type ActionType = 'connect-google' | 'disconnect-google' | 'connect-outlook' | 'disconnect-outlook';
 
@@ -125,7 +127,7 @@ export default function CalendarSetupPage() {
         startTransition(async () => {
             let result;
             if (type === 'google') {
-                result = await getGoogleAuthUrl(provider.username);
+                result = await getGoogleAuthUrl(await getIdToken(), provider.username);
             } else {
                 result = await getOutlookAuthUrl();
             }
@@ -150,7 +152,7 @@ export default function CalendarSetupPage() {
         setProcessingAction(action);
 
         startTransition(async () => {
-            const result = await disconnectCalendar(provider.username, type);
+            const result = await disconnectCalendar(await getIdToken(), provider.username, type);
             if(result.success) {
                 toast({ title: 'Success', description: `Disconnected from ${type === 'google' ? 'Google' : 'Outlook'} Calendar.` });
                  // Re-fetch provider data
@@ -176,9 +178,9 @@ export default function CalendarSetupPage() {
             
             <Alert>
                 <ExternalLink className="h-4 w-4" />
-                <AlertTitle>Two-Way Sync Coming Soon!</AlertTitle>
+                <AlertTitle>Two-Way Sync with Google Calendar</AlertTitle>
                 <AlertDescription>
-                    Currently, connecting your calendar will only push new bookings from this platform to your external calendar. The ability to block off time from events in your external calendar is under development.
+                    New bookings are added to your Google Calendar, and events already in it block the matching booking slots. Deleting a booking&apos;s event in Google cancels the booking, and moving it reschedules the booking if the new time is free. Outlook sync is still under development.
                 </AlertDescription>
             </Alert>
             
@@ -204,6 +206,10 @@ export default function CalendarSetupPage() {
                     providerType="outlook"
                 />
             </div>
+
+            {provider.googleCalendar && <GoogleBusyCalendarsCard username={provider.username} />}
+
+            <CalendarFeedCard username={provider.username} />
         </div>
     );
 }
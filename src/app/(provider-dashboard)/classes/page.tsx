@@ -0,0 +1,446 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth, getIdToken } from '@/lib/firebase';
+import { useRouter } from 'next/navigation';
+import { getBookingsByClass, getProviderByEmail, updateProvider } from '@/lib/data';
+import { cancelBooking } from '@/lib/actions';
+import { sendClassMessage } from '@/lib/class.actions';
+import { getClassSeatsTaken } from '@/lib/availability';
+import type { Booking, GroupClass, Provider } from '@/lib/types';
+import { getCurrency } from '@/lib/currencies';
+import { useToast } from '@/hooks/use-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Loader2, PlusCircle, Trash2, Edit, Users, Calendar, Clock, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+
+type ClassFormState = Partial<GroupClass> & { date?: string; time?: string };
+
+const emptyClass: ClassFormState = {
+  title: '',
+  description: '',
+  duration: 60,
+  capacity: 10,
+  pricePerSeat: 0,
+  maxSeatsPerBooking: null,
+  enabled: true,
+};
+
+export default function ClassesPage() {
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+  const [seatsTaken, setSeatsTaken] = useState<Record<string, number>>({});
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [currentClass, setCurrentClass] = useState<ClassFormState | null>(null);
+  const [classToDelete, setClassToDelete] = useState<GroupClass | null>(null);
+
+  const [rosterClass, setRosterClass] = useState<GroupClass | null>(null);
+  const [roster, setRoster] = useState<Booking[]>([]);
+  const [isRosterLoading, setIsRosterLoading] = useState(false);
+  const [messageSubject, setMessageSubject] = useState('');
+  const [messageBody, setMessageBody] = useState('');
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      if (currentUser && currentUser.email) {
+        try {
+          const providerData = await getProviderByEmail(currentUser.email);
+          if (providerData) {
+            setProvider(providerData);
+            const counts: Record<string, number> = {};
+            for (const groupClass of providerData.settings.groupClasses || []) {
+              counts[groupClass.id] = getClassSeatsTaken(groupClass, await getBookingsByClass(providerData.username, groupClass.id));
+            }
+            setSeatsTaken(counts);
+          } else {
+            router.push('/dashboard');
+          }
+        } catch (error) {
+          toast({ title: 'Error', description: 'Could not load your data.', variant: 'destructive' });
+        } finally {
+          setLoading(false);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast]);
+
+  const saveClasses = async (groupClasses: GroupClass[]) => {
+    if (!provider) return;
+    await updateProvider(provider.username, { settings: { ...provider.settings, groupClasses } });
+    setProvider(p => p ? { ...p, settings: { ...p.settings, groupClasses } } : null);
+  };
+
+  const handleOpenForm = (groupClass: GroupClass | null = null) => {
+    if (!provider) return;
+    const timezone = provider.settings.timezone;
+    if (groupClass) {
+      setCurrentClass({
+        ...groupClass,
+        date: formatInTimeZone(groupClass.dateTime, timezone, 'yyyy-MM-dd'),
+        time: formatInTimeZone(groupClass.dateTime, timezone, 'HH:mm'),
+      });
+    } else {
+      const defaultServiceType = provider.settings.serviceTypes.find(st => st.enabled)?.id || 'online';
+      setCurrentClass({ ...emptyClass, serviceTypeId: defaultServiceType, date: '', time: '' });
+    }
+    setIsFormOpen(true);
+  };
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentClass || !provider) return;
+
+    const { date, time, ...fields } = currentClass;
+    if (!date || !time) {
+      toast({ title: 'Validation Error', description: 'Please choose a date and time for the class.', variant: 'destructive' });
+      return;
+    }
+
+    const finalClass: GroupClass = {
+      id: fields.id || uuidv4(),
+      title: fields.title || '',
+      description: fields.description || '',
+      dateTime: fromZonedTime(`${date}T${time}:00`, provider.settings.timezone).toISOString(),
+      duration: fields.duration || 60,
+      capacity: Math.max(1, fields.capacity || 1),
+      pricePerSeat: fields.pricePerSeat ?? 0,
+      maxSeatsPerBooking: fields.maxSeatsPerBooking || null,
+      serviceTypeId: fields.serviceTypeId || 'online',
+      enabled: fields.enabled ?? true,
+    };
+
+    const taken = seatsTaken[finalClass.id] || 0;
+    if (finalClass.capacity < taken) {
+      toast({ title: 'Validation Error', description: `${taken} seats are already booked, so capacity can't be lower than that.`, variant: 'destructive' });
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        const existing = provider.settings.groupClasses || [];
+        const updated = existing.some(c => c.id === finalClass.id)
+          ? existing.map(c => c.id === finalClass.id ? finalClass : c)
+          : [...existing, finalClass];
+        await saveClasses(updated);
+        toast({ title: 'Success', description: `'${finalClass.title}' has been saved.` });
+        setIsFormOpen(false);
+        setCurrentClass(null);
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to save class.', variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!provider || !classToDelete) return;
+    startTransition(async () => {
+      try {
+        await saveClasses((provider.settings.groupClasses || []).filter(c => c.id !== classToDelete.id));
+        toast({ title: 'Success', description: 'Class has been deleted.' });
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to delete class.', variant: 'destructive' });
+      } finally {
+        setClassToDelete(null);
+      }
+    });
+  };
+
+  const openRoster = async (groupClass: GroupClass) => {
+    if (!provider) return;
+    setRosterClass(groupClass);
+    setMessageSubject('');
+    setMessageBody('');
+    setIsRosterLoading(true);
+    try {
+      const bookings = await getBookingsByClass(provider.username, groupClass.id);
+      setRoster(bookings.filter(b => b.status !== 'Pending' && b.status !== 'Expired'));
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load the roster.', variant: 'destructive' });
+    } finally {
+      setIsRosterLoading(false);
+    }
+  };
+
+  const handleCancelAttendee = (booking: Booking) => {
+    if (!provider || !rosterClass) return;
+    startTransition(async () => {
+      const result = await cancelBooking(await getIdToken(), provider.username, booking.id);
+      if (result.success) {
+        setRoster(prev => prev.map(b => b.id === booking.id ? { ...b, status: 'Canceled' } : b));
+        setSeatsTaken(prev => ({ ...prev, [rosterClass.id]: Math.max(0, (prev[rosterClass.id] || 0) - (booking.seats || 1)) }));
+        toast({ title: 'Booking Canceled', description: `${booking.customerName} has been notified.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleSendMessage = () => {
+    if (!provider || !rosterClass) return;
+    startTransition(async () => {
+      const result = await sendClassMessage(await getIdToken(), provider.username, rosterClass.id, messageSubject, messageBody);
+      if (result.success) {
+        toast({ title: 'Message Sent', description: `Your message was emailed to ${result.count} attendee${result.count === 1 ? '' : 's'}.` });
+        setMessageSubject('');
+        setMessageBody('');
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  if (loading || !provider) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  const timezone = provider.settings.timezone;
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+  const currency = getCurrency(provider.settings.currency);
+  const groupClasses = [...(provider.settings.groupClasses || [])].sort((a, b) => a.dateTime.localeCompare(b.dateTime));
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Classes & Events</CardTitle>
+            <CardDescription>Schedule sessions that several customers can book seats in. The class time is blocked for private appointments.</CardDescription>
+          </div>
+          <Button onClick={() => handleOpenForm()}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Class
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {groupClasses.length > 0 ? (
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {groupClasses.map(groupClass => {
+                const taken = seatsTaken[groupClass.id] || 0;
+                const isPast = new Date(groupClass.dateTime) < now;
+                return (
+                  <Card key={groupClass.id} className="flex flex-col">
+                    <CardHeader>
+                      <CardTitle>{groupClass.title}</CardTitle>
+                      <div className="flex flex-col gap-1 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-2"><Calendar className="h-4 w-4" />{formatInTimeZone(groupClass.dateTime, timezone, dateFormat)}</span>
+                        <span className="flex items-center gap-2"><Clock className="h-4 w-4" />{formatInTimeZone(groupClass.dateTime, timezone, 'p')} · {groupClass.duration} min</span>
+                        <span className="flex items-center gap-2"><Users className="h-4 w-4" />{taken} / {groupClass.capacity} seats booked</span>
+                      </div>
+                      <div className="text-lg font-bold">
+                        {groupClass.pricePerSeat > 0 ? `${currency?.symbol}${groupClass.pricePerSeat} / seat` : 'Free'}
+                      </div>
+                    </CardHeader>
+                    <CardContent className="flex-1">
+                      <p className="text-sm text-muted-foreground">{groupClass.description}</p>
+                    </CardContent>
+                    <CardFooter className="flex-col items-start gap-4">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant={groupClass.enabled ? 'default' : 'secondary'}>{groupClass.enabled ? 'Enabled' : 'Disabled'}</Badge>
+                        {isPast && <Badge variant="outline">Past</Badge>}
+                        {taken >= groupClass.capacity && <Badge variant="destructive">Full</Badge>}
+                      </div>
+                      <div className="flex justify-end w-full gap-2 pt-4 border-t">
+                        <Button variant="outline" size="sm" onClick={() => openRoster(groupClass)}><Users className="mr-2 h-3 w-3" />Roster</Button>
+                        <Button variant="outline" size="sm" onClick={() => handleOpenForm(groupClass)}><Edit className="mr-2 h-3 w-3" />Edit</Button>
+                        <Button variant="destructive" size="sm" onClick={() => setClassToDelete(groupClass)}><Trash2 className="mr-2 h-3 w-3" />Delete</Button>
+                      </div>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-12 text-center h-[40vh]">
+              <Users className="h-12 w-12 text-muted-foreground" />
+              <h3 className="mt-4 text-lg font-semibold">No classes scheduled.</h3>
+              <p className="mb-4 mt-2 text-sm text-muted-foreground">Add a class or event that customers can book seats in.</p>
+              <Button onClick={() => handleOpenForm()}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Class
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => { setIsFormOpen(open); if (!open) setCurrentClass(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{currentClass?.id ? 'Edit Class' : 'Add New Class'}</DialogTitle>
+            <DialogDescription>Times are in your timezone ({timezone.replace(/_/g, ' ')}).</DialogDescription>
+          </DialogHeader>
+          {currentClass && (
+            <form onSubmit={handleSave}>
+              <div className="grid gap-4 py-4 max-h-[70vh] overflow-y-auto px-2">
+                <div className="space-y-2">
+                  <Label htmlFor="class-title">Title</Label>
+                  <Input id="class-title" value={currentClass.title || ''} onChange={e => setCurrentClass(c => c ? { ...c, title: e.target.value } : null)} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="class-description">Description</Label>
+                  <Textarea id="class-description" value={currentClass.description || ''} onChange={e => setCurrentClass(c => c ? { ...c, description: e.target.value } : null)} />
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="class-date">Date</Label>
+                    <Input id="class-date" type="date" value={currentClass.date || ''} onChange={e => setCurrentClass(c => c ? { ...c, date: e.target.value } : null)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-time">Start Time</Label>
+                    <Input id="class-time" type="time" value={currentClass.time || ''} onChange={e => setCurrentClass(c => c ? { ...c, time: e.target.value } : null)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-duration">Duration (minutes)</Label>
+                    <Input id="class-duration" type="number" min="1" value={currentClass.duration ?? ''} onChange={e => setCurrentClass(c => c ? { ...c, duration: Number(e.target.value) } : null)} required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="class-capacity">Capacity (seats)</Label>
+                    <Input id="class-capacity" type="number" min="1" value={currentClass.capacity ?? ''} onChange={e => setCurrentClass(c => c ? { ...c, capacity: Number(e.target.value) } : null)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-price">Price per Seat</Label>
+                    <Input id="class-price" type="number" min="0" value={currentClass.pricePerSeat ?? ''} onChange={e => setCurrentClass(c => c ? { ...c, pricePerSeat: Number(e.target.value) } : null)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="class-max-seats">Max Seats per Booking</Label>
+                    <Input id="class-max-seats" type="number" min="1" value={currentClass.maxSeatsPerBooking ?? ''} onChange={e => setCurrentClass(c => c ? { ...c, maxSeatsPerBooking: e.target.value === '' ? null : Number(e.target.value) } : null)} placeholder="No limit" />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Service Type</Label>
+                  <Select value={currentClass.serviceTypeId} onValueChange={value => setCurrentClass(c => c ? { ...c, serviceTypeId: value as GroupClass['serviceTypeId'] } : null)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {provider.settings.serviceTypes.filter(st => st.enabled).map(st => (
+                        <SelectItem key={st.id} value={st.id}>{st.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2 pt-2">
+                  <Switch id="class-enabled" checked={currentClass.enabled} onCheckedChange={checked => setCurrentClass(c => c ? { ...c, enabled: checked } : null)} />
+                  <Label htmlFor="class-enabled">Open for booking</Label>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => { setIsFormOpen(false); setCurrentClass(null); }}>Cancel</Button>
+                <Button type="submit" disabled={isPending}>
+                  {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Class
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rosterClass} onOpenChange={(open) => { if (!open) { setRosterClass(null); setRoster([]); } }}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{rosterClass?.title} Roster</DialogTitle>
+            {rosterClass && (
+              <DialogDescription>
+                {formatInTimeZone(rosterClass.dateTime, timezone, `${dateFormat} p`)} · {seatsTaken[rosterClass.id] || 0} / {rosterClass.capacity} seats booked
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto space-y-6">
+            {isRosterLoading ? (
+              <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin" /></div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Attendee</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Seats</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.length > 0 ? roster.map(booking => (
+                    <TableRow key={booking.id}>
+                      <TableCell>
+                        <div className="font-medium">{booking.customerName}</div>
+                        <div className="text-sm text-muted-foreground">{booking.customerEmail}</div>
+                      </TableCell>
+                      <TableCell>{booking.customerPhone}</TableCell>
+                      <TableCell>{booking.seats || 1}</TableCell>
+                      <TableCell>
+                        <Badge variant={booking.status === 'Canceled' ? 'destructive' : 'default'}>{booking.status}</Badge>
+                        {booking.payment?.status === 'Paid' && <Badge variant="outline" className="ml-1">Paid</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {booking.status === 'Upcoming' && (
+                          <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => handleCancelAttendee(booking)} disabled={isPending}>
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Cancel</span>
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center">No one has booked this class yet.</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+            <Separator />
+            <div className="space-y-3">
+              <h3 className="font-semibold">Message All Attendees</h3>
+              <Input placeholder="Subject" value={messageSubject} onChange={e => setMessageSubject(e.target.value)} />
+              <Textarea placeholder="e.g. Please bring your own mat." rows={4} value={messageBody} onChange={e => setMessageBody(e.target.value)} />
+              <Button onClick={handleSendMessage} disabled={isPending || !messageSubject.trim() || !messageBody.trim()}>
+                {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                Send to Attendees
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!classToDelete} onOpenChange={(open) => { if (!open) setClassToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete "{classToDelete?.title}".
+              {classToDelete && (seatsTaken[classToDelete.id] || 0) > 0 && ' Existing bookings are not canceled automatically; cancel them from the roster first if the class will not take place.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isPending} className="bg-destructive hover:bg-destructive/90">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
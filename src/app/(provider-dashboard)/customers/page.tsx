@@ -0,0 +1,375 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, useTransition } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth, getIdToken } from '@/lib/firebase';
+import { useRouter } from 'next/navigation';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getBookingsByProvider, getCustomerProfiles, getCustomerRestrictions, getProviderByEmail } from '@/lib/data';
+import { liftCustomerRestriction, mergeCustomers, restrictCustomer } from '@/lib/customer.actions';
+import { buildCustomers, findRestrictionsForCustomer, type Customer } from '@/lib/customers';
+import { getCurrency } from '@/lib/currencies';
+import { getTeamRole, hasPermission } from '@/lib/permissions';
+import type { Booking, CustomerProfile, CustomerRestriction, CustomerRestrictionType, Provider } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarPlus, Eye, Loader2, Merge, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AddBookingDialog, type AddBookingInitialValues } from '@/components/add-booking-dialog';
+import { CustomerDetailsDialog } from '@/components/customer-details-dialog';
+
+export default function CustomersPage() {
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [profiles, setProfiles] = useState<CustomerProfile[]>([]);
+  const [restrictions, setRestrictions] = useState<CustomerRestriction[]>([]);
+  const [restrictionEmail, setRestrictionEmail] = useState('');
+  const [restrictionPhone, setRestrictionPhone] = useState('');
+  const [restrictionType, setRestrictionType] = useState<CustomerRestrictionType>('block');
+  const [restrictionReason, setRestrictionReason] = useState('');
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [viewCustomerId, setViewCustomerId] = useState<string | null>(null);
+  const [isMergeAlertOpen, setIsMergeAlertOpen] = useState(false);
+  const [bookAgainValues, setBookAgainValues] = useState<AddBookingInitialValues | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const refresh = useCallback(async (username: string) => {
+    const [bookingsData, profilesData, restrictionsData] = await Promise.all([
+      getBookingsByProvider(username),
+      getCustomerProfiles(username),
+      getCustomerRestrictions(username),
+    ]);
+    setBookings(bookingsData);
+    setProfiles(profilesData);
+    setRestrictions(restrictionsData);
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      if (currentUser && currentUser.email) {
+        try {
+          const providerData = await getProviderByEmail(currentUser.email);
+          if (providerData) {
+            setProvider(providerData);
+            setCanManage(hasPermission(getTeamRole(providerData, currentUser.email), 'bookings:manage'));
+            await refresh(providerData.username);
+          } else {
+            router.push('/dashboard');
+          }
+        } catch (error) {
+          toast({ title: 'Error', description: 'Could not load your customers.', variant: 'destructive' });
+        } finally {
+          setLoading(false);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast, refresh]);
+
+  const customers = useMemo(() => buildCustomers(bookings, profiles), [bookings, profiles]);
+
+  const filteredCustomers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return customers;
+    return customers.filter(customer =>
+      customer.name.toLowerCase().includes(term) ||
+      customer.emails.some(email => email.toLowerCase().includes(term)) ||
+      customer.phones.some(phone => phone.includes(term)) ||
+      customer.tags.some(tag => tag.toLowerCase().includes(term))
+    );
+  }, [customers, search]);
+
+  const viewCustomer = customers.find(customer => customer.id === viewCustomerId) || null;
+  const selectedCustomers = customers.filter(customer => selectedIds.includes(customer.id));
+
+  const toggleSelected = (customerId: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, customerId] : ids.filter(id => id !== customerId));
+  };
+
+  const handleBookAgain = (customer: Customer) => {
+    const lastBooking = customer.bookings[0];
+    setViewCustomerId(null);
+    setBookAgainValues({
+      customerName: customer.name,
+      customerEmail: customer.emails[0] || '',
+      customerPhone: customer.phones[0] || '',
+      serviceSlug: lastBooking.classId ? null : lastBooking.serviceSlug,
+      serviceType: lastBooking.serviceType,
+      staffId: lastBooking.staffId,
+      address: lastBooking.address,
+    });
+  };
+
+  const addRestriction = (restriction: { email?: string; phone?: string; type: CustomerRestrictionType; reason?: string }, onAdded?: () => void) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await restrictCustomer(await getIdToken(), provider.username, restriction);
+      if (result.success && result.restriction) {
+        setRestrictions(prev => [...prev, result.restriction!]);
+        toast({ title: restriction.type === 'block' ? 'Customer Blocked' : 'Prepayment Required', description: 'This applies to new online bookings.' });
+        onAdded?.();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleAddRestriction = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    addRestriction({ email: restrictionEmail, phone: restrictionPhone, type: restrictionType, reason: restrictionReason }, () => {
+      setRestrictionEmail('');
+      setRestrictionPhone('');
+      setRestrictionReason('');
+    });
+  };
+
+  const handleRestrictCustomer = (customer: Customer, type: CustomerRestrictionType) => {
+    addRestriction({ email: customer.emails[0], phone: customer.phones[0], type });
+  };
+
+  const handleLiftRestriction = (restriction: CustomerRestriction) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await liftCustomerRestriction(await getIdToken(), provider.username, restriction.id);
+      if (result.success) {
+        setRestrictions(prev => prev.filter(r => r.id !== restriction.id));
+        toast({ title: 'Restriction Lifted', description: `${restriction.email || restriction.phone} can book online again.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleMerge = () => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await mergeCustomers(await getIdToken(), provider.username, selectedCustomers.map(customer => ({
+        keys: customer.keys,
+        profileIds: customer.profileIds,
+        notes: customer.notes,
+        tags: customer.tags,
+      })));
+      if (result.success) {
+        await refresh(provider.username);
+        setSelectedIds([]);
+        toast({ title: 'Customers Merged', description: `${selectedCustomers.length} customers are now one.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+      setIsMergeAlertOpen(false);
+    });
+  };
+
+  if (loading || !provider) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  const timezone = provider.settings.timezone || 'UTC';
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+  const currency = getCurrency(provider.settings.currency);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Customers</CardTitle>
+          <CardDescription>
+            Everyone who has booked with you, grouped by email or phone number. Merge entries that belong to the same person.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="relative md:w-80">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search name, email, phone or tag" className="pl-9" />
+            </div>
+            {canManage && (
+              <Button variant="outline" onClick={() => setIsMergeAlertOpen(true)} disabled={selectedCustomers.length < 2 || isPending}>
+                <Merge className="mr-2 h-4 w-4" /> Merge Selected ({selectedCustomers.length})
+              </Button>
+            )}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canManage && <TableHead className="w-10"><span className="sr-only">Select</span></TableHead>}
+                <TableHead>Customer</TableHead>
+                <TableHead>Visits</TableHead>
+                <TableHead>Lifetime Value</TableHead>
+                <TableHead>Last Visit</TableHead>
+                <TableHead>No-shows</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCustomers.length > 0 ? filteredCustomers.map(customer => (
+                <TableRow key={customer.id}>
+                  {canManage && (
+                    <TableCell>
+                      <Checkbox checked={selectedIds.includes(customer.id)} onCheckedChange={checked => toggleSelected(customer.id, !!checked)} aria-label={`Select ${customer.name}`} />
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {customer.name}
+                      {findRestrictionsForCustomer(restrictions, customer).map(restriction => (
+                        <Badge key={restriction.id} variant={restriction.type === 'block' ? 'destructive' : 'outline'}>{restriction.type === 'block' ? 'Blocked' : 'Prepay'}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{customer.emails[0] || customer.phones[0]}</div>
+                    {customer.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {customer.tags.map(tag => <Badge key={tag} variant="secondary">{tag}</Badge>)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{customer.visitCount}</TableCell>
+                  <TableCell>{currency?.symbol}{customer.lifetimeValue.toLocaleString()}</TableCell>
+                  <TableCell>{customer.lastVisit ? formatInTimeZone(customer.lastVisit, timezone, dateFormat) : '—'}</TableCell>
+                  <TableCell>{customer.noShowCount > 0 ? <Badge variant="destructive">{customer.noShowCount}</Badge> : 0}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <Button variant="ghost" size="icon" onClick={() => setViewCustomerId(customer.id)}>
+                        <Eye className="h-4 w-4" />
+                        <span className="sr-only">View</span>
+                      </Button>
+                      {canManage && (
+                        <Button variant="ghost" size="icon" onClick={() => handleBookAgain(customer)}>
+                          <CalendarPlus className="h-4 w-4" />
+                          <span className="sr-only">Book again</span>
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 7 : 6} className="text-center h-24">
+                    {customers.length === 0 ? 'Customers appear here once you have bookings.' : 'No customers match your search.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Blocked &amp; Prepay-only</CardTitle>
+          <CardDescription>
+            Blocked customers can&apos;t book online. Prepay-only customers have to pay online when they book a paid service. Matched by email or phone number.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canManage && (
+            <form onSubmit={handleAddRestriction} className="grid gap-4 md:grid-cols-[1fr_1fr_180px] md:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="restriction-email">Email</Label>
+                <Input id="restriction-email" type="email" value={restrictionEmail} onChange={e => setRestrictionEmail(e.target.value)} placeholder="customer@example.com" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restriction-phone">Phone</Label>
+                <Input id="restriction-phone" type="tel" value={restrictionPhone} onChange={e => setRestrictionPhone(e.target.value)} placeholder="+91 98765 43210" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restriction-type">Restriction</Label>
+                <Select value={restrictionType} onValueChange={value => setRestrictionType(value as CustomerRestrictionType)}>
+                  <SelectTrigger id="restriction-type"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Block</SelectItem>
+                    <SelectItem value="prepay">Require prepayment</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="restriction-reason">Reason (only your team sees this)</Label>
+                <Input id="restriction-reason" value={restrictionReason} onChange={e => setRestrictionReason(e.target.value)} placeholder="e.g. Three no-shows in a row" />
+              </div>
+              <Button type="submit" disabled={isPending || (!restrictionEmail && !restrictionPhone)}>
+                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add
+              </Button>
+            </form>
+          )}
+          <div className="space-y-2">
+            {restrictions.map(restriction => (
+              <div key={restriction.id} className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm">
+                <div>
+                  <p className="font-medium">{[restriction.email, restriction.phone].filter(Boolean).join(' · ')}</p>
+                  <p className="text-muted-foreground">
+                    {restriction.type === 'block' ? 'Blocked' : 'Prepayment required'} by {restriction.createdBy} on {formatInTimeZone(restriction.createdAt, timezone, dateFormat)}
+                    {restriction.reason && ` — ${restriction.reason}`}
+                  </p>
+                </div>
+                {canManage && (
+                  <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => handleLiftRestriction(restriction)} disabled={isPending}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Lift restriction</span>
+                  </Button>
+                )}
+              </div>
+            ))}
+            {restrictions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No customers are blocked or prepay-only.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <CustomerDetailsDialog
+        provider={provider}
+        customer={viewCustomer}
+        canManage={canManage}
+        onOpenChange={(open) => { if (!open) setViewCustomerId(null); }}
+        onSaved={() => refresh(provider.username)}
+        onBookAgain={handleBookAgain}
+        restrictions={viewCustomer ? findRestrictionsForCustomer(restrictions, viewCustomer) : []}
+        isRestricting={isPending}
+        onRestrict={handleRestrictCustomer}
+        onLiftRestriction={handleLiftRestriction}
+      />
+
+      <AddBookingDialog
+        provider={provider}
+        open={!!bookAgainValues}
+        onOpenChange={(open) => { if (!open) setBookAgainValues(null); }}
+        onCreated={() => refresh(provider.username)}
+        initialValues={bookAgainValues}
+      />
+
+      <AlertDialog open={isMergeAlertOpen} onOpenChange={setIsMergeAlertOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge {selectedCustomers.length} customers?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedCustomers.map(customer => customer.name).join(', ')} will be shown as one customer with all of their bookings, notes and tags.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
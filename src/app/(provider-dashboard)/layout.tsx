@@ -16,12 +16,12 @@ import {
   SidebarTitle,
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { LayoutDashboard, Settings, User as UserIcon, Loader2, CalendarCheck, LogOut, CreditCard, CalendarX, Home, CalendarDays, Bell, ConciergeBell, Blocks, Star, GalleryHorizontal, Phone, BookOpen } from "lucide-react";
+import { LayoutDashboard, Settings, User as UserIcon, Loader2, CalendarCheck, LogOut, CreditCard, CalendarX, Home, CalendarDays, Bell, ConciergeBell, Blocks, Star, GalleryHorizontal, Phone, BookOpen, Users, UserCog, ShieldCheck, Contact, type LucideIcon } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { auth } from '@/lib/firebase';
-import { onAuthStateChanged, User, signOut } from 'firebase/auth';
+import { onAuthStateChanged, User, signOut, sendEmailVerification } from 'firebase/auth';
 import { useRouter, usePathname } from 'next/navigation';
 import { getProviderByEmail, getAdminSettings, listenForNotifications } from '@/lib/data';
 import type { Provider, SiteSettings, Notification } from '@/lib/types';
@@ -46,12 +46,34 @@ import {
 import Image from 'next/image';
 import { Badge } from '@/components/ui/badge';
 import { NewBookingNotification } from '@/components/new-booking-notification';
+import { canAccessPage, getTeamRole, getTeamRoleName, needsEmailVerification } from '@/lib/permissions';
 
 
 const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
 
 const PROCESSED_NOTIFICATIONS_KEY = 'processedBookingNotifications';
 
+const navItems: { href: string; tooltip: string; label: string; icon: LucideIcon }[] = [
+  { href: '/dashboard', tooltip: 'Dashboard', label: 'Dashboard', icon: LayoutDashboard },
+  { href: '/notifications', tooltip: 'Notifications', label: 'Notifications', icon: Bell },
+  { href: '/bookings', tooltip: 'Bookings', label: 'Bookings', icon: CalendarCheck },
+  { href: '/customers', tooltip: 'Customers', label: 'Customers', icon: Contact },
+  { href: '/services', tooltip: 'Services', label: 'Manage Services', icon: ConciergeBell },
+  { href: '/classes', tooltip: 'Classes & Events', label: 'Classes & Events', icon: Users },
+  { href: '/staff', tooltip: 'Staff', label: 'Staff', icon: UserCog },
+  { href: '/testimonials', tooltip: 'Testimonials', label: 'Testimonials', icon: Star },
+  { href: '/gallery', tooltip: 'Gallery', label: 'Gallery', icon: GalleryHorizontal },
+  { href: '/blog', tooltip: 'Blog', label: 'Blog', icon: BookOpen },
+  { href: '/floating-buttons', tooltip: 'Floating Buttons', label: 'Floating Buttons', icon: Phone },
+  { href: '/slot-management', tooltip: 'Slot Management', label: 'Block Dates & Slots', icon: CalendarX },
+  { href: '/calendar-setup', tooltip: 'Calendar Setup', label: 'Setup Calendar', icon: CalendarDays },
+  { href: '/settings', tooltip: 'Settings', label: 'Setup All Settings', icon: Settings },
+  { href: '/team', tooltip: 'Team', label: 'Team', icon: ShieldCheck },
+  { href: '/profile', tooltip: 'Profile', label: 'Profile', icon: UserIcon },
+  { href: '/subscription', tooltip: 'Subscription', label: 'Subscription', icon: CreditCard },
+  { href: '/payment-setup', tooltip: 'Payment Setup', label: 'Payment Setup', icon: CreditCard },
+];
+
 export default function DashboardLayout({
   children,
 }: {
@@ -177,20 +199,28 @@ export default function DashboardLayout({
     }
   }, [provider?.username]);
 
+  const awaitingVerification = !!provider && needsEmailVerification(provider, user?.email, !!user?.emailVerified);
+  const role = provider && !awaitingVerification ? getTeamRole(provider, user?.email) : null;
+
   useEffect(() => {
     // This effect handles redirection based on plan status once the provider is loaded
-    if (!loading && provider) {
+    if (!loading && provider && !awaitingVerification) {
+      if (!canAccessPage(role, pathname)) {
+        router.replace('/dashboard');
+        return;
+      }
+
       // Lifetime plan users should never be redirected
       if (provider.plan?.duration === 'lifetime') {
         return;
       }
       
       const hasActivePlan = provider.planId && provider.planExpiry && provider.planExpiry > new Date();
-      if (!hasActivePlan && pathname !== '/subscription') {
+      if (!hasActivePlan && pathname !== '/subscription' && canAccessPage(role, '/subscription')) {
         router.push('/subscription');
       }
     }
-  }, [loading, provider, pathname, router]);
+  }, [loading, provider, awaitingVerification, role, pathname, router]);
 
   const handleLogout = async () => {
     try {
@@ -240,10 +270,52 @@ export default function DashboardLayout({
     );
   }
 
+  if (awaitingVerification && user) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-4 p-4 text-center">
+        <p>We sent a verification link to {user.email}. Open it to join {provider.name}, then continue here.</p>
+        <div className="flex gap-2">
+          <Button onClick={async () => { await user.reload(); window.location.reload(); }}>
+            Continue
+          </Button>
+          <Button variant="outline" onClick={async () => {
+            await sendEmailVerification(user);
+            toast({ title: 'Verification Email Sent', description: `Check ${user.email} for the link.` });
+          }}>
+            Resend Link
+          </Button>
+          <Button variant="ghost" onClick={handleLogout}>
+            <LogOut className="mr-2 h-4 w-4" /> Log out
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   // Lifetime plans are always considered active.
   const isLifetime = provider.plan?.duration === 'lifetime';
   const hasActivePlan = isLifetime || (provider.planId && provider.planExpiry && provider.planExpiry > new Date());
   
+  if (!canAccessPage(role, pathname)) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  // Only owners can renew, so everyone else is told to ask one.
+  if (!hasActivePlan && !canAccessPage(role, '/subscription')) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-4 p-4 text-center">
+        <p>The subscription for {provider.name} has expired. Ask an account owner to renew it.</p>
+        <Button variant="outline" onClick={handleLogout}>
+          <LogOut className="mr-2 h-4 w-4" /> Log out
+        </Button>
+      </div>
+    );
+  }
+
   if (!hasActivePlan && pathname !== '/subscription') {
      return (
       <div className="flex h-screen items-center justify-center">
@@ -273,49 +345,11 @@ export default function DashboardLayout({
         </SidebarHeader>
         <SidebarContent>
           <SidebarMenu>
-            <NavMenuItem href="/dashboard" tooltip="Dashboard" icon={LayoutDashboard}>
-              Dashboard
-            </NavMenuItem>
-             <NavMenuItem href="/notifications" tooltip="Notifications" icon={Bell}>
-              Notifications
-            </NavMenuItem>
-            <NavMenuItem href="/bookings" tooltip="Bookings" icon={CalendarCheck}>
-              Bookings
-            </NavMenuItem>
-            <NavMenuItem href="/services" tooltip="Services" icon={ConciergeBell}>
-              Manage Services
-            </NavMenuItem>
-            <NavMenuItem href="/testimonials" tooltip="Testimonials" icon={Star}>
-              Testimonials
-            </NavMenuItem>
-            <NavMenuItem href="/gallery" tooltip="Gallery" icon={GalleryHorizontal}>
-              Gallery
-            </NavMenuItem>
-            <NavMenuItem href="/blog" tooltip="Blog" icon={BookOpen}>
-              Blog
-            </NavMenuItem>
-            <NavMenuItem href="/floating-buttons" tooltip="Floating Buttons" icon={Phone}>
-              Floating Buttons
-            </NavMenuItem>
-            <NavMenuItem href="/slot-management" tooltip="Slot Management" icon={CalendarX}>
-              Block Dates & Slots 
-            </NavMenuItem>
-            <NavMenuItem href="/calendar-setup" tooltip="Calendar Setup" icon={CalendarDays}>
-              Setup Calendar 
-            </NavMenuItem>
-           
-            <NavMenuItem href="/settings" tooltip="Settings" icon={Settings}>
-              Setup All Settings
-            </NavMenuItem>
-            <NavMenuItem href="/profile" tooltip="Profile" icon={UserIcon}>
-              Profile
-            </NavMenuItem>
-            <NavMenuItem href="/subscription" tooltip="Subscription" icon={CreditCard}>
-              Subscription
-            </NavMenuItem>
-            <NavMenuItem href="/payment-setup" tooltip="Payment Setup" icon={CreditCard}>
-              Payment Setup
-            </NavMenuItem>
+            {navItems.filter(item => canAccessPage(role, item.href)).map(item => (
+              <NavMenuItem key={item.href} href={item.href} tooltip={item.tooltip} icon={item.icon}>
+                {item.label}
+              </NavMenuItem>
+            ))}
           </SidebarMenu>
         </SidebarContent>
         <SidebarFooter>
@@ -352,17 +386,26 @@ export default function DashboardLayout({
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      <DropdownMenuLabel>{provider.name}</DropdownMenuLabel>
+                      <DropdownMenuLabel>
+                        {provider.name}
+                        {role && role !== 'owner' && <p className="text-xs font-normal text-muted-foreground">{user?.email} · {getTeamRoleName(role)}</p>}
+                      </DropdownMenuLabel>
                        <DropdownMenuSeparator />
-                      <DropdownMenuItem asChild>
-                        <Link href="/profile">Profile</Link>
-                      </DropdownMenuItem>
-                       <DropdownMenuItem asChild>
-                         <Link href="/subscription">Subscription</Link>
-                      </DropdownMenuItem>
-                      <DropdownMenuItem asChild>
-                         <Link href="/settings">Settings</Link>
-                      </DropdownMenuItem>
+                      {canAccessPage(role, '/profile') && (
+                        <DropdownMenuItem asChild>
+                          <Link href="/profile">Profile</Link>
+                        </DropdownMenuItem>
+                      )}
+                      {canAccessPage(role, '/subscription') && (
+                        <DropdownMenuItem asChild>
+                          <Link href="/subscription">Subscription</Link>
+                        </DropdownMenuItem>
+                      )}
+                      {canAccessPage(role, '/settings') && (
+                        <DropdownMenuItem asChild>
+                          <Link href="/settings">Settings</Link>
+                        </DropdownMenuItem>
+                      )}
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={handleLogout}>
                         <LogOut className="mr-2 h-4 w-4" />
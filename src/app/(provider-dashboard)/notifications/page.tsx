@@ -2,16 +2,18 @@
 'use client';
 
 import { useState, useEffect, useTransition } from 'react';
-import { markAllNotificationsRead, clearAllNotifications, listenForNotifications, getProviderByEmail } from '@/lib/data';
-import type { Notification } from '@/lib/types';
+import { markAllNotificationsRead, clearAllNotifications, listenForNotifications, getProviderByEmail, getBookingsByStatus } from '@/lib/data';
+import { approveBooking } from '@/lib/actions';
+import { getTeamRole, hasPermission } from '@/lib/permissions';
+import type { Booking, Notification } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { onAuthStateChanged } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { auth, getIdToken } from '@/lib/firebase';
 import { useRouter } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Bell, Check, Trash2, UserPlus, Book } from 'lucide-react';
+import { Loader2, Bell, Check, Trash2, UserPlus, Book, Hourglass, X } from 'lucide-react';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
 import {
@@ -25,11 +27,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { cn } from '@/lib/utils';
+import { DeclineBookingDialog } from '@/components/decline-booking-dialog';
 
 const NotificationIcon = ({ type }: { type: Notification['type'] }) => {
     switch (type) {
         case 'new_booking':
             return <Book className="h-5 w-5 text-blue-500" />;
+        case 'booking_request':
+            return <Hourglass className="h-5 w-5 text-amber-500" />;
         case 'new_provider':
              return <UserPlus className="h-5 w-5 text-green-500" />;
         default:
@@ -43,6 +48,10 @@ export default function NotificationsPage() {
     const [isPending, startTransition] = useTransition();
     const [isClearAlertOpen, setIsClearAlertOpen] = useState(false);
     const [username, setUsername] = useState<string | null>(null);
+    const [canManage, setCanManage] = useState(false);
+    // Requests still waiting for a decision, so handled ones lose their buttons.
+    const [approvalRequests, setApprovalRequests] = useState<Booking[]>([]);
+    const [bookingToDecline, setBookingToDecline] = useState<Booking | null>(null);
     const router = useRouter();
     const { toast } = useToast();
 
@@ -55,7 +64,9 @@ export default function NotificationsPage() {
                 if (providerData) {
                     const uname = providerData.username;
                     setUsername(uname);
+                    setCanManage(hasPermission(getTeamRole(providerData, user.email), 'bookings:manage'));
                     setLoading(true);
+                    getBookingsByStatus(uname, 'Awaiting Approval').then(setApprovalRequests);
                     
                     if (unsubscribeNotifications) unsubscribeNotifications();
 
@@ -108,6 +119,26 @@ export default function NotificationsPage() {
         });
     };
 
+    const handleApprove = (booking: Booking) => {
+        if (!username) return;
+        startTransition(async () => {
+            const result = await approveBooking(await getIdToken(), username, booking.id);
+            if (result.success) {
+                handleDecided(result.bookingIds || [booking.id]);
+                toast({ title: 'Booking Approved', description: `${booking.customerName} has been sent a confirmation.` });
+            } else {
+                toast({ title: 'Error', description: result.error, variant: 'destructive' });
+            }
+        });
+    };
+
+    const handleDecided = (bookingIds: string[]) => {
+        setApprovalRequests(current => current.filter(b => !bookingIds.includes(b.id)));
+    };
+
+    const getApprovalRequest = (notification: Notification) =>
+        notification.bookingId ? approvalRequests.find(b => b.id === notification.bookingId) : undefined;
+
     return (
         <div className="space-y-6">
             <Card>
@@ -156,6 +187,16 @@ export default function NotificationsPage() {
                                                     <Link href={notification.link}>View Details</Link>
                                                 </Button>
                                             )}
+                                            {canManage && getApprovalRequest(notification) && (
+                                                <div className="flex gap-2 mt-2">
+                                                    <Button size="sm" variant="outline" onClick={() => handleApprove(getApprovalRequest(notification)!)} disabled={isPending}>
+                                                        <Check className="mr-2 h-4 w-4" /> Approve
+                                                    </Button>
+                                                    <Button size="sm" variant="outline" className="text-red-500 hover:text-red-600" onClick={() => setBookingToDecline(getApprovalRequest(notification)!)} disabled={isPending}>
+                                                        <X className="mr-2 h-4 w-4" /> Decline
+                                                    </Button>
+                                                </div>
+                                            )}
                                         </div>
                                         {!notification.read && (
                                              <div className="h-2 w-2 rounded-full bg-primary mt-2"></div>
@@ -176,6 +217,15 @@ export default function NotificationsPage() {
                 </CardContent>
             </Card>
 
+            {username && (
+                <DeclineBookingDialog
+                    username={username}
+                    booking={bookingToDecline}
+                    onOpenChange={(open) => { if (!open) setBookingToDecline(null); }}
+                    onDeclined={handleDecided}
+                />
+            )}
+
             <AlertDialog open={isClearAlertOpen} onOpenChange={setIsClearAlertOpen}>
                 <AlertDialogContent>
                     <AlertDialogHeader>
@@ -30,7 +30,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import type { Provider } from "@/lib/types";
-import { auth, storage } from "@/lib/firebase";
+import { auth, storage, getIdToken } from "@/lib/firebase";
 import { onAuthStateChanged, User, sendPasswordResetEmail, deleteUser } from "firebase/auth";
 import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from "firebase/storage";
 import { useToast } from "@/hooks/use-toast";
@@ -261,7 +261,7 @@ export default function ProfilePage() {
 
       setChangingUsername(true);
       try {
-          const result = await changeProviderUsername(provider.username, newUsername);
+          const result = await changeProviderUsername(await getIdToken(), provider.username, newUsername);
           if (result.success) {
               toast({ title: "Biolink Updated", description: `Your new public link is now /${newUsername}` });
               setIsUsernameDialogOpen(false);
@@ -393,6 +393,9 @@ export default function ProfilePage() {
   }
   
   const bookingLink = typeof window !== 'undefined' ? `${window.location.origin}/${provider.username}` : '';
+  const widgetSnippet = typeof window !== 'undefined'
+    ? `<div data-brobookme="${provider.username}"></div>\n<script src="${window.location.origin}/embed.js" async></script>`
+    : '';
 
   const lastChangeDate = provider.lastUsernameChange;
   const daysSinceLastChange = lastChangeDate ? differenceInDays(new Date(), lastChangeDate) : null;
@@ -511,6 +514,24 @@ export default function ProfilePage() {
                       </div>
                   </CardContent>
               </Card>
+              <Card>
+                  <CardHeader>
+                      <CardTitle>Website Widget</CardTitle>
+                      <CardDescription>
+                          Paste this into your own website to take bookings there. Add data-service=&quot;your-service-slug&quot; to offer a single service, and data-theme=&quot;dark&quot; or data-primary-color=&quot;#2563eb&quot; to match your site. Stripe checkout opens on a full page and brings customers back to yours afterwards.
+                      </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                      <Textarea value={widgetSnippet} readOnly rows={3} className="font-mono text-xs" />
+                      <Button variant="outline" size="sm" onClick={() => {
+                          navigator.clipboard.writeText(widgetSnippet);
+                          toast({ title: "Copied to clipboard!" });
+                      }}>
+                          <ClipboardCopy className="mr-2 h-4 w-4" />
+                          Copy Code
+                      </Button>
+                  </CardContent>
+              </Card>
               <Card>
                   <CardHeader>
                       <CardTitle>Profile Logo</CardTitle>
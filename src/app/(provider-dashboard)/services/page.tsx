@@ -25,6 +25,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { IntakeQuestionsEditor } from '@/components/intake-questions-editor';
 
 
 const emptyService: Omit<Service, 'id'> = {
@@ -34,11 +35,15 @@ const emptyService: Omit<Service, 'id'> = {
   imageUrl: 'https://picsum.photos/seed/service/400/250',
   price: 0,
   duration: 30,
+  bufferBefore: 0,
+  bufferAfter: 0,
   displayOrder: 0,
   enabled: true,
   assignedServiceTypes: [],
   quantityEnabled: false,
   maxQuantity: 10,
+  requiresApproval: false,
+  intakeQuestions: [],
 };
 
 export default function ServicesPage() {
@@ -371,6 +376,17 @@ export default function ServicesPage() {
                             <Label htmlFor="duration">Service Time (minutes)</Label>
                             <Input id="duration" type="number" value={currentService.duration ?? ''} onChange={e => setCurrentService(s => s ? {...s, duration: Number(e.target.value)} : null)} required />
                         </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="bufferBefore">Buffer Before (minutes)</Label>
+                                <Input id="bufferBefore" type="number" min="0" value={currentService.bufferBefore ?? 0} onChange={e => setCurrentService(s => s ? {...s, bufferBefore: Number(e.target.value)} : null)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="bufferAfter">Buffer After (minutes)</Label>
+                                <Input id="bufferAfter" type="number" min="0" value={currentService.bufferAfter ?? 0} onChange={e => setCurrentService(s => s ? {...s, bufferAfter: Number(e.target.value)} : null)} />
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">Buffers keep time free around each booking, e.g. for travel or preparation. They are not shown to customers.</p>
                          <div className="space-y-2">
                             <Label htmlFor="displayOrder">Display Order</Label>
                             <Input id="displayOrder" type="number" value={currentService.displayOrder ?? ''} onChange={e => setCurrentService(s => s ? {...s, displayOrder: Number(e.target.value)} : null)} required />
@@ -389,6 +405,10 @@ export default function ServicesPage() {
                                 <Input id="maxQuantity" type="number" min="1" value={currentService.maxQuantity ?? 10} onChange={e => setCurrentService(s => s ? {...s, maxQuantity: Number(e.target.value)} : null)} />
                             </div>
                         )}
+                        <div className="flex items-center space-x-2 pt-2">
+                            <Switch id="requiresApproval" checked={currentService.requiresApproval ?? false} onCheckedChange={checked => setCurrentService(s => s ? {...s, requiresApproval: checked} : null)} />
+                            <Label htmlFor="requiresApproval">Require my approval for bookings</Label>
+                        </div>
                          <div className="space-y-2 pt-4">
                              <Label>Assign to Service Types</Label>
                              <div className="space-y-2 rounded-md border p-4">
@@ -493,6 +513,18 @@ export default function ServicesPage() {
                         </div>
                     </div>
                 </div>
+
+                <div className="space-y-4 border-t pt-6">
+                    <div>
+                        <Label className="text-base font-bold">Intake Questions</Label>
+                        <p className="text-sm text-muted-foreground">Asked on the booking form after the customer&apos;s details. Questions set on the service type are asked first.</p>
+                    </div>
+                    <IntakeQuestionsEditor
+                        idPrefix="service"
+                        questions={currentService.intakeQuestions || []}
+                        onChange={questions => setCurrentService(s => s ? {...s, intakeQuestions: questions} : null)}
+                    />
+                </div>
               </div>
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={resetFormState}>Cancel</Button>
@@ -21,7 +21,7 @@ import { auth } from "@/lib/firebase";
 import { onAuthStateChanged, User } from "firebase/auth";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Provider, WorkingHours, ServiceTypeSetting, CustomPageAbout, CustomPageContact, CustomPageCancellation } from "@/lib/types";
+import type { Provider, WorkingHours, ServiceTypeSetting, CustomPageAbout, CustomPageContact, CustomPageCancellation, CancellationRules } from "@/lib/types";
 import { Loader2, Check, ChevronsUpDown, Plus, Trash2 } from "lucide-react";
 import { timezones } from "@/lib/timezones";
 import { currencies, getCurrency, type Currency } from "@/lib/currencies";
@@ -47,7 +47,9 @@ import {
 } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn, getWorkingPeriods } from "@/lib/utils";
+import { DEFAULT_MAX_RECURRING_OCCURRENCES, RECURRING_OCCURRENCES_LIMIT } from "@/lib/recurrence";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { IntakeQuestionsEditor } from "@/components/intake-questions-editor";
 
 
 const STANDARD_DURATIONS = [30, 45, 60, 90];
@@ -129,6 +131,11 @@ export default function SettingsPage() {
   };
 
 
+  const handleCancellationRuleChange = (field: keyof CancellationRules, value: any) => {
+    if (!provider) return;
+    handleSettingsChange('cancellationRules', { ...provider.settings.cancellationRules, [field]: value });
+  };
+
   const handleWorkingHoursChange = (day: keyof WorkingHours, part: 'start' | 'end' | 'enabled', value: string | boolean) => {
       if (!provider) return;
 
@@ -321,6 +328,50 @@ export default function SettingsPage() {
                     <Input id="booking-delay" type="number" value={settings.bookingDelay ?? ''} onChange={(e) => handleSettingsChange('bookingDelay', e.target.value === '' ? null : Number(e.target.value))} />
                     <p className="text-sm text-muted-foreground">Prevent last-minute bookings.</p>
                     </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="booking-horizon">Booking Horizon (in days)</Label>
+                    <Input id="booking-horizon" type="number" min="0" value={settings.bookingHorizonDays ?? ''} onChange={(e) => handleSettingsChange('bookingHorizonDays', e.target.value === '' ? null : Number(e.target.value))} placeholder="No limit" />
+                    <p className="text-sm text-muted-foreground">How far ahead customers can book.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="daily-booking-limit">Daily Booking Limit</Label>
+                    <Input id="daily-booking-limit" type="number" min="0" value={settings.dailyBookingLimit ?? ''} onChange={(e) => handleSettingsChange('dailyBookingLimit', e.target.value === '' ? null : Number(e.target.value))} placeholder="No limit" />
+                    <p className="text-sm text-muted-foreground">Maximum bookings you accept per day.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="recurring-bookings">Recurring Bookings</Label>
+                    <div className="flex items-center space-x-2 h-10">
+                        <Switch id="recurring-bookings" checked={settings.recurringBookingsEnabled ?? false} onCheckedChange={(checked) => handleSettingsChange('recurringBookingsEnabled', checked)} />
+                        <span className="text-sm">{settings.recurringBookingsEnabled ? 'Enabled' : 'Disabled'}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">Let customers book a repeating series, e.g. every week.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="max-recurring-occurrences">Max Sessions per Series</Label>
+                    <Input id="max-recurring-occurrences" type="number" min="2" max={RECURRING_OCCURRENCES_LIMIT} value={settings.maxRecurringOccurrences ?? ''} onChange={(e) => handleSettingsChange('maxRecurringOccurrences', e.target.value === '' ? null : Number(e.target.value))} placeholder={String(DEFAULT_MAX_RECURRING_OCCURRENCES)} disabled={!settings.recurringBookingsEnabled} />
+                    <p className="text-sm text-muted-foreground">Longest series a customer can book at once.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="waitlist-enabled">Waitlist</Label>
+                    <div className="flex items-center space-x-2 h-10">
+                        <Switch id="waitlist-enabled" checked={settings.waitlistEnabled ?? false} onCheckedChange={(checked) => handleSettingsChange('waitlistEnabled', checked)} />
+                        <span className="text-sm">{settings.waitlistEnabled ? 'Enabled' : 'Disabled'}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">Let customers join a waitlist for fully booked slots.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="waitlist-offer-minutes">Waitlist Offer Window (in minutes)</Label>
+                    <Input id="waitlist-offer-minutes" type="number" min="1" value={settings.waitlistOfferMinutes ?? ''} onChange={(e) => handleSettingsChange('waitlistOfferMinutes', e.target.value === '' ? null : Number(e.target.value))} placeholder="120" disabled={!settings.waitlistEnabled} />
+                    <p className="text-sm text-muted-foreground">How long a customer has to claim a freed slot before it passes to the next person.</p>
+                    </div>
+                    <div className="space-y-2">
+                    <Label htmlFor="require-booking-approval">Booking Approval</Label>
+                    <div className="flex items-center space-x-2 h-10">
+                        <Switch id="require-booking-approval" checked={settings.requireBookingApproval ?? false} onCheckedChange={(checked) => handleSettingsChange('requireBookingApproval', checked)} />
+                        <span className="text-sm">{settings.requireBookingApproval ? 'Enabled' : 'Disabled'}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">Hold every new booking until you approve it. You can also turn this on for single services.</p>
+                    </div>
                 </div>
                 </CardContent>
             </Card>
@@ -504,6 +555,28 @@ export default function SettingsPage() {
                                 />
                                 </div>
                             )}
+                            <div className="space-y-2">
+                                <Label htmlFor={`service-daily-limit-${st.id}`}>Daily Limit</Label>
+                                <Input 
+                                    id={`service-daily-limit-${st.id}`}
+                                    type="number"
+                                    min="0"
+                                    value={st.dailyLimit ?? ''}
+                                    onChange={(e) => handleServiceTypeChange(st.id, 'dailyLimit', e.target.value === '' ? null : Number(e.target.value))}
+                                    placeholder="No limit"
+                                    className="max-w-[120px]"
+                                />
+                                <p className="text-sm text-muted-foreground">Maximum {st.name} bookings per day.</p>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Intake Questions</Label>
+                                <p className="text-sm text-muted-foreground">Asked on every {st.name} booking, before any questions set on the service.</p>
+                                <IntakeQuestionsEditor
+                                    idPrefix={`service-type-${st.id}`}
+                                    questions={st.intakeQuestions || []}
+                                    onChange={(questions) => handleServiceTypeChange(st.id, 'intakeQuestions', questions)}
+                                />
+                            </div>
                             </div>
                         )}
                     </div>
@@ -653,6 +726,32 @@ export default function SettingsPage() {
                     </div>
                 </CardContent>
             </Card>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Unpaid Bookings</CardTitle>
+                    <CardDescription>Release slots held by customers who leave the payment page without paying.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="pending-timeout">Payment Timeout (in minutes)</Label>
+                        <Input id="pending-timeout" type="number" min="5" value={settings.pendingBookingTimeoutMinutes ?? ''} onChange={(e) => handleSettingsChange('pendingBookingTimeoutMinutes', e.target.value === '' ? null : Number(e.target.value))} placeholder="30" className="max-w-[120px]" />
+                        <p className="text-sm text-muted-foreground">Bookings that are still unpaid after this time expire and their slot becomes available again.</p>
+                    </div>
+                    <div className="flex items-center justify-between rounded-lg border p-4">
+                        <Label htmlFor="payment-expired-email" className="flex flex-col gap-1">
+                            <span>Send "Complete Your Booking" Email</span>
+                            <span className="font-normal text-muted-foreground">
+                                Email the customer a link to book again when their unpaid booking expires.
+                            </span>
+                        </Label>
+                        <Switch
+                            id="payment-expired-email"
+                            checked={settings.sendPaymentExpiredEmail ?? false}
+                            onCheckedChange={(checked) => handleSettingsChange('sendPaymentExpiredEmail', checked)}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
         </TabsContent>
 
         <TabsContent value="booking-flow" className="mt-6 space-y-6">
@@ -732,6 +831,46 @@ export default function SettingsPage() {
                         <Input id="contact-map" value={settings.customPages?.contact?.mapLink ?? ''} onChange={(e) => handleCustomPageChange('contact', 'mapLink', e.target.value)} />
                     </div>
                 </CardContent>
+            </Card>
+             <Card>
+                <CardHeader>
+                    <CardTitle>Cancellation &amp; Reschedule Rules</CardTitle>
+                    <CardDescription>Enforced when customers change a booking from their confirmation email, and listed on your cancellation policy page.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                        <Label htmlFor="cancellation-cutoff">Cancellation Cutoff (in hours)</Label>
+                        <Input id="cancellation-cutoff" type="number" min="0" value={settings.cancellationRules?.cancellationCutoffHours ?? ''} onChange={(e) => handleCancellationRuleChange('cancellationCutoffHours', e.target.value === '' ? null : Number(e.target.value))} placeholder="Same as booking delay" />
+                        <p className="text-sm text-muted-foreground">Customers can't cancel online closer to the start than this.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="reschedule-cutoff">Reschedule Cutoff (in hours)</Label>
+                        <Input id="reschedule-cutoff" type="number" min="0" value={settings.cancellationRules?.rescheduleCutoffHours ?? ''} onChange={(e) => handleCancellationRuleChange('rescheduleCutoffHours', e.target.value === '' ? null : Number(e.target.value))} placeholder="Same as booking delay" />
+                        <p className="text-sm text-muted-foreground">Customers can't reschedule online closer to the start than this.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="max-reschedules">Reschedule Limit</Label>
+                        <Input id="max-reschedules" type="number" min="0" value={settings.cancellationRules?.maxReschedules ?? ''} onChange={(e) => handleCancellationRuleChange('maxReschedules', e.target.value === '' ? null : Number(e.target.value))} placeholder="No limit" />
+                        <p className="text-sm text-muted-foreground">How many times a customer can reschedule a booking. Set 0 to disable.</p>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="cancellation-fee-type">Cancellation Fee</Label>
+                        <div className="flex gap-2">
+                            <Select value={settings.cancellationRules?.feeType ?? 'none'} onValueChange={(value) => handleCancellationRuleChange('feeType', value)}>
+                                <SelectTrigger id="cancellation-fee-type" className="w-40">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="none">No fee</SelectItem>
+                                    <SelectItem value="fixed">Fixed ({currency?.symbol})</SelectItem>
+                                    <SelectItem value="percentage">Percentage (%)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Input id="cancellation-fee" type="number" min="0" max={settings.cancellationRules?.feeType === 'percentage' ? 100 : undefined} value={settings.cancellationRules?.feeValue ?? ''} onChange={(e) => handleCancellationRuleChange('feeValue', e.target.value === '' ? null : Number(e.target.value))} disabled={(settings.cancellationRules?.feeType ?? 'none') === 'none'} />
+                        </div>
+                        <p className="text-sm text-muted-foreground">Kept from the booking amount when a customer cancels.</p>
+                    </div>
+                </CardContent>
             </Card>
              <Card>
                 <CardHeader>
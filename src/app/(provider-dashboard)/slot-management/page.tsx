@@ -4,22 +4,24 @@
 
 import { useState, useEffect, useMemo, useTransition, useCallback } from 'react';
 import { onAuthStateChanged, User } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
-import { getProviderByEmail, getBookingsForDay } from '@/lib/data';
-import { updateBlockedSlots, updateBlockedDates } from '@/lib/actions';
+import { auth, getIdToken } from '@/lib/firebase';
+import { getProviderByEmail } from '@/lib/data';
+import { updateBlockedSlots, updateBlockedDates, updateDateOverride } from '@/lib/actions';
+import { getAvailabilitySummary, getDayAvailability, getNextAvailableDate } from '@/lib/availability.actions';
+import { DATE_KEY_FORMAT, getWorkingPeriodsForDate } from '@/lib/availability';
 import { useToast } from '@/hooks/use-toast';
 import { notFound, useRouter } from 'next/navigation';
-import type { Provider, Booking } from '@/lib/types';
-import { add, format, parse, startOfDay, isEqual, toDate, startOfToday, addDays } from 'date-fns';
+import type { Provider, DayAvailability, AvailabilityDaySummary, WorkingPeriod } from '@/lib/types';
+import { format, parse, startOfDay, isEqual, toDate, startOfToday, startOfMonth, endOfMonth } from 'date-fns';
 import { formatInTimeZone } from 'date-fns-tz';
 import { Calendar } from '@/components/ui/calendar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Lock, Unlock } from 'lucide-react';
+import { Loader2, Lock, Unlock, Plus, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import { Skeleton } from '@/components/ui/skeleton';
-import { getWorkingPeriods } from '@/lib/utils';
 
 export default function SlotManagementPage() {
   const [user, setUser] = useState<User | null>(null);
@@ -27,59 +29,14 @@ export default function SlotManagementPage() {
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState<Date>(startOfToday());
   const [multiSelectedDates, setMultiSelectedDates] = useState<Date[]>([]);
-  const [dailyBookings, setDailyBookings] = useState<Booking[]>([]);
+  const [month, setMonth] = useState<Date>(startOfToday());
+  const [dayAvailability, setDayAvailability] = useState<DayAvailability | null>(null);
+  const [monthAvailability, setMonthAvailability] = useState<Record<string, AvailabilityDaySummary>>({});
+  const [overridePeriods, setOverridePeriods] = useState<WorkingPeriod[]>([]);
   const [isPending, startTransition] = useTransition();
 
   const { toast } = useToast();
   const router = useRouter();
-  
-  const getTimeSlotsForDate = useCallback((date: Date | undefined, provider: Provider): string[] => {
-    if (!date || !provider.settings.workingHours) return [];
-
-    const dayOfWeek = format(date, 'EEEE').toLowerCase();
-    const workingHours = provider.settings.workingHours[dayOfWeek as keyof typeof provider.settings.workingHours];
-
-    // The logic here is for checking if a day has *potential* slots.
-    // Manual blocking is handled separately by the UI.
-    if (!workingHours) return [];
-
-    const slots = [];
-    const periods = getWorkingPeriods(workingHours);
-    const totalSlotTime = provider.settings.slotDuration + (provider.settings.breakTime || 0);
-
-    const now = new Date();
-    const bookingDelayLimit = add(now, { hours: provider.settings.bookingDelay || 0 });
-
-    for (const period of periods) {
-      let currentTime = parse(period.start, 'HH:mm', startOfDay(date));
-      const endTime = parse(period.end, 'HH:mm', startOfDay(date));
-
-      while (currentTime < endTime) {
-        if (isEqual(startOfDay(date), startOfDay(now))) {
-          if (currentTime > bookingDelayLimit) {
-            slots.push(format(currentTime, 'p'));
-          }
-        } else if (startOfDay(date) > startOfDay(now)) {
-          slots.push(format(currentTime, 'p'));
-        }
-        currentTime = add(currentTime, { minutes: totalSlotTime });
-      }
-    }
-    return slots;
-  }, []);
-
-  const findNextAvailableDate = useCallback((startDate: Date, provider: Provider): Date => {
-      let currentDate = startOfDay(startDate);
-      for (let i = 0; i < 365; i++) {
-          const slots = getTimeSlotsForDate(currentDate, provider);
-          if (slots.length > 0) {
-              return currentDate;
-          }
-          currentDate = addDays(currentDate, 1);
-      }
-      return startOfToday();
-  }, [getTimeSlotsForDate]);
-
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
@@ -90,7 +47,12 @@ export default function SlotManagementPage() {
           if (providerData) {
             setProvider(providerData);
             // Set the initial selected date to the next available day
-            setSelectedDate(findNextAvailableDate(startOfToday(), providerData));
+            const nextDate = await getNextAvailableDate(providerData.username);
+            if (nextDate) {
+              const date = parse(nextDate, DATE_KEY_FORMAT, new Date());
+              setSelectedDate(date);
+              setMonth(date);
+            }
           } else {
             notFound();
           }
@@ -105,62 +67,47 @@ export default function SlotManagementPage() {
     });
 
     return () => unsubscribe();
-  }, [router, toast, findNextAvailableDate]);
+  }, [router, toast]);
   
+  const refreshAvailability = useCallback(() => {
+    if (!provider) return;
+    getDayAvailability(provider.username, format(selectedDate, DATE_KEY_FORMAT)).then(setDayAvailability);
+    getAvailabilitySummary(
+      provider.username,
+      format(startOfMonth(month), DATE_KEY_FORMAT),
+      format(endOfMonth(month), DATE_KEY_FORMAT)
+    ).then(summaries => {
+      setMonthAvailability(prev => {
+        const next = { ...prev };
+        summaries.forEach(day => { next[day.date] = day; });
+        return next;
+      });
+    });
+  }, [provider?.username, selectedDate, month]);
+
   useEffect(() => {
-      if (provider) {
-          getBookingsForDay(provider.username, selectedDate).then(setDailyBookings);
-      }
-  }, [provider, selectedDate]);
+    refreshAvailability();
+  }, [refreshAvailability]);
   
   const timeSlots = useMemo(() => {
-    if (!provider || !selectedDate) return [];
-
-    const dayOfWeek = format(selectedDate, 'EEEE').toLowerCase();
-    const workingHours = provider.settings.workingHours[dayOfWeek as keyof typeof provider.settings.workingHours];
-    const isDayBlocked = (provider.settings.blockedDates || []).includes(format(selectedDate, 'yyyy-MM-dd'));
-
-    if (!workingHours || isDayBlocked) return [];
-
-    const slots = [];
-    const periods = getWorkingPeriods(workingHours);
-    const totalSlotTime = provider.settings.slotDuration + (provider.settings.breakTime || 0);
-
-    const now = new Date();
-    const bookingDelayLimit = add(now, { hours: provider.settings.bookingDelay || 0 });
-
-    for (const period of periods) {
-      let currentTime = parse(period.start, 'HH:mm', startOfDay(selectedDate));
-      const endTime = parse(period.end, 'HH:mm', startOfDay(selectedDate));
-
-      while (currentTime < endTime) {
-        if (isEqual(startOfDay(selectedDate), startOfDay(now))) {
-          if (currentTime > bookingDelayLimit) {
-              slots.push(format(currentTime, 'p'));
-          }
-        } else if (startOfDay(selectedDate) > startOfDay(now)) {
-          slots.push(format(currentTime, 'p'));
-        }
-        currentTime = add(currentTime, { minutes: totalSlotTime });
-      }
-    }
-    return slots;
-  }, [selectedDate, provider]);
+    if (!dayAvailability || dayAvailability.isDateBlocked) return [];
+    // Slots inside the lead time can no longer be booked, so there is nothing to manage.
+    return dayAvailability.slots.filter(slot => !slot.isWithinLeadTime);
+  }, [dayAvailability]);
   
-  const handleToggleSlot = (slot: string) => {
+  const handleToggleSlot = (slotISO: string) => {
     if (!provider || !selectedDate) return;
-    const slotDateTime = parse(slot, 'p', selectedDate);
-    const slotISO = slotDateTime.toISOString();
     
     const isBlocked = provider.settings.blockedSlots?.includes(slotISO);
 
     startTransition(async () => {
-        const result = await updateBlockedSlots(provider.username, slotISO, !isBlocked);
+        const result = await updateBlockedSlots(await getIdToken(), provider.username, slotISO, !isBlocked);
         if (result.success) {
             const newBlockedSlots = isBlocked 
                 ? provider.settings.blockedSlots?.filter(s => s !== slotISO) 
                 : [...(provider.settings.blockedSlots || []), slotISO];
             setProvider(p => p ? { ...p, settings: { ...p.settings, blockedSlots: newBlockedSlots } } : null);
+            refreshAvailability();
             toast({ title: "Success", description: `Slot has been ${isBlocked ? 'unblocked' : 'blocked'}.` });
         } else {
             toast({ title: "Error", description: result.error, variant: 'destructive' });
@@ -172,7 +119,7 @@ export default function SlotManagementPage() {
       if (!provider || multiSelectedDates.length === 0) return;
       const dateStrings = multiSelectedDates.map(d => format(d, 'yyyy-MM-dd'));
       startTransition(async () => {
-        const result = await updateBlockedDates(provider.username, dateStrings, shouldBlock);
+        const result = await updateBlockedDates(await getIdToken(), provider.username, dateStrings, shouldBlock);
         if (result.success) {
             const currentBlocked = new Set(provider.settings.blockedDates || []);
             if (shouldBlock) {
@@ -182,6 +129,7 @@ export default function SlotManagementPage() {
             }
              setProvider(p => p ? { ...p, settings: { ...p.settings, blockedDates: Array.from(currentBlocked) } } : null);
              setMultiSelectedDates([]);
+             refreshAvailability();
              toast({ title: "Success", description: `Dates have been ${shouldBlock ? 'blocked' : 'unblocked'}.` });
         } else {
             toast({ title: "Error", description: result.error, variant: 'destructive' });
@@ -189,6 +137,49 @@ export default function SlotManagementPage() {
     });
   }
 
+  const selectedDateKey = format(selectedDate, DATE_KEY_FORMAT);
+  const hasDateOverride = !!provider?.settings.dateOverrides?.[selectedDateKey];
+
+  useEffect(() => {
+    if (provider) {
+      setOverridePeriods(getWorkingPeriodsForDate(provider.settings, selectedDateKey));
+    }
+  }, [provider, selectedDateKey]);
+
+  const handleOverridePeriodChange = (index: number, part: 'start' | 'end', value: string) => {
+    setOverridePeriods(periods => periods.map((p, idx) => idx === index ? { ...p, [part]: value } : p));
+  };
+
+  const handleOverridePeriodAdd = () => {
+    setOverridePeriods(periods => {
+      const lastEnd = periods[periods.length - 1]?.end;
+      const [h] = (lastEnd || '08:00').split(':').map(Number);
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const startH = Math.min(22, h + 1);
+      return [...periods, { start: `${pad(startH)}:00`, end: `${pad(Math.min(23, startH + 2))}:00` }];
+    });
+  };
+
+  const handleSaveDateOverride = (periods: WorkingPeriod[] | null) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await updateDateOverride(await getIdToken(), provider.username, selectedDateKey, periods);
+      if (result.success) {
+        const dateOverrides = { ...(provider.settings.dateOverrides || {}) };
+        if (periods === null) {
+          delete dateOverrides[selectedDateKey];
+        } else {
+          dateOverrides[selectedDateKey] = periods;
+        }
+        setProvider(p => p ? { ...p, settings: { ...p.settings, dateOverrides } } : null);
+        refreshAvailability();
+        toast({ title: "Success", description: periods === null ? "Weekly hours restored for this date." : "Custom hours saved for this date." });
+      } else {
+        toast({ title: "Error", description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
   const onDayClickHandler = (day: Date) => {
     setSelectedDate(day);
     const dateIndex = multiSelectedDates.findIndex(d => isEqual(startOfDay(d), startOfDay(day)));
@@ -241,14 +232,18 @@ export default function SlotManagementPage() {
                             selected={multiSelectedDates}
                             onSelect={(dates) => setMultiSelectedDates(dates || [])}
                             onDayClick={onDayClickHandler}
-                            disabled={(date) => {
-                                // A date is disabled if it's in the past or has no potential slots based on working hours.
-                                if (date < startOfToday()) return true;
-                                const availableSlots = getTimeSlotsForDate(date, provider);
-                                return availableSlots.length === 0;
+                            month={month}
+                            onMonthChange={setMonth}
+                            // Days without working hours stay selectable so custom hours can be added to them.
+                            disabled={(date) => date < startOfToday()}
+                            modifiers={{
+                                blocked: blockedDates,
+                                closed: (date) => monthAvailability[format(date, DATE_KEY_FORMAT)]?.openSlots === 0,
+                            }}
+                            modifiersStyles={{
+                                blocked: { backgroundColor: 'hsl(var(--destructive) / 0.2)', color: 'hsl(var(--destructive))', },
+                                closed: { opacity: 0.5 },
                             }}
-                            modifiers={{ blocked: blockedDates }}
-                            modifiersStyles={{ blocked: { backgroundColor: 'hsl(var(--destructive) / 0.2)', color: 'hsl(var(--destructive))', } }}
                             className="rounded-md border"
                         />
                         <div className="flex gap-2 mt-4 w-full">
@@ -257,6 +252,44 @@ export default function SlotManagementPage() {
                         </div>
                     </CardContent>
                 </Card>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Custom Hours</CardTitle>
+                        <CardDescription>
+                            {hasDateOverride
+                                ? `Custom hours are set for ${format(selectedDate, dateFormat)}. They apply to your staff too.`
+                                : `${format(selectedDate, dateFormat)} uses your weekly working hours. Change them here for this date only, for you and your staff.`}
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {overridePeriods.map((period, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <Input type="time" value={period.start} onChange={(e) => handleOverridePeriodChange(index, 'start', e.target.value)} />
+                                <span className="text-muted-foreground text-sm">to</span>
+                                <Input type="time" value={period.end} onChange={(e) => handleOverridePeriodChange(index, 'end', e.target.value)} />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setOverridePeriods(periods => periods.filter((_, idx) => idx !== index))}
+                                    className="h-9 w-9 shrink-0 text-destructive hover:text-destructive/80 hover:bg-destructive/10"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                        {overridePeriods.length === 0 && (
+                            <p className="text-muted-foreground text-sm italic">Closed on this date.</p>
+                        )}
+                        <Button type="button" variant="outline" size="sm" onClick={handleOverridePeriodAdd} className="flex items-center gap-1 w-fit">
+                            <Plus className="h-3.5 w-3.5" /> Add Time Slot
+                        </Button>
+                        <div className="flex gap-2 pt-2">
+                            <Button onClick={() => handleSaveDateOverride(overridePeriods)} className="flex-1" disabled={isPending}>Save Hours</Button>
+                            <Button onClick={() => handleSaveDateOverride(null)} className="flex-1" variant="outline" disabled={isPending || !hasDateOverride}>Use Weekly Hours</Button>
+                        </div>
+                    </CardContent>
+                </Card>
             </div>
             <div className="md:col-span-2">
                  <Card>
@@ -268,24 +301,22 @@ export default function SlotManagementPage() {
                         <ScrollArea className="h-[400px]">
                         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 pr-4">
                             {timeSlots.length > 0 ? timeSlots.map(slot => {
-                                const slotDateTime = parse(slot, 'p', selectedDate);
-                                const isBooked = dailyBookings.some(b => isEqual(b.dateTime, slotDateTime));
-                                const isBlocked = provider.settings.blockedSlots?.includes(slotDateTime.toISOString());
-                                const isDayBlocked = blockedDateStrings.has(format(selectedDate, 'yyyy-MM-dd'));
-                                const isPast = slotDateTime < new Date();
+                                const isBooked = slot.booked > 0;
+                                const isBlocked = provider.settings.blockedSlots?.includes(slot.start);
+                                const isDayBlocked = blockedDateStrings.has(format(selectedDate, DATE_KEY_FORMAT));
                                 
-                                const isDisabled = isBooked || isDayBlocked || isPast;
+                                const isDisabled = isBooked || isDayBlocked;
 
                                 return (
                                     <Button 
-                                        key={slot}
+                                        key={slot.start}
                                         variant={isBlocked ? "destructive" : "outline"}
-                                        onClick={() => handleToggleSlot(slot)}
+                                        onClick={() => handleToggleSlot(slot.start)}
                                         disabled={isDisabled || isPending}
                                         className="flex items-center justify-between gap-2 h-12"
                                     >
                                         <div className="flex flex-col items-start">
-                                            <span>{slot}</span>
+                                            <span>{formatInTimeZone(slot.start, timezone, 'p')}</span>
                                             {isBooked && <Badge variant="secondary" className="text-xs">Booked</Badge>}
                                             {isDayBlocked && <Badge variant="destructive" className="text-xs">Day Blocked</Badge>}
                                             {isBlocked && !isDayBlocked && <Badge variant="outline" className="text-xs bg-destructive-foreground text-destructive">Blocked</Badge>}
@@ -0,0 +1,413 @@
+'use client';
+
+import { useEffect, useState, useTransition, Suspense } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth, getIdToken } from '@/lib/firebase';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getProviderByEmail, updateProvider } from '@/lib/data';
+import { disconnectCalendar, getGoogleAuthUrl } from '@/lib/calendar.actions';
+import type { Provider, StaffMember, WorkingHours } from '@/lib/types';
+import { getWorkingPeriods } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { v4 as uuidv4 } from 'uuid';
+import { format, parse } from 'date-fns';
+import { Loader2, PlusCircle, Trash2, Edit, UserCog, Plus, CalendarCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+
+const orderedDays: (keyof WorkingHours)[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function StaffComponent() {
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [currentMember, setCurrentMember] = useState<Partial<StaffMember> | null>(null);
+  const [memberToDelete, setMemberToDelete] = useState<StaffMember | null>(null);
+  const [newBlockedDate, setNewBlockedDate] = useState('');
+
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      if (currentUser && currentUser.email) {
+        try {
+          const providerData = await getProviderByEmail(currentUser.email);
+          if (providerData) {
+            setProvider(providerData);
+          } else {
+            router.push('/dashboard');
+          }
+        } catch (error) {
+          toast({ title: 'Error', description: 'Could not load your data.', variant: 'destructive' });
+        } finally {
+          setLoading(false);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast]);
+
+  useEffect(() => {
+    const error = searchParams.get('error');
+    if (error) {
+      toast({ title: 'Connection Failed', description: error, variant: 'destructive' });
+      router.replace('/staff');
+    }
+  }, [searchParams, router, toast]);
+
+  const saveStaff = async (staff: StaffMember[]) => {
+    if (!provider) return;
+    await updateProvider(provider.username, { settings: { ...provider.settings, staff } });
+    setProvider(p => p ? { ...p, settings: { ...p.settings, staff } } : null);
+  };
+
+  const handleOpenForm = (member: StaffMember | null = null) => {
+    if (!provider) return;
+    setCurrentMember(member ? { ...member } : {
+      name: '',
+      email: '',
+      workingHours: { ...provider.settings.workingHours },
+      blockedDates: [],
+      serviceIds: [],
+      enabled: true,
+    });
+    setNewBlockedDate('');
+    setIsFormOpen(true);
+  };
+
+  const updateHours = (day: keyof WorkingHours, periods: WorkingHours[string]) => {
+    setCurrentMember(m => m ? { ...m, workingHours: { ...m.workingHours, [day]: periods } } : null);
+  };
+
+  const handleServiceToggle = (serviceId: string, checked: boolean) => {
+    setCurrentMember(m => {
+      if (!m) return null;
+      const existing = m.serviceIds || [];
+      return { ...m, serviceIds: checked ? [...existing, serviceId] : existing.filter(id => id !== serviceId) };
+    });
+  };
+
+  const handleAddBlockedDate = () => {
+    if (!newBlockedDate) return;
+    setCurrentMember(m => m ? { ...m, blockedDates: Array.from(new Set([...(m.blockedDates || []), newBlockedDate])).sort() } : null);
+    setNewBlockedDate('');
+  };
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!currentMember || !provider) return;
+
+    const existing = provider.settings.staff || [];
+    const finalMember: StaffMember = {
+      id: currentMember.id || uuidv4(),
+      name: currentMember.name?.trim() || '',
+      email: currentMember.email?.trim() || '',
+      workingHours: currentMember.workingHours || {},
+      blockedDates: currentMember.blockedDates || [],
+      serviceIds: currentMember.serviceIds || [],
+      enabled: currentMember.enabled ?? true,
+      displayOrder: currentMember.displayOrder ?? existing.length,
+    };
+
+    startTransition(async () => {
+      try {
+        const updated = existing.some(m => m.id === finalMember.id)
+          ? existing.map(m => m.id === finalMember.id ? finalMember : m)
+          : [...existing, finalMember];
+        await saveStaff(updated);
+        toast({ title: 'Success', description: `${finalMember.name} has been saved.` });
+        setIsFormOpen(false);
+        setCurrentMember(null);
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to save staff member.', variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!provider || !memberToDelete) return;
+    startTransition(async () => {
+      try {
+        await saveStaff((provider.settings.staff || []).filter(m => m.id !== memberToDelete.id));
+        if (provider.staffCalendars?.[memberToDelete.id]) {
+          await disconnectCalendar(await getIdToken(), provider.username, 'google', memberToDelete.id);
+        }
+        toast({ title: 'Success', description: 'Staff member has been removed.' });
+      } catch (error) {
+        toast({ title: 'Error', description: 'Failed to remove staff member.', variant: 'destructive' });
+      } finally {
+        setMemberToDelete(null);
+      }
+    });
+  };
+
+  const handleConnectCalendar = (member: StaffMember) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await getGoogleAuthUrl(await getIdToken(), provider.username, member.id);
+      if (result.success && result.url) {
+        window.location.href = result.url;
+      } else {
+        toast({ title: 'Error', description: result.error || 'Could not get authentication URL.', variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleDisconnectCalendar = (member: StaffMember) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await disconnectCalendar(await getIdToken(), provider.username, 'google', member.id);
+      if (result.success) {
+        setProvider(p => p ? { ...p, staffCalendars: { ...p.staffCalendars, [member.id]: null } } : null);
+        toast({ title: 'Disconnected', description: `${member.name}'s Google Calendar has been disconnected.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  if (loading || !provider) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  const staff = [...(provider.settings.staff || [])].sort((a, b) => a.displayOrder - b.displayOrder);
+  const services = provider.settings.services || [];
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Staff</CardTitle>
+            <CardDescription>
+              Add the people customers can book. Once a staff member is enabled, bookings use their hours instead of the working hours in your settings.
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenForm()}>
+            <PlusCircle className="mr-2 h-4 w-4" /> Add Staff Member
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {staff.length > 0 ? (
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {staff.map(member => {
+                const workingDays = orderedDays.filter(day => getWorkingPeriods(member.workingHours[day]).length > 0);
+                const assignedServices = services.filter(s => member.serviceIds?.includes(s.id));
+                const isCalendarConnected = !!provider.staffCalendars?.[member.id];
+                return (
+                  <Card key={member.id} className="flex flex-col">
+                    <CardHeader>
+                      <CardTitle>{member.name}</CardTitle>
+                      {member.email && <CardDescription>{member.email}</CardDescription>}
+                    </CardHeader>
+                    <CardContent className="flex-1 space-y-2 text-sm">
+                      <p>
+                        <span className="text-muted-foreground">Works: </span>
+                        {workingDays.length > 0 ? workingDays.map(day => String(day).slice(0, 3)).join(', ') : 'No working days'}
+                      </p>
+                      <p>
+                        <span className="text-muted-foreground">Services: </span>
+                        {assignedServices.length > 0 ? assignedServices.map(s => s.title).join(', ') : 'All services'}
+                      </p>
+                      <div className="flex items-center gap-2 pt-2">
+                        <CalendarCheck className="h-4 w-4 text-muted-foreground" />
+                        {isCalendarConnected ? (
+                          <>
+                            <span className="text-green-600">Google Calendar connected</span>
+                            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleDisconnectCalendar(member)} disabled={isPending}>Disconnect</Button>
+                          </>
+                        ) : (
+                          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => handleConnectCalendar(member)} disabled={isPending}>Connect Google Calendar</Button>
+                        )}
+                      </div>
+                    </CardContent>
+                    <CardFooter className="flex-col items-start gap-4">
+                      <Badge variant={member.enabled ? 'default' : 'secondary'}>{member.enabled ? 'Bookable' : 'Disabled'}</Badge>
+                      <div className="flex justify-end w-full gap-2 pt-4 border-t">
+                        <Button variant="outline" size="sm" onClick={() => handleOpenForm(member)}><Edit className="mr-2 h-3 w-3" />Edit</Button>
+                        <Button variant="destructive" size="sm" onClick={() => setMemberToDelete(member)}><Trash2 className="mr-2 h-3 w-3" />Delete</Button>
+                      </div>
+                    </CardFooter>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed p-12 text-center h-[40vh]">
+              <UserCog className="h-12 w-12 text-muted-foreground" />
+              <h3 className="mt-4 text-lg font-semibold">No staff members yet.</h3>
+              <p className="mb-4 mt-2 text-sm text-muted-foreground">Bookings use your own working hours until you add staff.</p>
+              <Button onClick={() => handleOpenForm()}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Staff Member
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => { setIsFormOpen(open); if (!open) setCurrentMember(null); }}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{currentMember?.id ? 'Edit Staff Member' : 'Add Staff Member'}</DialogTitle>
+            <DialogDescription>Hours are in your timezone ({provider.settings.timezone.replace(/_/g, ' ')}).</DialogDescription>
+          </DialogHeader>
+          {currentMember && (
+            <form onSubmit={handleSave}>
+              <div className="grid gap-4 py-4 max-h-[70vh] overflow-y-auto px-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="staff-name">Name</Label>
+                    <Input id="staff-name" value={currentMember.name || ''} onChange={e => setCurrentMember(m => m ? { ...m, name: e.target.value } : null)} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="staff-email">Email</Label>
+                    <Input id="staff-email" type="email" value={currentMember.email || ''} onChange={e => setCurrentMember(m => m ? { ...m, email: e.target.value } : null)} placeholder="Gets notified of their bookings" />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch id="staff-enabled" checked={currentMember.enabled} onCheckedChange={checked => setCurrentMember(m => m ? { ...m, enabled: checked } : null)} />
+                  <Label htmlFor="staff-enabled">Customers can book this person</Label>
+                </div>
+
+                <Separator />
+                <div className="space-y-2">
+                  <Label>Services</Label>
+                  <p className="text-xs text-muted-foreground">Leave all unchecked if this person performs every service.</p>
+                  {services.length > 0 ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {services.map(service => (
+                        <div key={service.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`staff-service-${service.id}`}
+                            checked={currentMember.serviceIds?.includes(service.id)}
+                            onCheckedChange={checked => handleServiceToggle(service.id, !!checked)}
+                          />
+                          <Label htmlFor={`staff-service-${service.id}`} className="font-normal">{service.title}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">You haven't added any services.</p>
+                  )}
+                </div>
+
+                <Separator />
+                <div className="space-y-3">
+                  <Label>Working Hours</Label>
+                  {orderedDays.map(day => {
+                    const periods = getWorkingPeriods(currentMember.workingHours?.[day]);
+                    const isEnabled = periods.length > 0;
+                    return (
+                      <div key={day} className="grid grid-cols-3 items-start gap-4 border-b pb-3 last:border-b-0">
+                        <div className="flex items-center space-x-2 pt-2">
+                          <Switch
+                            id={`staff-${day}`}
+                            checked={isEnabled}
+                            onCheckedChange={checked => updateHours(day, checked ? [{ start: '09:00', end: '17:00' }] : null)}
+                          />
+                          <Label htmlFor={`staff-${day}`} className="capitalize">{day}</Label>
+                        </div>
+                        <div className="col-span-2 space-y-2">
+                          {isEnabled ? periods.map((period, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                              <Input type="time" value={period.start} onChange={e => updateHours(day, periods.map((p, i) => i === index ? { ...p, start: e.target.value } : p))} />
+                              <span className="text-muted-foreground text-sm">to</span>
+                              <Input type="time" value={period.end} onChange={e => updateHours(day, periods.map((p, i) => i === index ? { ...p, end: e.target.value } : p))} />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => updateHours(day, periods.filter((_, i) => i !== index))}
+                                disabled={periods.length <= 1}
+                                className="h-9 w-9 text-destructive hover:text-destructive/80 hover:bg-destructive/10"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )) : (
+                            <span className="text-muted-foreground text-sm italic pt-2 block">Day off</span>
+                          )}
+                          {isEnabled && (
+                            <Button type="button" variant="outline" size="sm" className="flex items-center gap-1 w-fit" onClick={() => updateHours(day, [...periods, { start: periods[periods.length - 1].end, end: '17:00' }])}>
+                              <Plus className="h-3.5 w-3.5" /> Add Time Slot
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <Separator />
+                <div className="space-y-2">
+                  <Label htmlFor="staff-blocked-date">Days Off</Label>
+                  <div className="flex gap-2">
+                    <Input id="staff-blocked-date" type="date" value={newBlockedDate} onChange={e => setNewBlockedDate(e.target.value)} />
+                    <Button type="button" variant="outline" onClick={handleAddBlockedDate} disabled={!newBlockedDate}>Add</Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {(currentMember.blockedDates || []).map(date => (
+                      <Badge key={date} variant="secondary" className="gap-1">
+                        {format(parse(date, 'yyyy-MM-dd', new Date()), dateFormat)}
+                        <button type="button" onClick={() => setCurrentMember(m => m ? { ...m, blockedDates: (m.blockedDates || []).filter(d => d !== date) } : null)}>
+                          <X className="h-3 w-3" />
+                          <span className="sr-only">Remove</span>
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => { setIsFormOpen(false); setCurrentMember(null); }}>Cancel</Button>
+                <Button type="submit" disabled={isPending}>
+                  {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Save Staff Member
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!memberToDelete} onOpenChange={(open) => { if (!open) setMemberToDelete(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will remove {memberToDelete?.name}. Their existing bookings stay in your bookings list but will no longer be bookable with them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isPending} className="bg-destructive hover:bg-destructive/90">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default function StaffPage() {
+  return (
+    <Suspense fallback={<div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>}>
+      <StaffComponent />
+    </Suspense>
+  )
+}
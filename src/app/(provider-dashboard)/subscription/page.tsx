@@ -13,7 +13,7 @@ import { Check, Loader2, AlertCircle } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { onAuthStateChanged, User } from 'firebase/auth';
-import { auth } from '@/lib/firebase';
+import { auth, getIdToken } from '@/lib/firebase';
 import { format, differenceInDays } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
@@ -145,13 +145,9 @@ function SubscriptionComponent() {
     
     startPaymentTransition(async () => {
       // For free plans, update subscription directly without payment flow
-      if (plan.price === 0) {
+      if (amountToPay === 0) {
           setIsVerifying(true);
-          const result = await updateProviderSubscription(username, plan.id, {
-            razorpay_payment_id: `free_${plan.id}_${Date.now()}`,
-            razorpay_order_id: 'N/A',
-            amount: 0,
-          });
+          const result = await updateProviderSubscription(await getIdToken(), username, plan.id);
           if (result.success && result.provider) {
             toast({ title: 'Subscription Activated', description: 'Your plan has been updated successfully.'});
             // Force a hard refresh of the app state by navigating
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth, getIdToken } from '@/lib/firebase';
+import { useRouter } from 'next/navigation';
+import { getProviderByEmail } from '@/lib/data';
+import { inviteTeamMember, removeTeamMember, updateTeamMemberRole } from '@/lib/team.actions';
+import { teamRoles, getTeamRoleName } from '@/lib/permissions';
+import type { AccountMember, Provider, TeamRole } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+export default function TeamPage() {
+  const [provider, setProvider] = useState<Provider | null>(null);
+  const [currentEmail, setCurrentEmail] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isPending, startTransition] = useTransition();
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TeamRole>('front-desk');
+  const [memberToRemove, setMemberToRemove] = useState<AccountMember | null>(null);
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      if (currentUser && currentUser.email) {
+        setCurrentEmail(currentUser.email.toLowerCase());
+        try {
+          const providerData = await getProviderByEmail(currentUser.email);
+          if (providerData) {
+            setProvider(providerData);
+          } else {
+            router.push('/dashboard');
+          }
+        } catch (error) {
+          toast({ title: 'Error', description: 'Could not load your team.', variant: 'destructive' });
+        } finally {
+          setLoading(false);
+        }
+      } else {
+        router.push('/login');
+      }
+    });
+    return () => unsubscribe();
+  }, [router, toast]);
+
+  const setTeam = (team: AccountMember[]) => {
+    setProvider(p => p ? { ...p, team, teamEmails: team.map(member => member.email) } : null);
+  };
+
+  const handleInvite = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await inviteTeamMember(await getIdToken(), provider.username, inviteEmail, inviteRole);
+      if (result.success && result.member) {
+        setTeam([...(provider.team || []), result.member]);
+        setInviteEmail('');
+        toast({ title: 'Invitation Sent', description: `${result.member.email} can now log in with that email.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleRoleChange = (member: AccountMember, role: TeamRole) => {
+    if (!provider) return;
+    startTransition(async () => {
+      const result = await updateTeamMemberRole(await getIdToken(), provider.username, member.email, role);
+      if (result.success) {
+        setTeam((provider.team || []).map(m => m.email === member.email ? { ...m, role } : m));
+        toast({ title: 'Role Updated', description: `${member.email} is now ${getTeamRoleName(role)}.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    if (!provider || !memberToRemove) return;
+    startTransition(async () => {
+      const result = await removeTeamMember(await getIdToken(), provider.username, memberToRemove.email);
+      if (result.success) {
+        setTeam((provider.team || []).filter(m => m.email !== memberToRemove.email));
+        toast({ title: 'Removed', description: `${memberToRemove.email} no longer has access.` });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+      setMemberToRemove(null);
+    });
+  };
+
+  if (loading || !provider) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>;
+  }
+
+  const team = provider.team || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite a Teammate</CardTitle>
+          <CardDescription>
+            Teammates log in with their own email and share this account. Their role decides which pages and actions they can use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input id="invite-email" type="email" value={inviteEmail} onChange={e => setInviteEmail(e.target.value)} placeholder="teammate@example.com" required />
+            </div>
+            <div className="space-y-2 md:w-56">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select value={inviteRole} onValueChange={value => setInviteRole(value as TeamRole)}>
+                <SelectTrigger id="invite-role"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {teamRoles.map(role => <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={isPending || !inviteEmail}>
+              {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+              Send Invite
+            </Button>
+          </form>
+          <ul className="mt-4 space-y-1 text-sm text-muted-foreground">
+            {teamRoles.map(role => <li key={role.id}><span className="font-medium text-foreground">{role.name}:</span> {role.description}</li>)}
+          </ul>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Team</CardTitle>
+          <CardDescription>Everyone who can log in to {provider.name}.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 border rounded-md p-3">
+            <div className="text-sm">
+              <p className="font-medium">{provider.contact.email}</p>
+              <p className="text-muted-foreground">Account creator</p>
+            </div>
+            <Badge>Owner</Badge>
+          </div>
+          {team.map(member => (
+            <div key={member.email} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border rounded-md p-3">
+              <div className="text-sm">
+                <p className="font-medium">{member.email}{member.email === currentEmail && <span className="text-muted-foreground font-normal"> (you)</span>}</p>
+                <p className="text-muted-foreground">Invited {format(new Date(member.invitedAt), provider.settings.dateFormat || 'PPP')} by {member.invitedBy}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={member.role} onValueChange={value => handleRoleChange(member, value as TeamRole)} disabled={isPending || member.email === currentEmail}>
+                  <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {teamRoles.map(role => <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => setMemberToRemove(member)} disabled={isPending || member.email === currentEmail}>
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+          {team.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">You haven't invited anyone yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => { if (!open) setMemberToRemove(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {memberToRemove?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will no longer be able to log in to this account.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRemove} disabled={isPending} className="bg-destructive hover:bg-destructive/90">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
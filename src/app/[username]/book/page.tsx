@@ -4,35 +4,13 @@ import { notFound } from "next/navigation";
 import { Suspense } from "react";
 import { Loader2 } from "lucide-react";
 import { BookingForm } from "@/components/booking-form";
-import type { Provider } from "@/lib/types";
 import { PublicPageLayout } from "../_components/public-page-layout";
 import { Metadata } from "next";
 import Link from 'next/link';
+import { toPublicProvider } from "@/lib/public-provider";
 
 export const dynamic = 'force-dynamic';
 
-const serializeObject = (obj: any): any => {
-  if (obj === null || obj === undefined || typeof obj !== 'object') {
-      return obj;
-  }
-  if (obj.toDate && typeof obj.toDate === 'function') {
-      return obj.toDate().toISOString();
-  }
-  if (obj instanceof Date) {
-    return obj.toISOString();
-  }
-  if (Array.isArray(obj)) {
-      return obj.map(serializeObject);
-  }
-  const newObj: { [key: string]: any } = {};
-  for (const key in obj) {
-      if (Object.prototype.hasOwnProperty.call(obj, key)) {
-          newObj[key] = serializeObject(obj[key]);
-      }
-  }
-  return newObj;
-};
-
 type Props = {
   params: Promise<{ username: string }>;
 };
@@ -81,7 +59,7 @@ export default async function BookAppointmentPage({ params }: Props) {
     notFound();
   }
   
-  const provider = serializeObject(providerData) as Provider;
+  const provider = toPublicProvider(providerData);
 
   return (
     <PublicPageLayout provider={provider} pageName="Book Appointment">
@@ -0,0 +1,58 @@
+import { getBookingById, getProviderByUsername } from "@/lib/data";
+import { notFound } from "next/navigation";
+import { ManageBooking } from "@/components/manage-booking";
+import type { Booking } from "@/lib/types";
+import { PublicPageLayout } from "../../_components/public-page-layout";
+import { verifyBookingToken } from "@/lib/booking-links";
+import { canCustomerCancelBooking, canCustomerRescheduleBooking, getCancellationCharge } from "@/lib/booking-policy";
+import type { Metadata } from "next";
+import { serializeObject, toPublicProvider } from "@/lib/public-provider";
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: Promise<{ username: string; id: string }>;
+  searchParams: Promise<{ token?: string }>;
+};
+
+export const metadata: Metadata = {
+  title: 'Manage Your Booking',
+  robots: { index: false, follow: false },
+};
+
+export default async function ManageBookingPage({ params, searchParams }: Props) {
+  const { username, id } = await params;
+  const { token } = await searchParams;
+
+  if (!token || !verifyBookingToken(username, id, token)) {
+    notFound();
+  }
+
+  const [providerData, bookingData] = await Promise.all([
+    getProviderByUsername(username),
+    getBookingById(username, id),
+  ]);
+
+  if (!providerData || !bookingData) {
+    notFound();
+  }
+
+  const cancelCheck = canCustomerCancelBooking(providerData.settings, bookingData);
+  const rescheduleCheck = canCustomerRescheduleBooking(providerData.settings, bookingData);
+  const cancellationCharge = getCancellationCharge(providerData.settings, bookingData);
+  const provider = toPublicProvider(providerData);
+  const booking = serializeObject(bookingData) as Booking;
+
+  return (
+    <PublicPageLayout provider={provider} pageName="Manage Booking">
+      <ManageBooking
+        provider={provider}
+        booking={booking}
+        token={token}
+        cancelBlockedReason={cancelCheck.allowed ? null : cancelCheck.reason}
+        rescheduleBlockedReason={rescheduleCheck.allowed ? null : rescheduleCheck.reason}
+        cancellationCharge={cancellationCharge}
+      />
+    </PublicPageLayout>
+  );
+}
@@ -3,6 +3,8 @@ import { getProviderByUsername } from "@/lib/data";
 import { notFound } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PublicPageLayout } from "../_components/public-page-layout";
+import { describeCancellationRules } from "@/lib/booking-policy";
+import { getCurrency } from "@/lib/currencies";
 import type { Metadata } from 'next';
 
 type Props = {
@@ -52,6 +54,7 @@ export default async function ProviderCancellationPolicyPage({ params }: Props)
     }
 
     const { title, description } = provider.settings.customPages.cancellationPolicy;
+    const rules = describeCancellationRules(provider.settings, getCurrency(provider.settings.currency)?.symbol);
 
     return (
         <PublicPageLayout provider={provider} pageName="Cancellation Policy">
@@ -59,7 +62,12 @@ export default async function ProviderCancellationPolicyPage({ params }: Props)
                 <CardHeader>
                     <CardTitle className="text-3xl">{title}</CardTitle>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-6">
+                    {rules.length > 0 && (
+                        <ul className="list-disc pl-5 space-y-2">
+                            {rules.map(rule => <li key={rule}>{rule}</li>)}
+                        </ul>
+                    )}
                      <div 
                         className="prose dark:prose-invert max-w-none whitespace-pre-line"
                     >
@@ -1,12 +1,13 @@
 
-import { getProviderByUsername } from "@/lib/data";
+import { getBookingsByClass, getProviderByUsername } from "@/lib/data";
+import { getClassSeatsTaken } from "@/lib/availability";
 import { notFound } from "next/navigation";
 import { Suspense } from "react";
 import { Loader2, ShieldAlert } from "lucide-react";
 import type { Metadata, ResolvingMetadata } from 'next';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ProviderBookingPageContent } from "@/components/provider-booking-page";
-import type { Provider } from "@/lib/types";
+import { toPublicProvider } from "@/lib/public-provider";
 
 type Props = {
   params: Promise<{ username: string }>;
@@ -50,36 +51,6 @@ export async function generateMetadata(
   };
 }
 
-// Deep serialization function to handle nested Timestamps
-const serializeObject = (obj: any): any => {
-  if (obj === null || obj === undefined || typeof obj !== 'object') {
-      return obj;
-  }
-
-  // Firestore Timestamps
-  if (obj.toDate && typeof obj.toDate === 'function') {
-      return obj.toDate().toISOString();
-  }
-
-  // Plain Date objects
-  if (obj instanceof Date) {
-    return obj.toISOString();
-  }
-  
-  if (Array.isArray(obj)) {
-      return obj.map(serializeObject);
-  }
-  
-  const newObj: { [key: string]: any } = {};
-  for (const key in obj) {
-      if (Object.prototype.hasOwnProperty.call(obj, key)) {
-          newObj[key] = serializeObject(obj[key]);
-      }
-  }
-  return newObj;
-};
-
-
 export default async function ProviderBookingPage({ params }: Props) {
   const { username } = await params;
   const providerData = await getProviderByUsername(username);
@@ -112,11 +83,18 @@ export default async function ProviderBookingPage({ params }: Props) {
     );
   }
   
-  const provider = serializeObject(providerData) as Provider;
+  const provider = toPublicProvider(providerData);
+
+  const now = new Date();
+  const upcomingClasses = (providerData.settings.groupClasses || []).filter(c => c.enabled && new Date(c.dateTime) > now);
+  const classSeatsTaken: Record<string, number> = {};
+  for (const groupClass of upcomingClasses) {
+    classSeatsTaken[groupClass.id] = getClassSeatsTaken(groupClass, await getBookingsByClass(username, groupClass.id));
+  }
 
   return (
     <Suspense fallback={<div className="flex h-screen items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>}>
-      <ProviderBookingPageContent provider={provider} />
+      <ProviderBookingPageContent provider={provider} classSeatsTaken={classSeatsTaken} />
     </Suspense>
   )
 }
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProviderByUsername } from '@/lib/data';
+import { getPublicAvailability, isProviderBookable } from '@/lib/public-availability';
+import { checkRateLimit, getClientIp, getRateLimitHeaders } from '@/lib/rate-limit';
+
+// GET /api/<username>/availability?service=&serviceType=&staff=&from=&to=
+// Read-only and public, so any site or app may call it.
+
+const RATE_LIMIT = 60;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function errorResponse(error: string, status: number, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error }, { status, headers: { ...corsHeaders, ...headers, 'Cache-Control': 'no-store' } });
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+
+  const rateLimit = checkRateLimit(`availability:${username}:${getClientIp(req.headers)}`, RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
+  const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    return errorResponse('Too many requests. Please try again later.', 429, rateLimitHeaders);
+  }
+
+  try {
+    const provider = await getProviderByUsername(username);
+    if (!provider || !isProviderBookable(provider)) {
+      return errorResponse('Provider not found.', 404, rateLimitHeaders);
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const result = await getPublicAvailability(provider, {
+      service: searchParams.get('service'),
+      serviceType: searchParams.get('serviceType'),
+      staff: searchParams.get('staff'),
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    if ('error' in result) {
+      return errorResponse(result.error, result.status, rateLimitHeaders);
+    }
+
+    // Slots change whenever someone books, so shared caches only hold them briefly.
+    return NextResponse.json(result.availability, {
+      headers: {
+        ...corsHeaders,
+        ...rateLimitHeaders,
+        'Cache-Control': 'public, max-age=60, s-maxage=60, stale-while-revalidate=120',
+      },
+    });
+  } catch (error) {
+    console.error(`Availability API failed for ${username}:`, error);
+    return errorResponse('Could not load availability. Please try again.', 500, rateLimitHeaders);
+  }
+}
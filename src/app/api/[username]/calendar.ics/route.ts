@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBookingsInRange, getProviderByUsername } from '@/lib/data';
+import { verifyCalendarFeedToken } from '@/lib/booking-links';
+import { buildCalendarFeed, getCalendarFeedRange, parseCalendarFeedStatuses } from '@/lib/calendar-feed';
+import { checkRateLimit, getClientIp, getRateLimitHeaders } from '@/lib/rate-limit';
+
+// GET /api/<username>/calendar.ics?token=&status=Upcoming,Completed
+// The provider's secret subscription feed; the token comes from calendar-setup.
+
+const RATE_LIMIT = 30;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+function errorResponse(error: string, status: number, headers: Record<string, string> = {}) {
+  return new NextResponse(error, { status, headers: { ...headers, 'Cache-Control': 'no-store' } });
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ username: string }> }) {
+  const { username } = await params;
+
+  const rateLimit = checkRateLimit(`calendar-feed:${username}:${getClientIp(req.headers)}`, RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
+  const rateLimitHeaders = getRateLimitHeaders(rateLimit);
+  if (!rateLimit.allowed) {
+    return errorResponse('Too many requests. Please try again later.', 429, rateLimitHeaders);
+  }
+
+  try {
+    // A wrong token looks the same as a missing provider.
+    const provider = await getProviderByUsername(username);
+    const searchParams = req.nextUrl.searchParams;
+    if (!provider || !verifyCalendarFeedToken(username, provider.calendarFeedVersion || 0, searchParams.get('token'))) {
+      return errorResponse('Calendar not found.', 404, rateLimitHeaders);
+    }
+
+    const { start, end } = getCalendarFeedRange();
+    const bookings = await getBookingsInRange(username, start, end);
+    const feed = buildCalendarFeed(provider, bookings, parseCalendarFeedStatuses(searchParams.get('status')));
+
+    return new NextResponse(feed, {
+      headers: {
+        ...rateLimitHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${username}-bookings.ics"`,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error(`Calendar feed failed for ${username}:`, error);
+    return errorResponse('Could not load the calendar. Please try again.', 500, rateLimitHeaders);
+  }
+}
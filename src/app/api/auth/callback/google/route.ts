@@ -15,14 +15,13 @@ export async function GET(req: NextRequest) {
         return NextResponse.redirect(new URL('/calendar-setup?error=State parameter missing. Could not identify user.', req.url));
     }
 
-    // The 'state' parameter now contains the username.
-    const username = state;
-
-    const result = await handleGoogleCallback(code, username);
+    // The signed 'state' says whose calendar this is: the provider's, or a staff member's.
+    const result = await handleGoogleCallback(code, state);
+    const returnPath = result.staffId ? '/staff' : '/calendar-setup';
 
     if (result.success) {
-        return NextResponse.redirect(new URL('/calendar-setup', req.url));
+        return NextResponse.redirect(new URL(returnPath, req.url));
     } else {
-        return NextResponse.redirect(new URL(`/calendar-setup?error=${encodeURIComponent(result.error || 'Unknown error')}`, req.url));
+        return NextResponse.redirect(new URL(`${returnPath}?error=${encodeURIComponent(result.error || 'Unknown error')}`, req.url));
     }
 }
@@ -0,0 +1,18 @@
+import { syncGoogleCalendars } from '@/lib/booking-jobs';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+  const authorizationHeader = req.headers.get('authorization');
+
+  if (authorizationHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return new NextResponse('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const result = await syncGoogleCalendars();
+    return NextResponse.json({ success: true, message: `Cron job executed successfully. Canceled ${result.canceled} and rescheduled ${result.rescheduled} bookings.` });
+  } catch (error: any) {
+    console.error('Cron job failed:', error);
+    return new NextResponse('Internal Server Error', { status: 500 });
+  }
+}
@@ -1,10 +1,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getProviderByUsername } from '@/lib/data';
-import { updateBooking, createPaymentRecord, addNotification, getBookingById, getServiceBySlug } from '@/lib/data';
+import { createPaymentRecord, addNotification, getBookingById, getServiceBySlug, updateBooking } from '@/lib/data';
+import { createGoogleCalendarEvent } from '@/lib/calendar.actions';
 import Stripe from 'stripe';
 import { formatInTimeZone } from 'date-fns-tz';
 import { sendBookingConfirmationEmail, sendProviderBookingNotificationEmail } from '@/lib/email-templates';
+import { getManageBookingUrl } from '@/lib/booking-links';
+import { getAddToCalendarLinks } from '@/lib/booking-invites';
+import { findStaffMember, getBookingTitle } from '@/lib/availability';
+import { confirmPaidBooking, getConfirmationCalendarInvite, getSeriesEmailDetails } from '@/lib/booking-confirmation';
+import { getProviderEmailRecipients } from '@/lib/availability';
+import { logBookingEmail } from '@/lib/booking-events';
+import type { Booking } from '@/lib/types';
 
 export async function POST(req: NextRequest) {
     const body = await req.text();
@@ -52,20 +60,21 @@ export async function POST(req: NextRequest) {
             // Logic similar to verifyBookingPayment
             const booking = await getBookingById(providerUsername, bookingId);
             if (booking && provider) {
-                const service = await getServiceBySlug(providerUsername, booking.serviceSlug);
+                const serviceTitle = getBookingTitle(provider.settings, booking);
+                const staffMember = findStaffMember(provider.settings, booking.staffId);
                 const amount = (completedSession.amount_total || 0) / 100;
 
                 const paymentData = {
                     orderId: completedSession.id,
                     paymentId: completedSession.payment_intent as string,
-                    amount: amount,
+                    amount: booking.recurrence ? Math.round(amount * 100 / booking.recurrence.count) / 100 : amount,
                     status: 'Paid' as const,
                 };
 
-                await updateBooking(providerUsername, bookingId, {
-                    status: 'Upcoming',
-                    payment: paymentData
-                });
+                const confirmation = await confirmPaidBooking(provider, booking, paymentData, amount, 'Stripe');
+                if (confirmation === 'already-confirmed') {
+                    return new NextResponse('Webhook processed', { status: 200 });
+                }
 
                 await createPaymentRecord({
                     providerUsername: providerUsername,
@@ -77,8 +86,29 @@ export async function POST(req: NextRequest) {
                     razorpay_order_id: completedSession.id,
                 });
 
+                if (confirmation === 'refund-due') {
+                    return new NextResponse('Webhook processed', { status: 200 });
+                }
+
+                // The rest of a series got its events when it was confirmed; this is the first session's.
+                const bookingUpdate: Partial<Booking> = {};
+                try {
+                    const service = await getServiceBySlug(providerUsername, booking.serviceSlug);
+                    const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...booking, status: 'Upcoming', payment: paymentData, service } as Booking);
+                    if (eventId) {
+                        bookingUpdate.googleCalendarEventId = eventId;
+                        bookingUpdate.googleCalendarStaffId = calendarStaffId;
+                    }
+                    if (meetLink) bookingUpdate.googleMeetLink = meetLink;
+                } catch (error) {
+                    console.error("Failed to create Google Calendar event for paid booking:", error);
+                }
+                if (Object.keys(bookingUpdate).length > 0) {
+                    await updateBooking(providerUsername, bookingId, bookingUpdate);
+                }
+
                 await addNotification(provider.username, {
-                    message: `New booking from ${booking.customerName} for ${service?.title || booking.serviceType}.`,
+                    message: `New booking from ${booking.customerName} for ${serviceTitle || booking.serviceType}.`,
                     type: 'new_booking',
                     link: `/bookings`,
                 });
@@ -88,36 +118,51 @@ export async function POST(req: NextRequest) {
                 const dateFormat = provider.settings.dateFormat || 'PPP';
                 const providerBookingDate = formatInTimeZone(booking.dateTime, providerTimeZone, dateFormat);
                 const providerBookingTime = formatInTimeZone(booking.dateTime, providerTimeZone, 'p');
+                const confirmedBooking: Booking = { ...booking, status: 'Upcoming', payment: paymentData, ...bookingUpdate };
+                const { googleLink, outlookLink, icsLink } = getAddToCalendarLinks(provider, confirmedBooking, serviceTitle || booking.serviceType);
 
-                await sendBookingConfirmationEmail(booking.customerEmail, {
+                const confirmationSent = await sendBookingConfirmationEmail(booking.customerEmail, {
                     customerName: booking.customerName,
                     providerName: provider.name,
-                    serviceTitle: service?.title,
+                    serviceTitle,
                     serviceType: booking.serviceType,
-                    quantity: booking.quantity || 1,
+                    quantity: booking.seats || booking.quantity || 1,
                     bookingDate: providerBookingDate, // Simplified
                     bookingTime: providerBookingTime,
                     bookingTimeProvider: providerBookingTime,
-                    bookingAddress: '', // Fill if needed
-                    googleLink: '',
-                    outlookLink: '',
-                    icsLink: '',
-                    paymentDetails: `Paid via Stripe (${provider.settings.currency} ${amount})`,
-                });
-
-                await sendProviderBookingNotificationEmail(provider.contact.email, {
-                    providerName: provider.name,
-                    customerName: booking.customerName,
-                    customerEmail: booking.customerEmail,
-                    customerPhone: booking.customerPhone,
-                    serviceTitle: service?.title,
-                    serviceType: booking.serviceType,
-                    quantity: booking.quantity || 1,
-                    bookingDate: providerBookingDate,
-                    bookingTime: providerBookingTime,
-                    bookingAddress: '',
+                    bookingAddress: booking.address || 'N/A',
+                    googleLink, outlookLink, icsLink,
                     paymentDetails: `Paid via Stripe (${provider.settings.currency} ${amount})`,
+                    googleMeetLink: bookingUpdate.googleMeetLink,
+                    googleMapLink: provider.settings.googleMapLink,
+                    manageBookingUrl: getManageBookingUrl(providerUsername, bookingId),
+                    calendarInvite: await getConfirmationCalendarInvite(provider, confirmedBooking, serviceTitle || booking.serviceType),
+                    ...await getSeriesEmailDetails(providerUsername, booking, providerTimeZone, dateFormat),
+                    staffName: staffMember?.name,
                 });
+                await logBookingEmail(providerUsername, bookingId, 'Booking confirmation email', booking.customerEmail, confirmationSent);
+
+                for (const recipient of getProviderEmailRecipients(provider, booking)) {
+                    const notificationSent = await sendProviderBookingNotificationEmail(recipient.email, {
+                        providerName: recipient.name,
+                        customerName: booking.customerName,
+                        customerEmail: booking.customerEmail,
+                        customerPhone: booking.customerPhone,
+                        serviceTitle,
+                        serviceType: booking.serviceType,
+                        quantity: booking.seats || booking.quantity || 1,
+                        bookingDate: providerBookingDate,
+                        bookingTime: providerBookingTime,
+                        bookingAddress: booking.address || 'N/A',
+                        paymentDetails: `Paid via Stripe (${provider.settings.currency} ${amount})`,
+                        googleMeetLink: bookingUpdate.googleMeetLink,
+                        googleMapLink: provider.settings.googleMapLink,
+                        ...await getSeriesEmailDetails(providerUsername, booking, providerTimeZone, dateFormat),
+                        staffName: staffMember?.name,
+                        intakeAnswers: booking.intakeAnswers,
+                    });
+                    await logBookingEmail(providerUsername, bookingId, 'New booking notification', recipient.email, notificationSent);
+                }
             }
         }
 
@@ -1,6 +1,6 @@
 
 import { NextRequest, NextResponse } from 'next/server';
-import { updateProviderSubscription } from '@/lib/actions';
+import { applyProviderSubscription } from '@/lib/subscriptions';
 import { getAdminSettings } from '@/lib/data';
 import crypto from 'crypto';
 
@@ -40,7 +40,7 @@ export async function POST(req: NextRequest) {
 
       if (planId && providerUsername) {
         // 3. Update the subscription
-        await updateProviderSubscription(providerUsername, planId, {
+        await applyProviderSubscription(providerUsername, planId, {
           razorpay_payment_id: payment.id,
           razorpay_order_id: payment.order_id,
           amount: payment.amount / 100, // Convert from paise to rupees
@@ -4,7 +4,7 @@
 
 import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { CheckCircle, Calendar, Clock, MapPin, Sparkles, Loader2, Globe, User, Briefcase, Mail, Phone, BadgeCent, Video, ExternalLink } from 'lucide-react';
+import { CheckCircle, Hourglass, Calendar, Clock, MapPin, Sparkles, Loader2, Globe, User, Briefcase, Mail, Phone, BadgeCent, Video, ExternalLink, Repeat } from 'lucide-react';
 import { Suspense, useEffect, useState, useMemo } from 'react';
 import { formatInTimeZone } from 'date-fns-tz';
 import { Separator } from '@/components/ui/separator';
@@ -20,6 +20,8 @@ import {
 } from '@/components/ui/breadcrumb';
 import Link from 'next/link';
 import { getCurrency } from '@/lib/currencies';
+import { EmbedBridge } from '@/components/embed-bridge';
+import { isEmbedded, parseEmbedReturnUrl } from '@/lib/embed';
 
 function ConfirmationContent() {
     const searchParams = useSearchParams();
@@ -42,6 +44,11 @@ function ConfirmationContent() {
     const googleMeetLink = searchParams.get('googleMeetLink');
     const googleMapLink = searchParams.get('googleMapLink');
     const currencyCode = searchParams.get('currencyCode');
+    const recurrence = searchParams.get('recurrence');
+    const staffName = searchParams.get('staffName');
+    const awaitingApproval = searchParams.get('awaitingApproval') === 'true';
+    const embedded = searchParams.get('embed') === '1';
+    const embedReturnUrl = parseEmbedReturnUrl(searchParams.get('returnUrl'));
     
     const orderId = searchParams.get('orderId');
     const paymentId = searchParams.get('paymentId');
@@ -128,6 +135,20 @@ function ConfirmationContent() {
 
     return (
         <div className="min-h-screen bg-background flex items-center justify-center p-4">
+            {embedded && (
+                <EmbedBridge event={{
+                    type: 'booking_completed',
+                    data: {
+                        provider: providerUsername,
+                        service: serviceTitle,
+                        serviceType,
+                        dateTime,
+                        awaitingApproval,
+                        amountPaid: amountPaid ? Number(amountPaid) : null,
+                        currency: currencyCode,
+                    },
+                }} />
+            )}
             <div className="max-w-2xl w-full space-y-8">
                  <div className="mx-auto w-full max-w-lg">
                     <Breadcrumb>
@@ -146,13 +167,23 @@ function ConfirmationContent() {
                     </Breadcrumb>
                 </div>
 
-                <div className="text-center">
-                    <CheckCircle className="mx-auto h-16 w-16 text-green-500" />
-                    <h1 className="mt-4 text-3xl font-bold tracking-tight text-foreground">Booking Confirmed!</h1>
-                    <p className="mt-2 text-lg text-muted-foreground">
-                        Thank you, {customerName}! Your appointment with {providerName} is set.
-                    </p>
-                </div>
+                {awaitingApproval ? (
+                    <div className="text-center">
+                        <Hourglass className="mx-auto h-16 w-16 text-amber-500" />
+                        <h1 className="mt-4 text-3xl font-bold tracking-tight text-foreground">Booking Requested</h1>
+                        <p className="mt-2 text-lg text-muted-foreground">
+                            Thank you, {customerName}! {providerName} will review your request. Your time is held until they do.
+                        </p>
+                    </div>
+                ) : (
+                    <div className="text-center">
+                        <CheckCircle className="mx-auto h-16 w-16 text-green-500" />
+                        <h1 className="mt-4 text-3xl font-bold tracking-tight text-foreground">Booking Confirmed!</h1>
+                        <p className="mt-2 text-lg text-muted-foreground">
+                            Thank you, {customerName}! Your appointment with {providerName} is set.
+                        </p>
+                    </div>
+                )}
 
                 <Card>
                     <CardHeader>
@@ -170,6 +201,15 @@ function ConfirmationContent() {
                                         <p className="font-medium">{serviceTitle || serviceType} {quantityNum > 1 ? `(x${quantityNum})` : ''}</p>
                                     </div>
                                 </div>
+                                {staffName && (
+                                    <div className="flex items-center gap-3">
+                                        <User className="h-5 w-5 text-muted-foreground" />
+                                        <div>
+                                            <p className="text-muted-foreground">With</p>
+                                            <p className="font-medium">{staffName}</p>
+                                        </div>
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-3">
                                     <Calendar className="h-5 w-5 text-muted-foreground" />
                                     <div>
@@ -177,6 +217,15 @@ function ConfirmationContent() {
                                         <p className="font-medium">{formattedDate}</p>
                                     </div>
                                 </div>
+                                {recurrence && (
+                                    <div className="flex items-center gap-3">
+                                        <Repeat className="h-5 w-5 text-muted-foreground" />
+                                        <div>
+                                            <p className="text-muted-foreground">Repeats</p>
+                                            <p className="font-medium">{recurrence}</p>
+                                        </div>
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-3">
                                     <Clock className="h-5 w-5 text-muted-foreground" />
                                     <div>
@@ -326,7 +375,7 @@ function ConfirmationContent() {
                         )}
 
 
-                        {calendarLinks && (
+                        {calendarLinks && !awaitingApproval && (
                             <>
                                 <Separator />
                                 <div className="flex flex-col items-center justify-center gap-4 pt-4">
@@ -361,7 +410,20 @@ function ConfirmationContent() {
                             </>
                         )}
 
-                        <p className="text-xs text-muted-foreground pt-4 text-center">A confirmation email has been sent to you with these details.</p>
+                        <p className="text-xs text-muted-foreground pt-4 text-center">
+                            {awaitingApproval
+                                ? "We've emailed you a copy of your request and will email you again once it's approved or declined."
+                                : 'A confirmation email has been sent to you with these details.'}
+                        </p>
+
+                        {/* After Stripe Checkout the widget's host page is gone; offer the way back to it. */}
+                        {embedded && embedReturnUrl && !isEmbedded() && (
+                            <div className="flex justify-center pt-2">
+                                <Button asChild variant="outline">
+                                    <a href={embedReturnUrl}>Back to {new URL(embedReturnUrl).hostname}</a>
+                                </Button>
+                            </div>
+                        )}
                     </CardContent>
                 </Card>
 
@@ -0,0 +1,57 @@
+import { getProviderByUsername } from "@/lib/data";
+import { notFound } from "next/navigation";
+import { Suspense } from "react";
+import { Loader2 } from "lucide-react";
+import { BookingForm } from "@/components/booking-form";
+import { EmbedBridge } from "@/components/embed-bridge";
+import { findService } from "@/lib/availability";
+import { getEmbedThemeStyle, parseEmbedReturnUrl, parseEmbedTheme } from "@/lib/embed";
+import { isProviderBookable } from "@/lib/public-availability";
+import { Metadata } from "next";
+import { toPublicProvider } from "@/lib/public-provider";
+
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: Promise<{ username: string }>;
+  searchParams: Promise<{ service?: string; theme?: string; primaryColor?: string; radius?: string; returnUrl?: string }>;
+};
+
+export const metadata: Metadata = {
+  title: 'Book an Appointment',
+  robots: { index: false, follow: false },
+};
+
+// The booking form without the site's header, loaded in an iframe by /embed.js.
+export default async function EmbedBookingPage({ params, searchParams }: Props) {
+  const { username } = await params;
+  const { service: serviceSlug, theme, primaryColor, radius, returnUrl } = await searchParams;
+  const providerData = await getProviderByUsername(username);
+
+  if (!providerData || !isProviderBookable(providerData)) {
+    notFound();
+  }
+
+  // A widget locked to a service the provider has since hidden shows nothing
+  // rather than quietly taking general bookings.
+  if (serviceSlug) {
+    const service = findService(providerData.settings, serviceSlug);
+    if (!service?.enabled || !providerData.settings.enableServicesPage) {
+      notFound();
+    }
+  }
+
+  const provider = toPublicProvider(providerData);
+  const embedTheme = parseEmbedTheme({ theme, primaryColor, radius });
+
+  return (
+    <div className={embedTheme.mode === 'dark' ? 'dark' : undefined} style={getEmbedThemeStyle(embedTheme)}>
+      <div className="bg-background text-foreground p-1">
+        <EmbedBridge />
+        <Suspense fallback={<div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin" /></div>}>
+          <BookingForm provider={provider} embed={{ serviceSlug: serviceSlug || null, returnUrl: parseEmbedReturnUrl(returnUrl) }} />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
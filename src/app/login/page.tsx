@@ -26,7 +26,8 @@ import {
   signInWithPopup,
   onAuthStateChanged,
   updateProfile,
-  sendPasswordResetEmail
+  sendPasswordResetEmail,
+  sendEmailVerification
 } from 'firebase/auth';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
@@ -72,6 +73,13 @@ export default function LoginPage() {
     try {
       const userCredential = await createUserWithEmailAndPassword(auth, email, password);
       await updateProfile(userCredential.user, { displayName: name });
+      // Invited teammates join the account they were invited to, once they
+      // have verified that the invited address is theirs.
+      if (await getProviderByEmail(email)) {
+        await sendEmailVerification(userCredential.user);
+        router.push('/dashboard');
+        return;
+      }
       await createProvider(name, email);
       // New user, redirect to subscription
       router.push('/subscription');
@@ -0,0 +1,292 @@
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { format, startOfToday } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Loader2 } from 'lucide-react';
+import { createManualBooking } from '@/lib/actions';
+import { getDayAvailability } from '@/lib/availability.actions';
+import { DATE_KEY_FORMAT, findService, findStaffMember, getStaffForService } from '@/lib/availability';
+import { manualBookingSources, type ManualBookingValues } from '@/lib/schema';
+import { getIdToken } from '@/lib/firebase';
+import type { DayAvailability, Provider } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const NO_SERVICE = 'none';
+const ANY_STAFF = 'any';
+
+// Prefills the form, e.g. when booking again for a known customer.
+export type AddBookingInitialValues = {
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  serviceSlug?: string | null;
+  serviceType?: string;
+  staffId?: string | null;
+  address?: string;
+};
+
+type AddBookingDialogProps = {
+  provider: Provider;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+  initialValues?: AddBookingInitialValues | null;
+};
+
+// Lets the provider enter a phone, walk-in or WhatsApp booking. Times come
+// from the same availability as the public booking page unless overridden.
+export function AddBookingDialog({ provider, open, onOpenChange, onCreated, initialValues }: AddBookingDialogProps) {
+  const timezone = provider.settings.timezone || 'UTC';
+  const services = (provider.settings.services || []).filter(s => s.enabled);
+  const serviceTypes = provider.settings.serviceTypes.filter(st => st.enabled);
+
+  const [customerName, setCustomerName] = useState('');
+  const [customerEmail, setCustomerEmail] = useState('');
+  const [customerPhone, setCustomerPhone] = useState('');
+  const [source, setSource] = useState<ManualBookingValues['source']>('phone');
+  const [serviceSlug, setServiceSlug] = useState(NO_SERVICE);
+  const [serviceType, setServiceType] = useState('');
+  const [staffId, setStaffId] = useState(ANY_STAFF);
+  const [address, setAddress] = useState('');
+  const [date, setDate] = useState(format(startOfToday(), DATE_KEY_FORMAT));
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [manualTime, setManualTime] = useState('09:00');
+  const [overrideAvailability, setOverrideAvailability] = useState(false);
+  const [sendConfirmation, setSendConfirmation] = useState(false);
+  const [dayAvailability, setDayAvailability] = useState<DayAvailability | null>(null);
+  const [errors, setErrors] = useState<Record<string, string[] | undefined>>({});
+  const [isSaving, startSaveTransition] = useTransition();
+  const { toast } = useToast();
+
+  const service = serviceSlug === NO_SERVICE ? null : findService(provider.settings, serviceSlug);
+  const availableServiceTypes = service?.assignedServiceTypes?.length
+    ? serviceTypes.filter(st => service.assignedServiceTypes!.includes(st.id))
+    : serviceTypes;
+  const eligibleStaff = getStaffForService(provider.settings, service?.slug);
+  const isDoorstep = serviceTypes.find(st => st.name === serviceType)?.id === 'doorstep';
+
+  useEffect(() => {
+    if (!open) return;
+    const initialService = findService(provider.settings, initialValues?.serviceSlug);
+    const initialStaff = findStaffMember(provider.settings, initialValues?.staffId);
+    setCustomerName(initialValues?.customerName || '');
+    setCustomerEmail(initialValues?.customerEmail || '');
+    setCustomerPhone(initialValues?.customerPhone || '');
+    setSource('phone');
+    setServiceSlug(initialService?.enabled ? initialService.slug || initialService.id : NO_SERVICE);
+    setServiceType(serviceTypes.some(st => st.name === initialValues?.serviceType) ? initialValues!.serviceType! : '');
+    setStaffId(initialStaff?.enabled ? initialStaff.id : ANY_STAFF);
+    setAddress(initialValues?.address || '');
+    setDate(format(startOfToday(), DATE_KEY_FORMAT));
+    setSelectedTime(null);
+    setOverrideAvailability(false);
+    setSendConfirmation(false);
+    setErrors({});
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !date) return;
+    setDayAvailability(null);
+    getDayAvailability(provider.username, date, {
+      serviceSlug: service?.slug,
+      serviceType: serviceType || null,
+      staffId: staffId === ANY_STAFF ? null : staffId,
+      ignoreBookingWindow: true,
+    }).then(setDayAvailability);
+  }, [open, provider.username, date, service?.slug, serviceType, staffId]);
+
+  const timeSlots = useMemo(() => dayAvailability?.slots.filter(slot => slot.isAvailable) || [], [dayAvailability]);
+
+  const handleServiceChange = (value: string) => {
+    setServiceSlug(value);
+    setServiceType('');
+    setStaffId(ANY_STAFF);
+    setSelectedTime(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const dateTime = overrideAvailability
+      ? fromZonedTime(`${date}T${manualTime}:00`, timezone).toISOString()
+      : selectedTime;
+    if (!dateTime) {
+      setErrors({ dateTime: ['Please choose a time.'] });
+      return;
+    }
+
+    startSaveTransition(async () => {
+      const result = await createManualBooking(await getIdToken(), provider.username, {
+        customerName,
+        customerEmail,
+        customerPhone,
+        serviceType,
+        serviceSlug: service?.slug,
+        staffId: staffId === ANY_STAFF ? undefined : staffId,
+        address: isDoorstep ? address : undefined,
+        dateTime,
+        source,
+        overrideAvailability,
+        sendConfirmation: sendConfirmation && !!customerEmail,
+      });
+
+      if (result.success) {
+        toast({ title: 'Booking Added', description: `${customerName} is booked for ${formatInTimeZone(dateTime, timezone, `${provider.settings.dateFormat || 'PPP'} p`)}.` });
+        onOpenChange(false);
+        onCreated();
+      } else {
+        setErrors(result.errors || {});
+        if (result.error) {
+          toast({ title: 'Error', description: result.error, variant: 'destructive' });
+        }
+      }
+    });
+  };
+
+  const fieldError = (field: string) => errors[field]?.[0] && (
+    <p className="text-sm text-destructive">{errors[field]![0]}</p>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add Booking</DialogTitle>
+          <DialogDescription>Enter a booking made over the phone, in person or on WhatsApp.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4 max-h-[70vh] overflow-y-auto px-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="manual-name">Customer Name</Label>
+                <Input id="manual-name" value={customerName} onChange={e => setCustomerName(e.target.value)} required />
+                {fieldError('customerName')}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manual-source">Booked Via</Label>
+                <Select value={source} onValueChange={value => setSource(value as ManualBookingValues['source'])}>
+                  <SelectTrigger id="manual-source"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {manualBookingSources.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manual-email">Email (optional)</Label>
+                <Input id="manual-email" type="email" value={customerEmail} onChange={e => setCustomerEmail(e.target.value)} />
+                {fieldError('customerEmail')}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="manual-phone">Phone (optional)</Label>
+                <Input id="manual-phone" type="tel" value={customerPhone} onChange={e => setCustomerPhone(e.target.value)} placeholder="+91 98765 43210" />
+              </div>
+            </div>
+
+            <Separator />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {provider.settings.enableServicesPage && services.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="manual-service">Service</Label>
+                  <Select value={serviceSlug} onValueChange={handleServiceChange}>
+                    <SelectTrigger id="manual-service"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SERVICE}>No specific service</SelectItem>
+                      {services.map(s => <SelectItem key={s.id} value={s.slug || s.id}>{s.title}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="manual-service-type">Service Type</Label>
+                <Select value={serviceType} onValueChange={value => { setServiceType(value); setSelectedTime(null); }}>
+                  <SelectTrigger id="manual-service-type"><SelectValue placeholder="Select a service type" /></SelectTrigger>
+                  <SelectContent>
+                    {availableServiceTypes.map(st => <SelectItem key={st.id} value={st.name}>{st.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {fieldError('serviceType')}
+              </div>
+              {eligibleStaff.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="manual-staff">Staff Member</Label>
+                  <Select value={staffId} onValueChange={value => { setStaffId(value); setSelectedTime(null); }}>
+                    <SelectTrigger id="manual-staff"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_STAFF}>Any available</SelectItem>
+                      {eligibleStaff.map(member => <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {fieldError('staffId')}
+                </div>
+              )}
+            </div>
+            {isDoorstep && (
+              <div className="space-y-2">
+                <Label htmlFor="manual-address">Address</Label>
+                <Input id="manual-address" value={address} onChange={e => setAddress(e.target.value)} />
+              </div>
+            )}
+
+            <Separator />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="manual-date">Date</Label>
+                <Input id="manual-date" type="date" value={date} onChange={e => { setDate(e.target.value); setSelectedTime(null); }} required />
+              </div>
+              {overrideAvailability && (
+                <div className="space-y-2">
+                  <Label htmlFor="manual-time">Time ({timezone.replace(/_/g, ' ')})</Label>
+                  <Input id="manual-time" type="time" value={manualTime} onChange={e => setManualTime(e.target.value)} required />
+                </div>
+              )}
+            </div>
+            {!overrideAvailability && (
+              <ScrollArea className="h-48 border rounded-md">
+                <div className="p-4 grid grid-cols-3 gap-2">
+                  {!dayAvailability ? (
+                    <Loader2 className="h-5 w-5 animate-spin col-span-3 mx-auto" />
+                  ) : timeSlots.length > 0 ? timeSlots.map(slot => (
+                    <Button
+                      key={slot.start}
+                      type="button"
+                      variant={selectedTime === slot.start ? 'default' : 'outline'}
+                      onClick={() => setSelectedTime(slot.start)}
+                    >
+                      {formatInTimeZone(slot.start, timezone, 'p')}
+                    </Button>
+                  )) : (
+                    <p className="text-sm text-muted-foreground text-center col-span-3">No available slots for this day.</p>
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+            {fieldError('dateTime')}
+            <div className="flex items-center space-x-2">
+              <Switch id="manual-override" checked={overrideAvailability} onCheckedChange={setOverrideAvailability} />
+              <Label htmlFor="manual-override">Ignore working hours and capacity</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="manual-confirmation" checked={sendConfirmation && !!customerEmail} onCheckedChange={setSendConfirmation} disabled={!customerEmail} />
+              <Label htmlFor="manual-confirmation">Email the customer a confirmation and calendar invite</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isSaving || !serviceType}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Booking
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
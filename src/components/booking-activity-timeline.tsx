@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import { CalendarClock, CalendarPlus, CalendarSync, CreditCard, Loader2, Mail, RefreshCw, type LucideIcon } from 'lucide-react';
+import { CUSTOMER_ACTOR, SYSTEM_ACTOR } from '@/lib/booking-events';
+import { getBookingEvents } from '@/lib/data';
+import type { BookingEvent, BookingEventType } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+
+const eventIcons: Record<BookingEventType, LucideIcon> = {
+  created: CalendarPlus,
+  payment: CreditCard,
+  rescheduled: CalendarClock,
+  status: RefreshCw,
+  email: Mail,
+  calendar: CalendarSync,
+};
+
+type BookingActivityTimelineProps = {
+  username: string;
+  bookingId: string;
+  timezone: string;
+  dateFormat: string;
+};
+
+function getActorName(actor: string) {
+  if (actor === CUSTOMER_ACTOR) return 'Customer';
+  if (actor === SYSTEM_ACTOR) return 'System';
+  return actor;
+}
+
+export function BookingActivityTimeline({ username, bookingId, timezone, dateFormat }: BookingActivityTimelineProps) {
+  const [events, setEvents] = useState<BookingEvent[] | null>(null);
+
+  useEffect(() => {
+    let ignore = false;
+    getBookingEvents(username, bookingId)
+      .then(result => { if (!ignore) setEvents(result); })
+      .catch(error => {
+        console.error('Failed to load booking activity:', error);
+        if (!ignore) setEvents([]);
+      });
+    return () => { ignore = true; };
+  }, [username, bookingId]);
+
+  if (!events) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading activity...
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity has been recorded for this booking.</p>;
+  }
+
+  // Reschedules store times; status changes store the statuses themselves.
+  const formatChange = (event: BookingEvent, value: string) =>
+    event.type === 'rescheduled' ? formatInTimeZone(value, timezone, `${dateFormat} p`) : value;
+
+  return (
+    <ol className="relative space-y-4 border-l pl-6">
+      {events.map(event => {
+        const Icon = eventIcons[event.type] || RefreshCw;
+        return (
+          <li key={event.id} className="relative">
+            <span className="absolute -left-[2.1rem] flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+              <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium">{event.message}</p>
+              {event.success === false && <Badge variant="destructive">Failed</Badge>}
+            </div>
+            {event.from && event.to && (
+              <p className="text-sm text-muted-foreground">{formatChange(event, event.from)} → {formatChange(event, event.to)}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {formatInTimeZone(event.at, timezone, `${dateFormat} p`)} · {getActorName(event.actor)}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
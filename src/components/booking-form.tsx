@@ -15,11 +15,19 @@ import {
 } from "@/components/ui/form";
 
 import { createBooking, verifyBookingPayment } from '@/lib/actions';
-import { getBookingsForDay, getAdminSettings } from '@/lib/data';
-import type { Provider, ServiceType, Booking, BookingFormValues, RazorpaySettings, Service } from '@/lib/types';
+import { getAdminSettings } from '@/lib/data';
+import { getAvailabilitySummary, getDayAvailability, getNextAvailableDate, getSeriesAvailability } from '@/lib/availability.actions';
+import { getWaitlistOffer, joinWaitlist } from '@/lib/waitlist.actions';
+import { getClassSeatAvailability } from '@/lib/class.actions';
+import { DATE_KEY_FORMAT, findGroupClass, findStaffMember, getStaffForService } from '@/lib/availability';
+import type { Provider, ServiceType, Booking, BookingFormValues, IntakeQuestion, RazorpaySettings, Service, DayAvailability, AvailabilityDaySummary, RecurrenceFrequency, RecurrenceRule, SeriesOccurrence, GroupClass } from '@/lib/types';
+import { describeRecurrence, getMaxRecurringOccurrences } from '@/lib/recurrence';
+import { requiresApproval } from '@/lib/booking-policy';
+import { getIntakeQuestions, validateIntakeAnswers, type IntakeAnswerValues } from '@/lib/intake';
 import type { Country } from '@/lib/countries';
 import { countries } from '@/lib/countries';
 import { getCurrency, type Currency } from '@/lib/currencies';
+import { postEmbedMessage } from '@/lib/embed';
 import { timezones } from '@/lib/timezones';
 import {
   Command,
@@ -41,15 +49,18 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
-import { Laptop, Building, MapPin, ArrowLeft, Calendar as CalendarIcon, Clock, User, Mail, Phone, Loader2, Globe, CreditCard, Banknote, ChevronsUpDown, Check, ExternalLink, Minus, Plus } from 'lucide-react';
-import { add, format, parse, startOfDay, isEqual, addDays, isToday, startOfToday } from 'date-fns';
-import { toZonedTime, formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Laptop, Building, MapPin, ArrowLeft, Calendar as CalendarIcon, Clock, User, Mail, Phone, Loader2, Globe, CreditCard, Banknote, ChevronsUpDown, Check, ExternalLink, Minus, Plus, Repeat, BellRing, Users } from 'lucide-react';
+import { format, parse, startOfMonth, endOfMonth, startOfToday } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 import { Progress } from '@/components/ui/progress';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useToast } from '@/hooks/use-toast';
 import { getAddressFromPincode } from '@/lib/pincode.actions';
 import { CountryCodeSelector } from './country-code-selector';
-import { cn, getWorkingPeriods } from '@/lib/utils';
+import { IntakeQuestionsFields } from './intake-questions-fields';
+import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -65,6 +76,13 @@ const serviceIcons = {
   'doorstep': <MapPin className="h-8 w-8 mb-2" />,
 };
 
+const recurrencePresets: { value: string; label: string; frequency: RecurrenceFrequency; interval: number }[] = [
+  { value: 'daily', label: 'Every day', frequency: 'daily', interval: 1 },
+  { value: 'weekly', label: 'Every week', frequency: 'weekly', interval: 1 },
+  { value: 'biweekly', label: 'Every 2 weeks', frequency: 'weekly', interval: 2 },
+  { value: 'monthly', label: 'Every month', frequency: 'monthly', interval: 1 },
+];
+
 function debounce<T extends (...args: any[]) => void>(func: T, delay: number) {
   let timeout: NodeJS.Timeout;
   return function(this: any, ...args: Parameters<T>) {
@@ -78,14 +96,22 @@ const Step2_Details = ({
   onContinue,
   serviceType,
   provider,
-  onTimezoneDetect
+  onTimezoneDetect,
+  intakeQuestions,
+  intakeValues,
+  onIntakeChange
 }: {
   onContinue: () => void;
   serviceType: string | null;
   provider: Provider;
   onTimezoneDetect: (timezone: string) => void;
+  intakeQuestions: IntakeQuestion[];
+  intakeValues: IntakeAnswerValues;
+  onIntakeChange: (questionId: string, value: string | string[]) => void;
 }) => {
   const [isTransitioning, startTransition] = useTransition();
+  const [intakeErrors, setIntakeErrors] = useState<string[]>([]);
+  const [isUploadingIntake, setIsUploadingIntake] = useState(false);
   const form = useFormContext<BookingFormValues>();
   const { setValue, trigger, watch } = form;
 
@@ -133,7 +159,9 @@ const Step2_Details = ({
       );
     }
     const isValid = await trigger(fieldsToValidate);
-    if (isValid) {
+    const { errors } = validateIntakeAnswers(intakeQuestions, intakeValues, provider.username);
+    setIntakeErrors(errors);
+    if (isValid && errors.length === 0) {
       onContinue();
     }
   }
@@ -311,9 +339,26 @@ const Step2_Details = ({
               )}
             </div>
           )}
+          {intakeQuestions.length > 0 && (
+            <div className="space-y-4 pt-4 border-t">
+              <p className="font-medium">A Few Questions</p>
+              <IntakeQuestionsFields
+                username={provider.username}
+                questions={intakeQuestions}
+                values={intakeValues}
+                onChange={onIntakeChange}
+                onUploadingChange={setIsUploadingIntake}
+              />
+              {intakeErrors.length > 0 && (
+                <div className="space-y-1">
+                  {intakeErrors.map(error => <p key={error} className="text-sm font-medium text-destructive">{error}</p>)}
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
         <CardFooter>
-          <Button onClick={handleContinueClick} className="w-full" type="button">Continue</Button>
+          <Button onClick={handleContinueClick} className="w-full" type="button" disabled={isUploadingIntake}>Continue</Button>
         </CardFooter>
       </form>
     </Form>
@@ -321,19 +366,36 @@ const Step2_Details = ({
 };
 
 
-export function BookingForm({ provider }: { provider: Provider }) {
+type BookingFormProps = {
+  provider: Provider;
+  // Set when the form runs inside the website widget; serviceSlug locks it to one service.
+  embed?: { serviceSlug: string | null; returnUrl: string | null };
+};
+
+export function BookingForm({ provider, embed }: BookingFormProps) {
   const [step, setStep] = useState(1);
   const [service, setService] = useState<Service | null>(null);
   const [serviceType, setServiceType] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [month, setMonth] = useState<Date | undefined>(undefined);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  const [dailyBookings, setDailyBookings] = useState<Booking[]>([]);
+  const [dayAvailability, setDayAvailability] = useState<DayAvailability | null>(null);
+  const [monthAvailability, setMonthAvailability] = useState<Record<string, AvailabilityDaySummary>>({});
   const [isPending, startTransition] = useTransition();
   const [processingMethod, setProcessingMethod] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [seriesAvailability, setSeriesAvailability] = useState<SeriesOccurrence[]>([]);
+  const [waitlistClaim, setWaitlistClaim] = useState<{ entryId: string; token: string } | null>(null);
+  const [joinedWaitlist, setJoinedWaitlist] = useState<string[]>([]);
+  const [groupClass, setGroupClass] = useState<GroupClass | null>(null);
+  const [seats, setSeats] = useState(1);
+  const [seatsRemaining, setSeatsRemaining] = useState<number | null>(null);
+  const [staffId, setStaffId] = useState('');
+  const [intakeValues, setIntakeValues] = useState<IntakeAnswerValues>({});
   const currency = getCurrency(provider.settings.currency);
+  const maxRecurringOccurrences = getMaxRecurringOccurrences(provider.settings.maxRecurringOccurrences);
 
   const getInitialTimezone = useCallback(() => {
     try {
@@ -385,101 +447,94 @@ export function BookingForm({ provider }: { provider: Provider }) {
   
   const { setValue, getValues, watch, trigger } = form;
 
-  const getTimeSlotsForDate = useCallback((date: Date | undefined, provider: Provider): Date[] => {
-    if (!date || !provider.settings.workingHours) return [];
-
-    const providerTimeZone = provider.settings.timezone;
-    const dayOfWeek = formatInTimeZone(date, providerTimeZone, 'EEEE').toLowerCase();
-    const workingHours = provider.settings.workingHours[dayOfWeek as keyof typeof provider.settings.workingHours];
-
-    const blockedDates = provider.settings.blockedDates || [];
-    if (blockedDates.includes(formatInTimeZone(date, providerTimeZone, 'yyyy-MM-dd'))) {
-        return [];
-    }
-
-    if (!workingHours) return [];
-
-    const slots: Date[] = [];
-    
-    const zonedDate = fromZonedTime(date, providerTimeZone);
-    const dayString = format(zonedDate, 'yyyy-MM-dd');
-
-    const periods = getWorkingPeriods(workingHours);
-    const now = new Date();
-    const bookingDelayLimit = add(toZonedTime(now, providerTimeZone), { hours: provider.settings.bookingDelay || 0 });
-    const totalSlotTime = provider.settings.slotDuration + (provider.settings.breakTime || 0);
-    const blockedSlots = provider.settings.blockedSlots || [];
-
-    const isSelectedDateToday = isSameDay(toZonedTime(date, providerTimeZone), toZonedTime(now, providerTimeZone));
-
-    for (const period of periods) {
-        const startTime = parse(`${dayString} ${period.start}`, 'yyyy-MM-dd HH:mm', new Date());
-        const endTime = parse(`${dayString} ${period.end}`, 'yyyy-MM-dd HH:mm', new Date());
-        
-        let currentTime = fromZonedTime(startTime, providerTimeZone);
-
-        while (currentTime < fromZonedTime(endTime, providerTimeZone)) {
-            const slotUtc = currentTime; 
-            const slotISO = slotUtc.toISOString();
-            let isSlotAvailable = !blockedSlots.includes(slotISO);
+  // Slots depend on the chosen service's duration, buffers and quantity, on
+  // the service type's daily cap and on the chosen staff member, if any. A
+  // waitlist offer being claimed doesn't hold its slot against its customer.
+  const availabilityOptions = useMemo(() => ({
+    serviceSlug: service?.slug || service?.id,
+    serviceType,
+    quantity: getValues('quantity'),
+    staffId: staffId || null,
+    waitlistClaim,
+  }), [service, serviceType, staffId, waitlistClaim, getValues]);
+
+  const eligibleStaff = useMemo(
+    () => groupClass ? [] : getStaffForService(provider.settings, service?.slug || service?.id),
+    [provider.settings, service, groupClass]
+  );
 
-            if (isSelectedDateToday) {
-                if (slotUtc <= bookingDelayLimit) {
-                    isSlotAvailable = false;
-                }
-            }
-            
-            if (isSlotAvailable) {
-                slots.push(slotUtc);
-            }
-            
-            currentTime = add(currentTime, { minutes: totalSlotTime });
-        }
+  const selectNextAvailableDate = useCallback(async (selectedService?: Service | null) => {
+    const nextDate = await getNextAvailableDate(provider.username, undefined, {
+      serviceSlug: selectedService?.slug || selectedService?.id,
+      quantity: getValues('quantity'),
+    });
+    const date = nextDate ? parse(nextDate, DATE_KEY_FORMAT, new Date()) : startOfToday();
+    setSelectedDate(date);
+    setMonth(date);
+  }, [provider.username, getValues]);
+
+  // Opened from a waitlist offer email: restore the customer's answers and go
+  // straight to the review step for the offered slot.
+  const loadWaitlistOffer = useCallback(async (entryId: string, token: string) => {
+    const result = await getWaitlistOffer(provider.username, entryId, token);
+    if (!result.entry) {
+      toast({ title: 'Waitlist Offer Unavailable', description: result.error, variant: 'destructive' });
+      selectNextAvailableDate();
+      return;
     }
-    return slots;
-  }, []);
-
-  const getAvailableSlots = useCallback((date: Date, bookings: Booking[], provider: Provider) => {
-    const allSlots = getTimeSlotsForDate(date, provider);
-    if (!allSlots.length) return [];
-
-    return allSlots.map(slotUtc => {
-        const bookingsInSlot = bookings.filter(b => isEqual(new Date(b.dateTime), slotUtc)).length;
-        
-        const isSingleBooked = !provider.settings.multipleBookingsPerSlot && bookingsInSlot > 0;
-        const remainingSlots = provider.settings.multipleBookingsPerSlot 
-            ? provider.settings.bookingsPerSlot - bookingsInSlot 
-            : 1 - bookingsInSlot;
-        
-        const isBooked = isSingleBooked || remainingSlots <= 0;
 
-        return {
-            slotUtc,
-            isBooked,
-            remainingSlots,
-        };
-    }).filter(slot => !slot.isBooked);
-}, [getTimeSlotsForDate]);
-
-
-  const findNextAvailableDate = useCallback((startDate: Date, provider: Provider): Date => {
-      let currentDate = startOfDay(startDate);
-      for (let i = 0; i < 365; i++) {
-          const slots = getTimeSlotsForDate(currentDate, provider);
-          if (slots.length > 0) {
-              return currentDate;
-          }
-          currentDate = addDays(currentDate, 1);
-      }
-      return startOfToday();
-  }, [getTimeSlotsForDate]);
+    const { entry } = result;
+    const foundService = provider.settings.services?.find(s => s.slug === entry.serviceSlug || s.id === entry.serviceSlug) || null;
+    Object.entries(entry.formValues).forEach(([key, value]) => {
+      setValue(key as keyof BookingFormValues, value as any);
+    });
+    setService(foundService);
+    setServiceType(entry.serviceType);
+    // An "any staff member" offer is held with one of them.
+    const offeredStaffId = entry.offeredStaffId || entry.formValues.staffId || '';
+    setStaffId(offeredStaffId);
+    setValue('staffId', offeredStaffId);
+    const offerDate = parse(entry.date, DATE_KEY_FORMAT, new Date());
+    setSelectedDate(offerDate);
+    setMonth(offerDate);
+    setSelectedTime(entry.offeredSlot!);
+    setValue('dateTime', entry.offeredSlot!);
+    setWaitlistClaim({ entryId, token });
+    setStep(4);
+  }, [provider.username, provider.settings.services, setValue, selectNextAvailableDate, toast]);
 
   useEffect(() => {
     
-    const serviceSlugParam = searchParams.get('serviceSlug');
+    const serviceSlugParam = embed?.serviceSlug || searchParams.get('serviceSlug');
     const quantityParam = searchParams.get('quantity');
+    const waitlistParam = searchParams.get('waitlist');
+    const tokenParam = searchParams.get('token');
+    const classIdParam = searchParams.get('classId');
     const savedStateJSON = localStorage.getItem(localStorageKey);
 
+    // A class has a fixed time and service type, so only the customer's
+    // details and seat count are asked for.
+    const foundClass = findGroupClass(provider.settings, classIdParam);
+    if (foundClass?.enabled) {
+      localStorage.removeItem(localStorageKey);
+      const classServiceType = provider.settings.serviceTypes.find(st => st.id === foundClass.serviceTypeId)?.name || '';
+      setGroupClass(foundClass);
+      setServiceType(classServiceType);
+      setValue('serviceType', classServiceType);
+      setValue('classId', foundClass.id);
+      setValue('seats', 1);
+      setSelectedTime(foundClass.dateTime);
+      setValue('dateTime', foundClass.dateTime);
+      setStep(2);
+      return;
+    }
+
+    if (waitlistParam && tokenParam) {
+      localStorage.removeItem(localStorageKey);
+      loadWaitlistOffer(waitlistParam, tokenParam);
+      return;
+    }
+
     if (serviceSlugParam) {
       localStorage.removeItem(localStorageKey); 
       const foundService = provider.settings.services?.find(s => 
@@ -493,9 +548,7 @@ export function BookingForm({ provider }: { provider: Provider }) {
       }
       
       setStep(1); 
-      const nextAvailable = findNextAvailableDate(startOfToday(), provider);
-      setSelectedDate(nextAvailable);
-      setMonth(nextAvailable);
+      selectNextAvailableDate(foundService);
       return; 
     }
 
@@ -506,12 +559,21 @@ export function BookingForm({ provider }: { provider: Provider }) {
         setService(savedState.service || null);
         setServiceType(savedState.serviceType || null);
         
-        const savedDate = savedState.selectedDate ? new Date(savedState.selectedDate) : findNextAvailableDate(startOfToday(), provider);
-        setSelectedDate(savedDate);
-        setMonth(savedState.month ? new Date(savedState.month) : savedDate);
+        if (savedState.selectedDate) {
+          const savedDate = new Date(savedState.selectedDate);
+          setSelectedDate(savedDate);
+          setMonth(savedState.month ? new Date(savedState.month) : savedDate);
+        } else {
+          selectNextAvailableDate(savedState.service);
+        }
 
         setSelectedTime(savedState.selectedTime || null);
         setUserTimeZone(savedState.userTimeZone || getInitialTimezone());
+        setRecurrence(provider.settings.recurringBookingsEnabled ? savedState.recurrence || null : null);
+        setGroupClass(savedState.groupClass ? findGroupClass(provider.settings, savedState.groupClass.id) || null : null);
+        setSeats(savedState.seats || 1);
+        setStaffId(findStaffMember(provider.settings, savedState.staffId)?.enabled ? savedState.staffId : '');
+        setIntakeValues(savedState.intakeValues || {});
 
         if (savedState.formData) {
           Object.keys(savedState.formData).forEach(key => {
@@ -520,14 +582,10 @@ export function BookingForm({ provider }: { provider: Provider }) {
         }
       } catch (e) {
         localStorage.removeItem(localStorageKey);
-        const nextAvailable = findNextAvailableDate(startOfToday(), provider);
-        setSelectedDate(nextAvailable);
-        setMonth(nextAvailable);
+        selectNextAvailableDate();
       }
     } else {
-      const nextAvailable = findNextAvailableDate(startOfToday(), provider);
-      setSelectedDate(nextAvailable);
-      setMonth(nextAvailable);
+      selectNextAvailableDate();
     }
   }, []); 
 
@@ -543,6 +601,11 @@ export function BookingForm({ provider }: { provider: Provider }) {
           month,
           selectedTime,
           userTimeZone,
+          recurrence,
+          groupClass,
+          seats,
+          staffId,
+          intakeValues,
         };
         localStorage.setItem(localStorageKey, JSON.stringify(stateToSave));
       } catch (e) {
@@ -551,15 +614,69 @@ export function BookingForm({ provider }: { provider: Provider }) {
     });
 
     return () => subscription.unsubscribe();
-  }, [watch, step, service, serviceType, selectedDate, month, selectedTime, userTimeZone, localStorageKey, getValues]);
+  }, [watch, step, service, serviceType, selectedDate, month, selectedTime, userTimeZone, recurrence, groupClass, seats, staffId, intakeValues, localStorageKey, getValues]);
 
 
   useEffect(() => {
     if (selectedDate && provider) {
-      getBookingsForDay(provider.username, selectedDate).then(setDailyBookings);
+      getDayAvailability(provider.username, format(selectedDate, DATE_KEY_FORMAT), availabilityOptions).then(setDayAvailability);
+    } else {
+      setDayAvailability(null);
+    }
+  }, [selectedDate, provider, availabilityOptions]);
+
+  useEffect(() => {
+    if (!month) return;
+    getAvailabilitySummary(
+      provider.username,
+      format(startOfMonth(month), DATE_KEY_FORMAT),
+      format(endOfMonth(month), DATE_KEY_FORMAT),
+      availabilityOptions
+    ).then(summaries => {
+      setMonthAvailability(prev => {
+        const next = { ...prev };
+        summaries.forEach(day => { next[day.date] = day; });
+        return next;
+      });
+    });
+  }, [month, provider.username, availabilityOptions]);
+
+
+  useEffect(() => {
+    if (!recurrence || !selectedTime) {
+      setSeriesAvailability([]);
+      return;
     }
-  }, [selectedDate, provider]);
+    getSeriesAvailability(provider.username, selectedTime, recurrence, availabilityOptions).then(setSeriesAvailability);
+  }, [recurrence, selectedTime, provider.username, availabilityOptions]);
+
+  useEffect(() => {
+    if (!groupClass) return;
+    getClassSeatAvailability(provider.username, groupClass.id).then(availability => {
+      setSeatsRemaining(availability ? availability.seatsRemaining : 0);
+    });
+  }, [groupClass, provider.username]);
+
+  const maxSeats = groupClass ? Math.max(1, Math.min(groupClass.maxSeatsPerBooking || groupClass.capacity, seatsRemaining ?? groupClass.capacity)) : 1;
+
+  const handleSeatsChange = (delta: number) => {
+    const next = Math.min(maxSeats, Math.max(1, seats + delta));
+    setSeats(next);
+    setValue('seats', next);
+  };
 
+  // Every session of a series must be free before the customer can continue.
+  const isSeriesReady = !recurrence || (
+    seriesAvailability.length === recurrence.count && seriesAvailability.every(occurrence => occurrence.isAvailable)
+  );
+
+  const handleStaffSelect = (value: string) => {
+    const nextStaffId = value === 'any' ? '' : value;
+    setStaffId(nextStaffId);
+    setValue('staffId', nextStaffId);
+    setMonthAvailability({});
+    setSelectedTime(null);
+  };
 
   const handleDateSelect = (date: Date | undefined) => {
     setSelectedDate(date);
@@ -567,26 +684,52 @@ export function BookingForm({ provider }: { provider: Provider }) {
         setMonth(date);
     }
     setSelectedTime(null); 
-    if (date) {
-      getBookingsForDay(provider.username, date).then(setDailyBookings);
-    } else {
-      setDailyBookings([]);
-    }
   };
 
 
   const timeSlots = useMemo(() => {
-    if (!selectedDate || !provider) return [];
-    return getAvailableSlots(selectedDate, dailyBookings, provider);
-  }, [selectedDate, dailyBookings, provider, getAvailableSlots]);
+    if (!dayAvailability) return [];
+    return dayAvailability.slots
+      .filter(slot => slot.isAvailable)
+      .map(slot => ({ slotUtc: new Date(slot.start), remainingSlots: slot.remaining }));
+  }, [dayAvailability]);
+
+  // Slots that are only unavailable because they are fully booked; customers
+  // can wait for one of these to free up.
+  const fullSlots = useMemo(() => {
+    if (!dayAvailability || !provider.settings.waitlistEnabled) return [];
+    return dayAvailability.slots
+      .filter(slot => !slot.isAvailable && slot.remaining <= 0 && !slot.isBlocked && !slot.isWithinLeadTime)
+      .map(slot => slot.start);
+  }, [dayAvailability, provider.settings.waitlistEnabled]);
+
+  const handleJoinWaitlist = (slot: string | null) => {
+    if (!selectedDate) return;
+    const date = format(selectedDate, DATE_KEY_FORMAT);
+    startTransition(async () => {
+      const result = await joinWaitlist(provider.username, getValues(), date, slot);
+      if (result.success) {
+        setJoinedWaitlist(prev => [...prev, slot || date]);
+        toast({
+          title: "You're on the Waitlist",
+          description: "We'll email you if a spot opens up.",
+        });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
   
   const serviceSlugParam = searchParams.get('serviceSlug');
 
   const totalSteps = 4;
-  const nextStep = () => setStep(s => s + 1);
+  // Classes skip service type and date selection.
+  const nextStep = () => setStep(s => groupClass && s === 2 ? 4 : s + 1);
   const prevStep = () => {
-    if (step === 1 && serviceSlugParam) {
+    if ((step === 1 && serviceSlugParam) || (step === 2 && groupClass)) {
         router.back();
+    } else if (step === 4 && groupClass) {
+        setStep(2);
     } else {
         setStep(s => (s > 1 ? s - 1 : 1));
     }
@@ -596,8 +739,27 @@ export function BookingForm({ provider }: { provider: Provider }) {
   const handleTimeSelect = (time: Date) => {
     setSelectedTime(time.toISOString());
     setValue('dateTime', time.toISOString());
+    if (embed) {
+      postEmbedMessage('slot_selected', {
+        provider: provider.username,
+        service: service?.slug || service?.id || null,
+        serviceType,
+        dateTime: time.toISOString(),
+      });
+    }
   };
   
+  // Class bookings are not tied to a service, so only the service type's
+  // questions apply to them.
+  const intakeQuestions = useMemo(
+    () => getIntakeQuestions(provider.settings, groupClass ? null : service, serviceType),
+    [provider.settings, groupClass, service, serviceType]
+  );
+
+  const handleIntakeChange = useCallback((questionId: string, value: string | string[]) => {
+    setIntakeValues(values => ({ ...values, [questionId]: value }));
+  }, []);
+
   const handleSelectServiceType = (type: string) => {
     setServiceType(type);
     setValue('serviceType', type as 'Online' | 'Shop Visit' | 'Doorstep');
@@ -628,13 +790,47 @@ export function BookingForm({ provider }: { provider: Provider }) {
         payload.set('dateTime', finalDateTime.toISOString());
         payload.set('customerTimezone', userTimeZone); 
 
+        if (waitlistClaim) {
+            payload.set('waitlistEntryId', waitlistClaim.entryId);
+            payload.set('waitlistToken', waitlistClaim.token);
+        }
+
+        if (recurrence) {
+            payload.set('recurrenceFrequency', recurrence.frequency);
+            payload.set('recurrenceInterval', String(recurrence.interval));
+            payload.set('recurrenceCount', String(recurrence.count));
+        }
+
         if (paymentMethod) {
             payload.set('paymentMethod', paymentMethod);
         }
+
+        if (intakeQuestions.length > 0) {
+            payload.set('intakeAnswers', JSON.stringify(intakeValues));
+        }
+
+        if (embed) {
+            payload.set('embed', '1');
+            if (embed.returnUrl) payload.set('embedReturnUrl', embed.returnUrl);
+        }
         
         const result = await createBooking(payload);
 
-        if (result?.errors) {
+        if (result?.errors?.dateTime) {
+            // Someone else took the slot (or it was blocked) while the customer was filling the form.
+            toast({
+                title: 'Slot No Longer Available',
+                description: result.errors.dateTime.join(', '),
+                variant: 'destructive',
+            });
+            setSelectedTime(null);
+            setValue('dateTime', '');
+            if (selectedDate) {
+                getDayAvailability(provider.username, format(selectedDate, DATE_KEY_FORMAT), availabilityOptions).then(setDayAvailability);
+            }
+            setProcessingMethod(null);
+            setStep(3);
+        } else if (result?.errors) {
             const errorMessages = Object.values(result.errors).flat();
             setError(errorMessages.join(', '));
             setProcessingMethod(null);
@@ -675,6 +871,9 @@ export function BookingForm({ provider }: { provider: Provider }) {
                     } else {
                         setError(verificationResult.error || 'Payment verification failed. Please contact support.');
                         setIsVerifying(false);
+                        if (embed) {
+                            postEmbedMessage('payment_failed', { provider: provider.username, bookingId: result.bookingId, reason: 'verification_failed' });
+                        }
                     }
                 },
                 prefill: {
@@ -702,10 +901,18 @@ export function BookingForm({ provider }: { provider: Provider }) {
             rzp.on('payment.failed', (response: any) => {
                  setError(`Payment failed: ${response.error.description}. Please try again.`);
                  setProcessingMethod(null);
+                 if (embed) {
+                     postEmbedMessage('payment_failed', { provider: provider.username, bookingId: result.bookingId, reason: response.error.description });
+                 }
             });
             rzp.open();
         } else if (result?.stripeSessionUrl) {
-            window.location.href = result.stripeSessionUrl;
+            if (embed) {
+                // Stripe Checkout refuses to load inside a frame, so it takes over the host page.
+                window.open(result.stripeSessionUrl, '_top');
+            } else {
+                window.location.href = result.stripeSessionUrl;
+            }
         } else {
             // Free booking flow or custom payment link is handled by server-side redirect in createBooking
         }
@@ -769,14 +976,29 @@ export function BookingForm({ provider }: { provider: Provider }) {
               onMonthChange={setMonth}
               disabled={(date) => {
                 if (date < startOfToday()) return true;
-                const availableSlots = getTimeSlotsForDate(date, provider);
-                const isDayAvailable = availableSlots.length > 0;
-                return !isDayAvailable;
+                const summary = monthAvailability[format(date, DATE_KEY_FORMAT)];
+                if (!summary) return false;
+                // Fully booked days stay selectable so customers can join the waitlist.
+                return provider.settings.waitlistEnabled ? summary.isDateBlocked || summary.openSlots === 0 : summary.availableSlots === 0;
               }}
               className="rounded-md border self-center"
             />
           </div>
           <div className="md:col-span-1">
+            {eligibleStaff.length > 0 && (
+              <div className="space-y-2 mb-4">
+                <Label htmlFor="staff-member">Staff Member</Label>
+                <Select value={staffId || 'any'} onValueChange={handleStaffSelect}>
+                  <SelectTrigger id="staff-member"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any available</SelectItem>
+                    {eligibleStaff.map(member => (
+                      <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
              <div className="space-y-2 mb-4">
                 <Label htmlFor="user-timezone">Your Timezone</Label>
                  <Popover open={openTimezoneCombobox} onOpenChange={setOpenTimezoneCombobox}>
@@ -849,10 +1071,91 @@ export function BookingForm({ provider }: { provider: Provider }) {
                 </Button>
               )}) : <p className="text-muted-foreground col-span-3 text-sm text-center">{selectedDate ? "No available slots for this day." : "Please select a date first."}</p>}
             </div>
+            {selectedDate && fullSlots.length > 0 && (
+              <div className="mt-6 space-y-2 border-t pt-4">
+                <h3 className="font-semibold text-sm">Fully Booked</h3>
+                <p className="text-xs text-muted-foreground">Join the waitlist and we'll email you if a spot opens up.</p>
+                {fullSlots.map(slot => {
+                  const hasJoined = joinedWaitlist.includes(slot);
+                  return (
+                    <div key={slot} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-muted-foreground">{formatInTimeZone(slot, userTimeZone, 'p')}</span>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleJoinWaitlist(slot)} disabled={isPending || hasJoined}>
+                        <BellRing className="mr-2 h-4 w-4" />
+                        {hasJoined ? 'On Waitlist' : 'Join Waitlist'}
+                      </Button>
+                    </div>
+                  );
+                })}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => handleJoinWaitlist(null)}
+                  disabled={isPending || joinedWaitlist.includes(format(selectedDate, DATE_KEY_FORMAT))}
+                >
+                  {joinedWaitlist.includes(format(selectedDate, DATE_KEY_FORMAT)) ? 'On Waitlist for This Day' : 'Join Waitlist for Any Time This Day'}
+                </Button>
+              </div>
+            )}
+            {provider.settings.recurringBookingsEnabled && selectedTime && (
+              <div className="mt-6 space-y-3 border-t pt-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="repeat-booking"
+                    checked={!!recurrence}
+                    onCheckedChange={(checked) => setRecurrence(checked ? { frequency: 'weekly', interval: 1, count: Math.min(4, maxRecurringOccurrences) } : null)}
+                  />
+                  <Label htmlFor="repeat-booking">Repeat this booking</Label>
+                </div>
+                {recurrence && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={recurrencePresets.find(p => p.frequency === recurrence.frequency && p.interval === recurrence.interval)?.value}
+                        onValueChange={(value) => {
+                          const preset = recurrencePresets.find(p => p.value === value);
+                          if (preset) setRecurrence({ ...recurrence, frequency: preset.frequency, interval: preset.interval });
+                        }}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {recurrencePresets.map(preset => (
+                            <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={String(recurrence.count)} onValueChange={(value) => setRecurrence({ ...recurrence, count: Number(value) })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: maxRecurringOccurrences - 1 }, (_, i) => i + 2).map(count => (
+                            <SelectItem key={count} value={String(count)}>{count} sessions</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                      {seriesAvailability.map(occurrence => (
+                        <li key={occurrence.dateTime} className="flex items-center justify-between gap-2">
+                          <span>{formatInTimeZone(occurrence.dateTime, userTimeZone, 'EEE, d MMM yyyy p')}</span>
+                          {occurrence.isAvailable
+                            ? <Check className="h-4 w-4 text-green-600" />
+                            : <Badge variant="destructive">Unavailable</Badge>}
+                        </li>
+                      ))}
+                    </ul>
+                    {!isSeriesReady && seriesAvailability.length === recurrence.count && (
+                      <p className="text-sm text-destructive">Some sessions are unavailable. Try another time or fewer sessions.</p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
         <CardFooter>
-          <Button onClick={nextStep} disabled={!selectedTime} className="w-full">Review Booking</Button>
+          <Button onClick={nextStep} disabled={!selectedTime || !isSeriesReady} className="w-full">Review Booking</Button>
         </CardFooter>
       </>
     );
@@ -874,13 +1177,24 @@ export function BookingForm({ provider }: { provider: Provider }) {
       const quantity = formData.quantity || 1;
       price = (price || 0) * quantity;
     }
+
+    if (recurrence) {
+      price = (price || 0) * recurrence.count;
+    }
+
+    if (groupClass) {
+      price = groupClass.pricePerSeat * seats;
+    }
+    const isClassFull = !!groupClass && seatsRemaining === 0;
     
     const isPaidService = !!(price && price > 0);
     const razorpay = provider.settings.paymentGateways?.razorpay;
     const stripe = provider.settings.paymentGateways?.stripe;
-    const hasProviderGateway = !!((razorpay?.enabled && razorpay?.keyId && razorpay?.keySecret) || (stripe?.enabled && stripe?.secretKey));
+    // The public pages leave a gateway enabled only once it is fully set up (see toPublicProvider).
+    const hasProviderGateway = !!((razorpay?.enabled && razorpay?.keyId) || stripe?.enabled);
     const onlinePayment = provider.settings.onlinePaymentEnabled && hasProviderGateway;
     const payAfterService = provider.settings.payAfterServiceEnabled;
+    const needsApproval = requiresApproval(provider.settings, service);
 
     const displayTimeInProviderTz = finalDateTime ? formatInTimeZone(finalDateTime, providerTimeZone, 'p') : '';
     const displayTimeInUserTz = finalDateTime ? formatInTimeZone(finalDateTime, userTimeZone, 'p') : '';
@@ -905,8 +1219,32 @@ export function BookingForm({ provider }: { provider: Provider }) {
                     </div>
                     <div className="flex items-center gap-3">
                         <div className="w-5 text-muted-foreground">{serviceIcons[serviceTypeSetting!?.id || 'online']}</div>
-                        <span className="font-medium">{service?.title || serviceType} {formData.quantity && formData.quantity > 1 ? `(x${formData.quantity})` : ''}</span>
+                        <span className="font-medium">
+                            {groupClass ? groupClass.title : `${service?.title || serviceType} ${formData.quantity && formData.quantity > 1 ? `(x${formData.quantity})` : ''}`}
+                        </span>
                     </div>
+                    {eligibleStaff.length > 0 && (
+                        <div className="flex items-center gap-3">
+                            <Users className="h-5 w-5 text-muted-foreground" />
+                            <span className="font-medium">{findStaffMember(provider.settings, staffId)?.name || 'Any available staff member'}</span>
+                        </div>
+                    )}
+                    {groupClass && (
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-3">
+                                <Users className="h-5 w-5 text-muted-foreground" />
+                                <span className="font-medium">Seats</span>
+                                {seatsRemaining !== null && (
+                                    <Badge variant="destructive_light">{seatsRemaining} left</Badge>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Button type="button" variant="outline" size="icon" className="h-8 w-8" onClick={() => handleSeatsChange(-1)} disabled={seats <= 1}><Minus /></Button>
+                                <span className="font-bold w-8 text-center">{seats}</span>
+                                <Button type="button" variant="outline" size="icon" className="h-8 w-8" onClick={() => handleSeatsChange(1)} disabled={seats >= maxSeats}><Plus /></Button>
+                            </div>
+                        </div>
+                    )}
                      
                     {addressString && serviceTypeSetting?.id !== 'online' && (
                         <div className="flex items-start gap-3">
@@ -927,6 +1265,12 @@ export function BookingForm({ provider }: { provider: Provider }) {
                         <Globe className="h-5 w-5 text-muted-foreground" />
                         <span className="font-medium">{displayTimeInUserTz} ({userTimeZone.split('/').pop()?.replace(/_/g, ' ')})</span>
                     </div>
+                    {recurrence && (
+                        <div className="flex items-center gap-3">
+                            <Repeat className="h-5 w-5 text-muted-foreground" />
+                            <span className="font-medium">{describeRecurrence(recurrence)}</span>
+                        </div>
+                    )}
                      {isPaidService && (
                          <div className="flex items-center justify-between gap-3 pt-2 border-t mt-4">
                             <span className="font-semibold text-lg">Total to Pay:</span>
@@ -936,7 +1280,19 @@ export function BookingForm({ provider }: { provider: Provider }) {
                 </div>
 
                 <div className="space-y-3">
-                    {isPaidService && onlinePayment && payAfterService ? (
+                    {isClassFull ? (
+                        <p className="text-sm text-destructive text-center">This class is fully booked.</p>
+                    ) : needsApproval ? (
+                        <>
+                            <Button onClick={() => handleFormSubmit(isPaidService ? 'later' : undefined)} className="w-full" size="lg" disabled={isPending}>
+                                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Request Booking
+                            </Button>
+                            <p className="text-sm text-muted-foreground text-center">
+                                {provider.name} reviews every booking before confirming it. Your time is held, and nothing is charged now{isPaidService ? ': once approved, the booking is paid for after the service' : ''}.
+                            </p>
+                        </>
+                    ) : isPaidService && onlinePayment && payAfterService ? (
                         <div className="grid sm:grid-cols-2 gap-4">
                             <Button onClick={() => handleFormSubmit('online')} size="lg" className="w-full" disabled={isPending}>
                                 {isPending && processingMethod === 'online' ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <CreditCard className="mr-2 h-4 w-4"/>}
@@ -1007,7 +1363,7 @@ export function BookingForm({ provider }: { provider: Provider }) {
   const renderStep = () => {
     switch(step) {
         case 1: return <Step1_ServiceType />;
-        case 2: return <Step2_Details onContinue={nextStep} serviceType={serviceType} provider={provider} onTimezoneDetect={handleTimezoneDetect} />;
+        case 2: return <Step2_Details onContinue={nextStep} serviceType={serviceType} provider={provider} onTimezoneDetect={handleTimezoneDetect} intakeQuestions={intakeQuestions} intakeValues={intakeValues} onIntakeChange={handleIntakeChange} />;
         case 3: return <Step3_DateTime month={month} setMonth={setMonth} />;
         case 4: return <Step4_Confirm dateFormat={provider.settings.dateFormat || 'PPP'} />;
         default: return <Step1_ServiceType />;
@@ -1037,14 +1393,3 @@ export function BookingForm({ provider }: { provider: Provider }) {
     </Card>
   );
 }
-
-function isSameDay(date1: Date, date2: Date) {
-  return (
-    date1.getFullYear() === date2.getFullYear() &&
-    date1.getMonth() === date2.getMonth() &&
-    date1.getDate() === date2.getDate()
-  );
-}
-
-
-    
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useTransition } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { formatInTimeZone } from 'date-fns-tz';
+import { deleteObject, getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
+import { Loader2, Paperclip, Trash2 } from 'lucide-react';
+import { addBookingAttachment, addBookingNote, deleteBookingNote, removeBookingAttachment } from '@/lib/booking-notes.actions';
+import { formatFileSize, getBookingAttachmentPath, MAX_BOOKING_ATTACHMENT_MB, MAX_BOOKING_NOTE_LENGTH } from '@/lib/booking-notes';
+import { getIdToken, storage } from '@/lib/firebase';
+import type { BookingAttachment, BookingNotes } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+
+type BookingNotesPanelProps = {
+  username: string;
+  bookingId: string;
+  bookingNotes: BookingNotes | null;
+  canManage: boolean;
+  timezone: string;
+  dateFormat: string;
+  onChange: (bookingNotes: BookingNotes) => void;
+};
+
+// The team's private notes thread and files on a booking.
+export function BookingNotesPanel({ username, bookingId, bookingNotes, canManage, timezone, dateFormat, onChange }: BookingNotesPanelProps) {
+  const [newNote, setNewNote] = useState('');
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const { toast } = useToast();
+
+  const notes = bookingNotes?.notes || [];
+  const attachments = bookingNotes?.attachments || [];
+
+  const handleResult = (result: { success: boolean; error?: string; bookingNotes?: BookingNotes }) => {
+    if (result.success && result.bookingNotes) {
+      onChange(result.bookingNotes);
+      return true;
+    }
+    toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    return false;
+  };
+
+  const handleAddNote = () => {
+    startSaveTransition(async () => {
+      if (handleResult(await addBookingNote(await getIdToken(), username, bookingId, newNote))) {
+        setNewNote('');
+      }
+    });
+  };
+
+  const handleDeleteNote = (noteId: string) => {
+    startSaveTransition(async () => {
+      handleResult(await deleteBookingNote(await getIdToken(), username, bookingId, noteId));
+    });
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_BOOKING_ATTACHMENT_MB * 1024 * 1024) {
+      toast({ title: 'File Too Large', description: `Files must be smaller than ${MAX_BOOKING_ATTACHMENT_MB} MB.`, variant: 'destructive' });
+      return;
+    }
+
+    const id = uuidv4();
+    const path = getBookingAttachmentPath(username, bookingId, id, file.name);
+    setUploadProgress(0);
+    try {
+      const uploadTask = uploadBytesResumable(ref(storage, path), file, { contentType: file.type });
+      const url = await new Promise<string>((resolve, reject) => {
+        uploadTask.on('state_changed',
+          (snapshot) => setUploadProgress((snapshot.bytesTransferred / snapshot.totalBytes) * 100),
+          reject,
+          async () => resolve(await getDownloadURL(uploadTask.snapshot.ref))
+        );
+      });
+      const result = await addBookingAttachment(await getIdToken(), username, bookingId, {
+        id,
+        name: file.name,
+        path,
+        url,
+        contentType: file.type,
+        size: file.size,
+      });
+      if (!handleResult(result)) {
+        await deleteObject(ref(storage, path)).catch(() => {});
+      }
+    } catch (error) {
+      console.error('Error uploading booking attachment:', error);
+      toast({ title: 'Upload Failed', description: 'The file could not be uploaded. Please try again.', variant: 'destructive' });
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleRemoveAttachment = (attachment: BookingAttachment) => {
+    startSaveTransition(async () => {
+      if (handleResult(await removeBookingAttachment(await getIdToken(), username, bookingId, attachment.id))) {
+        // The record is gone either way; a leftover file is only wasted space.
+        await deleteObject(ref(storage, attachment.path)).catch(error => console.error('Error deleting booking attachment:', error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {notes.length === 0 && <p className="text-sm text-muted-foreground">No notes yet. Only your team can see them.</p>}
+        {notes.map(note => (
+          <div key={note.id} className="rounded-md border bg-background p-3">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm whitespace-pre-wrap">{note.text}</p>
+              {canManage && (
+                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 text-destructive" onClick={() => handleDeleteNote(note.id)} disabled={isSaving} aria-label="Delete note">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">{note.createdBy} · {formatInTimeZone(note.createdAt, timezone, `${dateFormat} p`)}</p>
+          </div>
+        ))}
+        {canManage && (
+          <div className="space-y-2">
+            <Textarea value={newNote} onChange={e => setNewNote(e.target.value)} maxLength={MAX_BOOKING_NOTE_LENGTH} rows={3} placeholder="Add a private note" />
+            <Button size="sm" onClick={handleAddNote} disabled={isSaving || !newNote.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Add Note
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Attachments</p>
+        {attachments.length === 0 && <p className="text-sm text-muted-foreground">No files attached.</p>}
+        {attachments.map(attachment => (
+          <div key={attachment.id} className="flex items-center justify-between gap-2 rounded-md border bg-background p-2">
+            <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="flex min-w-0 items-center gap-2 text-sm text-primary hover:underline">
+              <Paperclip className="h-4 w-4 shrink-0" />
+              <span className="truncate">{attachment.name}</span>
+              <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+            </a>
+            {canManage && (
+              <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 text-destructive" onClick={() => handleRemoveAttachment(attachment)} disabled={isSaving} aria-label={`Remove ${attachment.name}`}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {canManage && (
+          <div className="space-y-2">
+            <Input
+              type="file"
+              onChange={e => {
+                handleUpload(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              disabled={uploadProgress !== null}
+            />
+            {uploadProgress !== null && <Progress value={uploadProgress} className="h-2" />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { CalendarDays, ClipboardCopy, Loader2, RefreshCw } from 'lucide-react';
+import { getCalendarFeed, regenerateCalendarFeed } from '@/lib/calendar.actions';
+import { calendarFeedStatuses } from '@/lib/calendar-feed';
+import { getIdToken } from '@/lib/firebase';
+import type { BookingStatus } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+// The secret webcal:// link for Apple Calendar, Outlook and other calendar apps.
+export function CalendarFeedCard({ username }: { username: string }) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<BookingStatus[]>([]);
+  const [isRegenerateOpen, setIsRegenerateOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    startTransition(async () => {
+      const result = await getCalendarFeed(await getIdToken(), username);
+      setFeedUrl(result.url || null);
+      setError(result.error || null);
+    });
+  }, [username]);
+
+  // Without a status filter the feed lists every booking that holds its time.
+  const subscribeUrl = useMemo(() => {
+    if (!feedUrl) return '';
+    const url = new URL(feedUrl);
+    if (statuses.length > 0) url.searchParams.set('status', statuses.join(','));
+    return url.toString().replace(/^https?:/, 'webcal:');
+  }, [feedUrl, statuses]);
+
+  const toggleStatus = (status: BookingStatus, checked: boolean) => {
+    setStatuses(current => checked
+      ? calendarFeedStatuses.filter(s => s === status || current.includes(s))
+      : current.filter(s => s !== status));
+  };
+
+  const handleRegenerate = () => {
+    startTransition(async () => {
+      const result = await regenerateCalendarFeed(await getIdToken(), username);
+      if (result.success && result.url) {
+        setFeedUrl(result.url);
+        toast({ title: 'New Link Created', description: 'Calendars subscribed to the old link will stop updating.' });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+      setIsRegenerateOpen(false);
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+        <CalendarDays className="h-10 w-10 text-primary" />
+        <div className="flex-1">
+          <CardTitle>Calendar Feed</CardTitle>
+          <CardDescription>Subscribe to your bookings from Apple Calendar, Outlook or any app that accepts a calendar URL. Keep this link private: it shows your customers&apos; details.</CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!feedUrl && !error && <Loader2 className="h-5 w-5 animate-spin" />}
+        {feedUrl && (
+          <>
+            <div className="flex items-center space-x-2">
+              <Input value={subscribeUrl} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={() => {
+                navigator.clipboard.writeText(subscribeUrl);
+                toast({ title: 'Copied to clipboard!' });
+              }}>
+                <ClipboardCopy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Only include these statuses (optional)</Label>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {calendarFeedStatuses.map(status => (
+                  <div key={status} className="flex items-center gap-2">
+                    <Checkbox id={`feed-status-${status}`} checked={statuses.includes(status)} onCheckedChange={checked => toggleStatus(status, checked === true)} />
+                    <Label htmlFor={`feed-status-${status}`} className="font-normal">{status}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <a href={subscribeUrl}><CalendarDays className="mr-2 h-4 w-4" />Subscribe</a>
+              </Button>
+              <Button variant="outline" onClick={() => setIsRegenerateOpen(true)} disabled={isPending}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Regenerate Link
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isRegenerateOpen} onOpenChange={setIsRegenerateOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Create a new feed link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current link will stop working. Any calendar subscribed to it must be subscribed again with the new link.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegenerate} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create New Link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
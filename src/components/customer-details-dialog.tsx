@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Ban, CalendarPlus, CreditCard, Loader2, X } from 'lucide-react';
+import { updateCustomerProfile } from '@/lib/customer.actions';
+import { getBookingTitle } from '@/lib/availability';
+import type { Customer } from '@/lib/customers';
+import { getCurrency } from '@/lib/currencies';
+import { getIdToken } from '@/lib/firebase';
+import type { CustomerRestriction, CustomerRestrictionType, Provider } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+
+type CustomerDetailsDialogProps = {
+  provider: Provider;
+  customer: Customer | null;
+  canManage: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+  onBookAgain: (customer: Customer) => void;
+  restrictions: CustomerRestriction[];
+  isRestricting: boolean;
+  onRestrict: (customer: Customer, type: CustomerRestrictionType) => void;
+  onLiftRestriction: (restriction: CustomerRestriction) => void;
+};
+
+export function CustomerDetailsDialog({ provider, customer, canManage, onOpenChange, onSaved, onBookAgain, restrictions, isRestricting, onRestrict, onLiftRestriction }: CustomerDetailsDialogProps) {
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, startSaveTransition] = useTransition();
+  const { toast } = useToast();
+
+  const timezone = provider.settings.timezone || 'UTC';
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+  const currency = getCurrency(provider.settings.currency);
+
+  useEffect(() => {
+    setNotes(customer?.notes || '');
+    setTags(customer?.tags || []);
+    setNewTag('');
+  }, [customer]);
+
+  const handleAddTag = () => {
+    const tag = newTag.trim();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setNewTag('');
+  };
+
+  const handleSave = () => {
+    if (!customer) return;
+    startSaveTransition(async () => {
+      const result = await updateCustomerProfile(await getIdToken(), provider.username, {
+        keys: customer.keys,
+        profileIds: customer.profileIds,
+        notes,
+        tags,
+      });
+      if (result.success) {
+        toast({ title: 'Customer Saved', description: `Notes and tags for ${customer.name} have been saved.` });
+        onSaved();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={!!customer} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{customer?.name}</DialogTitle>
+          <DialogDescription>{[...(customer?.emails || []), ...(customer?.phones || [])].join(' · ')}</DialogDescription>
+        </DialogHeader>
+        {customer && (
+          <ScrollArea className="max-h-[65vh] -mx-6">
+            <div className="space-y-6 px-6 py-2">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="rounded-lg border bg-muted/50 p-3">
+                  <p className="text-sm text-muted-foreground">Lifetime Value</p>
+                  <p className="text-lg font-semibold">{currency?.symbol}{customer.lifetimeValue.toLocaleString()}</p>
+                </div>
+                <div className="rounded-lg border bg-muted/50 p-3">
+                  <p className="text-sm text-muted-foreground">Visits</p>
+                  <p className="text-lg font-semibold">{customer.visitCount}</p>
+                </div>
+                <div className="rounded-lg border bg-muted/50 p-3">
+                  <p className="text-sm text-muted-foreground">Last Visit</p>
+                  <p className="text-lg font-semibold">{customer.lastVisit ? formatInTimeZone(customer.lastVisit, timezone, 'PP') : '—'}</p>
+                </div>
+                <div className="rounded-lg border bg-muted/50 p-3">
+                  <p className="text-sm text-muted-foreground">No-shows</p>
+                  <p className="text-lg font-semibold">{customer.noShowCount}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">Online Booking</h3>
+                {restrictions.length > 0 ? restrictions.map(restriction => (
+                  <div key={restriction.id} className="flex items-center justify-between gap-3 rounded-lg border p-3 text-sm">
+                    <div>
+                      <p className="font-medium">{restriction.type === 'block' ? 'Blocked from booking online' : 'Must pay online when booking'}</p>
+                      <p className="text-muted-foreground">{[restriction.email, restriction.phone].filter(Boolean).join(' · ')}{restriction.reason && ` — ${restriction.reason}`}</p>
+                    </div>
+                    {canManage && (
+                      <Button variant="outline" size="sm" onClick={() => onLiftRestriction(restriction)} disabled={isRestricting}>Lift</Button>
+                    )}
+                  </div>
+                )) : (
+                  <p className="text-sm text-muted-foreground">This customer can book online like anyone else.</p>
+                )}
+                {canManage && restrictions.length === 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onRestrict(customer, 'prepay')} disabled={isRestricting}>
+                      <CreditCard className="mr-2 h-4 w-4" /> Require Prepayment
+                    </Button>
+                    <Button variant="outline" size="sm" className="text-destructive" onClick={() => onRestrict(customer, 'block')} disabled={isRestricting}>
+                      <Ban className="mr-2 h-4 w-4" /> Block
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="customer-notes">Notes</Label>
+                <Textarea id="customer-notes" value={notes} onChange={e => setNotes(e.target.value)} rows={4} disabled={!canManage} placeholder="Only your team can see these notes." />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="customer-tag">Tags</Label>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="gap-1">
+                      {tag}
+                      {canManage && (
+                        <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                  {tags.length === 0 && <p className="text-sm text-muted-foreground">No tags yet.</p>}
+                </div>
+                {canManage && (
+                  <Input
+                    id="customer-tag"
+                    value={newTag}
+                    onChange={e => setNewTag(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAddTag();
+                      }
+                    }}
+                    onBlur={handleAddTag}
+                    placeholder="Add a tag and press Enter (e.g. VIP)"
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">Booking History</h3>
+                <div className="divide-y rounded-lg border">
+                  {customer.bookings.map(booking => (
+                    <div key={booking.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                      <div>
+                        <p className="font-medium">{getBookingTitle(provider.settings, booking) || booking.serviceType}</p>
+                        <p className="text-muted-foreground">{formatInTimeZone(booking.dateTime, timezone, `${dateFormat} p`)}</p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant="outline">{booking.status}</Badge>
+                        {!!booking.payment?.amount && (
+                          <p className="text-muted-foreground mt-1">{currency?.symbol}{booking.payment.amount.toLocaleString()} {booking.payment.status === 'Paid' ? 'paid' : 'due'}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter className="gap-2">
+          {canManage && customer && (
+            <Button variant="outline" onClick={() => onBookAgain(customer)}>
+              <CalendarPlus className="mr-2 h-4 w-4" /> Book Again
+            </Button>
+          )}
+          {canManage && (
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
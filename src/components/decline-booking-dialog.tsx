@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { Loader2 } from 'lucide-react';
+import { declineBooking } from '@/lib/actions';
+import { getIdToken } from '@/lib/firebase';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+type DeclineBookingDialogProps = {
+  username: string;
+  booking: { id: string; customerName: string; seriesId?: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onDeclined: (bookingIds: string[]) => void;
+};
+
+// Asks for the reason that goes into the customer's decline email.
+export function DeclineBookingDialog({ username, booking, onOpenChange, onDeclined }: DeclineBookingDialogProps) {
+  const [reason, setReason] = useState('');
+  const [isDeclining, startDeclineTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (booking) setReason('');
+  }, [booking]);
+
+  const handleDecline = () => {
+    if (!booking) return;
+    startDeclineTransition(async () => {
+      const result = await declineBooking(await getIdToken(), username, booking.id, reason);
+      if (result.success) {
+        toast({ title: 'Booking Declined', description: `${booking.customerName} has been notified and the slot is free again.` });
+        onDeclined(result.bookingIds || [booking.id]);
+        onOpenChange(false);
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Decline Booking Request</DialogTitle>
+          <DialogDescription>
+            {booking?.customerName} will be emailed this reason.{booking?.seriesId && ' Every session in the series is declined.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="decline-reason">Reason</Label>
+          <Textarea id="decline-reason" value={reason} onChange={e => setReason(e.target.value)} placeholder="e.g. We're fully committed that day. Please pick another date." rows={4} />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleDecline} disabled={isDeclining || !reason.trim()}>
+            {isDeclining && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Decline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
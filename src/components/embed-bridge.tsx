@@ -0,0 +1,32 @@
+'use client';
+
+import { useEffect } from 'react';
+import { isEmbedded, postEmbedMessage, type EmbedEventType } from '@/lib/embed';
+
+type EmbedBridgeProps = {
+  // Posted once when the page loads, e.g. booking_completed on the confirmation page.
+  event?: { type: EmbedEventType; data: Record<string, unknown> };
+};
+
+// Keeps the host page's iframe as tall as the widget's content.
+export function EmbedBridge({ event }: EmbedBridgeProps) {
+  useEffect(() => {
+    if (!isEmbedded()) return;
+
+    postEmbedMessage('ready');
+    if (event) postEmbedMessage(event.type, event.data);
+
+    let lastHeight = 0;
+    const observer = new ResizeObserver(() => {
+      const height = document.body.scrollHeight;
+      if (height !== lastHeight) {
+        lastHeight = height;
+        postEmbedMessage('resize', { height });
+      }
+    });
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []); // The event is only announced on load.
+
+  return null;
+}
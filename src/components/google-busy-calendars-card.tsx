@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { CalendarX, Loader2 } from 'lucide-react';
+import { getGoogleCalendarOptions, updateBusyCalendars } from '@/lib/calendar.actions';
+import { getIdToken } from '@/lib/firebase';
+import type { GoogleCalendarOption } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+
+// Which of the provider's Google calendars take booking slots away.
+export function GoogleBusyCalendarsCard({ username }: { username: string }) {
+  const [calendars, setCalendars] = useState<GoogleCalendarOption[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [canChoose, setCanChoose] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    startTransition(async () => {
+      const result = await getGoogleCalendarOptions(await getIdToken(), username);
+      setCalendars(result.calendars || null);
+      setSelectedIds(result.selectedIds || []);
+      setCanChoose(result.canChoose !== false);
+      setError(result.error || null);
+    });
+  }, [username]);
+
+  const toggleCalendar = (id: string, checked: boolean) => {
+    setSelectedIds(current => checked ? [...current, id] : current.filter(selectedId => selectedId !== id));
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await updateBusyCalendars(await getIdToken(), username, selectedIds);
+      if (result.success) {
+        toast({ title: 'Calendars Saved', description: 'Events in these calendars now block your booking slots.' });
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+        <CalendarX className="h-10 w-10 text-primary" />
+        <div className="flex-1">
+          <CardTitle>Busy Calendars</CardTitle>
+          <CardDescription>Events in the calendars you check here block the matching booking slots. Free events and events you declined don&apos;t block anything.</CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {!calendars && !error && <Loader2 className="h-5 w-5 animate-spin" />}
+        {calendars && (
+          <>
+            <div className="space-y-2">
+              {calendars.map(calendar => (
+                <div key={calendar.id} className="flex items-center gap-2">
+                  <Checkbox id={`busy-calendar-${calendar.id}`} checked={selectedIds.includes(calendar.id)} onCheckedChange={checked => toggleCalendar(calendar.id, checked === true)} />
+                  <Label htmlFor={`busy-calendar-${calendar.id}`} className="font-normal">
+                    {calendar.name}{calendar.primary ? ' (primary)' : ''}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {!canChoose && (
+              <p className="text-sm text-muted-foreground">To choose other calendars, disconnect Google Calendar and connect it again.</p>
+            )}
+            <Button onClick={handleSave} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Calendars
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
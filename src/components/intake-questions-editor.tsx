@@ -0,0 +1,103 @@
+'use client';
+
+import { v4 as uuidv4 } from 'uuid';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { hasIntakeOptions, intakeQuestionTypes } from '@/lib/intake';
+import type { IntakeQuestion, IntakeQuestionType } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type IntakeQuestionsEditorProps = {
+  idPrefix: string;
+  questions: IntakeQuestion[];
+  onChange: (questions: IntakeQuestion[]) => void;
+};
+
+// Form builder for the questions customers answer when booking. Choice and
+// checkbox options are edited one per line.
+export function IntakeQuestionsEditor({ idPrefix, questions, onChange }: IntakeQuestionsEditorProps) {
+  const updateQuestion = (id: string, changes: Partial<IntakeQuestion>) => {
+    onChange(questions.map(q => q.id === id ? { ...q, ...changes } : q));
+  };
+
+  const handleTypeChange = (question: IntakeQuestion, type: IntakeQuestionType) => {
+    updateQuestion(question.id, { type, options: hasIntakeOptions(type) ? question.options || [] : [] });
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const next = [...questions];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const addQuestion = () => {
+    onChange([...questions, { id: uuidv4(), label: '', type: 'text', required: false, options: [], helpText: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {questions.map((question, index) => (
+        <div key={question.id} className="space-y-3 rounded-md border p-3">
+          <div className="grid gap-3 sm:grid-cols-[1fr_180px]">
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-q-${question.id}`}>Question</Label>
+              <Input id={`${idPrefix}-q-${question.id}`} value={question.label} onChange={e => updateQuestion(question.id, { label: e.target.value })} placeholder="e.g. Do you have any allergies?" />
+            </div>
+            <div className="space-y-1">
+              <Label>Answer Type</Label>
+              <Select value={question.type} onValueChange={value => handleTypeChange(question, value as IntakeQuestionType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {intakeQuestionTypes.map(type => <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {hasIntakeOptions(question.type) && (
+            <div className="space-y-1">
+              <Label htmlFor={`${idPrefix}-options-${question.id}`}>Options (one per line)</Label>
+              <Textarea
+                id={`${idPrefix}-options-${question.id}`}
+                value={(question.options || []).join('\n')}
+                onChange={e => updateQuestion(question.id, { options: e.target.value.split('\n') })}
+                onBlur={() => updateQuestion(question.id, { options: (question.options || []).map(o => o.trim()).filter(Boolean) })}
+                rows={3}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-help-${question.id}`}>Help Text (optional)</Label>
+            <Input id={`${idPrefix}-help-${question.id}`} value={question.helpText || ''} onChange={e => updateQuestion(question.id, { helpText: e.target.value })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch id={`${idPrefix}-required-${question.id}`} checked={question.required} onCheckedChange={checked => updateQuestion(question.id, { required: checked })} />
+              <Label htmlFor={`${idPrefix}-required-${question.id}`}>Required</Label>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+                <span className="sr-only">Move up</span>
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="text-red-500 hover:text-red-600" onClick={() => onChange(questions.filter(q => q.id !== question.id))}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove question</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addQuestion}>
+        <Plus className="mr-2 h-4 w-4" /> Add Question
+      </Button>
+    </div>
+  );
+}
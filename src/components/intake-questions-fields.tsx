@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
+import { ExternalLink } from 'lucide-react';
+import { storage } from '@/lib/firebase';
+import { getIntakeUploadPath, MAX_INTAKE_FILE_MB, MAX_INTAKE_TEXT_LENGTH, type IntakeAnswerValues } from '@/lib/intake';
+import type { IntakeQuestion } from '@/lib/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+
+type IntakeQuestionsFieldsProps = {
+  username: string;
+  questions: IntakeQuestion[];
+  values: IntakeAnswerValues;
+  onChange: (questionId: string, value: string | string[]) => void;
+  onUploadingChange: (uploading: boolean) => void;
+};
+
+// The customer's side of the provider's intake questions. Files are uploaded
+// straight to storage and the answer holds the download URL.
+export function IntakeQuestionsFields({ username, questions, values, onChange, onUploadingChange }: IntakeQuestionsFieldsProps) {
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+
+  const handleFileChange = async (question: IntakeQuestion, file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_INTAKE_FILE_MB * 1024 * 1024) {
+      setUploadErrors(e => ({ ...e, [question.id]: `Files must be smaller than ${MAX_INTAKE_FILE_MB} MB.` }));
+      return;
+    }
+
+    setUploadErrors(e => ({ ...e, [question.id]: '' }));
+    setUploadProgress(p => ({ ...p, [question.id]: 0 }));
+    onUploadingChange(true);
+    try {
+      const storageRef = ref(storage, getIntakeUploadPath(username, file.name, uuidv4()));
+      const uploadTask = uploadBytesResumable(storageRef, file);
+      const url = await new Promise<string>((resolve, reject) => {
+        uploadTask.on('state_changed',
+          (snapshot) => setUploadProgress(p => ({ ...p, [question.id]: (snapshot.bytesTransferred / snapshot.totalBytes) * 100 })),
+          reject,
+          async () => resolve(await getDownloadURL(uploadTask.snapshot.ref))
+        );
+      });
+      onChange(question.id, url);
+    } catch (error) {
+      console.error('Error uploading intake file:', error);
+      setUploadErrors(e => ({ ...e, [question.id]: 'The upload failed. Please try again.' }));
+    } finally {
+      setUploadProgress(p => {
+        const { [question.id]: _, ...rest } = p;
+        return rest;
+      });
+      onUploadingChange(false);
+    }
+  };
+
+  const renderInput = (question: IntakeQuestion) => {
+    const inputId = `intake-${question.id}`;
+    const value = values[question.id];
+
+    switch (question.type) {
+      case 'choice':
+        return (
+          <RadioGroup value={typeof value === 'string' ? value : ''} onValueChange={v => onChange(question.id, v)}>
+            {(question.options || []).map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <RadioGroupItem value={option} id={`${inputId}-${option}`} />
+                <Label htmlFor={`${inputId}-${option}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case 'checkbox': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {(question.options || []).map(option => (
+              <div key={option} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${inputId}-${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={checked => onChange(question.id, checked ? [...selected, option] : selected.filter(o => o !== option))}
+                />
+                <Label htmlFor={`${inputId}-${option}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      case 'date':
+        return <Input id={inputId} type="date" value={typeof value === 'string' ? value : ''} onChange={e => onChange(question.id, e.target.value)} />;
+      case 'file': {
+        const progress = uploadProgress[question.id];
+        return (
+          <div className="space-y-2">
+            <Input id={inputId} type="file" onChange={e => handleFileChange(question, e.target.files?.[0])} disabled={progress !== undefined} />
+            {progress !== undefined && <Progress value={progress} className="h-2" />}
+            {progress === undefined && typeof value === 'string' && value && (
+              <a href={value} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-sm text-primary hover:underline">
+                <ExternalLink className="mr-1 h-3 w-3" /> Uploaded file
+              </a>
+            )}
+            {uploadErrors[question.id] && <p className="text-sm text-destructive">{uploadErrors[question.id]}</p>}
+          </div>
+        );
+      }
+      default:
+        return <Textarea id={inputId} value={typeof value === 'string' ? value : ''} onChange={e => onChange(question.id, e.target.value)} maxLength={MAX_INTAKE_TEXT_LENGTH} rows={2} />;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map(question => (
+        <div key={question.id} className="space-y-2">
+          <Label htmlFor={`intake-${question.id}`}>
+            {question.label}{question.required ? ' *' : <span className="text-muted-foreground font-normal"> (optional)</span>}
+          </Label>
+          {question.helpText && <p className="text-sm text-muted-foreground">{question.helpText}</p>}
+          {renderInput(question)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { format, parse, startOfMonth, endOfMonth, startOfToday } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Calendar as CalendarIcon, Clock, MapPin, Loader2, Tag, User } from 'lucide-react';
+import { cancelBookingByCustomer, rescheduleBookingByCustomer } from '@/lib/actions';
+import { getAvailabilitySummary, getDayAvailability } from '@/lib/availability.actions';
+import { DATE_KEY_FORMAT, findService, findStaffMember } from '@/lib/availability';
+import type { AvailabilityDaySummary, Booking, DayAvailability, Provider } from '@/lib/types';
+import type { CancellationCharge } from '@/lib/booking-policy';
+import { getCurrency } from '@/lib/currencies';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+type ManageBookingProps = {
+  provider: Provider;
+  booking: Booking;
+  token: string;
+  cancelBlockedReason: string | null;
+  rescheduleBlockedReason: string | null;
+  cancellationCharge: CancellationCharge;
+};
+
+export function ManageBooking({ provider, booking, token, cancelBlockedReason, rescheduleBlockedReason, cancellationCharge }: ManageBookingProps) {
+  const [isRescheduling, setIsRescheduling] = useState(false);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date>(parse(formatInTimeZone(booking.dateTime, provider.settings.timezone, DATE_KEY_FORMAT), DATE_KEY_FORMAT, new Date()));
+  const [month, setMonth] = useState<Date>(selectedDate);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [dayAvailability, setDayAvailability] = useState<DayAvailability | null>(null);
+  const [monthAvailability, setMonthAvailability] = useState<Record<string, AvailabilityDaySummary>>({});
+  const [isPending, startTransition] = useTransition();
+
+  const router = useRouter();
+  const { toast } = useToast();
+
+  const timezone = provider.settings.timezone;
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+  const service = findService(provider.settings, booking.serviceSlug);
+  const staffMember = findStaffMember(provider.settings, booking.staffId);
+  const customerTimezone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+  const currencySymbol = getCurrency(provider.settings.currency)?.symbol || '';
+  const canCancel = !cancelBlockedReason;
+  const canReschedule = !rescheduleBlockedReason;
+  // Both checks fail with the same reason when the booking is no longer upcoming.
+  const blockedReasons = Array.from(new Set([rescheduleBlockedReason, cancelBlockedReason].filter(Boolean)));
+
+  const availabilityOptions = useMemo(() => ({
+    excludeBookingId: booking.id,
+    serviceSlug: booking.serviceSlug,
+    serviceType: booking.serviceType,
+    quantity: booking.quantity,
+    staffId: booking.staffId,
+  }), [booking]);
+
+  useEffect(() => {
+    if (!isRescheduling) return;
+    getDayAvailability(provider.username, format(selectedDate, DATE_KEY_FORMAT), availabilityOptions).then(setDayAvailability);
+  }, [isRescheduling, selectedDate, provider.username, availabilityOptions]);
+
+  useEffect(() => {
+    if (!isRescheduling) return;
+    getAvailabilitySummary(
+      provider.username,
+      format(startOfMonth(month), DATE_KEY_FORMAT),
+      format(endOfMonth(month), DATE_KEY_FORMAT),
+      availabilityOptions
+    ).then(summaries => {
+      setMonthAvailability(prev => {
+        const next = { ...prev };
+        summaries.forEach(day => { next[day.date] = day; });
+        return next;
+      });
+    });
+  }, [isRescheduling, month, provider.username, availabilityOptions]);
+
+  const timeSlots = useMemo(() => {
+    if (!dayAvailability) return [];
+    return dayAvailability.slots.filter(slot => slot.isAvailable);
+  }, [dayAvailability]);
+
+  const handleCancel = () => {
+    startTransition(async () => {
+      const result = await cancelBookingByCustomer(provider.username, booking.id, token);
+      if (result.success) {
+        toast({ title: 'Booking Canceled', description: 'Your booking has been canceled. A confirmation email is on its way.' });
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+      setIsCancelDialogOpen(false);
+    });
+  };
+
+  const handleReschedule = () => {
+    if (!selectedTime) return;
+    startTransition(async () => {
+      const result = await rescheduleBookingByCustomer(provider.username, booking.id, token, selectedTime);
+      if (result.success) {
+        toast({ title: 'Booking Rescheduled', description: 'Your booking has been moved. A confirmation email is on its way.' });
+        setIsRescheduling(false);
+        setSelectedTime(null);
+        router.refresh();
+      } else {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      }
+    });
+  };
+
+  const getStatusBadgeVariant = (status: Booking['status']) => {
+    switch (status) {
+      case 'Upcoming': return 'default';
+      case 'Completed': return 'secondary';
+      case 'Canceled':
+      case 'Expired': return 'destructive';
+      default: return 'outline';
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl">Your Booking</CardTitle>
+              <CardDescription>With {provider.name}</CardDescription>
+            </div>
+            <Badge variant={getStatusBadgeVariant(booking.status)}>{booking.status}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex items-center gap-2">
+            <Tag className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium">{service?.title || booking.serviceType}</span>
+            {service && <span className="text-muted-foreground">({booking.serviceType})</span>}
+          </div>
+          {staffMember && (
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 text-muted-foreground" />
+              <span>With {staffMember.name}</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <CalendarIcon className="h-4 w-4 text-muted-foreground" />
+            <span>{formatInTimeZone(booking.dateTime, timezone, dateFormat)}</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <span>{formatInTimeZone(booking.dateTime, timezone, 'p')} ({timezone.replace(/_/g, ' ')})</span>
+            {customerTimezone && customerTimezone !== timezone && (
+              <span className="text-muted-foreground">· {formatInTimeZone(booking.dateTime, customerTimezone, 'p')} your time</span>
+            )}
+          </div>
+          {booking.address && (
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              <span>{booking.address}</span>
+            </div>
+          )}
+          {booking.status === 'Upcoming' && blockedReasons.map(reason => (
+            <p key={reason} className="text-muted-foreground pt-2">{reason}</p>
+          ))}
+        </CardContent>
+        {(canCancel || canReschedule) && (
+          <CardFooter className="flex gap-2">
+            {canReschedule && (
+              <Button variant="outline" className="flex-1" onClick={() => setIsRescheduling(r => !r)} disabled={isPending}>
+                {isRescheduling ? 'Keep Current Time' : 'Reschedule'}
+              </Button>
+            )}
+            {canCancel && (
+              <Button variant="destructive" className="flex-1" onClick={() => setIsCancelDialogOpen(true)} disabled={isPending}>
+                Cancel Booking
+              </Button>
+            )}
+          </CardFooter>
+        )}
+      </Card>
+
+      {isRescheduling && canReschedule && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pick a New Time</CardTitle>
+            <CardDescription>Times are shown in {timezone.replace(/_/g, ' ')}.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-6">
+            <Calendar
+              mode="single"
+              selected={selectedDate}
+              onSelect={(date) => {
+                if (date) {
+                  setSelectedDate(date);
+                  setSelectedTime(null);
+                }
+              }}
+              month={month}
+              onMonthChange={setMonth}
+              disabled={(date) => {
+                if (date < startOfToday()) return true;
+                const summary = monthAvailability[format(date, DATE_KEY_FORMAT)];
+                return !!summary && summary.availableSlots === 0;
+              }}
+              className="rounded-md border mx-auto"
+            />
+            <ScrollArea className="h-72 border rounded-md">
+              <div className="p-4 grid grid-cols-2 gap-2">
+                {timeSlots.length > 0 ? timeSlots.map(slot => (
+                  <Button
+                    key={slot.start}
+                    variant={selectedTime === slot.start ? 'default' : 'outline'}
+                    onClick={() => setSelectedTime(slot.start)}
+                  >
+                    {formatInTimeZone(slot.start, timezone, 'p')}
+                  </Button>
+                )) : (
+                  <p className="text-sm text-muted-foreground text-center col-span-2">No available slots for this day.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </CardContent>
+          <CardFooter>
+            <Button className="w-full" onClick={handleReschedule} disabled={!selectedTime || isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm New Time
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+
+      <AlertDialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your appointment on {formatInTimeZone(booking.dateTime, timezone, dateFormat)} at {formatInTimeZone(booking.dateTime, timezone, 'p')} will be canceled. This cannot be undone.
+              {cancellationCharge.fee > 0 && (
+                <> A cancellation fee of {currencySymbol}{cancellationCharge.fee.toLocaleString()} applies under {provider.name}'s cancellation policy.</>
+              )}
+              {cancellationCharge.refundAmount > 0 && (
+                <> You will be refunded {currencySymbol}{cancellationCharge.refundAmount.toLocaleString()}.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPending}>Keep Booking</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={isPending} className="bg-destructive hover:bg-destructive/90">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cancel Booking
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
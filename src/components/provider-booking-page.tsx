@@ -19,7 +19,7 @@ import {
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from "@/components/ui/carousel";
 import { Dialog, DialogContent, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { Menu, Star, Expand, ChevronLeft, ChevronRight, Camera, Plus, Minus, FileText, Calendar } from 'lucide-react';
+import { Menu, Star, Expand, ChevronLeft, ChevronRight, Camera, Plus, Minus, FileText, Calendar, Clock, Users } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
 import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { cn } from "@/lib/utils";
@@ -44,7 +44,7 @@ const DotButton: React.FC<{ selected: boolean; onClick: () => void }> = ({ selec
 );
 
 
-export function ProviderBookingPageContent({ provider }: { provider: Provider }) {
+export function ProviderBookingPageContent({ provider, classSeatsTaken = {} }: { provider: Provider; classSeatsTaken?: Record<string, number> }) {
   const logo = getPlaceholderImage('brobookme');
   const customPages = provider.settings.customPages;
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
@@ -166,6 +166,10 @@ export function ProviderBookingPageContent({ provider }: { provider: Provider })
   const [serviceQuantities, setServiceQuantities] = useState<Record<string, number>>({});
   const currency = useMemo(() => getCurrency(provider.settings.currency), [provider.settings.currency]);
   const services = useMemo(() => provider.settings.services?.filter(s => s.enabled).sort((a, b) => a.displayOrder - b.displayOrder) || [], [provider.settings.services]);
+  // Only classes the server counted seats for are upcoming.
+  const groupClasses = useMemo(() => (provider.settings.groupClasses || [])
+    .filter(c => c.enabled && c.id in classSeatsTaken)
+    .sort((a, b) => a.dateTime.localeCompare(b.dateTime)), [provider.settings.groupClasses, classSeatsTaken]);
 
   const handleQuantityChange = (slug: string, delta: number) => {
       const newQty = (serviceQuantities[slug] || 1) + delta;
@@ -372,6 +376,51 @@ export function ProviderBookingPageContent({ provider }: { provider: Provider })
         )}
       </div>
 
+      {groupClasses.length > 0 && (
+        <section className="w-full max-w-7xl mx-auto pt-16">
+            <ScrollAnimation>
+                <h2 className="text-3xl font-bold tracking-tight text-center mb-12">Classes & Events</h2>
+            </ScrollAnimation>
+            <ScrollAnimation delay={0.1}>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {groupClasses.map(c => {
+                        const seatsLeft = Math.max(0, c.capacity - (classSeatsTaken[c.id] || 0));
+                        const timezone = provider.settings.timezone;
+                        return (
+                            <Card key={c.id} className="flex flex-col">
+                                <CardHeader>
+                                    <CardTitle className="text-xl">{c.title}</CardTitle>
+                                    <div className="flex flex-col gap-1 text-sm text-muted-foreground">
+                                        <span className="flex items-center gap-2"><Calendar className="h-4 w-4" />{formatInTimeZone(c.dateTime, timezone, provider.settings.dateFormat || 'PPP')}</span>
+                                        <span className="flex items-center gap-2"><Clock className="h-4 w-4" />{formatInTimeZone(c.dateTime, timezone, 'p')} · {c.duration} min</span>
+                                    </div>
+                                </CardHeader>
+                                <CardContent className="flex-1">
+                                    <p className="text-sm text-muted-foreground line-clamp-3">{c.description}</p>
+                                </CardContent>
+                                <CardFooter className="flex items-center justify-between gap-2">
+                                    <div>
+                                        <div className="text-lg font-bold">
+                                            {c.pricePerSeat > 0 ? <span>{currency?.symbol}{c.pricePerSeat}<span className="text-sm font-normal text-muted-foreground"> / seat</span></span> : <span className="text-green-600">Free</span>}
+                                        </div>
+                                        <span className="flex items-center gap-1 text-xs text-muted-foreground"><Users className="h-3 w-3" />{seatsLeft > 0 ? `${seatsLeft} of ${c.capacity} seats left` : 'Fully booked'}</span>
+                                    </div>
+                                    {seatsLeft > 0 ? (
+                                        <Button asChild>
+                                            <Link href={`/${provider.username}/book?classId=${c.id}`}>Book a Seat</Link>
+                                        </Button>
+                                    ) : (
+                                        <Button disabled>Full</Button>
+                                    )}
+                                </CardFooter>
+                            </Card>
+                        );
+                    })}
+                </div>
+            </ScrollAnimation>
+        </section>
+      )}
+
        {provider.settings?.testimonials?.enabled && provider.settings.testimonials.items.filter(t => t.enabled).length > 0 && (
         <section className="w-full max-w-7xl mx-auto pt-16">
             <ScrollAnimation>
@@ -3,19 +3,33 @@
 'use server';
 
 import { redirect } from 'next/navigation';
-import { addBooking, getProviderByUsername, updateProvider, getPlan, getAdminSettings, createPaymentRecord, updateBookingStatus, getBookingById, updateBooking, addNotification, getServiceBySlug } from './data';
-import type { Service, ServiceType, Booking, Plan, Provider, EnrichedProvider, PaymentGatewaySettings } from './types';
-import { BookingSchema } from './schema';
+import { addBookingIfAvailable, addBookingSeriesIfAvailable, getBookingsBySeries, updateBookingsIfAvailable, getProviderByUsername, updateProvider, getPlan, getAdminSettings, createPaymentRecord, updateBookingStatus, getBookingById, updateBooking, addNotification, getServiceBySlug, updateWaitlistEntry, getCustomerRestrictions } from './data';
+import type { Service, ServiceType, Booking, Plan, Provider, EnrichedProvider, PaymentGatewaySettings, WorkingPeriod, RecurrenceRule } from './types';
+import { BookingSchema, ManualBookingSchema, manualBookingSources, type ManualBookingValues } from './schema';
 import { format } from 'date-fns';
 import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-import { addDays, addMonths, addYears } from 'date-fns';
 import { revalidatePath } from 'next/cache';
 import Razorpay from 'razorpay';
 import Stripe from 'stripe';
 import crypto from 'crypto';
-import { sendSubscriptionEmail, sendBookingConfirmationEmail, sendProviderBookingNotificationEmail, sendBookingCancelledEmail, sendRescheduleEmail, sendProviderRescheduleEmail } from './email-templates';
-import { createGoogleCalendarEvent } from './calendar.actions';
-import { doc, getDoc, setDoc, deleteDoc, writeBatch, collection, getDocs, query, where, serverTimestamp } from 'firebase/firestore';
+import { sendBookingConfirmationEmail, sendProviderBookingNotificationEmail, sendBookingCancelledEmail, sendRescheduleEmail, sendProviderRescheduleEmail, sendBookingRequestEmail, sendBookingDeclinedEmail } from './email-templates';
+import { createGoogleCalendarEvent, deleteGoogleCalendarEvent, getGoogleBusyTimes, updateGoogleCalendarEvent } from './calendar.actions';
+import { findAvailableStaff, findGroupClass, findService, findStaffMember, getActiveStaff, getAppointmentLength, getBookingTitle, getBookingEndTime, getBookingLength, getClassLength, getBookingDays, getClassSeatsRemaining, getProviderEmailRecipients, getStaffForService, isSlotAvailable } from './availability';
+import { getManageBookingUrl, verifyBookingToken, verifyWaitlistToken } from './booking-links';
+import { getAddToCalendarLinks, getBookingCalendarInvite } from './booking-invites';
+import { DEFAULT_PENDING_BOOKING_TIMEOUT_MINUTES, requiresApproval } from './booking-policy';
+import { getCurrency } from './currencies';
+import { describeRecurrence, getMaxRecurringOccurrences, getOccurrenceDates, shiftOccurrence } from './recurrence';
+import { getIntakeQuestions, validateIntakeAnswers, type IntakeAnswerValues } from './intake';
+import { findCustomerRestriction } from './customers';
+import { getWaitlistHolds, offerFreedSlot } from './waitlist';
+import { parseEmbedReturnUrl } from './embed';
+import { authorizeTeamAction } from './team-auth';
+import { applyProviderSubscription } from './subscriptions';
+import { confirmPaidBooking, confirmRemainingSeriesBookings, getConfirmationCalendarInvite, getSeriesEmailDetails } from './booking-confirmation';
+import { CUSTOMER_ACTOR, logBookingEmail, logBookingEvent } from './booking-events';
+import { applyCancellation, applyReschedule, getBookAgainPath } from './booking-changes';
+import { doc, getDoc, setDoc, deleteDoc, writeBatch, collection, getDocs, query, where, serverTimestamp, type DocumentData, type DocumentReference } from 'firebase/firestore';
 import { db } from './firebase';
 import { differenceInDays } from 'date-fns';
 
@@ -39,11 +53,49 @@ export async function createBooking(
     throw new Error('Provider not found.');
   }
 
+  const restriction = findCustomerRestriction(await getCustomerRestrictions(provider.username), {
+    customerEmail: data.customerEmail,
+    customerPhone: `${data.countryCode}${data.customerPhone}`,
+  });
+  if (restriction?.type === 'block') {
+    return { errors: { customerEmail: [`${provider.name} is not taking online bookings for these details. Please contact them directly.`] } };
+  }
+
   const service = await getServiceBySlug(provider.username, data.serviceSlug);
 
+  // Seats in a group class are booked at the class's fixed time instead of a chosen slot.
+  const groupClass = findGroupClass(provider.settings, data.classId);
+  if (data.classId && (!groupClass || !groupClass.enabled)) {
+    return { errors: { classId: ['This class is no longer available.'] } };
+  }
+  const seats = groupClass ? data.seats || 1 : undefined;
+  if (groupClass && seats! > (groupClass.maxSeatsPerBooking || groupClass.capacity)) {
+    return { errors: { seats: [`You can book at most ${groupClass.maxSeatsPerBooking || groupClass.capacity} seats at once.`] } };
+  }
+  const serviceTitle = groupClass?.title || service?.title;
+  const awaitingApproval = requiresApproval(provider.settings, service);
+
+  // Once staff are set up, appointments are with a staff member. Without a
+  // staffId the customer takes anyone free, picked when the slot is reserved.
+  const isStaffBooking = !groupClass && getActiveStaff(provider.settings).length > 0;
+  if (isStaffBooking && data.staffId && !getStaffForService(provider.settings, data.serviceSlug).some(m => m.id === data.staffId)) {
+    return { errors: { staffId: ['This staff member is not available for this service.'] } };
+  }
+
+  let intakeValues: IntakeAnswerValues;
+  try {
+    intakeValues = JSON.parse((formData.get('intakeAnswers') as string | null) || '{}');
+  } catch {
+    return { errors: { intakeAnswers: ['Your answers could not be read. Please try again.'] } };
+  }
+  const intake = validateIntakeAnswers(getIntakeQuestions(provider.settings, service, data.serviceType), intakeValues, provider.username);
+  if (intake.errors.length > 0) {
+    return { errors: { intakeAnswers: intake.errors } };
+  }
+
   const customerTimezone = (formData.get('customerTimezone') as string) || 'UTC';
 
-  const bookingDateTime = new Date(data.dateTime);
+  const bookingDateTime = new Date(groupClass ? groupClass.dateTime : data.dateTime);
   
   const serviceTypeSetting = provider.settings.serviceTypes.find(st => st.name === data.serviceType);
   const fullAddress = serviceTypeSetting?.id === 'doorstep' 
@@ -51,6 +103,57 @@ export async function createBooking(
     : serviceTypeSetting?.id === 'shop' ? provider.settings.shopAddress : 'Online';
 
   
+  const length = groupClass ? getClassLength(groupClass) : getAppointmentLength(provider.settings, service, data.quantity);
+  const timezone = provider.settings.timezone || 'UTC';
+
+  let recurrence: RecurrenceRule | undefined;
+  if (!groupClass && data.recurrenceFrequency && data.recurrenceCount && data.recurrenceCount > 1) {
+    if (!provider.settings.recurringBookingsEnabled) {
+      return { errors: { recurrence: ['This provider does not accept recurring bookings.'] } };
+    }
+    const maxOccurrences = getMaxRecurringOccurrences(provider.settings.maxRecurringOccurrences);
+    if (data.recurrenceCount > maxOccurrences) {
+      return { errors: { recurrence: [`A recurring booking can have at most ${maxOccurrences} sessions.`] } };
+    }
+    recurrence = {
+      frequency: data.recurrenceFrequency,
+      interval: data.recurrenceInterval || 1,
+      count: data.recurrenceCount,
+    };
+  }
+  const occurrenceDates = recurrence ? getOccurrenceDates(bookingDateTime, recurrence, timezone) : [bookingDateTime];
+  const availabilityOptions = { length, serviceType: data.serviceType, serviceSlug: data.serviceSlug, staffId: data.staffId, busyTimes: await getGoogleBusyTimes(provider) };
+
+  // Slots held by waitlist offers are taken, except by the customer claiming one.
+  const waitlistEntryId = formData.get('waitlistEntryId') as string | null;
+  const isClaimingOffer = !!waitlistEntryId && verifyWaitlistToken(provider.username, waitlistEntryId, formData.get('waitlistToken') as string | null);
+  const holds = await getWaitlistHolds(provider, isClaimingOffer ? waitlistEntryId : null);
+
+  let price = provider.settings.enableServicesPage && service ? service.offerPrice ?? service.price : serviceTypeSetting?.price;
+
+  if (service?.quantityEnabled && data.quantity) {
+    price = (price || 0) * data.quantity;
+  }
+
+  if (groupClass) {
+    price = groupClass.pricePerSeat * seats!;
+  }
+
+  // A series is paid for up front; each occurrence records its own share.
+  const sessionPrice = price || 0;
+  if (recurrence) {
+    price = sessionPrice * occurrenceDates.length;
+  }
+
+  const isPaidService = !!(price && price > 0);
+
+  // Approval requests are paid later, so a customer who must prepay can't request a paid service.
+  if (restriction?.type === 'prepay' && isPaidService && (awaitingApproval || data.paymentMethod !== 'online')) {
+    return { errors: { payment: [awaitingApproval
+      ? `Please contact ${provider.name} to book this service.`
+      : `${provider.name} requires online payment for your booking. Please choose to pay online.`] } };
+  }
+
   const booking: Omit<Booking, 'id' | 'status' | 'payment'> = {
     customerName: data.customerName,
     customerEmail: data.customerEmail,
@@ -61,8 +164,21 @@ export async function createBooking(
     address: fullAddress || undefined,
     serviceSlug: service?.slug || null,
     quantity: data.quantity,
+    duration: length.duration,
+    bufferBefore: length.bufferBefore,
+    bufferAfter: length.bufferAfter,
+    createdAt: new Date(),
   };
 
+  if (groupClass) {
+    booking.classId = groupClass.id;
+    booking.seats = seats;
+  }
+
+  if (intake.answers.length > 0) {
+    booking.intakeAnswers = intake.answers;
+  }
+
   if (serviceTypeSetting?.id === 'doorstep') {
     booking.flatHouseNo = data.flatHouseNo || '';
     booking.landmark = data.landmark || '';
@@ -72,26 +188,77 @@ export async function createBooking(
     booking.country = data.country || '';
   }
   
-  const bookingId = await addBooking(booking, 'Pending');
-  
-  let price = provider.settings.enableServicesPage && service ? service.offerPrice ?? service.price : serviceTypeSetting?.price;
+  const getBookingDay = (dateTime: Date) => getBookingDays(dateTime, length, timezone);
+
+  // The staff member is assigned inside the availability check, so the choice
+  // is made against the same bookings the transaction verifies.
+  const reserve = (target: Omit<Booking, 'id' | 'status' | 'payment'>, dayBookings: Booking[]) => {
+    const taken = [...dayBookings, ...holds];
+    if (!isStaffBooking) {
+      return isSlotAvailable(provider.settings, target.dateTime, taken, availabilityOptions);
+    }
+    target.staffId = findAvailableStaff(provider.settings, target.dateTime, taken, availabilityOptions)?.id || null;
+    return !!target.staffId;
+  };
 
-  if (service?.quantityEnabled && data.quantity) {
-    price = (price || 0) * data.quantity;
+  // Requests awaiting approval skip payment, so they must not expire like an unpaid 'Pending' booking.
+  const initialStatus = awaitingApproval ? 'Awaiting Approval' : 'Pending';
+  let bookingIds: string[] | null;
+  if (recurrence) {
+    // Every occurrence has to fit, otherwise none of them are booked.
+    const occurrences = occurrenceDates.map(dateTime => ({ ...booking, dateTime, recurrence }));
+    bookingIds = await addBookingSeriesIfAvailable(
+      occurrences,
+      initialStatus,
+      occurrenceDates.map(getBookingDay),
+      (dayBookings, index) => reserve(occurrences[index], dayBookings)
+    );
+    booking.staffId = occurrences[0].staffId;
+  } else {
+    const bookingId = await addBookingIfAvailable(
+      booking,
+      initialStatus,
+      getBookingDay(bookingDateTime),
+      (dayBookings) => groupClass
+        ? bookingDateTime > new Date() && getClassSeatsRemaining(groupClass, dayBookings) >= seats!
+        : reserve(booking, dayBookings)
+    );
+    bookingIds = bookingId ? [bookingId] : null;
   }
 
-  const isPaidService = !!(price && price > 0);
+  if (!bookingIds) {
+    if (groupClass) {
+      return { errors: { seats: ['There are not enough seats left in this class.'] } };
+    }
+    return { errors: { dateTime: [recurrence
+      ? 'One or more sessions in this series are no longer available. Please choose another time.'
+      : 'This time slot is no longer available. Please choose another time.'] } };
+  }
+  const bookingId = bookingIds[0];
+  const staffMember = findStaffMember(provider.settings, booking.staffId);
+  await logBookingEvent(provider.username, bookingIds, {
+    type: 'created',
+    actor: CUSTOMER_ACTOR,
+    message: awaitingApproval ? 'Requested on the booking page' : 'Booked on the booking page',
+  });
+
+  if (isClaimingOffer) {
+    await updateWaitlistEntry(provider.username, waitlistEntryId, { status: 'Claimed' });
+  }
   
   const confirmationParams = new URLSearchParams();
   confirmationParams.set('customerName', data.customerName);
   confirmationParams.set('customerEmail', data.customerEmail);
   confirmationParams.set('customerPhone', `${data.countryCode}${data.customerPhone}`);
   confirmationParams.set('serviceType', data.serviceType);
-  if (service) {
-    confirmationParams.set('serviceTitle', service.title);
+  if (serviceTitle) {
+    confirmationParams.set('serviceTitle', serviceTitle);
+  }
+  if (staffMember) {
+    confirmationParams.set('staffName', staffMember.name);
   }
-  if (data.quantity) {
-    confirmationParams.set('quantity', String(data.quantity));
+  if (seats || data.quantity) {
+    confirmationParams.set('quantity', String(seats || data.quantity));
   }
   confirmationParams.set('dateTime', bookingDateTime.toISOString());
   confirmationParams.set('providerName', provider.name);
@@ -107,11 +274,73 @@ export async function createBooking(
   confirmationParams.set('timezone', provider.settings.timezone);
   confirmationParams.set('customerTimezone', customerTimezone);
   confirmationParams.set('currencyCode', provider.settings.currency);
+  if (recurrence) {
+    confirmationParams.set('recurrence', describeRecurrence(recurrence));
+  }
+  const embedded = formData.get('embed') === '1';
+  if (embedded) {
+    confirmationParams.set('embed', '1');
+  }
 
   const razorpaySettings = provider.settings.paymentGateways?.razorpay;
   const stripeSettings = provider.settings.paymentGateways?.stripe;
 
-  if (isPaidService && data.paymentMethod === 'online') {
+  if (awaitingApproval) {
+    // Nothing is confirmed, charged or put in a calendar until the provider approves.
+    const paymentDetails = isPaidService ? 'To be paid once the booking is approved.' : 'This is a free booking.';
+    await Promise.all(bookingIds.map(id => updateBooking(provider.username, id, { payment: { status: 'Pending', amount: sessionPrice } })));
+
+    await addNotification(provider.username, {
+      message: `${data.customerName} requested a ${recurrence ? 'recurring ' : ''}booking for ${serviceTitle || data.serviceType}. Approve or decline it.`,
+      type: 'booking_request',
+      link: `/bookings`,
+      bookingId,
+    });
+
+    const providerTimeZone = provider.settings.timezone;
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+
+    const requestSent = await sendBookingRequestEmail(data.customerEmail, {
+      customerName: data.customerName,
+      providerName: provider.name,
+      serviceTitle,
+      serviceType: data.serviceType,
+      bookingDate: formatInTimeZone(bookingDateTime, customerTimezone, dateFormat),
+      bookingTime: `${formatInTimeZone(bookingDateTime, customerTimezone, 'p')} (${customerTimezone.replace(/_/g, ' ')})`,
+      staffName: staffMember?.name,
+    });
+    await logBookingEmail(provider.username, bookingIds, 'Booking request email', data.customerEmail, requestSent);
+
+    for (const recipient of getProviderEmailRecipients(provider, booking as Booking)) {
+      const notificationSent = await sendProviderBookingNotificationEmail(recipient.email, {
+        providerName: recipient.name,
+        customerName: data.customerName,
+        customerEmail: data.customerEmail,
+        customerPhone: `${data.countryCode}${data.customerPhone}`,
+        serviceTitle,
+        serviceType: data.serviceType,
+        quantity: seats || data.quantity,
+        bookingDate: formatInTimeZone(bookingDateTime, providerTimeZone, dateFormat),
+        bookingTime: formatInTimeZone(bookingDateTime, providerTimeZone, 'p'),
+        bookingAddress: fullAddress || 'N/A',
+        paymentDetails,
+        googleMapLink: provider.settings.googleMapLink,
+        recurrenceSummary: recurrence && describeRecurrence(recurrence),
+        seriesDates: recurrence && occurrenceDates.map(date => formatInTimeZone(date, providerTimeZone, `${dateFormat} p`)),
+        staffName: staffMember?.name,
+        intakeAnswers: booking.intakeAnswers,
+        awaitingApproval: true,
+      });
+      await logBookingEmail(provider.username, bookingIds, 'Booking request notification', recipient.email, notificationSent);
+    }
+
+    confirmationParams.set('awaitingApproval', 'true');
+    if (isPaidService) {
+        confirmationParams.set('amountPaid', '0');
+        confirmationParams.set('totalAmount', String(price || 0));
+    }
+    redirect(`/confirmation?${confirmationParams.toString()}`);
+  } else if (isPaidService && data.paymentMethod === 'online') {
       // 1. Handle Razorpay
       if (razorpaySettings?.enabled && razorpaySettings.keyId && razorpaySettings.keySecret) {
           try {
@@ -122,7 +351,7 @@ export async function createBooking(
                   bookingId,
                   providerUsername: provider.username
               });
-              await updateBooking(provider.username, bookingId, { payment: { orderId: order.id } });
+              await Promise.all(bookingIds.map(id => updateBooking(provider.username, id, { payment: { orderId: order.id } })));
               return { order, bookingId, confirmationParams: confirmationParams.toString() };
           } catch (error: any) {
               console.error("Razorpay Order Error:", error);
@@ -140,9 +369,11 @@ export async function createBooking(
                   provider.username,
                   { secretKey: stripeSettings.secretKey },
                   { name: data.customerName, email: data.customerEmail },
-                  service?.title || booking.serviceType
+                  serviceTitle || booking.serviceType,
+                  provider.settings.pendingBookingTimeoutMinutes || DEFAULT_PENDING_BOOKING_TIMEOUT_MINUTES,
+                  embedded ? parseEmbedReturnUrl(formData.get('embedReturnUrl') as string | null) : null
               );
-              await updateBooking(provider.username, bookingId, { payment: { orderId: session.id } });
+              await Promise.all(bookingIds.map(id => updateBooking(provider.username, id, { payment: { orderId: session.id } })));
               return { stripeSessionUrl: session.url, bookingId };
           } catch (error: any) {
               console.error("Stripe Session Error:", error);
@@ -163,30 +394,33 @@ export async function createBooking(
         status: 'Upcoming',
         payment: {
             status: 'Pending',
-            amount: price || 0
+            amount: sessionPrice
         }
     };
     let googleMeetLink: string | null = null;
 
-    if (provider.googleCalendar) {
-        try {
-            const { eventId, meetLink } = await createGoogleCalendarEvent(provider, { ...booking, id: bookingId, service: service } as Booking);
-            if (eventId) {
-                bookingUpdate.googleCalendarEventId = eventId;
-            }
-            if (meetLink) {
-                bookingUpdate.googleMeetLink = meetLink;
-                googleMeetLink = meetLink;
-            }
-        } catch (error) {
-            console.error("Failed to create Google Calendar event for non-online payment:", error);
+    try {
+        const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...booking, id: bookingId, service: service } as Booking);
+        if (eventId) {
+            bookingUpdate.googleCalendarEventId = eventId;
+            bookingUpdate.googleCalendarStaffId = calendarStaffId;
+        }
+        if (meetLink) {
+            bookingUpdate.googleMeetLink = meetLink;
+            googleMeetLink = meetLink;
         }
+    } catch (error) {
+        console.error("Failed to create Google Calendar event for non-online payment:", error);
     }
     
     await updateBooking(provider.username, bookingId, bookingUpdate);
 
+    if (recurrence) {
+      await confirmRemainingSeriesBookings(provider, { ...booking, id: bookingId, seriesId: bookingId } as Booking, bookingUpdate.payment!);
+    }
+
     await addNotification(provider.username, {
-      message: `New booking from ${data.customerName} for ${service?.title || data.serviceType}.`,
+      message: `New ${recurrence ? 'recurring ' : ''}booking from ${data.customerName} for ${serviceTitle || data.serviceType}.`,
       type: 'new_booking',
       link: `/bookings`,
     });
@@ -198,24 +432,15 @@ export async function createBooking(
     const customerDisplayTime = `${formatInTimeZone(bookingDateTime, customerTimezone, 'p')} (${customerTimezone.replace(/_/g, ' ')})`;
     const providerDisplayTime = `${formatInTimeZone(bookingDateTime, providerTimeZone, 'p')} (${providerTimeZone.replace(/_/g, ' ')})`;
     
-    const eventTitle = encodeURIComponent(`Appointment: ${service?.title || data.serviceType} with ${provider.name}`);
-    const eventDescription = encodeURIComponent(`Booking for ${service?.title || data.serviceType} with ${provider.name}.`);
-    const eventLocation = encodeURIComponent(fullAddress || 'Online');
-    const toGoogleISO = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const startTime = new Date(bookingDateTime);
-    const endTime = new Date(startTime.getTime() + (provider.settings.slotDuration || 60) * 60 * 1000);
-
-    const googleLink = `https://www.google.com/calendar/render?action=TEMPLATE&text=${eventTitle}&dates=${toGoogleISO(startTime)}/${toGoogleISO(endTime)}&details=${eventDescription}&location=${eventLocation}`;
-    const outlookLink = `https://outlook.live.com/calendar/0/deeplink/compose?path=/calendar/action/compose&rru=addevent&subject=${eventTitle}&startdt=${startTime.toISOString()}&enddt=${endTime.toISOString()}&body=${eventDescription}&location=${eventLocation}`;
-    const icsContent = [ 'BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', `DTSTART;TZID=${providerTimeZone}:${toGoogleISO(startTime).slice(0, -1)}`, `DTEND;TZID=${providerTimeZone}:${toGoogleISO(endTime).slice(0, -1)}`, `SUMMARY:${eventTitle}`, `DESCRIPTION:${eventDescription}`, `LOCATION:${eventLocation}`, 'END:VEVENT', 'END:VCALENDAR' ].join('\r\n');
-    const icsLink = `data:text/calendar;charset=utf-8,${encodeURIComponent(icsContent)}`;
-
-    await sendBookingConfirmationEmail(data.customerEmail, {
+    const confirmedBooking = { ...booking, ...bookingUpdate, id: bookingId } as Booking;
+    const { googleLink, outlookLink, icsLink } = getAddToCalendarLinks(provider, confirmedBooking, serviceTitle || data.serviceType);
+
+    const confirmationSent = await sendBookingConfirmationEmail(data.customerEmail, {
         customerName: data.customerName,
         providerName: provider.name,
-        serviceTitle: service?.title,
+        serviceTitle,
         serviceType: data.serviceType,
-        quantity: data.quantity,
+        quantity: seats || data.quantity,
         bookingDate: customerBookingDate,
         bookingTime: customerDisplayTime,
         bookingTimeProvider: providerDisplayTime,
@@ -223,24 +448,37 @@ export async function createBooking(
         googleLink, outlookLink, icsLink,
         paymentDetails: paymentDetails,
         googleMeetLink: googleMeetLink,
-        googleMapLink: provider.settings.googleMapLink
+        googleMapLink: provider.settings.googleMapLink,
+        manageBookingUrl: getManageBookingUrl(provider.username, bookingId),
+        calendarInvite: await getConfirmationCalendarInvite(provider, recurrence ? { ...confirmedBooking, seriesId: bookingId } : confirmedBooking, serviceTitle || data.serviceType),
+        recurrenceSummary: recurrence && describeRecurrence(recurrence),
+        seriesDates: recurrence && occurrenceDates.map(date => formatInTimeZone(date, customerTimezone, `${dateFormat} p`)),
+        staffName: staffMember?.name,
     });
+    await logBookingEmail(provider.username, bookingIds, 'Booking confirmation email', data.customerEmail, confirmationSent);
 
-    await sendProviderBookingNotificationEmail(provider.contact.email, {
-        providerName: provider.name,
+    for (const recipient of getProviderEmailRecipients(provider, booking as Booking)) {
+      const notificationSent = await sendProviderBookingNotificationEmail(recipient.email, {
+        providerName: recipient.name,
         customerName: data.customerName,
         customerEmail: data.customerEmail,
         customerPhone: `${data.countryCode}${data.customerPhone}`,
-        serviceTitle: service?.title,
+        serviceTitle,
         serviceType: data.serviceType,
-        quantity: data.quantity,
+        quantity: seats || data.quantity,
         bookingDate: formatInTimeZone(bookingDateTime, providerTimeZone, dateFormat),
         bookingTime: formatInTimeZone(bookingDateTime, providerTimeZone, 'p'),
         bookingAddress: fullAddress || 'N/A',
         paymentDetails: paymentDetails,
         googleMeetLink: googleMeetLink,
         googleMapLink: provider.settings.googleMapLink,
-    });
+        recurrenceSummary: recurrence && describeRecurrence(recurrence),
+        seriesDates: recurrence && occurrenceDates.map(date => formatInTimeZone(date, providerTimeZone, `${dateFormat} p`)),
+        staffName: staffMember?.name,
+        intakeAnswers: booking.intakeAnswers,
+      });
+      await logBookingEmail(provider.username, bookingIds, 'New booking notification', recipient.email, notificationSent);
+    }
 
     if (googleMeetLink) {
         confirmationParams.set('googleMeetLink', googleMeetLink);
@@ -253,6 +491,163 @@ export async function createBooking(
   }
 }
 
+// Bookings taken over the phone, at the counter or on WhatsApp. They go
+// through the same availability rules as the public form (without the booking
+// delay) unless the provider overrides them, and are confirmed straight away.
+export async function createManualBooking(idToken: string, username: string, values: ManualBookingValues): Promise<{ success: boolean; error?: string; errors?: any; bookingId?: string }> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const parsed = ManualBookingSchema.safeParse(values);
+  if (!parsed.success) {
+    return { success: false, errors: parsed.error.flatten().fieldErrors };
+  }
+
+  const { data } = parsed;
+  const provider = access.provider;
+  const service = findService(provider.settings, data.serviceSlug);
+  const serviceTypeSetting = provider.settings.serviceTypes.find(st => st.name === data.serviceType);
+  if (!serviceTypeSetting) {
+    return { success: false, errors: { serviceType: ['Please select a service type.'] } };
+  }
+
+  const isStaffBooking = getActiveStaff(provider.settings).length > 0;
+  if (isStaffBooking && data.staffId && !getStaffForService(provider.settings, data.serviceSlug).some(m => m.id === data.staffId)) {
+    return { success: false, errors: { staffId: ['This staff member is not available for this service.'] } };
+  }
+
+  try {
+    const timezone = provider.settings.timezone || 'UTC';
+    const bookingDateTime = new Date(data.dateTime);
+    const length = getAppointmentLength(provider.settings, service);
+    const availabilityOptions = { length, serviceType: data.serviceType, serviceSlug: data.serviceSlug, staffId: data.staffId, ignoreBookingWindow: true, busyTimes: await getGoogleBusyTimes(provider) };
+    const address = serviceTypeSetting.id === 'doorstep'
+      ? data.address || ''
+      : serviceTypeSetting.id === 'shop' ? provider.settings.shopAddress || '' : 'Online';
+
+    let price = provider.settings.enableServicesPage && service ? service.offerPrice ?? service.price : serviceTypeSetting.price;
+    price = price || 0;
+
+    const booking: Omit<Booking, 'id' | 'status'> = {
+      customerName: data.customerName,
+      customerEmail: data.customerEmail,
+      customerPhone: data.customerPhone,
+      serviceType: data.serviceType,
+      dateTime: bookingDateTime,
+      providerUsername: provider.username,
+      address,
+      serviceSlug: service?.slug || null,
+      duration: length.duration,
+      bufferBefore: length.bufferBefore,
+      bufferAfter: length.bufferAfter,
+      createdAt: new Date(),
+      payment: { status: 'Pending', amount: price },
+      staffId: data.staffId || null,
+      source: data.source,
+    };
+
+    // With an override the booking always goes in; a free staff member is
+    // still preferred when the provider left the choice open.
+    const bookingId = await addBookingIfAvailable(
+      booking,
+      'Upcoming',
+      getBookingDays(bookingDateTime, length, timezone),
+      (dayBookings) => {
+        if (isStaffBooking) {
+          const member = findAvailableStaff(provider.settings, bookingDateTime, dayBookings, availabilityOptions);
+          booking.staffId = member?.id || data.staffId || null;
+          return !!member || data.overrideAvailability;
+        }
+        return data.overrideAvailability || isSlotAvailable(provider.settings, bookingDateTime, dayBookings, availabilityOptions);
+      }
+    );
+
+    if (!bookingId) {
+      return { success: false, errors: { dateTime: ['This time is not available. Choose another time or override availability.'] } };
+    }
+
+    const serviceTitle = service?.title || data.serviceType;
+    const staffMember = findStaffMember(provider.settings, booking.staffId);
+    let googleMeetLink: string | null = null;
+    const sourceName = manualBookingSources.find(source => source.id === data.source)?.name || data.source;
+    await logBookingEvent(provider.username, bookingId, {
+      type: 'created',
+      actor: access.email,
+      message: `Added from the dashboard (${sourceName})`,
+    });
+
+    try {
+      const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...booking, id: bookingId, status: 'Upcoming' });
+      if (eventId) {
+        await updateBooking(provider.username, bookingId, {
+          googleCalendarEventId: eventId,
+          googleCalendarStaffId: calendarStaffId,
+          ...(meetLink ? { googleMeetLink: meetLink } : {}),
+        });
+        googleMeetLink = meetLink;
+      }
+    } catch (error) {
+      console.error("Failed to create Google Calendar event for manual booking:", error);
+    }
+
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+    const displayTime = `${formatInTimeZone(bookingDateTime, timezone, 'p')} (${timezone.replace(/_/g, ' ')})`;
+    const paymentDetails = price > 0 ? 'To be paid after service.' : 'This is a free booking.';
+
+    if (data.sendConfirmation) {
+      const confirmedBooking: Booking = { ...booking, id: bookingId, status: 'Upcoming', googleMeetLink: googleMeetLink || undefined };
+      const { googleLink, outlookLink, icsLink } = getAddToCalendarLinks(provider, confirmedBooking, serviceTitle);
+      const confirmationSent = await sendBookingConfirmationEmail(data.customerEmail, {
+        customerName: data.customerName,
+        providerName: provider.name,
+        serviceTitle,
+        serviceType: data.serviceType,
+        bookingDate: formatInTimeZone(bookingDateTime, timezone, dateFormat),
+        bookingTime: displayTime,
+        bookingTimeProvider: displayTime,
+        bookingAddress: address || 'N/A',
+        googleLink, outlookLink, icsLink,
+        paymentDetails,
+        googleMeetLink,
+        googleMapLink: provider.settings.googleMapLink,
+        manageBookingUrl: getManageBookingUrl(provider.username, bookingId),
+        calendarInvite: getBookingCalendarInvite(provider, confirmedBooking, serviceTitle, 'REQUEST'),
+        staffName: staffMember?.name,
+      });
+      await logBookingEmail(provider.username, bookingId, 'Booking confirmation email', data.customerEmail, confirmationSent);
+    }
+
+    // Whoever entered the booking already knows about it; only tell the staff member.
+    for (const recipient of getProviderEmailRecipients(provider, booking as Booking)) {
+      if (recipient.email === provider.contact.email) continue;
+      const notificationSent = await sendProviderBookingNotificationEmail(recipient.email, {
+        providerName: recipient.name,
+        customerName: data.customerName,
+        customerEmail: data.customerEmail || 'N/A',
+        customerPhone: data.customerPhone || 'N/A',
+        serviceTitle,
+        serviceType: data.serviceType,
+        bookingDate: formatInTimeZone(bookingDateTime, timezone, dateFormat),
+        bookingTime: formatInTimeZone(bookingDateTime, timezone, 'p'),
+        bookingAddress: address || 'N/A',
+        paymentDetails,
+        googleMeetLink,
+        googleMapLink: provider.settings.googleMapLink,
+        staffName: staffMember?.name,
+      });
+      await logBookingEmail(provider.username, bookingId, 'New booking notification', recipient.email, notificationSent);
+    }
+
+    revalidatePath('/(provider-dashboard)/bookings');
+    return { success: true, bookingId };
+  } catch (error: any) {
+    console.error('Manual booking failed:', error);
+    return { success: false, error: error.message || 'Failed to create the booking.' };
+  }
+}
+
 export async function verifyBookingPayment(
   providerUsername: string,
   bookingId: string,
@@ -294,41 +689,28 @@ export async function verifyBookingPayment(
       throw new Error('Booking not found during verification.');
     }
     const service = await getServiceBySlug(providerUsername, booking.serviceSlug);
+    const serviceTitle = getBookingTitle(provider.settings, booking);
+    const staffMember = findStaffMember(provider.settings, booking.staffId);
     
     // We need the customer's timezone which we don't have here. This is a limitation.
     // We'll proceed with sending emails, but they won't have the customer's local time.
     const customerTimezone = 'UTC'; // Fallback
 
+    // A series is paid in one go; each occurrence records its share.
     const paymentData = {
       orderId: razorpay_order_id,
       paymentId: razorpay_payment_id,
-      amount: amount,
+      amount: booking.recurrence ? Math.round(amount * 100 / booking.recurrence.count) / 100 : amount,
       status: 'Paid' as 'Paid' | 'Pending',
     };
-    
-    let bookingUpdate: Partial<Booking> = {
-      status: 'Upcoming',
-      payment: paymentData,
-    };
 
-    let googleMeetLink: string | null = null;
-    if (provider.googleCalendar) {
-        try {
-            const { eventId, meetLink } = await createGoogleCalendarEvent(provider, { ...booking, ...bookingUpdate, service: service } as Booking);
-            if (eventId) {
-                bookingUpdate.googleCalendarEventId = eventId;
-            }
-            if (meetLink) {
-                bookingUpdate.googleMeetLink = meetLink;
-                googleMeetLink = meetLink;
-            }
-        } catch (error) {
-            console.error("Failed to create Google Calendar event for paid booking:", error);
-        }
+    const confirmation = await confirmPaidBooking(provider, booking, paymentData, amount, 'Razorpay');
+    if (confirmation === 'already-confirmed') {
+      const confirmationParams = new URLSearchParams();
+      if (booking.googleMeetLink) confirmationParams.set('googleMeetLink', booking.googleMeetLink);
+      return { success: true, confirmationParams };
     }
 
-    await updateBooking(providerUsername, bookingId, bookingUpdate);
-    
     await createPaymentRecord({
       providerUsername: providerUsername,
       bookingId: bookingId,
@@ -338,9 +720,33 @@ export async function verifyBookingPayment(
       razorpay_payment_id: razorpay_payment_id,
       razorpay_order_id: razorpay_order_id,
     });
-    
+
+    if (confirmation === 'refund-due') {
+      return { success: false, error: `Your payment was received, but this time slot is no longer available. ${provider.name} will refund you.` };
+    }
+
+    const bookingUpdate: Partial<Booking> = {};
+    let googleMeetLink: string | null = null;
+    try {
+        const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...booking, status: 'Upcoming', payment: paymentData, service: service } as Booking);
+        if (eventId) {
+            bookingUpdate.googleCalendarEventId = eventId;
+            bookingUpdate.googleCalendarStaffId = calendarStaffId;
+        }
+        if (meetLink) {
+            bookingUpdate.googleMeetLink = meetLink;
+            googleMeetLink = meetLink;
+        }
+    } catch (error) {
+        console.error("Failed to create Google Calendar event for paid booking:", error);
+    }
+
+    if (Object.keys(bookingUpdate).length > 0) {
+      await updateBooking(providerUsername, bookingId, bookingUpdate);
+    }
+
     await addNotification(provider.username, {
-      message: `New booking from ${booking.customerName} for ${service?.title || booking.serviceType}.`,
+      message: `New booking from ${booking.customerName} for ${serviceTitle || booking.serviceType}.`,
       type: 'new_booking',
       link: `/bookings`,
     });
@@ -360,26 +766,17 @@ export async function verifyBookingPayment(
     const providerDisplayTime = `${providerBookingTime} (${providerTimeZone.replace(/_/g, ' ')})`;
 
 
-    const eventTitle = encodeURIComponent(`Appointment: ${service?.title || booking.serviceType} with ${provider.name}`);
-    const eventDescription = encodeURIComponent(`Booking for ${service?.title || booking.serviceType} with ${provider.name}.`);
-    const eventLocation = encodeURIComponent(booking.address || 'Online');
-    const toGoogleISO = (date: Date) => date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-    const startTime = new Date(booking.dateTime);
-    const endTime = new Date(startTime.getTime() + (provider.settings.slotDuration || 60) * 60 * 1000);
-
-    const googleLink = `https://www.google.com/calendar/render?action=TEMPLATE&text=${eventTitle}&dates=${toGoogleISO(startTime)}/${toGoogleISO(endTime)}&details=${eventDescription}&location=${eventLocation}`;
-    const outlookLink = `https://outlook.live.com/calendar/0/deeplink/compose?path=/calendar/action/compose&rru=addevent&subject=${eventTitle}&startdt=${startTime.toISOString()}&enddt=${endTime.toISOString()}&body=${eventDescription}&location=${eventLocation}`;
-    const icsContent = [ 'BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', `DTSTART;TZID=${providerTimeZone}:${toGoogleISO(startTime).slice(0, -1)}`, `DTEND;TZID=${providerTimeZone}:${toGoogleISO(endTime).slice(0, -1)}`, `SUMMARY:${eventTitle}`, `DESCRIPTION:${eventDescription}`, `LOCATION:${eventLocation}`, 'END:VEVENT', 'END:VCALENDAR' ].join('\r\n');
-    const icsLink = `data:text/calendar;charset=utf-8,${encodeURIComponent(icsContent)}`;
+    const confirmedBooking: Booking = { ...booking, status: 'Upcoming', payment: paymentData, ...bookingUpdate };
+    const { googleLink, outlookLink, icsLink } = getAddToCalendarLinks(provider, confirmedBooking, serviceTitle || booking.serviceType);
     
     const paymentDetails = `Paid ₹${amount} Online`;
 
-    await sendBookingConfirmationEmail(booking.customerEmail, {
+    const confirmationSent = await sendBookingConfirmationEmail(booking.customerEmail, {
         customerName: booking.customerName,
         providerName: provider.name,
-        serviceTitle: service?.title,
+        serviceTitle,
         serviceType: booking.serviceType,
-        quantity: booking.quantity,
+        quantity: booking.seats || booking.quantity,
         bookingDate: customerBookingDate,
         bookingTime: customerDisplayTime,
         bookingTimeProvider: providerDisplayTime,
@@ -388,23 +785,34 @@ export async function verifyBookingPayment(
         paymentDetails: paymentDetails,
         googleMeetLink: googleMeetLink,
         googleMapLink: provider.settings.googleMapLink,
+        manageBookingUrl: getManageBookingUrl(provider.username, booking.id),
+        calendarInvite: await getConfirmationCalendarInvite(provider, confirmedBooking, serviceTitle || booking.serviceType),
+        ...await getSeriesEmailDetails(provider.username, booking, customerTimezone, dateFormat),
+        staffName: staffMember?.name,
     });
+    await logBookingEmail(providerUsername, bookingId, 'Booking confirmation email', booking.customerEmail, confirmationSent);
 
-    await sendProviderBookingNotificationEmail(provider.contact.email, {
-        providerName: provider.name,
+    for (const recipient of getProviderEmailRecipients(provider, booking)) {
+      const notificationSent = await sendProviderBookingNotificationEmail(recipient.email, {
+        providerName: recipient.name,
         customerName: booking.customerName,
         customerEmail: booking.customerEmail,
         customerPhone: booking.customerPhone,
-        serviceTitle: service?.title,
+        serviceTitle,
         serviceType: booking.serviceType,
-        quantity: booking.quantity,
+        quantity: booking.seats || booking.quantity,
         bookingDate: providerBookingDate,
         bookingTime: providerBookingTime,
         bookingAddress: booking.address || 'N/A',
         paymentDetails: paymentDetails,
         googleMeetLink: googleMeetLink,
         googleMapLink: provider.settings.googleMapLink,
-    });
+        ...await getSeriesEmailDetails(provider.username, booking, providerTimeZone, dateFormat),
+        staffName: staffMember?.name,
+        intakeAnswers: booking.intakeAnswers,
+      });
+      await logBookingEmail(providerUsername, bookingId, 'New booking notification', recipient.email, notificationSent);
+    }
 
     const result: { success: boolean; confirmationParams: URLSearchParams; error?: string } = { 
         success: true, 
@@ -448,109 +856,32 @@ export async function verifySubscriptionPaymentSignature(
     return { success: true };
 }
 
+// Only free plans are activated from the dashboard; paid plans are activated
+// by the Razorpay webhook once the payment is captured.
 export async function updateProviderSubscription(
-    username: string, 
-    planId: string, 
-    paymentDetails: {razorpay_payment_id: string; razorpay_order_id: string; amount?: number; }
+    idToken: string,
+    username: string,
+    planId: string
 ): Promise<{ success: boolean; error?: string; provider?: EnrichedProvider }> {
-  try {
-    const plan = await getPlan(planId);
-    if (!plan) {
-      throw new Error('Plan not found');
-    }
-
-    const provider = await getProviderByUsername(username);
-    if (!provider) {
-        throw new Error('Provider not found');
-    }
-
-    if (plan.duration === 'trial' && provider.hasUsedTrial) {
-        return { success: false, error: 'You have already used your trial plan. Please choose a paid plan.' };
-    }
-    
-    let newExpiryDate: Date;
-    const now = new Date();
-    
-    const isRenewal = !!(provider.planId && provider.planExpiry && provider.planExpiry > now);
-    const baseDateForExpiry = isRenewal ? provider.planExpiry! : now;
-
-    let notificationMessage = '';
-    if (isRenewal) {
-        const currentPlan = await getPlan(provider.planId!);
-        if (currentPlan && plan.price > currentPlan.price) {
-            notificationMessage = `${provider.name} has upgraded their plan to ${plan.name}.`;
-        } else {
-            notificationMessage = `${provider.name} has renewed their ${plan.name} plan.`;
-        }
-    } else {
-        notificationMessage = `${provider.name} has subscribed to the ${plan.name} plan.`;
-    }
-
-    const providerUpdateData: Partial<Provider> = {
-        planId: plan.id,
-        hasUsedTrial: provider.hasUsedTrial || plan.duration === 'trial',
-    };
-
-    switch (plan.duration) {
-      case 'monthly':
-        newExpiryDate = addMonths(baseDateForExpiry, 1);
-        break;
-      case 'yearly':
-        newExpiryDate = addYears(baseDateForExpiry, 1);
-        break;
-      case 'lifetime':
-        newExpiryDate = new Date('9999-12-31');
-        break;
-       case 'trial':
-         newExpiryDate = addDays(baseDateForExpiry, plan.days || 7);
-        break;
-      default:
-        throw new Error('Invalid plan duration');
-    }
-
-    providerUpdateData.planExpiry = newExpiryDate;
-
-    await updateProvider(username, providerUpdateData);
-
-    const amountPaid = paymentDetails.amount;
-
-    if (amountPaid != null && amountPaid > 0) {
-       if (!paymentDetails.razorpay_payment_id || !paymentDetails.razorpay_order_id) {
-        throw new Error('Payment details are required for paid plans.');
-      }
-      await createPaymentRecord({
-        providerUsername: username,
-        planId: plan.id,
-        amount: amountPaid,
-        currency: 'INR',
-        razorpay_payment_id: paymentDetails.razorpay_payment_id,
-        razorpay_order_id: paymentDetails.razorpay_order_id,
-      });
-    }
-
-    if (notificationMessage) {
-        await addNotification('admin', {
-            message: notificationMessage,
-            type: 'general',
-            link: `/admin/providers`,
-        });
-    }
-
-    await sendSubscriptionEmail(provider.contact.email, provider.name, plan.name, newExpiryDate, isRenewal);
-    
-    const updatedProvider = await getProviderByUsername(username);
-    if (!updatedProvider) {
-        throw new Error("Could not re-fetch provider data after update.");
-    }
-    const enrichedProvider: EnrichedProvider = { ...updatedProvider, plan };
-
-    revalidatePath('/', 'layout');
+  const access = await authorizeTeamAction(idToken, username, 'account:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
 
-    return { success: true, provider: enrichedProvider };
-  } catch (error: any) {
-    console.error('Subscription update failed:', error);
-    return { success: false, error: error.message || 'Failed to update subscription.' };
+  const plan = await getPlan(planId);
+  if (!plan) {
+    return { success: false, error: 'Plan not found' };
+  }
+  const amountToPay = (plan.offerPrice != null && plan.offerPrice < plan.price) ? plan.offerPrice : plan.price;
+  if (amountToPay > 0) {
+    return { success: false, error: 'This plan is activated once its payment is confirmed.' };
   }
+
+  return applyProviderSubscription(username, planId, {
+    razorpay_payment_id: `free_${plan.id}_${Date.now()}`,
+    razorpay_order_id: 'N/A',
+    amount: 0,
+  });
 }
 
 export async function testRazorpayConnection(keyId: string, keySecret: string) {
@@ -587,6 +918,8 @@ export async function testStripeConnection(secretKey: string) {
     }
 }
 
+const STRIPE_MIN_SESSION_MINUTES = 30;
+
 export async function createStripeCheckoutSession(
     amount: number, 
     currency: string, 
@@ -594,11 +927,22 @@ export async function createStripeCheckoutSession(
     providerUsername: string,
     keys: { secretKey: string; },
     customerDetails: { name: string; email: string; },
-    serviceTitle: string
+    serviceTitle: string,
+    expiresInMinutes: number,
+    embedReturnUrl: string | null = null
 ) {
     const stripe = new Stripe(keys.secretKey.trim());
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+    // From the website widget, the customer goes back to the page it is on.
+    const successParams = new URLSearchParams({ bookingId, providerUsername, status: 'success' });
+    if (embedReturnUrl) {
+        successParams.set('embed', '1');
+        successParams.set('returnUrl', embedReturnUrl);
+    }
     
     const session = await stripe.checkout.sessions.create({
+        // Stripe keeps a session open for at least 30 minutes.
+        expires_at: Math.floor(Date.now() / 1000) + Math.max(STRIPE_MIN_SESSION_MINUTES, expiresInMinutes) * 60,
         payment_method_types: ['card'],
         line_items: [
             {
@@ -614,8 +958,8 @@ export async function createStripeCheckoutSession(
             },
         ],
         mode: 'payment',
-        success_url: `${process.env.NEXT_PUBLIC_SITE_URL}/confirmation?bookingId=${bookingId}&providerUsername=${providerUsername}&status=success`,
-        cancel_url: `${process.env.NEXT_PUBLIC_SITE_URL}/${providerUsername}?bookingId=${bookingId}&status=canceled`,
+        success_url: `${siteUrl}/confirmation?${successParams.toString()}`,
+        cancel_url: embedReturnUrl || `${siteUrl}/${providerUsername}?bookingId=${bookingId}&status=canceled`,
         customer_email: customerDetails.email,
         client_reference_id: bookingId,
         metadata: {
@@ -674,81 +1018,465 @@ export async function createRazorpayOrder(amount: number, currency: string, id:
     }
 }
 
-export async function cancelBooking(provider: Provider, booking: Booking) {
+export async function cancelBooking(idToken: string, username: string, bookingId: string) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const booking = await getBookingById(username, bookingId);
+  if (!booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+  return applyCancellation(access.provider, booking, 'provider', access.email);
+}
+
+// Cancels every occurrence of the booking's series that hasn't happened yet,
+// with a single email to the customer listing the canceled sessions.
+export async function cancelBookingSeries(idToken: string, username: string, bookingId: string): Promise<{ success: boolean; error?: string; canceledIds?: string[] }> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const provider = access.provider;
+  const booking = await getBookingById(username, bookingId);
+  if (!booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+  if (!booking.seriesId) {
+    return applyCancellation(provider, booking, 'provider', access.email);
+  }
+
+  try {
+    const now = new Date();
+    const occurrences = (await getBookingsBySeries(provider.username, booking.seriesId))
+      .filter(occurrence => occurrence.status === 'Upcoming' && occurrence.dateTime > now);
+
+    let refundAmount = 0;
+    for (const occurrence of occurrences) {
+      const refund = occurrence.payment?.status === 'Paid' ? occurrence.payment.amount || 0 : 0;
+      refundAmount += refund;
+      await updateBooking(provider.username, occurrence.id, {
+        status: 'Canceled',
+        cancellation: { canceledAt: now, canceledBy: 'provider', fee: 0, refundAmount: refund },
+        calendarSequence: (occurrence.calendarSequence || 0) + 1,
+      });
+      await logBookingEvent(provider.username, occurrence.id, {
+        type: 'status',
+        actor: access.email,
+        message: 'Canceled with the rest of the series',
+        from: occurrence.status,
+        to: 'Canceled',
+      });
+      await deleteGoogleCalendarEvent(provider, occurrence);
+    }
+
+    if (occurrences.length > 0) {
+      const timezone = provider.settings.timezone;
+      const dateFormat = provider.settings.dateFormat || 'PPP';
+      const service = await getServiceBySlug(provider.username, booking.serviceSlug);
+      const currencySymbol = getCurrency(provider.settings.currency)?.symbol || '';
+
+      const cancellationSent = await sendBookingCancelledEmail(booking.customerEmail, {
+        customerName: booking.customerName,
+        providerName: provider.name,
+        serviceTitle: service?.title,
+        serviceType: booking.serviceType,
+        bookingDate: occurrences.map(occurrence => formatInTimeZone(occurrence.dateTime, timezone, dateFormat)).join(', '),
+        bookingTime: formatInTimeZone(occurrences[0].dateTime, timezone, 'p'),
+        refundAmount: refundAmount > 0 ? `${currencySymbol}${refundAmount.toLocaleString()}` : null,
+        staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+        calendarInvite: getBookingCalendarInvite(
+          provider,
+          occurrences.map(occurrence => ({ ...occurrence, calendarSequence: (occurrence.calendarSequence || 0) + 1 })),
+          service?.title || booking.serviceType,
+          'CANCEL'
+        ),
+      });
+      await logBookingEmail(provider.username, occurrences.map(occurrence => occurrence.id), 'Cancellation email', booking.customerEmail, cancellationSent);
+    }
+
+    for (const occurrence of occurrences) {
+      await offerFreedSlot(provider, occurrence.dateTime);
+    }
+
+    revalidatePath(`/(provider-dashboard)/bookings`);
+    return { success: true, canceledIds: occurrences.map(occurrence => occurrence.id) };
+  } catch (error: any) {
+    console.error('Series cancellation failed:', error);
+    return { success: false, error: error.message || 'Failed to cancel the series.' };
+  }
+}
+
+// Records how a booking turned out. Only confirmed bookings can be marked;
+// a booking is 'Not Completed' on the dashboard while it is still 'Upcoming' here.
+export async function markBookingOutcome(idToken: string, username: string, bookingId: string, status: 'Completed' | 'No-Show') {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+  if (status !== 'Completed' && status !== 'No-Show') {
+    return { success: false, error: 'Invalid booking status.' };
+  }
+
+  const booking = await getBookingById(username, bookingId);
+  if (!booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+  if (booking.status !== 'Upcoming') {
+    return { success: false, error: `This booking is ${booking.status.toLowerCase()} and can't be marked as ${status.toLowerCase()}.` };
+  }
+
+  try {
+    await updateBookingStatus(username, bookingId, status);
+    await logBookingEvent(username, bookingId, {
+      type: 'status',
+      actor: access.email,
+      message: status === 'Completed' ? 'Marked as completed' : 'Marked as a no-show',
+      from: booking.status,
+      to: status,
+    });
+    revalidatePath(`/(provider-dashboard)/bookings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Booking status update failed:', error);
+    return { success: false, error: 'Failed to update booking status.' };
+  }
+}
+
+// A request holds its slot until the provider decides. A recurring request is
+// approved or declined as a whole, whichever session the provider acted on.
+async function getHeldRequestBookings(username: string, booking: Booking) {
+  if (!booking.seriesId) return [booking];
+  const occurrences = await getBookingsBySeries(username, booking.seriesId);
+  return occurrences.filter(occurrence => occurrence.status === 'Awaiting Approval');
+}
+
+// Approval does what createBooking held back: the calendar event and the
+// customer's confirmation email.
+export async function approveBooking(idToken: string, username: string, bookingId: string): Promise<{ success: boolean; error?: string; bookingIds?: string[] }> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const provider = access.provider;
+  const requested = await getBookingById(username, bookingId);
+  if (!requested || requested.status !== 'Awaiting Approval') {
+    return { success: false, error: 'This booking is no longer awaiting approval.' };
+  }
+
+  try {
+    const held = await getHeldRequestBookings(username, requested);
+    const booking = held[0];
+    const service = await getServiceBySlug(username, booking.serviceSlug);
+
+    const bookingUpdate: Partial<Booking> = { status: 'Upcoming' };
+    let googleMeetLink: string | null = null;
+    try {
+      const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...booking, ...bookingUpdate, service } as Booking);
+      if (eventId) {
+        bookingUpdate.googleCalendarEventId = eventId;
+        bookingUpdate.googleCalendarStaffId = calendarStaffId;
+      }
+      if (meetLink) {
+        bookingUpdate.googleMeetLink = meetLink;
+        googleMeetLink = meetLink;
+      }
+    } catch (error) {
+      console.error('Failed to create Google Calendar event for approved booking:', error);
+    }
+
+    await updateBooking(username, booking.id, bookingUpdate);
+    await logBookingEvent(username, booking.id, {
+      type: 'status',
+      actor: access.email,
+      message: 'Approved',
+      from: booking.status,
+      to: 'Upcoming',
+    });
+    await confirmRemainingSeriesBookings(provider, booking, booking.payment || {});
+
+    // The customer's timezone isn't stored, so the email uses the provider's.
+    const timezone = provider.settings.timezone;
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+    const serviceTitle = getBookingTitle(provider.settings, booking);
+    const displayTime = `${formatInTimeZone(booking.dateTime, timezone, 'p')} (${timezone.replace(/_/g, ' ')})`;
+    const confirmedBooking: Booking = { ...booking, ...bookingUpdate };
+    const { googleLink, outlookLink, icsLink } = getAddToCalendarLinks(provider, confirmedBooking, serviceTitle || booking.serviceType);
+
+    const confirmationSent = await sendBookingConfirmationEmail(booking.customerEmail, {
+      customerName: booking.customerName,
+      providerName: provider.name,
+      serviceTitle,
+      serviceType: booking.serviceType,
+      quantity: booking.seats || booking.quantity,
+      bookingDate: formatInTimeZone(booking.dateTime, timezone, dateFormat),
+      bookingTime: displayTime,
+      bookingTimeProvider: displayTime,
+      bookingAddress: booking.address || 'N/A',
+      googleLink, outlookLink, icsLink,
+      paymentDetails: booking.payment?.amount ? 'To be paid after service.' : 'This is a free booking.',
+      googleMeetLink,
+      googleMapLink: provider.settings.googleMapLink,
+      manageBookingUrl: getManageBookingUrl(username, booking.id),
+      calendarInvite: await getConfirmationCalendarInvite(provider, confirmedBooking, serviceTitle || booking.serviceType),
+      ...await getSeriesEmailDetails(username, booking, timezone, dateFormat),
+      staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+    });
+    await logBookingEmail(username, held.map(occurrence => occurrence.id), 'Booking confirmation email', booking.customerEmail, confirmationSent);
+
+    revalidatePath(`/(provider-dashboard)/bookings`);
+    return { success: true, bookingIds: held.map(occurrence => occurrence.id) };
+  } catch (error: any) {
+    console.error('Booking approval failed:', error);
+    return { success: false, error: error.message || 'Failed to approve the booking.' };
+  }
+}
+
+// Declining releases the held slot (offering it to the waitlist) and tells the
+// customer why. Requests are never charged, so there is nothing to refund.
+export async function declineBooking(idToken: string, username: string, bookingId: string, reason: string): Promise<{ success: boolean; error?: string; bookingIds?: string[] }> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+  if (!reason.trim()) {
+    return { success: false, error: 'Please tell the customer why the booking was declined.' };
+  }
+
+  const provider = access.provider;
+  const requested = await getBookingById(username, bookingId);
+  if (!requested || requested.status !== 'Awaiting Approval') {
+    return { success: false, error: 'This booking is no longer awaiting approval.' };
+  }
+
   try {
-    await updateBookingStatus(provider.username, booking.id, 'Canceled');
+    const held = await getHeldRequestBookings(username, requested);
+    const decline = { declinedAt: new Date(), declinedBy: access.email, reason: reason.trim() };
+    for (const occurrence of held) {
+      await updateBooking(username, occurrence.id, { status: 'Declined', decline });
+      await logBookingEvent(username, occurrence.id, {
+        type: 'status',
+        actor: access.email,
+        message: `Declined: ${decline.reason}`,
+        from: occurrence.status,
+        to: 'Declined',
+      });
+    }
 
+    const booking = held[0];
     const timezone = provider.settings.timezone;
     const dateFormat = provider.settings.dateFormat || 'PPP';
-    const bookingDate = formatInTimeZone(booking.dateTime, timezone, dateFormat);
-    const bookingTime = formatInTimeZone(booking.dateTime, timezone, 'p');
-    const service = await getServiceBySlug(provider.username, booking.serviceSlug);
+    const service = await getServiceBySlug(username, booking.serviceSlug);
 
-    await sendBookingCancelledEmail(booking.customerEmail, {
+    const declineSent = await sendBookingDeclinedEmail(booking.customerEmail, {
       customerName: booking.customerName,
       providerName: provider.name,
-      serviceTitle: service?.title,
+      serviceTitle: getBookingTitle(provider.settings, booking),
       serviceType: booking.serviceType,
-      bookingDate: bookingDate,
-      bookingTime: bookingTime,
+      bookingDate: held.map(occurrence => formatInTimeZone(occurrence.dateTime, timezone, dateFormat)).join(', '),
+      bookingTime: formatInTimeZone(booking.dateTime, timezone, 'p'),
+      reason: decline.reason,
+      bookingPath: getBookAgainPath(username, booking, service?.slug),
+      staffName: findStaffMember(provider.settings, booking.staffId)?.name,
     });
-    
+    await logBookingEmail(username, held.map(occurrence => occurrence.id), 'Decline email', booking.customerEmail, declineSent);
+
+    for (const occurrence of held) {
+      if (!occurrence.classId) {
+        await offerFreedSlot(provider, occurrence.dateTime);
+      }
+    }
+
     revalidatePath(`/(provider-dashboard)/bookings`);
-    return { success: true };
+    return { success: true, bookingIds: held.map(occurrence => occurrence.id) };
   } catch (error: any) {
-    console.error('Booking cancellation failed:', error);
-    return { success: false, error: error.message || 'Failed to cancel booking.' };
+    console.error('Booking decline failed:', error);
+    return { success: false, error: error.message || 'Failed to decline the booking.' };
+  }
+}
+
+
+export async function rescheduleBooking(idToken: string, username: string, bookingId: string, newDateTime: Date) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
   }
+  return applyReschedule(username, bookingId, newDateTime, 'provider', access.email);
 }
 
-export async function rescheduleBooking(username: string, bookingId: string, newDateTime: Date) {
+// Moves every upcoming occurrence of the booking's series by the same amount
+// as `bookingId` moves to `newDateTime`: same number of days, same new time of day.
+export async function rescheduleBookingSeries(idToken: string, username: string, bookingId: string, newDateTime: Date): Promise<{ success: boolean; error?: string; moved?: { id: string; dateTime: string }[] }> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
   try {
-    const provider = await getProviderByUsername(username);
+    const provider = access.provider;
     const booking = await getBookingById(username, bookingId);
-    
-    if (!provider || !booking) {
-      throw new Error("Provider or booking not found.");
+
+    if (!booking) {
+      throw new Error("Booking not found.");
+    }
+    if (!booking.seriesId) {
+      return applyReschedule(username, bookingId, newDateTime, 'provider', access.email);
     }
 
-    const service = await getServiceBySlug(provider.username, booking.serviceSlug);
+    const timezone = provider.settings.timezone || 'UTC';
+    const now = new Date();
+    const occurrences = (await getBookingsBySeries(username, booking.seriesId))
+      .filter(occurrence => occurrence.status === 'Upcoming' && occurrence.dateTime > now);
+    const movedIds = new Set(occurrences.map(occurrence => occurrence.id));
+    const busyTimes = await getGoogleBusyTimes(provider);
+    const moves = occurrences.map(occurrence => ({
+      occurrence,
+      dateTime: shiftOccurrence(occurrence.dateTime, booking.dateTime, newDateTime, timezone),
+    }));
+
+    const updated = await updateBookingsIfAvailable(
+      username,
+      moves.map(({ occurrence, dateTime }) => ({ bookingId: occurrence.id, data: { dateTime, calendarSequence: (occurrence.calendarSequence || 0) + 1 } })),
+      moves.map(({ occurrence, dateTime }) => getBookingDays(dateTime, getBookingLength(provider.settings, occurrence), timezone)),
+      // The series' own sessions are moving, so they don't count against the new times.
+      (dayBookings, index) => isSlotAvailable(
+        provider.settings,
+        moves[index].dateTime,
+        dayBookings.filter(dayBooking => !movedIds.has(dayBooking.id)),
+        {
+          length: getBookingLength(provider.settings, moves[index].occurrence),
+          serviceType: booking.serviceType,
+          serviceSlug: booking.serviceSlug,
+          staffId: moves[index].occurrence.staffId,
+          busyTimes,
+        }
+      )
+    );
 
-    await updateBooking(username, bookingId, { dateTime: newDateTime });
+    if (!updated) {
+      return { success: false, error: 'One or more sessions cannot be moved to the new time. Please choose another time.' };
+    }
 
-    const timezone = provider.settings.timezone;
+    for (const { occurrence, dateTime } of moves) {
+      await logBookingEvent(username, occurrence.id, {
+        type: 'rescheduled',
+        actor: access.email,
+        message: 'Rescheduled with the rest of the series',
+        from: new Date(occurrence.dateTime).toISOString(),
+        to: dateTime.toISOString(),
+      });
+      await updateGoogleCalendarEvent(provider, { ...occurrence, dateTime });
+    }
+
+    const service = await getServiceBySlug(provider.username, booking.serviceSlug);
     const dateFormat = provider.settings.dateFormat || 'PPP';
-    const newBookingDate = formatInTimeZone(newDateTime, timezone, dateFormat);
+    const newBookingDate = moves.map(({ dateTime }) => formatInTimeZone(dateTime, timezone, dateFormat)).join(', ');
     const newBookingTime = formatInTimeZone(newDateTime, timezone, 'p');
 
-    await sendRescheduleEmail(booking.customerEmail, {
+    const rescheduleSent = await sendRescheduleEmail(booking.customerEmail, {
       customerName: booking.customerName,
       providerName: provider.name,
       newBookingDate,
       newBookingTime,
       serviceTitle: service?.title,
-      serviceType: booking.serviceType
+      serviceType: booking.serviceType,
+      manageBookingUrl: getManageBookingUrl(username, bookingId),
+      staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+      calendarInvite: moves.length > 0 ? getBookingCalendarInvite(
+        provider,
+        moves.map(({ occurrence, dateTime }) => ({ ...occurrence, dateTime, calendarSequence: (occurrence.calendarSequence || 0) + 1 })),
+        service?.title || booking.serviceType,
+        'REQUEST'
+      ) : null,
     });
+    await logBookingEmail(username, moves.map(({ occurrence }) => occurrence.id), 'Reschedule email', booking.customerEmail, rescheduleSent);
 
-    await sendProviderRescheduleEmail(provider.contact.email, {
-      providerName: provider.name,
-      customerName: booking.customerName,
-      newBookingDate,
-      newBookingTime,
-      serviceTitle: service?.title,
-      serviceType: booking.serviceType
-    });
+    for (const recipient of getProviderEmailRecipients(provider, booking)) {
+      const notificationSent = await sendProviderRescheduleEmail(recipient.email, {
+        providerName: recipient.name,
+        customerName: booking.customerName,
+        newBookingDate,
+        newBookingTime,
+        serviceTitle: service?.title,
+        serviceType: booking.serviceType,
+        staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+      });
+      await logBookingEmail(username, moves.map(({ occurrence }) => occurrence.id), 'Reschedule notification', recipient.email, notificationSent);
+    }
 
     revalidatePath(`/(provider-dashboard)/bookings`);
-    return { success: true };
+    return {
+      success: true,
+      moved: moves.map(({ occurrence, dateTime }) => ({ id: occurrence.id, dateTime: dateTime.toISOString() })),
+    };
   } catch (error: any) {
-    console.error("Reschedule failed:", error);
-    return { success: false, error: error.message || "Could not reschedule booking." };
+    console.error("Series reschedule failed:", error);
+    return { success: false, error: error.message || "Could not reschedule the series." };
+  }
+}
+
+export async function cancelBookingByCustomer(username: string, bookingId: string, token: string) {
+  if (!verifyBookingToken(username, bookingId, token)) {
+    return { success: false, error: 'This link is invalid or has expired.' };
+  }
+
+  const provider = await getProviderByUsername(username);
+  const booking = await getBookingById(username, bookingId);
+  if (!provider || !booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+
+  const result = await applyCancellation(provider, booking, 'customer', CUSTOMER_ACTOR);
+  if (result.success) {
+    await addNotification(provider.username, {
+      message: `${booking.customerName} canceled their booking on ${formatInTimeZone(booking.dateTime, provider.settings.timezone, provider.settings.dateFormat || 'PPP')}.`,
+      type: 'general',
+      link: `/bookings`,
+    });
+    revalidatePath(`/${username}/booking/${bookingId}`);
+  }
+  return result;
+}
+
+export async function rescheduleBookingByCustomer(username: string, bookingId: string, token: string, newDateTimeISO: string) {
+  if (!verifyBookingToken(username, bookingId, token)) {
+    return { success: false, error: 'This link is invalid or has expired.' };
+  }
+
+  const provider = await getProviderByUsername(username);
+  const booking = await getBookingById(username, bookingId);
+  if (!provider || !booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+
+  const newDateTime = new Date(newDateTimeISO);
+  if (isNaN(newDateTime.getTime())) {
+    return { success: false, error: 'Invalid date and time.' };
+  }
+
+  const result = await applyReschedule(username, bookingId, newDateTime, 'customer', CUSTOMER_ACTOR);
+  if (result.success) {
+    await addNotification(provider.username, {
+      message: `${booking.customerName} rescheduled their booking to ${formatInTimeZone(newDateTime, provider.settings.timezone, `${provider.settings.dateFormat || 'PPP'} p`)}.`,
+      type: 'general',
+      link: `/bookings`,
+    });
+    revalidatePath(`/${username}/booking/${bookingId}`);
   }
+  return result;
 }
 
-export async function updateBlockedSlots(username: string, slotISO: string, shouldBlock: boolean) {
+export async function updateBlockedSlots(idToken: string, username: string, slotISO: string, shouldBlock: boolean) {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
     try {
-        const provider = await getProviderByUsername(username);
-        if (!provider) throw new Error("Provider not found");
+        const provider = access.provider;
 
         const currentBlockedSlots = provider.settings.blockedSlots || [];
         
@@ -768,10 +1496,14 @@ export async function updateBlockedSlots(username: string, slotISO: string, shou
 }
 
 
-export async function updateBlockedDates(username: string, dates: string[], shouldBlock: boolean) {
+export async function updateBlockedDates(idToken: string, username: string, dates: string[], shouldBlock: boolean) {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
     try {
-        const provider = await getProviderByUsername(username);
-        if (!provider) throw new Error("Provider not found");
+        const provider = access.provider;
 
         const currentBlockedDates = provider.settings.blockedDates || [];
         
@@ -791,7 +1523,68 @@ export async function updateBlockedDates(username: string, dates: string[], shou
     }
 }
 
-export async function changeProviderUsername(oldUsername: string, newUsername: string) {
+export async function updateDateOverride(idToken: string, username: string, date: string, periods: WorkingPeriod[] | null) {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
+    try {
+        const provider = access.provider;
+
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+            throw new Error("Invalid date.");
+        }
+
+        const dateOverrides = { ...(provider.settings.dateOverrides || {}) };
+
+        if (periods === null) {
+            delete dateOverrides[date];
+        } else {
+            const isTime = (value: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+            if (periods.some(p => !isTime(p.start) || !isTime(p.end) || p.start >= p.end)) {
+                throw new Error("Each period must have a start time before its end time.");
+            }
+            dateOverrides[date] = [...periods].sort((a, b) => a.start.localeCompare(b.start));
+        }
+
+        await updateProvider(username, { settings: { ...provider.settings, dateOverrides } });
+        revalidatePath(`/(provider-dashboard)/slot-management`);
+        return { success: true };
+    } catch (error: any) {
+        return { success: false, error: error.message };
+    }
+}
+
+// Everything kept under providers/<username> besides the bookings, which
+// carry the username and their own activity log and are moved separately.
+// Booking attachments stay where they are in Storage; their notes keep the full path and URL.
+const PROVIDER_SUBCOLLECTIONS = ['bookingLocks', 'bookingNotes', 'customers', 'customerRestrictions', 'waitlist'];
+
+// A Firestore batch holds at most 500 writes.
+const MAX_BATCH_WRITES = 500;
+
+type DocumentMove = { from: DocumentReference; to: DocumentReference; data: DocumentData };
+
+async function getCollectionMoves(fromPath: string, toPath: string): Promise<DocumentMove[]> {
+    const snapshot = await getDocs(collection(db, fromPath));
+    return snapshot.docs.map(docSnap => ({ from: docSnap.ref, to: doc(db, toPath, docSnap.id), data: docSnap.data() }));
+}
+
+async function commitInBatches<T>(items: T[], write: (batch: ReturnType<typeof writeBatch>, item: T) => void) {
+    for (let index = 0; index < items.length; index += MAX_BATCH_WRITES) {
+        const batch = writeBatch(db);
+        items.slice(index, index + MAX_BATCH_WRITES).forEach(item => write(batch, item));
+        await batch.commit();
+    }
+}
+
+export async function changeProviderUsername(idToken: string, oldUsername: string, newUsername: string) {
+    const access = await authorizeTeamAction(idToken, oldUsername, 'account:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
     try {
         // 1. Validate new username
         if (!/^[a-zA-Z0-9_-]{3,20}$/.test(newUsername)) {
@@ -815,13 +1608,9 @@ export async function changeProviderUsername(oldUsername: string, newUsername: s
             throw new Error("This biolink slug is already taken. Please choose another one.");
         }
 
-        // 4. Migration logic
-        const batch = writeBatch(db);
-
-        // a. Move main document
-        const oldRef = doc(db, 'providers', oldUsername);
-        const newRef = doc(db, 'providers', newUsername);
-        
+        // 4. Migration logic. Everything is copied under the new username
+        // first, then the provider document switches over, then the old copies
+        // are deleted, so a failure part-way never leaves the provider without data.
         const providerData = { 
             ...provider, 
             username: newUsername,
@@ -829,46 +1618,33 @@ export async function changeProviderUsername(oldUsername: string, newUsername: s
         };
         // Remove plan as it's enriched and not in the main doc
         delete (providerData as any).plan;
-        
-        batch.set(newRef, providerData);
-        batch.delete(oldRef);
 
-        // b. Move bookings subcollection
-        const oldBookingsCol = collection(db, 'providers', oldUsername, 'bookings');
-        const oldBookingsSnapshot = await getDocs(oldBookingsCol);
-        
-        oldBookingsSnapshot.forEach((bookingDoc) => {
-            const newBookingRef = doc(db, 'providers', newUsername, 'bookings', bookingDoc.id);
-            const bookingData = bookingDoc.data();
-            bookingData.providerUsername = newUsername; // Update reference
-            batch.set(newBookingRef, bookingData);
-            batch.delete(bookingDoc.ref);
-        });
+        const moves: DocumentMove[] = [];
+        for (const name of PROVIDER_SUBCOLLECTIONS) {
+            moves.push(...await getCollectionMoves(`providers/${oldUsername}/${name}`, `providers/${newUsername}/${name}`));
+        }
+        const bookingMoves = await getCollectionMoves(`providers/${oldUsername}/bookings`, `providers/${newUsername}/bookings`);
+        for (const move of bookingMoves) {
+            move.data.providerUsername = newUsername; // Update reference
+            moves.push(move, ...await getCollectionMoves(`${move.from.path}/events`, `${move.to.path}/events`));
+        }
+        // Notifications live under the 'users' collection
+        moves.push(...await getCollectionMoves(`users/${oldUsername}/notifications`, `users/${newUsername}/notifications`));
 
-        // c. Move notifications subcollection (under 'users' collection)
-        const oldNotificationsCol = collection(db, 'users', oldUsername, 'notifications');
-        const oldNotificationsSnapshot = await getDocs(oldNotificationsCol);
+        await commitInBatches(moves, (batch, move) => batch.set(move.to, move.data));
 
-        oldNotificationsSnapshot.forEach((notifDoc) => {
-            const newNotifRef = doc(db, 'users', newUsername, 'notifications', notifDoc.id);
-            batch.set(newNotifRef, notifDoc.data());
-            batch.delete(notifDoc.ref);
-        });
+        const providerBatch = writeBatch(db);
+        providerBatch.set(doc(db, 'providers', newUsername), providerData);
+        providerBatch.delete(doc(db, 'providers', oldUsername));
+        await providerBatch.commit();
 
-        await batch.commit();
+        await commitInBatches(moves, (batch, move) => batch.delete(move.from));
 
-        // d. Update payments (might be too many for one batch if there are hundreds)
+        // Update payments
         const paymentsCol = collection(db, 'payments');
         const q = query(paymentsCol, where('providerUsername', '==', oldUsername));
         const paymentsSnapshot = await getDocs(q);
-        
-        if (!paymentsSnapshot.empty) {
-            const paymentBatch = writeBatch(db);
-            paymentsSnapshot.forEach((payDoc) => {
-                paymentBatch.update(payDoc.ref, { providerUsername: newUsername });
-            });
-            await paymentBatch.commit();
-        }
+        await commitInBatches(paymentsSnapshot.docs, (batch, payDoc) => batch.update(payDoc.ref, { providerUsername: newUsername }));
 
         revalidatePath('/', 'layout');
         return { success: true };
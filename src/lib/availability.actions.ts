@@ -0,0 +1,161 @@
+'use server';
+
+import { addDays, format, parse } from 'date-fns';
+import { getBookingsInRange, getProviderByUsername } from './data';
+import type { AvailabilityDaySummary, DayAvailability, Provider, RecurrenceRule, SeriesOccurrence } from './types';
+import {
+  DATE_KEY_FORMAT,
+  computeDayAvailability,
+  findService,
+  getAppointmentLength,
+  eachDateKey,
+  getDateRangeBounds,
+  isSlotAvailable,
+  parseDateKey,
+  summarizeDayAvailability,
+  toDateKey,
+  type AvailabilityOptions,
+} from './availability';
+import { RECURRENCE_INTERVAL_LIMIT, getMaxRecurringOccurrences, getOccurrenceDates } from './recurrence';
+import { getGoogleBusyTimes } from './calendar.actions';
+import { verifyWaitlistToken } from './booking-links';
+import { getWaitlistHolds } from './waitlist';
+import { MAX_AVAILABILITY_RANGE_DAYS } from './public-availability';
+
+type AvailabilityRequestOptions = {
+  excludeBookingId?: string;
+  serviceSlug?: string | null;
+  serviceType?: string | null;
+  quantity?: number;
+  staffId?: string | null;
+  ignoreBookingWindow?: boolean;
+  waitlistClaim?: { entryId: string; token: string } | null; // A waitlist offer being claimed from its email link
+};
+
+const NEXT_AVAILABLE_SEARCH_DAYS = 365;
+const NEXT_AVAILABLE_WINDOW_DAYS = 31;
+
+async function resolveOptions(provider: Provider, { serviceSlug, serviceType, quantity, excludeBookingId, staffId, ignoreBookingWindow }: AvailabilityRequestOptions): Promise<AvailabilityOptions> {
+  const service = findService(provider.settings, serviceSlug);
+  return {
+    excludeBookingId,
+    serviceType,
+    serviceSlug,
+    staffId,
+    ignoreBookingWindow,
+    length: getAppointmentLength(provider.settings, service, quantity),
+    busyTimes: await getGoogleBusyTimes(provider),
+  };
+}
+
+// Slots held by waitlist offers count as taken, except the one being claimed.
+function getHolds(provider: Provider, { waitlistClaim }: AvailabilityRequestOptions) {
+  const claimingEntryId = waitlistClaim && verifyWaitlistToken(provider.username, waitlistClaim.entryId, waitlistClaim.token)
+    ? waitlistClaim.entryId
+    : null;
+  return getWaitlistHolds(provider, claimingEntryId);
+}
+
+export async function getDayAvailability(
+  username: string,
+  date: string,
+  options: AvailabilityRequestOptions = {}
+): Promise<DayAvailability | null> {
+  const provider = await getProviderByUsername(username);
+  if (!provider) return null;
+
+  const { start, end } = getDateRangeBounds(date, date, provider.settings.timezone);
+  const bookings = [...await getBookingsInRange(username, start, end), ...await getHolds(provider, options)];
+
+  return computeDayAvailability(provider.settings, date, bookings, await resolveOptions(provider, options));
+}
+
+export async function getAvailabilitySummary(
+  username: string,
+  from: string,
+  to: string,
+  options: AvailabilityRequestOptions = {}
+): Promise<AvailabilityDaySummary[]> {
+  // A month at most, like the public availability API.
+  const fromDate = parseDateKey(from);
+  const toDate = parseDateKey(to);
+  if (!fromDate || !toDate || toDate < fromDate) return [];
+  const lastDay = format(addDays(fromDate, MAX_AVAILABILITY_RANGE_DAYS - 1), DATE_KEY_FORMAT);
+  if (to > lastDay) to = lastDay;
+
+  const provider = await getProviderByUsername(username);
+  if (!provider) return [];
+
+  const { start, end } = getDateRangeBounds(from, to, provider.settings.timezone);
+  const bookings = [...await getBookingsInRange(username, start, end), ...await getHolds(provider, options)];
+  const resolved = { ...(await resolveOptions(provider, options)), now: new Date() };
+
+  return eachDateKey(from, to).map(date =>
+    summarizeDayAvailability(computeDayAvailability(provider.settings, date, bookings, resolved))
+  );
+}
+
+export async function getNextAvailableDate(
+  username: string,
+  from?: string,
+  options: AvailabilityRequestOptions = {}
+): Promise<string | null> {
+  const provider = await getProviderByUsername(username);
+  if (!provider) return null;
+
+  const timezone = provider.settings.timezone;
+  const firstDay = parse(from || toDateKey(new Date(), timezone), DATE_KEY_FORMAT, new Date());
+  const resolved = { ...(await resolveOptions(provider, options)), now: new Date() };
+  const holds = await getHolds(provider, options);
+
+  const horizonDays = provider.settings.bookingHorizonDays;
+  const searchDays = horizonDays ? Math.min(NEXT_AVAILABLE_SEARCH_DAYS, horizonDays + 1) : NEXT_AVAILABLE_SEARCH_DAYS;
+
+  for (let offset = 0; offset < searchDays; offset += NEXT_AVAILABLE_WINDOW_DAYS) {
+    const windowFrom = format(addDays(firstDay, offset), DATE_KEY_FORMAT);
+    const windowTo = format(addDays(firstDay, offset + NEXT_AVAILABLE_WINDOW_DAYS - 1), DATE_KEY_FORMAT);
+    const { start, end } = getDateRangeBounds(windowFrom, windowTo, timezone);
+    const bookings = [...await getBookingsInRange(username, start, end), ...holds];
+
+    for (const date of eachDateKey(windowFrom, windowTo)) {
+      const day = computeDayAvailability(provider.settings, date, bookings, resolved);
+      if (day.slots.some(s => s.isAvailable)) {
+        return date;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Checks every occurrence of a prospective recurring series so the booking
+// form can show which sessions are free before the customer commits.
+export async function getSeriesAvailability(
+  username: string,
+  dateTime: string,
+  rule: RecurrenceRule,
+  options: AvailabilityRequestOptions = {}
+): Promise<SeriesOccurrence[]> {
+  const provider = await getProviderByUsername(username);
+  if (!provider || !provider.settings.recurringBookingsEnabled) return [];
+
+  // The rule comes from the browser, so it is held to what createBooking would accept.
+  const timezone = provider.settings.timezone;
+  const occurrences = getOccurrenceDates(new Date(dateTime), {
+    frequency: rule.frequency,
+    interval: Math.min(RECURRENCE_INTERVAL_LIMIT, Math.max(1, Math.floor(rule.interval) || 1)),
+    count: Math.min(getMaxRecurringOccurrences(provider.settings.maxRecurringOccurrences), Math.max(1, Math.floor(rule.count) || 1)),
+  }, timezone);
+  const { start, end } = getDateRangeBounds(
+    toDateKey(occurrences[0], timezone),
+    toDateKey(occurrences[occurrences.length - 1], timezone),
+    timezone
+  );
+  const bookings = [...await getBookingsInRange(username, start, end), ...await getHolds(provider, options)];
+  const resolved = { ...(await resolveOptions(provider, options)), now: new Date() };
+
+  return occurrences.map(occurrence => ({
+    dateTime: occurrence.toISOString(),
+    isAvailable: isSlotAvailable(provider.settings, occurrence, bookings, resolved),
+  }));
+}
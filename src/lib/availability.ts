@@ -0,0 +1,425 @@
+import { addDays, addHours, addMinutes, format, isValid, parse } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { AvailabilityDaySummary, AvailabilitySlot, Booking, CalendarBusyTime, DayAvailability, GroupClass, Provider, ProviderSettings, Service, StaffMember, WorkingPeriod } from './types';
+import { getWorkingPeriods } from './utils';
+
+// Pure slot computation shared by the public booking form, slot management
+// and the reschedule dialog. Everything is computed in the provider's timezone;
+// dates are passed around as "yyyy-MM-dd" strings so the customer's browser
+// timezone never shifts the day being looked at.
+
+export const DATE_KEY_FORMAT = 'yyyy-MM-dd';
+
+// How long an appointment occupies the calendar. Buffers keep time free around
+// the appointment but are not part of it.
+export type AppointmentLength = {
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+};
+
+export type AvailabilityOptions = {
+  now?: Date;
+  excludeBookingId?: string; // Ignore a booking, e.g. the one being rescheduled
+  length?: AppointmentLength; // Defaults to the provider's slot duration
+  serviceType?: string | null; // Service type name, for its daily cap
+  serviceSlug?: string | null; // Limits "any staff member" to the staff who perform the service
+  staffId?: string | null; // A specific staff member; omitted means any available staff member
+  ignoreBookingWindow?: boolean; // Dashboard bookings skip the booking delay and horizon; only past slots are closed
+  busyTimes?: CalendarBusyTime[]; // Events in connected Google Calendars
+};
+
+type BookingInterval = {
+  start: Date;
+  end: Date;
+  blockedStart: Date;
+  blockedEnd: Date;
+};
+
+export function toDateKey(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, DATE_KEY_FORMAT);
+}
+
+// The day a "yyyy-MM-dd" key names, or null when it isn't a real date in that format.
+export function parseDateKey(value: string): Date | null {
+  const date = parse(value, DATE_KEY_FORMAT, new Date());
+  return isValid(date) && format(date, DATE_KEY_FORMAT) === value ? date : null;
+}
+
+export function eachDateKey(from: string, to: string): string[] {
+  const keys: string[] = [];
+  let current = parse(from, DATE_KEY_FORMAT, new Date());
+  const last = parse(to, DATE_KEY_FORMAT, new Date());
+  while (current <= last) {
+    keys.push(format(current, DATE_KEY_FORMAT));
+    current = addDays(current, 1);
+  }
+  return keys;
+}
+
+// UTC instants covering the provider's local days from `from` to `to` (inclusive).
+export function getDateRangeBounds(from: string, to: string, timezone: string): { start: Date; end: Date } {
+  const dayAfter = format(addDays(parse(to, DATE_KEY_FORMAT, new Date()), 1), DATE_KEY_FORMAT);
+  return {
+    start: fromZonedTime(`${from}T00:00:00`, timezone),
+    end: fromZonedTime(`${dayAfter}T00:00:00`, timezone),
+  };
+}
+
+// A date override replaces the weekly template for that date entirely.
+export function getWorkingPeriodsForDate(settings: ProviderSettings, date: string): WorkingPeriod[] {
+  const override = settings.dateOverrides?.[date];
+  if (override) return override;
+  if (!settings.workingHours) return [];
+  const dayOfWeek = format(parse(date, DATE_KEY_FORMAT, new Date()), 'EEEE').toLowerCase();
+  return getWorkingPeriods(settings.workingHours[dayOfWeek]);
+}
+
+export function getActiveStaff(settings: ProviderSettings): StaffMember[] {
+  return (settings.staff || []).filter(m => m.enabled).sort((a, b) => a.displayOrder - b.displayOrder);
+}
+
+export function findStaffMember(settings: ProviderSettings, staffId?: string | null): StaffMember | undefined {
+  if (!staffId) return undefined;
+  return settings.staff?.find(m => m.id === staffId);
+}
+
+// Provider-facing booking emails also go to the staff member the booking is with.
+export function getProviderEmailRecipients(provider: Provider, booking: Booking): { email: string; name: string }[] {
+  const recipients = [{ email: provider.contact.email, name: provider.name }];
+  const staffMember = findStaffMember(provider.settings, booking.staffId);
+  if (staffMember?.email && staffMember.email.toLowerCase() !== provider.contact.email.toLowerCase()) {
+    recipients.push({ email: staffMember.email, name: staffMember.name });
+  }
+  return recipients;
+}
+
+export function getStaffForService(settings: ProviderSettings, serviceSlug?: string | null): StaffMember[] {
+  const service = findService(settings, serviceSlug);
+  return getActiveStaff(settings).filter(m => !service || !m.serviceIds?.length || m.serviceIds.includes(service.id));
+}
+
+// The provider's date overrides (closures, special hours) apply to everyone on
+// the team, so they replace each staff member's weekly template as well.
+function getStaffWorkingPeriods(settings: ProviderSettings, member: StaffMember, date: string): WorkingPeriod[] {
+  const override = settings.dateOverrides?.[date];
+  if (override) return override;
+  const dayOfWeek = format(parse(date, DATE_KEY_FORMAT, new Date()), 'EEEE').toLowerCase();
+  return getWorkingPeriods(member.workingHours?.[dayOfWeek]);
+}
+
+// Bookings made before staff were set up belong to no one, so they keep
+// blocking every staff member rather than risk a double booking.
+function isBookingWithStaff(booking: Booking, member: StaffMember): boolean {
+  return !booking.staffId || booking.staffId === member.id;
+}
+
+export function getSlotCapacity(settings: ProviderSettings): number {
+  return settings.multipleBookingsPerSlot ? Math.max(1, settings.bookingsPerSlot || 1) : 1;
+}
+
+export function isBookingHoldingCapacity(booking: Booking): boolean {
+  return booking.status !== 'Canceled' && booking.status !== 'Expired' && booking.status !== 'Declined';
+}
+
+export function findService(settings: ProviderSettings, slugOrId?: string | null): Service | undefined {
+  if (!slugOrId) return undefined;
+  return settings.services?.find(s => s.slug === slugOrId || s.id === slugOrId);
+}
+
+export function findGroupClass(settings: ProviderSettings, classId?: string | null): GroupClass | undefined {
+  if (!classId) return undefined;
+  return settings.groupClasses?.find(c => c.id === classId);
+}
+
+// Class bookings have no service; they are titled after their class.
+export function getBookingTitle(settings: ProviderSettings, booking: Booking): string | undefined {
+  return findGroupClass(settings, booking.classId)?.title || findService(settings, booking.serviceSlug)?.title;
+}
+
+export function getClassLength(groupClass: GroupClass): AppointmentLength {
+  return { duration: groupClass.duration, bufferBefore: 0, bufferAfter: 0 };
+}
+
+export function getClassSeatsTaken(groupClass: GroupClass, bookings: Booking[]): number {
+  return bookings
+    .filter(b => b.classId === groupClass.id && isBookingHoldingCapacity(b))
+    .reduce((total, b) => total + (b.seats || 1), 0);
+}
+
+export function getClassSeatsRemaining(groupClass: GroupClass, bookings: Booking[]): number {
+  return Math.max(0, groupClass.capacity - getClassSeatsTaken(groupClass, bookings));
+}
+
+export function getAppointmentLength(settings: ProviderSettings, service?: Service | null, quantity = 1): AppointmentLength {
+  const units = service?.quantityEnabled ? Math.max(1, quantity || 1) : 1;
+  return {
+    duration: (service?.duration || settings.slotDuration || 60) * units,
+    bufferBefore: service?.bufferBefore || 0,
+    bufferAfter: service?.bufferAfter || 0,
+  };
+}
+
+// Bookings created before durations were stored fall back to their service's current length.
+export function getBookingLength(settings: ProviderSettings, booking: Booking): AppointmentLength {
+  if (booking.duration) {
+    return {
+      duration: booking.duration,
+      bufferBefore: booking.bufferBefore || 0,
+      bufferAfter: booking.bufferAfter || 0,
+    };
+  }
+  return getAppointmentLength(settings, findService(settings, booking.serviceSlug), booking.quantity);
+}
+
+export function getBookingEndTime(settings: ProviderSettings, booking: Booking): Date {
+  return addMinutes(new Date(booking.dateTime), getBookingLength(settings, booking).duration);
+}
+
+function toInterval(start: Date, length: AppointmentLength): BookingInterval {
+  const end = addMinutes(start, length.duration);
+  return {
+    start,
+    end,
+    blockedStart: addMinutes(start, -length.bufferBefore),
+    blockedEnd: addMinutes(end, length.bufferAfter),
+  };
+}
+
+export function getBookingInterval(settings: ProviderSettings, booking: Booking): BookingInterval {
+  return toInterval(new Date(booking.dateTime), getBookingLength(settings, booking));
+}
+
+// Every provider-local day a booking at `dateTime` takes time on, buffers
+// included, so a booking running past midnight locks both days when it is
+// written. Bookings that could overlap it start between the day before and
+// the day after those days.
+export function getBookingDays(dateTime: Date, length: AppointmentLength, timezone: string): { keys: string[]; start: Date; end: Date } {
+  const interval = toInterval(dateTime, length);
+  const first = toDateKey(interval.blockedStart, timezone);
+  const last = toDateKey(addMinutes(interval.blockedEnd, -1), timezone);
+  const shiftKey = (key: string, days: number) => format(addDays(parse(key, DATE_KEY_FORMAT, new Date()), days), DATE_KEY_FORMAT);
+  return {
+    keys: eachDateKey(first, last),
+    ...getDateRangeBounds(shiftKey(first, -1), shiftKey(last, 1), timezone),
+  };
+}
+
+// Whether a booking that already holds its time still fits next to the other
+// bookings, by capacity alone. Working hours and blocks added since it was
+// made don't undo it.
+export function hasCapacityForBooking(settings: ProviderSettings, booking: Booking, bookings: Booking[]): boolean {
+  const others = bookings.filter(b => b.id !== booking.id && isBookingHoldingCapacity(b));
+  if (booking.classId) {
+    const groupClass = findGroupClass(settings, booking.classId);
+    return !!groupClass && getClassSeatsRemaining(groupClass, others) >= (booking.seats || 1);
+  }
+
+  const member = findStaffMember(settings, booking.staffId);
+  const interval = getBookingInterval(settings, booking);
+  const booked = others
+    .filter(b => !b.classId && (!member || isBookingWithStaff(b, member)))
+    .filter(b => conflicts(getBookingInterval(settings, b), interval))
+    .length;
+  return booked < getSlotCapacity(settings);
+}
+
+function overlaps(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) {
+  return aStart < bEnd && bStart < aEnd;
+}
+
+// Buffers may touch each other, but neither appointment may run into the other's buffer.
+function conflicts(a: BookingInterval, b: BookingInterval) {
+  return overlaps(a.blockedStart, a.blockedEnd, b.start, b.end) || overlaps(a.start, a.end, b.blockedStart, b.blockedEnd);
+}
+
+function isBeyondHorizon(settings: ProviderSettings, date: string, now: Date): boolean {
+  if (!settings.bookingHorizonDays) return false;
+  return date > toDateKey(addDays(now, settings.bookingHorizonDays), settings.timezone || 'UTC');
+}
+
+function isDailyLimitReached(settings: ProviderSettings, dayBookings: Booking[], serviceType?: string | null): boolean {
+  if (settings.dailyBookingLimit && dayBookings.length >= settings.dailyBookingLimit) {
+    return true;
+  }
+  const typeLimit = settings.serviceTypes?.find(st => st.name === serviceType)?.dailyLimit;
+  if (typeLimit && dayBookings.filter(b => b.serviceType === serviceType).length >= typeLimit) {
+    return true;
+  }
+  return false;
+}
+
+// Availability of one calendar: the provider's own, or a single staff member's.
+function computeScheduleAvailability(
+  settings: ProviderSettings,
+  date: string,
+  bookings: Booking[],
+  options: AvailabilityOptions,
+  member: StaffMember | null
+): DayAvailability {
+  const timezone = settings.timezone || 'UTC';
+  const now = options.now || new Date();
+  const isDateBlocked = (settings.blockedDates || []).includes(date) || !!member?.blockedDates?.includes(date);
+  const blockedSlots = new Set(settings.blockedSlots || []);
+  const leadTimeLimit = options.ignoreBookingWindow ? now : addHours(now, settings.bookingDelay || 0);
+  const slotDuration = settings.slotDuration || 60;
+  const step = slotDuration + (settings.breakTime || 0);
+  const length = options.length || getAppointmentLength(settings);
+  const capacity = getSlotCapacity(settings);
+
+  // Class seats don't take private appointment capacity; the class session
+  // itself blocks the provider's time instead, whether or not seats are sold.
+  const activeBookings = bookings.filter(b => b.id !== options.excludeBookingId && isBookingHoldingCapacity(b) && !b.classId);
+  const activeIntervals = activeBookings
+    .filter(b => !member || isBookingWithStaff(b, member))
+    .map(b => getBookingInterval(settings, b));
+  const classIntervals = (settings.groupClasses || [])
+    .filter(c => c.enabled)
+    .map(c => toInterval(new Date(c.dateTime), getClassLength(c)));
+  // An appointment's buffers may not run into a busy event either.
+  const busyTimes = (options.busyTimes || []).filter(busy => busy.staffId === (member?.id || null));
+  // Daily caps are for the whole business, not per staff member.
+  const dayBookings = activeBookings.filter(b => toDateKey(new Date(b.dateTime), timezone) === date);
+  const beyondHorizon = !options.ignoreBookingWindow && isBeyondHorizon(settings, date, now);
+  const dailyLimitReached = isDailyLimitReached(settings, dayBookings, options.serviceType);
+  const periods = member ? getStaffWorkingPeriods(settings, member, date) : getWorkingPeriodsForDate(settings, date);
+
+  const slots: AvailabilitySlot[] = [];
+
+  for (const period of periods) {
+    const periodEnd = fromZonedTime(`${date}T${period.end}:00`, timezone);
+    let start = fromZonedTime(`${date}T${period.start}:00`, timezone);
+
+    while (addMinutes(start, length.duration) <= periodEnd) {
+      const interval = toInterval(start, length);
+      const booked = activeIntervals.filter(b => conflicts(b, interval)).length;
+      const remaining = Math.max(0, capacity - booked);
+      const isBlocked = isDateBlocked
+        || blockedSlots.has(start.toISOString())
+        || classIntervals.some(c => conflicts(c, interval))
+        || busyTimes.some(busy => overlaps(busy.start, busy.end, interval.blockedStart, interval.blockedEnd));
+      const isWithinLeadTime = start <= leadTimeLimit;
+
+      slots.push({
+        start: interval.start.toISOString(),
+        end: interval.end.toISOString(),
+        capacity,
+        booked,
+        remaining,
+        isBlocked,
+        isWithinLeadTime,
+        isAvailable: !isBlocked && !isWithinLeadTime && !beyondHorizon && !dailyLimitReached && remaining > 0,
+      });
+
+      start = addMinutes(start, step);
+    }
+  }
+
+  return {
+    date,
+    isDateBlocked,
+    isBeyondHorizon: beyondHorizon,
+    isDailyLimitReached: dailyLimitReached,
+    slots,
+  };
+}
+
+// "Any staff member": a slot is open when at least one of them is free, and
+// its capacity is what the free staff members can still take between them.
+function mergeStaffAvailability(date: string, days: DayAvailability[]): DayAvailability {
+  const slotsByStart = new Map<string, AvailabilitySlot>();
+
+  for (const day of days) {
+    for (const slot of day.slots) {
+      const open = slot.isBlocked ? 0 : slot.remaining;
+      const existing = slotsByStart.get(slot.start);
+      if (!existing) {
+        slotsByStart.set(slot.start, { ...slot, remaining: open });
+        continue;
+      }
+      slotsByStart.set(slot.start, {
+        ...existing,
+        capacity: existing.capacity + slot.capacity,
+        booked: existing.booked + slot.booked,
+        remaining: existing.remaining + open,
+        isBlocked: existing.isBlocked && slot.isBlocked,
+        isAvailable: existing.isAvailable || slot.isAvailable,
+      });
+    }
+  }
+
+  return {
+    date,
+    isDateBlocked: days.length > 0 && days.every(day => day.isDateBlocked),
+    isBeyondHorizon: days.some(day => day.isBeyondHorizon),
+    isDailyLimitReached: days.some(day => day.isDailyLimitReached),
+    slots: [...slotsByStart.values()].sort((a, b) => a.start.localeCompare(b.start)),
+  };
+}
+
+export function computeDayAvailability(
+  settings: ProviderSettings,
+  date: string,
+  bookings: Booking[],
+  options: AvailabilityOptions = {}
+): DayAvailability {
+  if (getActiveStaff(settings).length === 0) {
+    return computeScheduleAvailability(settings, date, bookings, options, null);
+  }
+
+  if (options.staffId) {
+    const member = getStaffForService(settings, options.serviceSlug).find(m => m.id === options.staffId);
+    return member
+      ? computeScheduleAvailability(settings, date, bookings, options, member)
+      : mergeStaffAvailability(date, []);
+  }
+
+  const days = getStaffForService(settings, options.serviceSlug)
+    .map(member => computeScheduleAvailability(settings, date, bookings, options, member));
+  return mergeStaffAvailability(date, days);
+}
+
+// True when `dateTime` is the start of a bookable slot on its (provider-local) day.
+// Anything off the slot grid, outside working hours or blocked is rejected.
+export function isSlotAvailable(
+  settings: ProviderSettings,
+  dateTime: Date,
+  bookings: Booking[],
+  options: AvailabilityOptions = {}
+): boolean {
+  const date = toDateKey(dateTime, settings.timezone || 'UTC');
+  const day = computeDayAvailability(settings, date, bookings, options);
+  const slot = day.slots.find(s => s.start === dateTime.toISOString());
+  return !!slot && slot.isAvailable;
+}
+
+export function summarizeDayAvailability(day: DayAvailability): AvailabilityDaySummary {
+  return {
+    date: day.date,
+    isDateBlocked: day.isDateBlocked,
+    openSlots: day.slots.filter(s => !s.isWithinLeadTime).length,
+    availableSlots: day.slots.filter(s => s.isAvailable).length,
+  };
+}
+
+// Picks who takes a booking. A chosen staff member takes it only if they offer
+// the service and are free; an "any staff member" booking goes to the free
+// staff member with the fewest appointments that day, so work is spread evenly.
+export function findAvailableStaff(
+  settings: ProviderSettings,
+  dateTime: Date,
+  bookings: Booking[],
+  options: AvailabilityOptions = {}
+): StaffMember | undefined {
+  const timezone = settings.timezone || 'UTC';
+  const date = toDateKey(dateTime, timezone);
+  const dayBookings = bookings.filter(b =>
+    b.id !== options.excludeBookingId && isBookingHoldingCapacity(b) && toDateKey(new Date(b.dateTime), timezone) === date
+  );
+
+  return getStaffForService(settings, options.serviceSlug)
+    .filter(member => !options.staffId || member.id === options.staffId)
+    .filter(member => isSlotAvailable(settings, dateTime, bookings, { ...options, staffId: member.id }))
+    .map(member => ({ member, load: dayBookings.filter(b => b.staffId === member.id).length }))
+    .sort((a, b) => a.load - b.load)[0]?.member;
+}
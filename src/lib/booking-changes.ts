@@ -0,0 +1,189 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { revalidatePath } from 'next/cache';
+import { getBookingById, getProviderByUsername, getServiceBySlug, updateBooking, updateBookingIfAvailable } from './data';
+import type { Booking, Provider } from './types';
+import { sendBookingCancelledEmail, sendProviderRescheduleEmail, sendRescheduleEmail } from './email-templates';
+import { deleteGoogleCalendarEvent, getGoogleBusyTimes, updateGoogleCalendarEvent } from './calendar.actions';
+import { findStaffMember, getBookingDays, getBookingLength, getBookingTitle, getProviderEmailRecipients, isSlotAvailable } from './availability';
+import { getManageBookingUrl } from './booking-links';
+import { getBookingCalendarInvite } from './booking-invites';
+import { canCustomerCancelBooking, canCustomerRescheduleBooking, getCancellationCharge } from './booking-policy';
+import { getCurrency } from './currencies';
+import { getWaitlistHolds, offerFreedSlot } from './waitlist';
+import { logBookingEmail, logBookingEvent } from './booking-events';
+
+// Server-side cancellations and reschedules, shared by the booking actions and
+// the cron jobs. They trust their arguments, so they must only be called from
+// actions and routes that have already checked them.
+
+// Customer cancellations go through the provider's cancellation rules: the
+// cutoff is enforced and any cancellation fee is kept. A provider cancelling
+// from the dashboard is never blocked and owes back the full paid amount.
+export async function applyCancellation(provider: Provider, booking: Booking, canceledBy: 'customer' | 'provider', actor: string) {
+  try {
+    if (canceledBy === 'customer') {
+      const check = canCustomerCancelBooking(provider.settings, booking);
+      if (!check.allowed) {
+        return { success: false, error: check.reason };
+      }
+    }
+
+    const charge = canceledBy === 'customer'
+      ? getCancellationCharge(provider.settings, booking)
+      : { fee: 0, refundAmount: booking.payment?.status === 'Paid' ? booking.payment.amount || 0 : 0 };
+
+    const calendarSequence = (booking.calendarSequence || 0) + 1;
+    await updateBooking(provider.username, booking.id, {
+      status: 'Canceled',
+      cancellation: { canceledAt: new Date(), canceledBy, ...charge },
+      calendarSequence,
+    });
+
+    const timezone = provider.settings.timezone;
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+    const bookingDate = formatInTimeZone(booking.dateTime, timezone, dateFormat);
+    const bookingTime = formatInTimeZone(booking.dateTime, timezone, 'p');
+    const serviceTitle = getBookingTitle(provider.settings, booking);
+    const currencySymbol = getCurrency(provider.settings.currency)?.symbol || '';
+
+    await logBookingEvent(provider.username, booking.id, {
+      type: 'status',
+      actor,
+      message: [
+        canceledBy === 'customer' ? 'Canceled by the customer' : 'Canceled',
+        charge.fee > 0 ? `${currencySymbol}${charge.fee.toLocaleString()} cancellation fee` : null,
+        charge.refundAmount > 0 ? `${currencySymbol}${charge.refundAmount.toLocaleString()} to refund` : null,
+      ].filter(Boolean).join(' · '),
+      from: booking.status,
+      to: 'Canceled',
+    });
+    await deleteGoogleCalendarEvent(provider, booking);
+
+    const cancellationSent = await sendBookingCancelledEmail(booking.customerEmail, {
+      customerName: booking.customerName,
+      providerName: provider.name,
+      serviceTitle,
+      serviceType: booking.serviceType,
+      bookingDate: bookingDate,
+      bookingTime: bookingTime,
+      cancellationFee: charge.fee > 0 ? `${currencySymbol}${charge.fee.toLocaleString()}` : null,
+      refundAmount: charge.refundAmount > 0 ? `${currencySymbol}${charge.refundAmount.toLocaleString()}` : null,
+      staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+      calendarInvite: getBookingCalendarInvite(provider, { ...booking, calendarSequence }, serviceTitle || booking.serviceType, 'CANCEL'),
+    });
+    await logBookingEmail(provider.username, booking.id, 'Cancellation email', booking.customerEmail, cancellationSent);
+
+    if (!booking.classId) {
+      await offerFreedSlot(provider, booking.dateTime);
+    }
+    
+    revalidatePath(`/(provider-dashboard)/bookings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Booking cancellation failed:', error);
+    return { success: false, error: error.message || 'Failed to cancel booking.' };
+  }
+}
+
+// Customer reschedules are checked against the reschedule cutoff and limit,
+// and counted towards that limit. Providers can always move a booking.
+export async function applyReschedule(username: string, bookingId: string, newDateTime: Date, rescheduledBy: 'customer' | 'provider', actor: string) {
+  try {
+    const provider = await getProviderByUsername(username);
+    const booking = await getBookingById(username, bookingId);
+    
+    if (!provider || !booking) {
+      throw new Error("Provider or booking not found.");
+    }
+
+    if (booking.classId) {
+      return { success: false, error: 'Class bookings are tied to the class time and cannot be rescheduled.' };
+    }
+
+    if (rescheduledBy === 'customer') {
+      const check = canCustomerRescheduleBooking(provider.settings, booking);
+      if (!check.allowed) {
+        return { success: false, error: check.reason };
+      }
+    }
+
+    const service = await getServiceBySlug(provider.username, booking.serviceSlug);
+
+    const timezone = provider.settings.timezone;
+    const calendarSequence = (booking.calendarSequence || 0) + 1;
+    const busyTimes = await getGoogleBusyTimes(provider);
+    // Providers may move a booking into a slot held for the waitlist; customers may not.
+    const holds = rescheduledBy === 'customer' ? await getWaitlistHolds(provider) : [];
+    const updated = await updateBookingIfAvailable(
+      username,
+      bookingId,
+      rescheduledBy === 'customer'
+        ? { dateTime: newDateTime, calendarSequence, customerRescheduleCount: (booking.customerRescheduleCount || 0) + 1 }
+        : { dateTime: newDateTime, calendarSequence },
+      getBookingDays(newDateTime, getBookingLength(provider.settings, booking), timezone || 'UTC'),
+      (dayBookings) => isSlotAvailable(provider.settings, newDateTime, [...dayBookings, ...holds], {
+        excludeBookingId: bookingId,
+        length: getBookingLength(provider.settings, booking),
+        serviceType: booking.serviceType,
+        serviceSlug: booking.serviceSlug,
+        staffId: booking.staffId,
+        busyTimes,
+      })
+    );
+
+    if (!updated) {
+      return { success: false, error: 'This time slot is no longer available. Please choose another time.' };
+    }
+    await logBookingEvent(username, bookingId, {
+      type: 'rescheduled',
+      actor,
+      message: rescheduledBy === 'customer' ? 'Rescheduled by the customer' : 'Rescheduled',
+      from: new Date(booking.dateTime).toISOString(),
+      to: newDateTime.toISOString(),
+    });
+    await updateGoogleCalendarEvent(provider, { ...booking, dateTime: newDateTime });
+
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+    const newBookingDate = formatInTimeZone(newDateTime, timezone, dateFormat);
+    const newBookingTime = formatInTimeZone(newDateTime, timezone, 'p');
+
+    const rescheduleSent = await sendRescheduleEmail(booking.customerEmail, {
+      customerName: booking.customerName,
+      providerName: provider.name,
+      newBookingDate,
+      newBookingTime,
+      serviceTitle: service?.title,
+      serviceType: booking.serviceType,
+      manageBookingUrl: getManageBookingUrl(username, bookingId),
+      staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+      calendarInvite: getBookingCalendarInvite(provider, { ...booking, dateTime: newDateTime, calendarSequence }, service?.title || booking.serviceType, 'REQUEST'),
+    });
+    await logBookingEmail(username, bookingId, 'Reschedule email', booking.customerEmail, rescheduleSent);
+
+    for (const recipient of getProviderEmailRecipients(provider, booking)) {
+      const notificationSent = await sendProviderRescheduleEmail(recipient.email, {
+        providerName: recipient.name,
+        customerName: booking.customerName,
+        newBookingDate,
+        newBookingTime,
+        serviceTitle: service?.title,
+        serviceType: booking.serviceType,
+        staffName: findStaffMember(provider.settings, booking.staffId)?.name,
+      });
+      await logBookingEmail(username, bookingId, 'Reschedule notification', recipient.email, notificationSent);
+    }
+
+    revalidatePath(`/(provider-dashboard)/bookings`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("Reschedule failed:", error);
+    return { success: false, error: error.message || "Could not reschedule booking." };
+  }
+}
+
+// Where a customer whose booking fell through can book the same thing again.
+export function getBookAgainPath(username: string, booking: Booking, serviceSlug?: string | null) {
+  if (booking.classId) return `/${username}/book?classId=${encodeURIComponent(booking.classId)}`;
+  if (serviceSlug) return `/${username}/book?serviceSlug=${encodeURIComponent(serviceSlug)}`;
+  return `/${username}/book`;
+}
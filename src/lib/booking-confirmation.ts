@@ -0,0 +1,144 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { addNotification, confirmHeldBookingsIfAvailable, getBookingsBySeries, getServiceBySlug, updateBooking } from './data';
+import { createGoogleCalendarEvent } from './calendar.actions';
+import { getBookingCalendarInvite } from './booking-invites';
+import { getBookingDays, getBookingLength, getBookingTitle, hasCapacityForBooking } from './availability';
+import { CUSTOMER_ACTOR, logBookingEvent, SYSTEM_ACTOR } from './booking-events';
+import { getCurrency } from './currencies';
+import { describeRecurrence } from './recurrence';
+import type { Booking, BookingStatus, CalendarInvite, Provider } from './types';
+
+// Server-side helpers for confirming held bookings and recurring series. They
+// trust their arguments, so they must only be called from actions and routes
+// that have already checked them.
+
+type BookingPayment = NonNullable<Booking['payment']>;
+
+export type PaidBookingResult = 'confirmed' | 'already-confirmed' | 'refund-due';
+
+function confirmHeldBookings(provider: Provider, bookings: Booking[], data: Partial<Booking>, heldStatuses: BookingStatus[]) {
+  const timezone = provider.settings.timezone || 'UTC';
+  return confirmHeldBookingsIfAvailable(
+    provider.username,
+    bookings.map(booking => ({ bookingId: booking.id, data })),
+    heldStatuses,
+    bookings.map(booking => getBookingDays(new Date(booking.dateTime), getBookingLength(provider.settings, booking), timezone)),
+    (dayBookings, index) => hasCapacityForBooking(provider.settings, bookings[index], dayBookings)
+  );
+}
+
+// Sessions confirmed together with the first one of a series get their own calendar events.
+async function addSessionsToCalendar(provider: Provider, sessions: Booking[]) {
+  if (sessions.length === 0) return;
+  const service = await getServiceBySlug(provider.username, sessions[0].serviceSlug);
+
+  for (const session of sessions) {
+    const update: Partial<Booking> = {};
+    try {
+      const { eventId, meetLink, calendarStaffId } = await createGoogleCalendarEvent(provider, { ...session, service } as Booking);
+      if (eventId) {
+        update.googleCalendarEventId = eventId;
+        update.googleCalendarStaffId = calendarStaffId;
+      }
+      if (meetLink) update.googleMeetLink = meetLink;
+    } catch (error) {
+      console.error(`Failed to create Google Calendar event for series booking ${session.id}:`, error);
+    }
+    if (Object.keys(update).length > 0) {
+      await updateBooking(provider.username, session.id, update);
+    }
+    await logBookingEvent(provider.username, session.id, {
+      type: 'status',
+      actor: SYSTEM_ACTOR,
+      message: 'Confirmed with the first session of the series',
+      from: session.status,
+      to: 'Upcoming',
+    });
+  }
+}
+
+// Once the first occurrence of a series is confirmed (free, pay-later or
+// approved), the rest of the series follows with the same payment details.
+// Sessions someone canceled stay canceled; every other one must still be held
+// and still fit, otherwise none of them change and false is returned.
+export async function confirmRemainingSeriesBookings(provider: Provider, booking: Booking, payment: BookingPayment): Promise<boolean> {
+  if (!booking.seriesId) return true;
+
+  const sessions = (await getBookingsBySeries(provider.username, booking.seriesId))
+    .filter(session => session.id !== booking.id && session.status !== 'Canceled');
+  if (sessions.length === 0) return true;
+
+  const confirmed = await confirmHeldBookings(provider, sessions, { status: 'Upcoming', payment }, ['Pending', 'Awaiting Approval']);
+  if (!confirmed) {
+    await logBookingEvent(provider.username, booking.id, {
+      type: 'status',
+      actor: SYSTEM_ACTOR,
+      message: 'The other sessions of the series could not be confirmed because they are no longer held',
+    });
+    return false;
+  }
+
+  await addSessionsToCalendar(provider, sessions);
+  return true;
+}
+
+// A paid booking, with the rest of its series, is confirmed only while all of
+// it is still Pending and still fits. A payment that arrives after the hold
+// expired never brings the booking back, since its time may have gone to
+// someone else; the payment is flagged for a refund instead.
+export async function confirmPaidBooking(provider: Provider, booking: Booking, payment: BookingPayment, amount: number, gateway: string): Promise<PaidBookingResult> {
+  // Gateways retry their callbacks, so the same payment may arrive twice.
+  if (booking.payment?.paymentId && booking.payment.paymentId === payment.paymentId) {
+    return 'already-confirmed';
+  }
+
+  const sessions = booking.seriesId ? await getBookingsBySeries(provider.username, booking.seriesId) : [booking];
+  const currencySymbol = getCurrency(provider.settings.currency)?.symbol || '';
+  const confirmed = await confirmHeldBookings(provider, sessions, { status: 'Upcoming', payment }, ['Pending']);
+
+  if (confirmed) {
+    await logBookingEvent(provider.username, booking.id, {
+      type: 'payment',
+      actor: CUSTOMER_ACTOR,
+      message: `Paid ${currencySymbol}${amount} online via ${gateway}`,
+      from: booking.status,
+      to: 'Upcoming',
+    });
+    await addSessionsToCalendar(provider, sessions.filter(session => session.id !== booking.id));
+    return 'confirmed';
+  }
+
+  // The whole amount is recorded on the first booking, which is what gets refunded.
+  await updateBooking(provider.username, booking.id, { payment: { ...payment, amount, refundDue: true } });
+  await logBookingEvent(provider.username, booking.id, {
+    type: 'payment',
+    actor: CUSTOMER_ACTOR,
+    message: `Paid ${currencySymbol}${amount} online via ${gateway} after the booking was no longer held; refund due`,
+  });
+  await addNotification(provider.username, {
+    message: `Refund due to ${booking.customerName}: their ${currencySymbol}${amount} payment for ${getBookingTitle(provider.settings, booking) || booking.serviceType} arrived after the booking was no longer available.`,
+    type: 'general',
+    link: `/bookings`,
+  });
+  return 'refund-due';
+}
+
+// Recurrence line and session dates for the confirmation emails of a series.
+export async function getSeriesEmailDetails(username: string, booking: Booking, timezone: string, dateFormat: string) {
+  if (!booking.seriesId || !booking.recurrence) return {};
+  const occurrences = await getBookingsBySeries(username, booking.seriesId);
+  return {
+    recurrenceSummary: describeRecurrence(booking.recurrence),
+    seriesDates: occurrences.map(occurrence => formatInTimeZone(occurrence.dateTime, timezone, `${dateFormat} p`)),
+  };
+}
+
+// The invite sent with a confirmation holds every session of the series that
+// wasn't canceled, with `booking` standing in for its own stored copy.
+export async function getConfirmationCalendarInvite(provider: Provider, booking: Booking, title: string): Promise<CalendarInvite> {
+  if (!booking.seriesId) return getBookingCalendarInvite(provider, booking, title, 'REQUEST');
+  const sessions = (await getBookingsBySeries(provider.username, booking.seriesId))
+    .filter(session => session.status !== 'Canceled')
+    .map(session => session.id === booking.id ? booking : session);
+  return getBookingCalendarInvite(provider, sessions, title, 'REQUEST');
+}
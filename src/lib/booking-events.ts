@@ -0,0 +1,39 @@
+import { addBookingEvent } from './data';
+import type { BookingEvent } from './types';
+
+// Every booking keeps an append-only activity log. Logging must never fail the
+// action it records, so errors are only reported to the console.
+
+export const CUSTOMER_ACTOR = 'customer';
+export const SYSTEM_ACTOR = 'system';
+
+type BookingEventInput = Omit<BookingEvent, 'id' | 'at'> & { at?: Date };
+
+export async function logBookingEvent(providerUsername: string, bookingIds: string | string[], event: BookingEventInput): Promise<void> {
+  const ids = Array.isArray(bookingIds) ? bookingIds : [bookingIds];
+  const entry: Omit<BookingEvent, 'id'> = {
+    at: new Date(),
+    from: null,
+    to: null,
+    ...event,
+  };
+
+  await Promise.all(ids.map(async bookingId => {
+    try {
+      await addBookingEvent(providerUsername, bookingId, entry);
+    } catch (error) {
+      console.error(`Failed to log "${event.type}" event for booking ${bookingId}:`, error);
+    }
+  }));
+}
+
+// Emails without a recipient (e.g. walk-ins without an email) aren't logged.
+export async function logBookingEmail(providerUsername: string, bookingIds: string | string[], description: string, to: string | null | undefined, sent: boolean): Promise<void> {
+  if (!to) return;
+  await logBookingEvent(providerUsername, bookingIds, {
+    type: 'email',
+    actor: SYSTEM_ACTOR,
+    message: sent ? `${description} sent to ${to}` : `${description} to ${to} could not be sent`,
+    success: sent,
+  });
+}
@@ -0,0 +1,51 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { findStaffMember, getBookingTitle } from './availability';
+import { formatIntakeAnswer } from './intake';
+import type { Booking, Provider } from './types';
+
+// Builds the provider's bookings export. Each intake question gets its own
+// column, keyed by question id so renamed questions stay in one column.
+
+function escapeCsvValue(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function getBookingsCsv(provider: Provider, bookings: Booking[]): string {
+  const timezone = provider.settings.timezone || 'UTC';
+
+  const intakeColumns = new Map<string, string>();
+  bookings.forEach(booking => {
+    booking.intakeAnswers?.forEach(answer => {
+      if (!intakeColumns.has(answer.questionId)) intakeColumns.set(answer.questionId, answer.question);
+    });
+  });
+
+  const header = [
+    'Date', 'Time', 'Customer Name', 'Customer Email', 'Customer Phone', 'Service', 'Service Type',
+    'Staff', 'Status', 'Payment Status', 'Amount', 'Address', 'Source',
+    ...intakeColumns.values(),
+  ];
+
+  const rows = bookings.map(booking => {
+    const answers = new Map((booking.intakeAnswers || []).map(answer => [answer.questionId, formatIntakeAnswer(answer)]));
+    return [
+      formatInTimeZone(booking.dateTime, timezone, 'yyyy-MM-dd'),
+      formatInTimeZone(booking.dateTime, timezone, 'HH:mm'),
+      booking.customerName,
+      booking.customerEmail,
+      booking.customerPhone,
+      getBookingTitle(provider.settings, booking) || booking.serviceType,
+      booking.serviceType,
+      findStaffMember(provider.settings, booking.staffId)?.name,
+      booking.status,
+      booking.payment?.status,
+      booking.payment?.amount,
+      booking.address,
+      booking.source,
+      ...[...intakeColumns.keys()].map(questionId => answers.get(questionId)),
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
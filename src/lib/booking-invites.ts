@@ -0,0 +1,55 @@
+import { getBookingEndTime } from './availability';
+import { buildIcsCalendar, formatIcsDate, getBookingIcsUid, type IcsEvent } from './ics';
+import type { Booking, CalendarInvite, Provider } from './types';
+
+// What the customer's calendar gets: "add to calendar" links and the invite
+// attached to booking emails. Every email about a booking carries the same UID
+// with a higher SEQUENCE, so calendars move or remove the event they already have.
+
+function getBookingCalendarEvent(provider: Provider, booking: Booking, title: string): IcsEvent {
+  return {
+    uid: getBookingIcsUid(provider.username, booking.id),
+    start: new Date(booking.dateTime),
+    end: getBookingEndTime(provider.settings, booking),
+    summary: `${title} with ${provider.name}`,
+    description: [
+      `Booking for ${title} with ${provider.name}.`,
+      booking.googleMeetLink ? `Join Google Meet: ${booking.googleMeetLink}` : null,
+    ].filter(Boolean).join('\n'),
+    location: booking.googleMeetLink || booking.address || 'Online',
+    url: booking.googleMeetLink || undefined,
+    sequence: booking.calendarSequence || 0,
+    organizer: { name: provider.name, email: provider.contact.email },
+    attendees: booking.customerEmail ? [{ name: booking.customerName, email: booking.customerEmail }] : [],
+  };
+}
+
+export function getAddToCalendarLinks(provider: Provider, booking: Booking, title: string) {
+  const event = getBookingCalendarEvent(provider, booking, title);
+  const eventTitle = encodeURIComponent(event.summary);
+  const eventDescription = encodeURIComponent(event.description || '');
+  const eventLocation = encodeURIComponent(event.location || '');
+
+  const googleLink = `https://www.google.com/calendar/render?action=TEMPLATE&text=${eventTitle}&dates=${formatIcsDate(event.start)}/${formatIcsDate(event.end)}&details=${eventDescription}&location=${eventLocation}`;
+  const outlookLink = `https://outlook.live.com/calendar/0/deeplink/compose?path=/calendar/action/compose&rru=addevent&subject=${eventTitle}&startdt=${event.start.toISOString()}&enddt=${event.end.toISOString()}&body=${eventDescription}&location=${eventLocation}`;
+  // A downloaded file has no organizer to reply to, so it is published rather than sent as an invite.
+  const icsContent = buildIcsCalendar({ events: [{ ...event, organizer: undefined, attendees: undefined }] });
+  const icsLink = `data:text/calendar;charset=utf-8,${encodeURIComponent(icsContent)}`;
+
+  return { googleLink, outlookLink, icsLink };
+}
+
+// REQUEST adds or updates the events; CANCEL removes them. Emails about a
+// series pass every session they cover, each as its own event with its own UID.
+export function getBookingCalendarInvite(provider: Provider, bookings: Booking | Booking[], title: string, method: CalendarInvite['method']): CalendarInvite {
+  return {
+    method,
+    content: buildIcsCalendar({
+      method,
+      events: [bookings].flat().map(booking => ({
+        ...getBookingCalendarEvent(provider, booking, title),
+        status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+      })),
+    }),
+  };
+}
@@ -0,0 +1,131 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { formatInTimeZone } from 'date-fns-tz';
+import { db } from './firebase';
+import { expirePendingBooking, getBookingsByStatus, getServiceBySlug } from './data';
+import type { Provider } from './types';
+import { sendPaymentExpiredEmail } from './email-templates';
+import { getGoogleBookingEvents, updateGoogleCalendarEvent } from './calendar.actions';
+import { getBookingTitle } from './availability';
+import { DEFAULT_PENDING_BOOKING_TIMEOUT_MINUTES } from './booking-policy';
+import { applyCancellation, applyReschedule, getBookAgainPath } from './booking-changes';
+import { offerFreedSlot } from './waitlist';
+import { SYSTEM_ACTOR, logBookingEmail, logBookingEvent } from './booking-events';
+
+// Scheduled booking jobs. They act on every provider, so they are only called
+// by their /api/cron routes, which check the cron secret.
+
+// Called by the /api/cron/expire-pending-bookings job. A booking stays 'Pending'
+// while the customer is at the payment gateway; if they never come back it
+// would hold its slot forever.
+export async function expirePendingBookings() {
+  const providersSnapshot = await getDocs(collection(db, 'providers'));
+  const now = new Date();
+  let expiredCount = 0;
+
+  for (const providerDoc of providersSnapshot.docs) {
+    const provider = providerDoc.data() as Provider;
+    if (!provider.settings) continue;
+
+    const timeoutMinutes = provider.settings.pendingBookingTimeoutMinutes || DEFAULT_PENDING_BOOKING_TIMEOUT_MINUTES;
+    const cutoff = new Date(now.getTime() - timeoutMinutes * 60 * 1000);
+
+    try {
+      const pendingBookings = await getBookingsByStatus(provider.username, 'Pending');
+
+      for (const booking of pendingBookings) {
+        if (!(await expirePendingBooking(provider.username, booking.id, cutoff))) continue;
+
+        await logBookingEvent(provider.username, booking.id, {
+          type: 'status',
+          actor: SYSTEM_ACTOR,
+          message: `Expired after ${timeoutMinutes} minutes without payment`,
+          from: 'Pending',
+          to: 'Expired',
+        });
+        expiredCount++;
+
+        // One email per series is enough.
+        if (provider.settings.sendPaymentExpiredEmail && !booking.seriesIndex) {
+          const service = await getServiceBySlug(provider.username, booking.serviceSlug);
+          const timezone = provider.settings.timezone;
+          const dateFormat = provider.settings.dateFormat || 'PPP';
+          const expiredSent = await sendPaymentExpiredEmail(booking.customerEmail, {
+            customerName: booking.customerName,
+            providerName: provider.name,
+            serviceTitle: getBookingTitle(provider.settings, booking),
+            serviceType: booking.serviceType,
+            bookingDate: formatInTimeZone(booking.dateTime, timezone, dateFormat),
+            bookingTime: formatInTimeZone(booking.dateTime, timezone, 'p'),
+            bookingPath: getBookAgainPath(provider.username, booking, service?.slug),
+          });
+          await logBookingEmail(provider.username, booking.id, 'Payment expired email', booking.customerEmail, expiredSent);
+        }
+
+        if (!booking.classId) {
+          await offerFreedSlot(provider, booking.dateTime);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to expire pending bookings for ${provider.username}:`, error);
+    }
+  }
+
+  console.log(`Cron job: Expired ${expiredCount} pending bookings.`);
+  return { success: true, count: expiredCount };
+}
+
+// Brings changes made in Google Calendar back to the bookings: an event
+// deleted there cancels its booking, and an event moved there reschedules it.
+// A move to a time that is not bookable is undone in Google instead.
+export async function syncGoogleCalendars() {
+  const providersSnapshot = await getDocs(collection(db, 'providers'));
+  const now = new Date();
+  let canceledCount = 0;
+  let rescheduledCount = 0;
+
+  for (const providerDoc of providersSnapshot.docs) {
+    const provider = providerDoc.data() as Provider;
+    if (!provider.settings || (!provider.googleCalendar?.accessToken && !Object.values(provider.staffCalendars || {}).some(tokens => tokens?.accessToken))) continue;
+
+    try {
+      const events = await getGoogleBookingEvents(provider);
+      const eventsByKey = new Map(events.map(event => [`${event.staffId || ''}:${event.eventId}`, event]));
+      const bookings = (await getBookingsByStatus(provider.username, 'Upcoming'))
+        .filter(booking => booking.googleCalendarEventId && booking.dateTime > now);
+
+      for (const booking of bookings) {
+        // Events that were not found, e.g. moved past the sync window, are left alone.
+        const event = eventsByKey.get(`${booking.googleCalendarStaffId || ''}:${booking.googleCalendarEventId}`);
+        if (!event) continue;
+
+        if (event.cancelled) {
+          await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: 'Deleted in Google Calendar' });
+          // The event is already gone, so there is nothing to remove from Google.
+          const result = await applyCancellation(provider, { ...booking, googleCalendarEventId: undefined }, 'provider', SYSTEM_ACTOR);
+          if (result.success) canceledCount++;
+          continue;
+        }
+
+        if (!event.start || event.start.getTime() === new Date(booking.dateTime).getTime()) continue;
+
+        const result = await applyReschedule(provider.username, booking.id, event.start, 'provider', SYSTEM_ACTOR);
+        if (result.success) {
+          rescheduledCount++;
+        } else {
+          await logBookingEvent(provider.username, booking.id, {
+            type: 'calendar',
+            actor: SYSTEM_ACTOR,
+            message: `Moved in Google Calendar to ${formatInTimeZone(event.start, provider.settings.timezone, 'PPP p')}, which is not available; moved back`,
+            success: false,
+          });
+          await updateGoogleCalendarEvent(provider, booking);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to sync Google Calendar for ${provider.username}:`, error);
+    }
+  }
+
+  console.log(`Cron job: Synced Google Calendars. Canceled ${canceledCount} and rescheduled ${rescheduledCount} bookings.`);
+  return { success: true, canceled: canceledCount, rescheduled: rescheduledCount };
+}
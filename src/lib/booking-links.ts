@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+
+// Customer emails link to /[username]/booking/[id]. The link carries an HMAC of
+// the booking so nobody can open (or cancel) someone else's booking by guessing ids.
+// Links are only generated when BOOKING_LINK_SECRET is configured.
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:9002';
+
+export function createBookingToken(username: string, bookingId: string): string | null {
+  const secret = process.env.BOOKING_LINK_SECRET;
+  if (!secret) return null;
+  return crypto.createHmac('sha256', secret).update(`${username}:${bookingId}`).digest('hex');
+}
+
+export function verifyBookingToken(username: string, bookingId: string, token?: string | null): boolean {
+  const expected = createBookingToken(username, bookingId);
+  if (!expected || !token) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const tokenBuffer = Buffer.from(token);
+  return expectedBuffer.length === tokenBuffer.length && crypto.timingSafeEqual(expectedBuffer, tokenBuffer);
+}
+
+export function getManageBookingUrl(username: string, bookingId: string): string | null {
+  const token = createBookingToken(username, bookingId);
+  if (!token) return null;
+  return `${siteUrl}/${username}/booking/${bookingId}?token=${token}`;
+}
+
+// Waitlist offers link to the booking form with the offered slot filled in.
+// The token is scoped to the waitlist entry so it can't be reused for a booking.
+export function verifyWaitlistToken(username: string, entryId: string, token?: string | null): boolean {
+  return verifyBookingToken(username, `waitlist:${entryId}`, token);
+}
+
+export function getWaitlistClaimUrl(username: string, entryId: string): string | null {
+  const token = createBookingToken(username, `waitlist:${entryId}`);
+  if (!token) return null;
+  return `${siteUrl}/${username}/book?waitlist=${entryId}&token=${token}`;
+}
+
+// The OAuth state of a Google Calendar connection names whose calendar it is
+// ("username:staffId:expiresAt:token"), signed so that nobody can send Google's
+// callback tokens for their own account to someone else's provider or staff member.
+const CALENDAR_CONNECT_STATE_MINUTES = 30;
+
+export function createCalendarConnectState(username: string, staffId?: string | null, now = Date.now()): string | null {
+  const expiresAt = now + CALENDAR_CONNECT_STATE_MINUTES * 60 * 1000;
+  const token = createBookingToken(username, `google-calendar:${staffId || ''}:${expiresAt}`);
+  if (!token) return null;
+  return [username, staffId || '', expiresAt, token].join(':');
+}
+
+export function parseCalendarConnectState(state: string, now = Date.now()): { username: string; staffId: string | null } | null {
+  const [username, staffId, expiresAt, token] = state.split(':');
+  if (!username || !expiresAt || Number(expiresAt) < now) return null;
+  if (!verifyBookingToken(username, `google-calendar:${staffId || ''}:${expiresAt}`, token)) return null;
+  return { username, staffId: staffId || null };
+}
+
+// The provider's calendar feed is signed with the feed's current version, so
+// regenerating the link (bumping the version) stops every older copy working.
+export function verifyCalendarFeedToken(username: string, version: number, token?: string | null): boolean {
+  return verifyBookingToken(username, `calendar-feed:${version}`, token);
+}
+
+export function getCalendarFeedUrl(username: string, version: number): string | null {
+  const token = createBookingToken(username, `calendar-feed:${version}`);
+  if (!token) return null;
+  return `${siteUrl}/api/${username}/calendar.ics?token=${token}`;
+}
@@ -0,0 +1,101 @@
+'use server';
+
+import { v4 as uuidv4 } from 'uuid';
+import { getBookingById, updateBookingNotes } from './data';
+import { isBookingAttachment, MAX_BOOKING_ATTACHMENT_MB, MAX_BOOKING_NOTE_LENGTH } from './booking-notes';
+import { authorizeTeamAction } from './team-auth';
+import type { BookingAttachment, BookingNotes } from './types';
+
+type BookingNotesResult = { success: boolean; error?: string; bookingNotes?: BookingNotes };
+
+// Every change goes through here: the caller must be able to manage bookings
+// and the booking must belong to the provider.
+async function changeBookingNotes(
+  idToken: string,
+  username: string,
+  bookingId: string,
+  update: (current: BookingNotes, email: string) => BookingNotes
+): Promise<BookingNotesResult> {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const booking = await getBookingById(username, bookingId);
+  if (!booking) {
+    return { success: false, error: 'Booking not found.' };
+  }
+
+  try {
+    const bookingNotes = await updateBookingNotes(username, bookingId, current => ({
+      ...update(current, access.email),
+      updatedAt: new Date(),
+    }));
+    return { success: true, bookingNotes };
+  } catch (error) {
+    console.error('Error saving booking notes:', error);
+    return { success: false, error: 'Could not save the notes. Please try again.' };
+  }
+}
+
+export async function addBookingNote(idToken: string, username: string, bookingId: string, text: string) {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { success: false, error: 'Write a note first.' };
+  }
+  if (trimmed.length > MAX_BOOKING_NOTE_LENGTH) {
+    return { success: false, error: `Notes must be at most ${MAX_BOOKING_NOTE_LENGTH} characters.` };
+  }
+
+  return changeBookingNotes(idToken, username, bookingId, (current, email) => ({
+    ...current,
+    notes: [...current.notes, { id: uuidv4(), text: trimmed, createdAt: new Date(), createdBy: email }],
+  }));
+}
+
+export async function deleteBookingNote(idToken: string, username: string, bookingId: string, noteId: string) {
+  return changeBookingNotes(idToken, username, bookingId, current => ({
+    ...current,
+    notes: current.notes.filter(note => note.id !== noteId),
+  }));
+}
+
+// The dashboard uploads the file to storage first, then records it here.
+export async function addBookingAttachment(
+  idToken: string,
+  username: string,
+  bookingId: string,
+  file: Pick<BookingAttachment, 'id' | 'name' | 'path' | 'url' | 'contentType' | 'size'>
+) {
+  if (!isBookingAttachment(username, bookingId, file)) {
+    return { success: false, error: 'This file was not uploaded to this booking.' };
+  }
+  if (file.size > MAX_BOOKING_ATTACHMENT_MB * 1024 * 1024) {
+    return { success: false, error: `Files must be smaller than ${MAX_BOOKING_ATTACHMENT_MB} MB.` };
+  }
+
+  return changeBookingNotes(idToken, username, bookingId, (current, email) => ({
+    ...current,
+    attachments: [
+      ...current.attachments.filter(attachment => attachment.id !== file.id),
+      {
+        id: file.id,
+        name: file.name.trim() || 'Attachment',
+        path: file.path,
+        url: file.url,
+        contentType: file.contentType || 'application/octet-stream',
+        size: file.size,
+        uploadedAt: new Date(),
+        uploadedBy: email,
+      },
+    ],
+  }));
+}
+
+// Only the record is removed here; the dashboard deletes the stored file.
+export async function removeBookingAttachment(idToken: string, username: string, bookingId: string, attachmentId: string) {
+  return changeBookingNotes(idToken, username, bookingId, current => ({
+    ...current,
+    attachments: current.attachments.filter(attachment => attachment.id !== attachmentId),
+  }));
+}
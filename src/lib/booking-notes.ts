@@ -0,0 +1,40 @@
+import type { BookingNotes } from './types';
+
+// Private notes and attachments on a booking. Pure helpers shared by the
+// booking details panel, the bookings search and the note actions.
+
+export const MAX_BOOKING_NOTE_LENGTH = 2000;
+export const MAX_BOOKING_ATTACHMENT_MB = 20;
+
+// Attachments live in Firebase Storage next to the provider's other data:
+// providers/<username>/bookings/<bookingId>/attachments/.
+export function getBookingAttachmentFolder(username: string, bookingId: string) {
+  return `providers/${username}/bookings/${bookingId}/attachments/`;
+}
+
+export function getBookingAttachmentPath(username: string, bookingId: string, id: string, fileName: string) {
+  return `${getBookingAttachmentFolder(username, bookingId)}${id}-${fileName}`;
+}
+
+export function isBookingAttachment(username: string, bookingId: string, file: { path: string; url: string }) {
+  const folder = getBookingAttachmentFolder(username, bookingId);
+  return file.path.startsWith(folder) &&
+    !file.path.includes('..') &&
+    file.url.startsWith('https://firebasestorage.googleapis.com/') &&
+    file.url.includes(`/o/${encodeURIComponent(file.path)}`);
+}
+
+// Everything in the notes that the bookings list search should find.
+export function getBookingNotesSearchText(bookingNotes?: BookingNotes | null): string {
+  if (!bookingNotes) return '';
+  return [
+    ...bookingNotes.notes.map(note => note.text),
+    ...bookingNotes.attachments.map(attachment => attachment.name),
+  ].join('\n').toLowerCase();
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,114 @@
+import { addHours } from 'date-fns';
+import type { Booking, ProviderSettings, Service } from './types';
+
+// Rules for what a customer may change on their own booking from the
+// manage-booking page. Providers can always cancel or reschedule from the dashboard.
+
+// How long an unpaid online booking holds its slot, unless the provider sets otherwise.
+export const DEFAULT_PENDING_BOOKING_TIMEOUT_MINUTES = 30;
+
+export type CustomerChangeCheck = { allowed: true } | { allowed: false; reason: string };
+
+export type CancellationCharge = {
+  fee: number;
+  refundAmount: number;
+};
+
+function formatHours(hours: number) {
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+}
+
+// Without an explicit cutoff, customers can change a booking until the point
+// where it could no longer have been booked (the booking delay).
+function getCutoffHours(settings: ProviderSettings, cutoffHours?: number | null) {
+  return cutoffHours ?? settings.bookingDelay ?? 0;
+}
+
+function checkCutoff(booking: Booking, cutoffHours: number, now: Date, action: string): CustomerChangeCheck {
+  if (booking.status !== 'Upcoming') {
+    return { allowed: false, reason: 'Only upcoming bookings can be changed.' };
+  }
+
+  if (new Date(booking.dateTime) <= addHours(now, cutoffHours)) {
+    const window = cutoffHours > 0 ? ` within ${formatHours(cutoffHours)} of the start time` : ' after it has started';
+    return { allowed: false, reason: `Bookings can't be ${action} online${window}. Please contact the provider.` };
+  }
+
+  return { allowed: true };
+}
+
+export function canCustomerCancelBooking(settings: ProviderSettings, booking: Booking, now = new Date()): CustomerChangeCheck {
+  const cutoff = getCutoffHours(settings, settings.cancellationRules?.cancellationCutoffHours);
+  return checkCutoff(booking, cutoff, now, 'canceled');
+}
+
+export function canCustomerRescheduleBooking(settings: ProviderSettings, booking: Booking, now = new Date()): CustomerChangeCheck {
+  if (booking.classId) {
+    return { allowed: false, reason: 'Class bookings can only be canceled, not moved to another time.' };
+  }
+
+  const rules = settings.cancellationRules;
+  const check = checkCutoff(booking, getCutoffHours(settings, rules?.rescheduleCutoffHours), now, 'rescheduled');
+  if (!check.allowed) return check;
+
+  const maxReschedules = rules?.maxReschedules;
+  if (maxReschedules != null && (booking.customerRescheduleCount || 0) >= maxReschedules) {
+    const reason = maxReschedules === 0
+      ? 'This provider does not allow bookings to be rescheduled online. Please contact the provider.'
+      : `This booking has already been rescheduled the maximum number of times (${maxReschedules}). Please contact the provider.`;
+    return { allowed: false, reason };
+  }
+
+  return { allowed: true };
+}
+
+// Approval can be switched on for the whole business or for single services.
+// Requests hold their slot but aren't confirmed or charged until approved.
+export function requiresApproval(settings: ProviderSettings, service?: Service | null): boolean {
+  return !!(settings.requireBookingApproval || service?.requiresApproval);
+}
+
+// Works out what the customer forfeits when they cancel. The fee never exceeds
+// the booking amount, and only paid bookings are owed a refund.
+export function getCancellationCharge(settings: ProviderSettings, booking: Booking): CancellationCharge {
+  const rules = settings.cancellationRules;
+  const amount = booking.payment?.amount || 0;
+  const feeValue = Math.max(0, rules?.feeValue || 0);
+
+  let fee = 0;
+  if (rules?.feeType === 'fixed') {
+    fee = Math.min(feeValue, amount);
+  } else if (rules?.feeType === 'percentage') {
+    fee = Math.round(amount * Math.min(feeValue, 100)) / 100;
+  }
+
+  const refundAmount = booking.payment?.status === 'Paid' ? amount - fee : 0;
+  return { fee, refundAmount };
+}
+
+// Plain-language version of the rules for the public cancellation policy page.
+export function describeCancellationRules(settings: ProviderSettings, currencySymbol = ''): string[] {
+  const rules = settings.cancellationRules;
+  if (!rules) return [];
+
+  const lines: string[] = [];
+
+  if (rules.cancellationCutoffHours) {
+    lines.push(`Bookings can be canceled online up to ${formatHours(rules.cancellationCutoffHours)} before the appointment.`);
+  }
+  if (rules.rescheduleCutoffHours) {
+    lines.push(`Bookings can be rescheduled online up to ${formatHours(rules.rescheduleCutoffHours)} before the appointment.`);
+  }
+  if (rules.maxReschedules === 0) {
+    lines.push('Bookings cannot be rescheduled online.');
+  } else if (rules.maxReschedules) {
+    lines.push(`Each booking can be rescheduled at most ${rules.maxReschedules === 1 ? 'once' : `${rules.maxReschedules} times`}.`);
+  }
+  if (rules.feeType === 'fixed' && rules.feeValue) {
+    lines.push(`A cancellation fee of ${currencySymbol}${rules.feeValue.toLocaleString()} applies when you cancel.`);
+  } else if (rules.feeType === 'percentage' && rules.feeValue) {
+    lines.push(`${Math.min(rules.feeValue, 100)}% of the booking amount is non-refundable when you cancel.`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,87 @@
+import { addDays } from 'date-fns';
+import { findStaffMember, getBookingEndTime, getBookingTitle, isBookingHoldingCapacity } from './availability';
+import { buildIcsCalendar, getBookingIcsUid, type IcsEvent, type IcsEventStatus } from './ics';
+import { formatIntakeAnswer } from './intake';
+import type { Booking, BookingStatus, Provider } from './types';
+
+// The provider's private iCalendar feed, served by /api/[username]/calendar.ics
+// for Apple Calendar, Outlook and anything else that subscribes to a URL.
+
+export const CALENDAR_FEED_PAST_DAYS = 30; // Recent bookings stay put instead of vanishing once they end
+export const CALENDAR_FEED_FUTURE_DAYS = 365;
+export const CALENDAR_FEED_REFRESH_MINUTES = 30;
+
+export const calendarFeedStatuses: BookingStatus[] = [
+  'Upcoming',
+  'Awaiting Approval',
+  'Pending',
+  'Completed',
+  'Not Completed',
+  'No-Show',
+  'Canceled',
+  'Declined',
+  'Expired',
+];
+
+// "Upcoming,Completed" -> the known statuses in it; nothing valid means no filter.
+export function parseCalendarFeedStatuses(value?: string | null): BookingStatus[] | null {
+  const statuses = (value || '')
+    .split(',')
+    .map(status => status.trim())
+    .filter((status): status is BookingStatus => calendarFeedStatuses.includes(status as BookingStatus));
+  return statuses.length > 0 ? statuses : null;
+}
+
+export function getCalendarFeedRange(now = new Date()) {
+  return { start: addDays(now, -CALENDAR_FEED_PAST_DAYS), end: addDays(now, CALENDAR_FEED_FUTURE_DAYS) };
+}
+
+function getFeedEventStatus(status: BookingStatus): IcsEventStatus {
+  if (status === 'Awaiting Approval' || status === 'Pending') return 'TENTATIVE';
+  if (status === 'Canceled' || status === 'Declined' || status === 'Expired') return 'CANCELLED';
+  return 'CONFIRMED';
+}
+
+function getFeedEvent(provider: Provider, booking: Booking): IcsEvent {
+  const title = getBookingTitle(provider.settings, booking) || booking.serviceType;
+  const staffMember = findStaffMember(provider.settings, booking.staffId);
+  const people = booking.seats ? `${booking.seats} seat${booking.seats === 1 ? '' : 's'}` : booking.quantity && booking.quantity > 1 ? `Quantity: ${booking.quantity}` : null;
+
+  const description = [
+    `Customer: ${booking.customerName}`,
+    `Email: ${booking.customerEmail}`,
+    `Phone: ${booking.customerPhone}`,
+    `Service type: ${booking.serviceType}`,
+    people,
+    staffMember ? `Staff: ${staffMember.name}` : null,
+    `Status: ${booking.status}`,
+    booking.payment?.status ? `Payment: ${booking.payment.status}` : null,
+    booking.googleMeetLink ? `Google Meet: ${booking.googleMeetLink}` : null,
+    ...(booking.intakeAnswers || []).map(answer => `${answer.question}: ${formatIntakeAnswer(answer)}`),
+  ].filter(Boolean).join('\n');
+
+  return {
+    uid: getBookingIcsUid(provider.username, booking.id),
+    start: new Date(booking.dateTime),
+    end: getBookingEndTime(provider.settings, booking),
+    summary: `${title} - ${booking.customerName}`,
+    description,
+    location: booking.address || booking.googleMeetLink || booking.serviceType,
+    url: booking.googleMeetLink || undefined,
+    status: getFeedEventStatus(booking.status),
+  };
+}
+
+// Without a status filter the feed shows every booking that holds its time.
+export function buildCalendarFeed(provider: Provider, bookings: Booking[], statuses: BookingStatus[] | null, now = new Date()): string {
+  const events = bookings
+    .filter(booking => statuses ? statuses.includes(booking.status) : isBookingHoldingCapacity(booking))
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime())
+    .map(booking => getFeedEvent(provider, booking));
+
+  return buildIcsCalendar({
+    name: `${provider.name} Bookings`,
+    refreshIntervalMinutes: CALENDAR_FEED_REFRESH_MINUTES,
+    events,
+  }, now);
+}
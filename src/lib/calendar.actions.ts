@@ -1,13 +1,17 @@
 
 'use server';
 
-import { google } from 'googleapis';
-import { getAdminSettings, getProviderByUsername, updateProvider } from './data';
+import { google, type calendar_v3 } from 'googleapis';
+import { getAdminSettings, getBookingsInRange, getProviderByUsername, updateProvider } from './data';
 import { revalidatePath } from 'next/cache';
-import type { Booking, CalendarTokens, Provider } from './types';
+import type { Booking, CalendarBusyTime, CalendarTokens, GoogleBookingEvent, GoogleCalendarOption, Provider } from './types';
 import { v4 as uuidv4 } from 'uuid';
-import { format } from 'date-fns';
-import { formatInTimeZone } from 'date-fns-tz';
+import { addDays, format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { findStaffMember, getBookingEndTime } from './availability';
+import { logBookingEvent, SYSTEM_ACTOR } from './booking-events';
+import { createCalendarConnectState, getCalendarFeedUrl, parseCalendarConnectState } from './booking-links';
+import { authorizeTeamAction } from './team-auth';
 
 // --- Google Calendar ---
 
@@ -23,17 +27,33 @@ async function getGoogleOAuth2Client() {
     );
 }
 
-export async function getGoogleAuthUrl(username: string): Promise<{ success: boolean; url?: string; error?: string }> {
+// Staff members connect their own calendars; the signed state then carries
+// their id too, so the callback knows whose tokens it received.
+export async function getGoogleAuthUrl(idToken: string, username: string, staffId?: string): Promise<{ success: boolean; url?: string; error?: string }> {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+    if (staffId && !findStaffMember(access.provider.settings, staffId)) {
+        return { success: false, error: 'Staff member not found.' };
+    }
+
+    const state = createCalendarConnectState(username, staffId);
+    if (!state) {
+        return { success: false, error: 'Calendar connections are not configured on this site.' };
+    }
+
     try {
         const oauth2Client = await getGoogleOAuth2Client();
         const scopes = [
-            'https://www.googleapis.com/auth/calendar.events'
+            'https://www.googleapis.com/auth/calendar.events',
+            'https://www.googleapis.com/auth/calendar.calendarlist.readonly', // To choose which calendars block slots
         ];
         const url = oauth2Client.generateAuthUrl({
             access_type: 'offline',
             prompt: 'consent',
             scope: scopes,
-            state: username, // Pass the username in the state parameter
+            state,
         });
         return { success: true, url };
     } catch (error: any) {
@@ -41,7 +61,15 @@ export async function getGoogleAuthUrl(username: string): Promise<{ success: boo
     }
 }
 
-export async function handleGoogleCallback(code: string, username: string) {
+// Only a state signed by getGoogleAuthUrl, for someone allowed to connect
+// that calendar, is accepted.
+export async function handleGoogleCallback(code: string, state: string): Promise<{ success: boolean; error?: string; staffId?: string | null }> {
+    const target = parseCalendarConnectState(state);
+    if (!target) {
+        return { success: false, error: 'This calendar connection link has expired. Please try again.' };
+    }
+    const { username, staffId } = target;
+
     try {
         const oauth2Client = await getGoogleOAuth2Client();
         const { tokens } = await oauth2Client.getToken(code);
@@ -56,69 +84,120 @@ export async function handleGoogleCallback(code: string, username: string) {
             expiryDate: tokens.expiry_date,
         };
 
-        await updateProvider(username, { googleCalendar: calendarTokens });
-        revalidatePath('/calendar-setup');
-        return { success: true };
+        if (staffId) {
+            await updateProvider(username, { staffCalendars: { [staffId]: calendarTokens } });
+            revalidatePath('/staff');
+        } else {
+            await updateProvider(username, { googleCalendar: calendarTokens });
+            revalidatePath('/calendar-setup');
+        }
+        return { success: true, staffId };
     } catch (error: any) {
         console.error('Google callback error:', error);
-        return { success: false, error: 'Failed to process Google authorization.' };
+        return { success: false, error: 'Failed to process Google authorization.', staffId };
     }
 }
 
-export async function createGoogleCalendarEvent(provider: Provider, booking: Booking): Promise<{ eventId: string | null, meetLink: string | null }> {
-    if (!provider.googleCalendar?.accessToken) {
-        console.log("Provider does not have Google Calendar connected.");
-        return { eventId: null, meetLink: null };
-    }
+// The calendar an event lives in: a staff member's own, or the provider's.
+type GoogleCalendarOwner = {
+    tokens: CalendarTokens;
+    staffId: string | null;
+    name: string;
+    email: string;
+};
 
-    try {
-        const oauth2Client = await getGoogleOAuth2Client();
-        oauth2Client.setCredentials({
-            access_token: provider.googleCalendar.accessToken,
-            refresh_token: provider.googleCalendar.refreshToken,
-            expiry_date: provider.googleCalendar.expiryDate,
-        });
+function getProviderCalendar(provider: Provider): GoogleCalendarOwner | null {
+    if (!provider.googleCalendar?.accessToken) return null;
+    return { tokens: provider.googleCalendar, staffId: null, name: provider.name, email: provider.contact.email };
+}
 
-        // Handle token refresh if necessary
-        oauth2Client.on('tokens', async (tokens) => {
-            if (tokens.refresh_token) {
-                // A new refresh token is sometimes issued. Store it.
-                console.log("Received new refresh token from Google.");
-                provider.googleCalendar!.refreshToken = tokens.refresh_token;
-            }
-            provider.googleCalendar!.accessToken = tokens.access_token!;
-            provider.googleCalendar!.expiryDate = tokens.expiry_date!;
+function getStaffCalendar(provider: Provider, staffId?: string | null): GoogleCalendarOwner | null {
+    const tokens = staffId ? provider.staffCalendars?.[staffId] : null;
+    const member = findStaffMember(provider.settings, staffId);
+    if (!tokens?.accessToken || !member) return null;
+    return { tokens, staffId: member.id, name: member.name, email: member.email || provider.contact.email };
+}
 
-            await updateProvider(provider.username, { googleCalendar: provider.googleCalendar });
-        });
-        
-        const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+// Events stay in the calendar they were created in, even if the staff
+// member connects or disconnects a calendar later.
+function getEventCalendar(provider: Provider, booking: Booking): GoogleCalendarOwner | null {
+    return booking.googleCalendarStaffId ? getStaffCalendar(provider, booking.googleCalendarStaffId) : getProviderCalendar(provider);
+}
+
+async function getGoogleCalendarClient(provider: Provider, owner: GoogleCalendarOwner) {
+    const oauth2Client = await getGoogleOAuth2Client();
+    oauth2Client.setCredentials({
+        access_token: owner.tokens.accessToken,
+        refresh_token: owner.tokens.refreshToken,
+        expiry_date: owner.tokens.expiryDate,
+    });
+
+    // Handle token refresh if necessary
+    oauth2Client.on('tokens', async (tokens) => {
+        if (tokens.refresh_token) {
+            // A new refresh token is sometimes issued. Store it.
+            console.log("Received new refresh token from Google.");
+            owner.tokens.refreshToken = tokens.refresh_token;
+        }
+        owner.tokens.accessToken = tokens.access_token!;
+        owner.tokens.expiryDate = tokens.expiry_date!;
+
+        if (owner.staffId) {
+            await updateProvider(provider.username, { staffCalendars: { [owner.staffId]: owner.tokens } });
+        } else {
+            await updateProvider(provider.username, { googleCalendar: owner.tokens });
+        }
+    });
+
+    return google.calendar({ version: 'v3', auth: oauth2Client });
+}
+
+function getEventTimes(provider: Provider, booking: Booking) {
+    const timezone = provider.settings.timezone;
+    return {
+        start: {
+            dateTime: formatInTimeZone(booking.dateTime, timezone, "yyyy-MM-dd'T'HH:mm:ss"),
+            timeZone: timezone,
+        },
+        end: {
+            dateTime: formatInTimeZone(getBookingEndTime(provider.settings, booking), timezone, "yyyy-MM-dd'T'HH:mm:ss"),
+            timeZone: timezone,
+        },
+    };
+}
 
-        const startTime = booking.dateTime;
-        const endTime = new Date(startTime.getTime() + (provider.settings.slotDuration || 60) * 60 * 1000);
+// A booking with a staff member goes into their calendar when they have
+// connected one, and into the provider's calendar otherwise. The customer is
+// not an attendee: their invite is the one attached to the booking emails, and
+// a second one from Google would arrive under a different UID.
+export async function createGoogleCalendarEvent(provider: Provider, booking: Booking): Promise<{ eventId: string | null, meetLink: string | null, calendarStaffId: string | null }> {
+    const owner = getStaffCalendar(provider, booking.staffId) || getProviderCalendar(provider);
+    if (!owner) {
+        return { eventId: null, meetLink: null, calendarStaffId: null };
+    }
+
+    try {
+        const calendar = await getGoogleCalendarClient(provider, owner);
 
         const serviceTypeSetting = provider.settings.serviceTypes.find(st => st.name === booking.serviceType);
+        const staffMember = findStaffMember(provider.settings, booking.staffId);
         
         const event: any = {
-            summary: `Booking: ${booking.customerName} - ${booking.serviceType}`,
+            summary: `Booking: ${booking.customerName} - ${booking.serviceType}${staffMember && !owner.staffId ? ` (with ${staffMember.name})` : ''}`,
             location: booking.address || 'Online',
             description: `Appointment with ${booking.customerName} (${booking.customerEmail}, ${booking.customerPhone}) for service: ${booking.serviceType}.`,
-            start: {
-                dateTime: formatInTimeZone(startTime, provider.settings.timezone, "yyyy-MM-dd'T'HH:mm:ss"),
-                timeZone: provider.settings.timezone,
-            },
-            end: {
-                dateTime: formatInTimeZone(endTime, provider.settings.timezone, "yyyy-MM-dd'T'HH:mm:ss"),
-                timeZone: provider.settings.timezone,
-            },
+            ...getEventTimes(provider, booking),
             organizer: {
-                email: provider.contact.email,
-                displayName: provider.name,
+                email: owner.email,
+                displayName: owner.name,
             },
             attendees: [
-                { email: provider.contact.email, displayName: provider.name, organizer: true, responseStatus: 'accepted' },
-                { email: booking.customerEmail, displayName: booking.customerName, responseStatus: 'needsAction' },
+                { email: owner.email, displayName: owner.name, organizer: true, responseStatus: 'accepted' },
             ],
+            // Marks the event as a booking, so it never blocks its own slot.
+            extendedProperties: {
+                private: { bookingId: booking.id, providerUsername: provider.username },
+            },
             reminders: {
                 useDefault: false,
                 overrides: [
@@ -145,26 +224,229 @@ export async function createGoogleCalendarEvent(provider: Provider, booking: Boo
             calendarId: 'primary',
             requestBody: event,
             conferenceDataVersion: 1, // Required to get conference data in the response
-            sendNotifications: true, // This is crucial to send invites to attendees
+            sendNotifications: false,
         });
         
         const eventId = res.data.id || null;
         const meetLink = res.data.hangoutLink || null;
         
         console.log(`Google Calendar event created: ${eventId}, Meet link: ${meetLink}`);
-        return { eventId, meetLink };
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Added to ${owner.name}'s Google Calendar`, success: true });
+        return { eventId, meetLink, calendarStaffId: owner.staffId };
 
     } catch (error: any) {
         console.error('Error creating Google Calendar event:', error.response ? error.response.data : error.message);
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Could not add to ${owner.name}'s Google Calendar`, success: false });
         // If token is invalid, you might want to disconnect the calendar for the user
         if (error.code === 401 || (error.response && error.response.status === 401)) {
             console.log(`Invalid credentials for ${provider.username}. Disconnecting Google Calendar.`);
-            await disconnectCalendar(provider.username, 'google');
+            await clearCalendarConnection(provider.username, 'google', owner.staffId || undefined);
         }
         throw new Error('Failed to create Google Calendar event.');
     }
 }
 
+// Moves the booking's event to the booking's current time. Calendar sync is
+// best-effort: a failure here never blocks the reschedule itself.
+export async function updateGoogleCalendarEvent(provider: Provider, booking: Booking): Promise<void> {
+    const owner = getEventCalendar(provider, booking);
+    if (!owner || !booking.googleCalendarEventId) return;
+
+    try {
+        const calendar = await getGoogleCalendarClient(provider, owner);
+        await calendar.events.patch({
+            calendarId: 'primary',
+            eventId: booking.googleCalendarEventId,
+            requestBody: getEventTimes(provider, booking),
+            sendUpdates: 'all',
+        });
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Moved in ${owner.name}'s Google Calendar`, success: true });
+    } catch (error: any) {
+        console.error('Error updating Google Calendar event:', error.response ? error.response.data : error.message);
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Could not move in ${owner.name}'s Google Calendar`, success: false });
+    }
+}
+
+export async function deleteGoogleCalendarEvent(provider: Provider, booking: Booking): Promise<void> {
+    const owner = getEventCalendar(provider, booking);
+    if (!owner || !booking.googleCalendarEventId) return;
+
+    try {
+        const calendar = await getGoogleCalendarClient(provider, owner);
+        await calendar.events.delete({
+            calendarId: 'primary',
+            eventId: booking.googleCalendarEventId,
+            sendUpdates: 'all',
+        });
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Removed from ${owner.name}'s Google Calendar`, success: true });
+    } catch (error: any) {
+        console.error('Error deleting Google Calendar event:', error.response ? error.response.data : error.message);
+        await logBookingEvent(provider.username, booking.id, { type: 'calendar', actor: SYSTEM_ACTOR, message: `Could not remove from ${owner.name}'s Google Calendar`, success: false });
+    }
+}
+
+// --- Two-way sync ---
+
+// Busy times are read this far ahead; slots further out are not checked against Google.
+const GOOGLE_SYNC_WINDOW_DAYS = 90;
+const GOOGLE_BUSY_CACHE_MS = 5 * 60 * 1000;
+
+// Per-instance cache, so loading a month of slots does not call Google for every day.
+const busyCache = new Map<string, { expiresAt: number; busyTimes: CalendarBusyTime[] }>();
+
+function getCalendarOwners(provider: Provider): GoogleCalendarOwner[] {
+    const staffOwners = (provider.settings.staff || []).map(member => getStaffCalendar(provider, member.id));
+    return [getProviderCalendar(provider), ...staffOwners].filter((owner): owner is GoogleCalendarOwner => owner !== null);
+}
+
+async function listGoogleEvents(calendar: calendar_v3.Calendar, calendarId: string, start: Date, end: Date, showDeleted: boolean) {
+    const events: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+    do {
+        const res = await calendar.events.list({
+            calendarId,
+            timeMin: start.toISOString(),
+            timeMax: end.toISOString(),
+            singleEvents: true,
+            showDeleted,
+            maxResults: 2500,
+            pageToken,
+        });
+        events.push(...(res.data.items || []));
+        pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+    return events;
+}
+
+// All-day events have dates without times; they take the whole day in the provider's timezone.
+function getGoogleEventTime(time: calendar_v3.Schema$EventDateTime | undefined, timezone: string): Date | null {
+    if (time?.dateTime) return new Date(time.dateTime);
+    if (time?.date) return fromZonedTime(`${time.date}T00:00:00`, timezone);
+    return null;
+}
+
+function isGoogleEventBusy(event: calendar_v3.Schema$Event, bookingEventIds: Set<string>) {
+    if (event.status === 'cancelled' || event.transparency === 'transparent') return false;
+    if (event.attendees?.some(attendee => attendee.self && attendee.responseStatus === 'declined')) return false;
+    // Bookings already hold their own time.
+    return !event.extendedProperties?.private?.bookingId && !bookingEventIds.has(event.id || '');
+}
+
+// Events in the connected calendars that should block booking slots: a
+// staff member's calendar blocks that staff member, the provider's calendar
+// blocks the provider's own schedule. A calendar that cannot be read blocks nothing.
+export async function getGoogleBusyTimes(provider: Provider): Promise<CalendarBusyTime[]> {
+    const owners = getCalendarOwners(provider);
+    if (owners.length === 0) return [];
+
+    const cached = busyCache.get(provider.username);
+    if (cached && cached.expiresAt > Date.now()) return cached.busyTimes;
+
+    const start = addDays(new Date(), -1);
+    const end = addDays(new Date(), GOOGLE_SYNC_WINDOW_DAYS);
+    const timezone = provider.settings.timezone || 'UTC';
+    const bookings = await getBookingsInRange(provider.username, start, end);
+    const bookingEventIds = new Set(bookings.map(b => b.googleCalendarEventId).filter((id): id is string => !!id));
+
+    const busyTimes: CalendarBusyTime[] = [];
+    await Promise.all(owners.map(async owner => {
+        for (const calendarId of owner.tokens.busyCalendarIds || ['primary']) {
+            try {
+                const calendar = await getGoogleCalendarClient(provider, owner);
+                const events = await listGoogleEvents(calendar, calendarId, start, end, false);
+                events.filter(event => isGoogleEventBusy(event, bookingEventIds)).forEach(event => {
+                    const eventStart = getGoogleEventTime(event.start, timezone);
+                    const eventEnd = getGoogleEventTime(event.end, timezone);
+                    if (eventStart && eventEnd) {
+                        busyTimes.push({ start: eventStart, end: eventEnd, staffId: owner.staffId });
+                    }
+                });
+            } catch (error: any) {
+                console.error(`Error reading busy times from ${owner.name}'s Google Calendar (${calendarId}):`, error.response ? error.response.data : error.message);
+            }
+        }
+    }));
+
+    busyCache.set(provider.username, { expiresAt: Date.now() + GOOGLE_BUSY_CACHE_MS, busyTimes });
+    return busyTimes;
+}
+
+// The current state of the events bookings created, including deleted ones,
+// from every connected calendar. A calendar that cannot be read is left out,
+// so its bookings are left alone rather than treated as deleted.
+export async function getGoogleBookingEvents(provider: Provider): Promise<GoogleBookingEvent[]> {
+    const start = new Date();
+    const end = addDays(start, GOOGLE_SYNC_WINDOW_DAYS);
+    const timezone = provider.settings.timezone || 'UTC';
+
+    const results = await Promise.all(getCalendarOwners(provider).map(async owner => {
+        try {
+            const calendar = await getGoogleCalendarClient(provider, owner);
+            const events = await listGoogleEvents(calendar, 'primary', start, end, true);
+            return events.filter(event => event.id).map(event => ({
+                eventId: event.id!,
+                staffId: owner.staffId,
+                cancelled: event.status === 'cancelled',
+                start: getGoogleEventTime(event.start, timezone),
+            }));
+        } catch (error: any) {
+            console.error(`Error reading ${owner.name}'s Google Calendar for sync:`, error.response ? error.response.data : error.message);
+            return [];
+        }
+    }));
+    return results.flat();
+}
+
+// Connections made before calendar selection was added can only read the primary calendar.
+export async function getGoogleCalendarOptions(idToken: string, username: string): Promise<{ success: boolean; calendars?: GoogleCalendarOption[]; selectedIds?: string[]; canChoose?: boolean; error?: string }> {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
+    const owner = getProviderCalendar(access.provider);
+    if (!owner) {
+        return { success: false, error: 'Google Calendar is not connected.' };
+    }
+
+    const primary: GoogleCalendarOption = { id: 'primary', name: access.provider.contact.email || 'Primary calendar', primary: true };
+    const selectedIds = owner.tokens.busyCalendarIds || ['primary'];
+    try {
+        const calendar = await getGoogleCalendarClient(access.provider, owner);
+        const res = await calendar.calendarList.list({ minAccessRole: 'freeBusyReader' });
+        const calendars = (res.data.items || [])
+            .filter(item => item.id)
+            .map(item => ({ id: item.primary ? 'primary' : item.id!, name: item.summaryOverride || item.summary || item.id!, primary: !!item.primary }))
+            .sort((a, b) => Number(b.primary) - Number(a.primary) || a.name.localeCompare(b.name));
+        return { success: true, calendars, selectedIds, canChoose: true };
+    } catch (error: any) {
+        if (error.code === 403 || error.response?.status === 403) {
+            return { success: true, calendars: [primary], selectedIds, canChoose: false };
+        }
+        console.error('Error listing Google calendars:', error.response ? error.response.data : error.message);
+        return { success: false, error: 'Could not load your Google calendars.' };
+    }
+}
+
+export async function updateBusyCalendars(idToken: string, username: string, calendarIds: string[]): Promise<{ success: boolean; error?: string }> {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+    if (!access.provider.googleCalendar?.accessToken) {
+        return { success: false, error: 'Google Calendar is not connected.' };
+    }
+
+    try {
+        await updateProvider(username, { googleCalendar: { ...access.provider.googleCalendar, busyCalendarIds: [...new Set(calendarIds)] } });
+        busyCache.delete(username);
+        revalidatePath('/calendar-setup');
+        return { success: true };
+    } catch (error) {
+        console.error('Error updating busy calendars:', error);
+        return { success: false, error: 'Could not save your calendars. Please try again.' };
+    }
+}
 
 // --- Outlook Calendar (Placeholder) ---
 
@@ -181,16 +463,65 @@ export async function getOutlookAuthUrl(): Promise<{ success: boolean; url?: str
 
 
 // --- General Actions ---
-export async function disconnectCalendar(username: string, type: 'google' | 'outlook') {
+async function clearCalendarConnection(username: string, type: 'google' | 'outlook', staffId?: string) {
+    if (type === 'google' && staffId) {
+        await updateProvider(username, { staffCalendars: { [staffId]: null } });
+        revalidatePath('/staff');
+    } else if (type === 'google') {
+        await updateProvider(username, { googleCalendar: null });
+    } else if (type === 'outlook') {
+        await updateProvider(username, { outlookCalendar: null });
+    }
+    revalidatePath('/calendar-setup');
+}
+
+export async function disconnectCalendar(idToken: string, username: string, type: 'google' | 'outlook', staffId?: string) {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
     try {
-        if (type === 'google') {
-            await updateProvider(username, { googleCalendar: null });
-        } else if (type === 'outlook') {
-            await updateProvider(username, { outlookCalendar: null });
-        }
-        revalidatePath('/calendar-setup');
+        await clearCalendarConnection(username, type, staffId);
         return { success: true };
     } catch (error: any) {
         return { success: false, error: 'Failed to disconnect calendar.' };
     }
 }
+
+// --- Calendar feed ---
+
+export async function getCalendarFeed(idToken: string, username: string): Promise<{ success: boolean; url?: string; error?: string }> {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
+    const url = getCalendarFeedUrl(username, access.provider.calendarFeedVersion || 0);
+    if (!url) {
+        return { success: false, error: 'Calendar feeds are not configured on this site.' };
+    }
+    return { success: true, url };
+}
+
+// Gives the feed a new secret link; calendars subscribed to the old one stop updating.
+export async function regenerateCalendarFeed(idToken: string, username: string): Promise<{ success: boolean; url?: string; error?: string }> {
+    const access = await authorizeTeamAction(idToken, username, 'business:manage');
+    if (!access.allowed) {
+        return { success: false, error: access.reason };
+    }
+
+    const version = (access.provider.calendarFeedVersion || 0) + 1;
+    const url = getCalendarFeedUrl(username, version);
+    if (!url) {
+        return { success: false, error: 'Calendar feeds are not configured on this site.' };
+    }
+
+    try {
+        await updateProvider(username, { calendarFeedVersion: version });
+        return { success: true, url };
+    } catch (error) {
+        console.error('Error regenerating calendar feed:', error);
+        return { success: false, error: 'Could not create a new link. Please try again.' };
+    }
+}
@@ -0,0 +1,68 @@
+'use server';
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { getBookingsByClass, getProviderByUsername } from './data';
+import { findGroupClass, getClassSeatsTaken } from './availability';
+import { sendClassMessageEmail } from './email-templates';
+import { authorizeTeamAction } from './team-auth';
+
+export async function getClassSeatAvailability(username: string, classId: string) {
+  const provider = await getProviderByUsername(username);
+  const groupClass = provider && findGroupClass(provider.settings, classId);
+  if (!groupClass) return null;
+
+  const seatsTaken = getClassSeatsTaken(groupClass, await getBookingsByClass(username, classId));
+  return {
+    capacity: groupClass.capacity,
+    seatsTaken,
+    seatsRemaining: Math.max(0, groupClass.capacity - seatsTaken),
+  };
+}
+
+// Emails everyone holding a seat in the class. Customers with several seats
+// (or several bookings) get the message once.
+export async function sendClassMessage(idToken: string, username: string, classId: string, subject: string, message: string) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  if (!subject.trim() || !message.trim()) {
+    return { success: false, error: 'Please enter a subject and a message.' };
+  }
+
+  try {
+    const provider = access.provider;
+    const groupClass = findGroupClass(provider.settings, classId);
+    if (!groupClass) {
+      return { success: false, error: 'Class not found.' };
+    }
+
+    const attendees = (await getBookingsByClass(username, classId)).filter(b => b.status === 'Upcoming' || b.status === 'Completed');
+    const recipients = new Map(attendees.map(b => [b.customerEmail.toLowerCase(), b]));
+    if (recipients.size === 0) {
+      return { success: false, error: 'This class has no attendees yet.' };
+    }
+
+    const timezone = provider.settings.timezone;
+    const dateFormat = provider.settings.dateFormat || 'PPP';
+
+    for (const booking of recipients.values()) {
+      await sendClassMessageEmail(booking.customerEmail, {
+        customerName: booking.customerName,
+        providerName: provider.name,
+        providerEmail: provider.contact.email,
+        classTitle: groupClass.title,
+        classDate: formatInTimeZone(groupClass.dateTime, timezone, dateFormat),
+        classTime: `${formatInTimeZone(groupClass.dateTime, timezone, 'p')} (${timezone.replace(/_/g, ' ')})`,
+        subject: subject.trim(),
+        message: message.trim(),
+      });
+    }
+
+    return { success: true, count: recipients.size };
+  } catch (error: any) {
+    console.error('Failed to message class attendees:', error);
+    return { success: false, error: error.message || 'Failed to send the message.' };
+  }
+}
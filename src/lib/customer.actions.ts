@@ -0,0 +1,124 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { addCustomerRestriction, deleteCustomerRestriction, getCustomerProfiles, saveCustomerProfile } from './data';
+import { isCustomerKey, normalizeCustomerTags, normalizeEmail, normalizePhone } from './customers';
+import { authorizeTeamAction } from './team-auth';
+import type { CustomerRestriction, CustomerRestrictionType } from './types';
+
+const MAX_CUSTOMER_NOTES_LENGTH = 5000;
+
+type CustomerProfileInput = {
+  keys: string[];
+  profileIds: string[];
+  notes: string;
+  tags: string[];
+};
+
+// Saves every given customer into one profile: the first existing profile is
+// kept and the others are deleted.
+async function saveCustomers(idToken: string, username: string, customers: CustomerProfileInput[], notes: string, tags: string[]) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const keys = [...new Set(customers.flatMap(customer => customer.keys))];
+  if (keys.length === 0 || !keys.every(isCustomerKey)) {
+    return { success: false, error: 'This customer could not be identified.' };
+  }
+  if (notes.length > MAX_CUSTOMER_NOTES_LENGTH) {
+    return { success: false, error: `Notes must be at most ${MAX_CUSTOMER_NOTES_LENGTH} characters.` };
+  }
+
+  try {
+    const existingIds = new Set((await getCustomerProfiles(username)).map(profile => profile.id));
+    const profileIds = [...new Set(customers.flatMap(customer => customer.profileIds))].filter(id => existingIds.has(id));
+
+    const profileId = await saveCustomerProfile(username, {
+      keys,
+      notes: notes.trim(),
+      tags: normalizeCustomerTags(tags),
+      updatedAt: new Date(),
+      updatedBy: access.email,
+    }, profileIds[0], profileIds.slice(1));
+
+    revalidatePath('/(provider-dashboard)/customers');
+    return { success: true, profileId };
+  } catch (error) {
+    console.error('Error saving customer profile:', error);
+    return { success: false, error: 'Could not save the customer. Please try again.' };
+  }
+}
+
+export async function updateCustomerProfile(idToken: string, username: string, customer: CustomerProfileInput) {
+  return saveCustomers(idToken, username, [customer], customer.notes, customer.tags);
+}
+
+// Merged customers keep everyone's notes and tags.
+export async function mergeCustomers(idToken: string, username: string, customers: CustomerProfileInput[]) {
+  if (customers.length < 2) {
+    return { success: false, error: 'Select at least two customers to merge.' };
+  }
+  const notes = customers.map(customer => customer.notes.trim()).filter(Boolean).join('\n\n');
+  return saveCustomers(idToken, username, customers, notes, customers.flatMap(customer => customer.tags));
+}
+
+export async function restrictCustomer(
+  idToken: string,
+  username: string,
+  restriction: { email?: string | null; phone?: string | null; type: CustomerRestrictionType; reason?: string }
+) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const email = normalizeEmail(restriction.email);
+  const phone = restriction.phone?.trim() || null;
+  if (!email && !phone) {
+    return { success: false, error: 'Enter an email address or a phone number.' };
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { success: false, error: 'Please enter a valid email address.' };
+  }
+  if (phone && !normalizePhone(phone)) {
+    return { success: false, error: 'Please enter a valid phone number.' };
+  }
+  if (restriction.type !== 'block' && restriction.type !== 'prepay') {
+    return { success: false, error: 'Please choose a restriction.' };
+  }
+
+  try {
+    const newRestriction: Omit<CustomerRestriction, 'id'> = {
+      email,
+      phone,
+      type: restriction.type,
+      reason: restriction.reason?.trim() || '',
+      createdAt: new Date(),
+      createdBy: access.email,
+    };
+    const id = await addCustomerRestriction(username, newRestriction);
+    revalidatePath('/(provider-dashboard)/customers');
+    return { success: true, restriction: { ...newRestriction, id } };
+  } catch (error) {
+    console.error('Error adding customer restriction:', error);
+    return { success: false, error: 'Could not save the restriction. Please try again.' };
+  }
+}
+
+export async function liftCustomerRestriction(idToken: string, username: string, restrictionId: string) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  try {
+    await deleteCustomerRestriction(username, restrictionId);
+    revalidatePath('/(provider-dashboard)/customers');
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing customer restriction:', error);
+    return { success: false, error: 'Could not remove the restriction. Please try again.' };
+  }
+}
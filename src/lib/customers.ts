@@ -0,0 +1,172 @@
+import type { Booking, CustomerProfile, CustomerRestriction } from './types';
+
+// Customers are not stored as such: they are built from booking history by
+// grouping bookings that share a normalized email or phone number. Merged
+// profiles tie together identities that never appeared on the same booking.
+
+export type Customer = {
+  id: string; // The customer's first identity key, stable while its bookings are
+  name: string;
+  emails: string[];
+  phones: string[];
+  keys: string[];
+  bookings: Booking[]; // Newest first
+  visitCount: number;
+  lifetimeValue: number;
+  lastVisit: Date | null;
+  noShowCount: number;
+  profile: CustomerProfile | null;
+  profileIds: string[]; // Every profile in the group; more than one until they are saved together
+  notes: string;
+  tags: string[];
+};
+
+const MIN_PHONE_DIGITS = 7;
+
+export function normalizeEmail(email?: string | null): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized ? normalized : null;
+}
+
+export function normalizePhone(phone?: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') || '';
+  return digits.length >= MIN_PHONE_DIGITS ? digits : null;
+}
+
+export function getCustomerKeys(contact: { customerEmail?: string | null; customerPhone?: string | null }): string[] {
+  const email = normalizeEmail(contact.customerEmail);
+  const phone = normalizePhone(contact.customerPhone);
+  return [...(email ? [`email:${email}`] : []), ...(phone ? [`phone:${phone}`] : [])];
+}
+
+export function isCustomerKey(key: string): boolean {
+  return /^email:\S+$/.test(key) || new RegExp(`^phone:\\d{${MIN_PHONE_DIGITS},}$`).test(key);
+}
+
+// A booking is a visit once it has happened and wasn't called off.
+function isVisit(booking: Booking, now: Date) {
+  return booking.status === 'Completed' || (booking.status === 'Upcoming' && new Date(booking.dateTime) < now);
+}
+
+function isNoShow(booking: Booking) {
+  return booking.status === 'No-Show';
+}
+
+// Online payments count once paid, less any refund; pay-later bookings count
+// once the service was completed.
+function getBookingValue(booking: Booking) {
+  const amount = booking.payment?.amount || 0;
+  if (booking.payment?.refundDue) return 0;
+  if (booking.payment?.status === 'Paid') return Math.max(0, amount - (booking.cancellation?.refundAmount || 0));
+  return booking.status === 'Completed' ? amount : 0;
+}
+
+export function buildCustomers(bookings: Booking[], profiles: CustomerProfile[], now = new Date()): Customer[] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const root = parent.get(key) ?? key;
+    if (root === key) return key;
+    const top = find(root);
+    parent.set(key, top);
+    return top;
+  };
+  const union = (keys: string[]) => {
+    keys.forEach(key => { if (!parent.has(key)) parent.set(key, key); });
+    for (let i = 1; i < keys.length; i++) {
+      const a = find(keys[0]);
+      const b = find(keys[i]);
+      if (a !== b) parent.set(b, a);
+    }
+  };
+
+  const countedBookings = bookings.filter(b => b.status !== 'Pending' && b.status !== 'Expired');
+  const bookingKeys = countedBookings.map(booking => getCustomerKeys(booking));
+  bookingKeys.forEach(union);
+  profiles.forEach(profile => union(profile.keys));
+
+  const groups = new Map<string, { keys: Set<string>; bookings: Booking[]; profiles: CustomerProfile[] }>();
+  const getGroup = (key: string) => {
+    const root = find(key);
+    if (!groups.has(root)) groups.set(root, { keys: new Set(), bookings: [], profiles: [] });
+    return groups.get(root)!;
+  };
+
+  countedBookings.forEach((booking, index) => {
+    const keys = bookingKeys[index];
+    if (keys.length === 0) return;
+    const group = getGroup(keys[0]);
+    keys.forEach(key => group.keys.add(key));
+    group.bookings.push(booking);
+  });
+  profiles.forEach(profile => {
+    if (profile.keys.length === 0) return;
+    const group = getGroup(profile.keys[0]);
+    profile.keys.forEach(key => group.keys.add(key));
+    group.profiles.push(profile);
+  });
+
+  const customers: Customer[] = [];
+  groups.forEach(group => {
+    // A profile whose bookings were all deleted has nothing left to show.
+    if (group.bookings.length === 0) return;
+
+    const sortedBookings = [...group.bookings].sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+    const keys = [...group.keys].sort((a, b) => (a.startsWith('email:') === b.startsWith('email:') ? a.localeCompare(b) : a.startsWith('email:') ? -1 : 1));
+    const visits = sortedBookings.filter(booking => isVisit(booking, now));
+    const profile = group.profiles[0] || null;
+
+    customers.push({
+      id: keys[0],
+      name: sortedBookings.find(booking => booking.customerName?.trim())?.customerName.trim() || keys[0].replace(/^(email|phone):/, ''),
+      emails: [...new Set(sortedBookings.map(booking => booking.customerEmail?.trim()).filter(Boolean))],
+      phones: [...new Set(sortedBookings.map(booking => booking.customerPhone?.trim()).filter(Boolean))],
+      keys,
+      bookings: sortedBookings,
+      visitCount: visits.length,
+      lifetimeValue: sortedBookings.reduce((total, booking) => total + getBookingValue(booking), 0),
+      lastVisit: visits.length > 0 ? new Date(visits[0].dateTime) : null,
+      noShowCount: sortedBookings.filter(isNoShow).length,
+      profile,
+      profileIds: group.profiles.map(p => p.id),
+      notes: group.profiles.map(p => p.notes).filter(Boolean).join('\n\n'),
+      tags: [...new Set(group.profiles.flatMap(p => p.tags))],
+    });
+  });
+
+  return customers.sort((a, b) => new Date(b.bookings[0].dateTime).getTime() - new Date(a.bookings[0].dateTime).getTime());
+}
+
+// Phone numbers are often entered with and without the country code, so the
+// shorter number only has to match the end of the longer one.
+const MIN_PHONE_SUFFIX_DIGITS = 8;
+
+function isSamePhone(a: string, b: string) {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter === longer || (shorter.length >= MIN_PHONE_SUFFIX_DIGITS && longer.endsWith(shorter));
+}
+
+// A block wins over a prepayment requirement when both match.
+export function findCustomerRestriction(
+  restrictions: CustomerRestriction[],
+  contact: { customerEmail?: string | null; customerPhone?: string | null }
+): CustomerRestriction | null {
+  const email = normalizeEmail(contact.customerEmail);
+  const phone = normalizePhone(contact.customerPhone);
+  const matches = restrictions.filter(restriction =>
+    (!!email && normalizeEmail(restriction.email) === email) ||
+    (!!phone && !!normalizePhone(restriction.phone) && isSamePhone(normalizePhone(restriction.phone)!, phone))
+  );
+  return matches.find(restriction => restriction.type === 'block') || matches[0] || null;
+}
+
+export function findRestrictionsForCustomer(restrictions: CustomerRestriction[], customer: Customer): CustomerRestriction[] {
+  const contacts = [
+    ...customer.emails.map(customerEmail => ({ customerEmail })),
+    ...customer.phones.map(customerPhone => ({ customerPhone })),
+  ];
+  return restrictions.filter(restriction => contacts.some(contact => findCustomerRestriction([restriction], contact)));
+}
+
+export function normalizeCustomerTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))];
+}
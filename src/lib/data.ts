@@ -1,8 +1,8 @@
 
 
-import { doc, getDoc, setDoc, updateDoc, collection, getDocs, addDoc, query, where, deleteDoc, serverTimestamp, orderBy, writeBatch, onSnapshot } from 'firebase/firestore';
+import { doc, getDoc, setDoc, updateDoc, collection, getDocs, addDoc, query, where, deleteDoc, serverTimestamp, orderBy, writeBatch, onSnapshot, runTransaction, type Transaction } from 'firebase/firestore';
 import { db } from './firebase';
-import type { Provider, Booking, BookingStatus, AdminSettings, Plan, EnrichedProvider, Payment, AdminDashboardData, ActivityLog, ReportsData, Testimonial, ServiceTypeSetting, Notification, HeroSettings, ScreenshotsSettings, Service, BlogPost } from './types';
+import type { Provider, Booking, BookingStatus, AdminSettings, Plan, EnrichedProvider, Payment, AdminDashboardData, ActivityLog, ReportsData, Testimonial, ServiceTypeSetting, Notification, HeroSettings, ScreenshotsSettings, Service, BlogPost, WaitlistEntry, WaitlistStatus, CustomerProfile, CustomerRestriction, BookingEvent, BookingNotes } from './types';
 import { startOfDay, endOfDay, subDays, addDays, getHours, isSameDay as isSameDayFns } from 'date-fns';
 import { sendWelcomeEmail, sendAdminNewProviderNotificationEmail } from './email-templates';
 import { format } from 'date-fns';
@@ -230,7 +230,12 @@ export async function getProviderByUsername(username: string): Promise<Provider
 export async function getProviderByEmail(email: string): Promise<Provider | undefined> {
   const providersCol = collection(db, 'providers');
   const q = query(providersCol, where('contact.email', '==', email));
-  const snapshot = await getDocs(q);
+  let snapshot = await getDocs(q);
+
+  // Teammates sign in with their own email and get the account they were invited to.
+  if (snapshot.empty) {
+    snapshot = await getDocs(query(providersCol, where('teamEmails', 'array-contains', email.toLowerCase())));
+  }
 
   if (!snapshot.empty) {
     const docSnap = snapshot.docs[0];
@@ -300,6 +305,21 @@ export async function getBookingsByProvider(username: string): Promise<Booking[]
   return bookings.sort((a, b) => b.dateTime.getTime() - a.dateTime.getTime());
 }
 
+export async function getBookingsByStatus(username: string, status: BookingStatus): Promise<Booking[]> {
+  const bookingsCol = collection(db, `providers/${username}/bookings`);
+  const q = query(bookingsCol, where('status', '==', status));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+          id: doc.id,
+          ...data,
+          dateTime: data.dateTime.toDate(),
+          createdAt: data.createdAt?.toDate(),
+      } as Booking;
+  });
+}
+
 export async function getBookingById(username: string, bookingId: string): Promise<Booking | null> {
     const bookingRef = doc(db, `providers/${username}/bookings`, bookingId);
     const docSnap = await getDoc(bookingRef);
@@ -349,6 +369,24 @@ export async function getBookingsForDay(username: string, date: Date): Promise<B
   return bookings;
 }
 
+export async function getBookingsInRange(username: string, start: Date, end: Date): Promise<Booking[]> {
+  const bookingsCol = collection(db, `providers/${username}/bookings`);
+  const q = query(
+    bookingsCol,
+    where('dateTime', '>=', start),
+    where('dateTime', '<', end)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+          id: doc.id,
+          ...data,
+          dateTime: data.dateTime.toDate(),
+      } as Booking;
+  });
+}
+
 export async function addBooking(bookingData: Omit<Booking, 'id' | 'status'>, initialStatus: BookingStatus): Promise<string> {
     const { providerUsername } = bookingData;
     const bookingsCol = collection(db, `providers/${providerUsername}/bookings`);
@@ -359,6 +397,186 @@ export async function addBooking(bookingData: Omit<Booking, 'id' | 'status'>, in
     return docRef.id;
 }
 
+// `keys` are the days the booking takes time on; `start` and `end` bound the
+// bookings it has to be checked against. See getBookingDays in availability.ts.
+type BookingDay = { keys: string[]; start: Date; end: Date };
+
+// Firestore transactions cannot run queries, so every booking written through here
+// also touches a lock document for each day it takes time on. Two requests for the
+// same day then conflict on that document and the losing transaction re-runs the
+// availability check against fresh bookings. `precondition` may read documents of
+// its own in the same transaction, e.g. to make sure a booking is still in the
+// state it expects.
+async function writeIfDaysAvailable<T>(
+    username: string,
+    days: BookingDay[],
+    isAvailable: (dayBookings: Booking[], dayIndex: number) => boolean,
+    write: (transaction: Transaction) => T,
+    precondition?: (transaction: Transaction) => Promise<boolean>
+): Promise<T | null> {
+    const lockRefs = Array.from(new Set(days.flatMap(day => day.keys)))
+        .map(key => doc(db, `providers/${username}/bookingLocks`, key));
+
+    return runTransaction(db, async (transaction) => {
+        // Every read must happen before the first write.
+        for (const lockRef of lockRefs) {
+            await transaction.get(lockRef);
+        }
+        if (precondition && !(await precondition(transaction))) {
+            return null;
+        }
+
+        for (let i = 0; i < days.length; i++) {
+            const dayBookings = await getBookingsInRange(username, days[i].start, days[i].end);
+            if (!isAvailable(dayBookings, i)) {
+                return null;
+            }
+        }
+
+        const result = write(transaction);
+        lockRefs.forEach(lockRef => transaction.set(lockRef, { updatedAt: serverTimestamp() }));
+        return result;
+    });
+}
+
+function writeIfDayAvailable<T>(
+    username: string,
+    day: BookingDay,
+    isAvailable: (dayBookings: Booking[]) => boolean,
+    write: (transaction: Transaction) => T
+): Promise<T | null> {
+    return writeIfDaysAvailable(username, [day], isAvailable, write);
+}
+
+export async function addBookingIfAvailable(
+    bookingData: Omit<Booking, 'id' | 'status'>,
+    initialStatus: BookingStatus,
+    day: BookingDay,
+    isAvailable: (dayBookings: Booking[]) => boolean
+): Promise<string | null> {
+    const { providerUsername } = bookingData;
+    const newBookingRef = doc(collection(db, `providers/${providerUsername}/bookings`));
+
+    return writeIfDayAvailable(providerUsername, day, isAvailable, (transaction) => {
+        transaction.set(newBookingRef, { ...bookingData, status: initialStatus });
+        return newBookingRef.id;
+    });
+}
+
+export async function updateBookingIfAvailable(
+    providerUsername: string,
+    bookingId: string,
+    data: Partial<Booking>,
+    day: BookingDay,
+    isAvailable: (dayBookings: Booking[]) => boolean
+): Promise<boolean> {
+    const bookingRef = doc(db, `providers/${providerUsername}/bookings`, bookingId);
+
+    const updated = await writeIfDayAvailable(providerUsername, day, isAvailable, (transaction) => {
+        transaction.update(bookingRef, data);
+        return true;
+    });
+    return !!updated;
+}
+
+// Creates every occurrence of a recurring series, or none of them if any
+// occurrence's day can no longer take it. The first booking's id becomes the
+// series id. `days[i]` and `isAvailable(_, i)` belong to `bookings[i]`.
+export async function addBookingSeriesIfAvailable(
+    bookings: Omit<Booking, 'id' | 'status'>[],
+    initialStatus: BookingStatus,
+    days: BookingDay[],
+    isAvailable: (dayBookings: Booking[], index: number) => boolean
+): Promise<string[] | null> {
+    const { providerUsername } = bookings[0];
+    const bookingsCol = collection(db, `providers/${providerUsername}/bookings`);
+    const refs = bookings.map(() => doc(bookingsCol));
+    const seriesId = refs[0].id;
+
+    return writeIfDaysAvailable(providerUsername, days, isAvailable, (transaction) => {
+        bookings.forEach((bookingData, index) => {
+            transaction.set(refs[index], { ...bookingData, seriesId, seriesIndex: index, status: initialStatus });
+        });
+        return refs.map(ref => ref.id);
+    });
+}
+
+// Applies several booking updates that each need their own day to be free,
+// e.g. moving a whole series. `days[i]` and `isAvailable(_, i)` belong to `updates[i]`.
+export async function updateBookingsIfAvailable(
+    providerUsername: string,
+    updates: { bookingId: string; data: Partial<Booking> }[],
+    days: BookingDay[],
+    isAvailable: (dayBookings: Booking[], index: number) => boolean
+): Promise<boolean> {
+    const updated = await writeIfDaysAvailable(providerUsername, days, isAvailable, (transaction) => {
+        updates.forEach(({ bookingId, data }) => {
+            transaction.update(doc(db, `providers/${providerUsername}/bookings`, bookingId), data);
+        });
+        return true;
+    });
+    return !!updated;
+}
+
+// Confirms bookings that were held while something else happened, e.g. the
+// customer paying. Nothing is written unless every booking still has one of
+// `heldStatuses` and still fits: a booking that expired in the meantime may
+// have lost its time to someone else.
+export async function confirmHeldBookingsIfAvailable(
+    providerUsername: string,
+    updates: { bookingId: string; data: Partial<Booking> }[],
+    heldStatuses: BookingStatus[],
+    days: BookingDay[],
+    isAvailable: (dayBookings: Booking[], index: number) => boolean
+): Promise<boolean> {
+    const refs = updates.map(({ bookingId }) => doc(db, `providers/${providerUsername}/bookings`, bookingId));
+
+    const updated = await writeIfDaysAvailable(providerUsername, days, isAvailable, (transaction) => {
+        updates.forEach(({ data }, index) => transaction.update(refs[index], data));
+        return true;
+    }, async (transaction) => {
+        for (const ref of refs) {
+            const snapshot = await transaction.get(ref);
+            if (!snapshot.exists() || !heldStatuses.includes(snapshot.data().status)) return false;
+        }
+        return true;
+    });
+    return !!updated;
+}
+
+export async function getBookingsBySeries(username: string, seriesId: string): Promise<Booking[]> {
+  const bookingsCol = collection(db, `providers/${username}/bookings`);
+  const q = query(bookingsCol, where('seriesId', '==', seriesId));
+  const snapshot = await getDocs(q);
+  const bookings = snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+          id: doc.id,
+          ...data,
+          dateTime: data.dateTime.toDate(),
+          createdAt: data.createdAt?.toDate(),
+      } as Booking;
+  });
+  return bookings.sort((a, b) => (a.seriesIndex || 0) - (b.seriesIndex || 0));
+}
+
+// The attendee roster of a group class, in booking order.
+export async function getBookingsByClass(username: string, classId: string): Promise<Booking[]> {
+  const bookingsCol = collection(db, `providers/${username}/bookings`);
+  const q = query(bookingsCol, where('classId', '==', classId));
+  const snapshot = await getDocs(q);
+  const bookings = snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+          id: doc.id,
+          ...data,
+          dateTime: data.dateTime.toDate(),
+          createdAt: data.createdAt?.toDate(),
+      } as Booking;
+  });
+  return bookings.sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+}
+
 export async function updateBooking(providerUsername: string, bookingId: string, data: Partial<Booking>): Promise<void> {
     const bookingRef = doc(db, `providers/${providerUsername}/bookings`, bookingId);
     await updateDoc(bookingRef, data);
@@ -369,11 +587,162 @@ export async function updateBookingStatus(providerUsername: string, bookingId: s
   await updateDoc(bookingRef, { status });
 }
 
+// Expires a 'Pending' booking whose hold started at or before `cutoff`. The
+// booking is re-read in the transaction, so one the customer paid for in the
+// meantime is left alone. Returns whether it was expired.
+export async function expirePendingBooking(providerUsername: string, bookingId: string, cutoff: Date): Promise<boolean> {
+  const bookingRef = doc(db, `providers/${providerUsername}/bookings`, bookingId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(bookingRef);
+    if (!snapshot.exists()) return false;
+    const data = snapshot.data();
+    // Bookings created before createdAt was recorded are expired once their time has passed.
+    const startedAt: Date = (data.createdAt || data.dateTime).toDate();
+    if (data.status !== 'Pending' || startedAt > cutoff) return false;
+
+    transaction.update(bookingRef, { status: 'Expired' });
+    return true;
+  });
+}
+
 export async function deleteBooking(providerUsername: string, bookingId: string): Promise<void> {
   const bookingRef = doc(db, `providers/${providerUsername}/bookings`, bookingId);
   await deleteDoc(bookingRef);
+  await deleteDoc(doc(db, `providers/${providerUsername}/bookingNotes`, bookingId));
 }
 
+export async function addBookingEvent(providerUsername: string, bookingId: string, event: Omit<BookingEvent, 'id'>): Promise<void> {
+  const eventsCol = collection(db, `providers/${providerUsername}/bookings/${bookingId}/events`);
+  await addDoc(eventsCol, event);
+}
+
+function toBookingNotes(bookingId: string, data: any): BookingNotes {
+  return {
+      bookingId,
+      notes: (data?.notes || []).map((note: any) => ({ ...note, createdAt: note.createdAt?.toDate() })),
+      attachments: (data?.attachments || []).map((attachment: any) => ({ ...attachment, uploadedAt: attachment.uploadedAt?.toDate() })),
+      updatedAt: data?.updatedAt?.toDate() || null,
+  };
+}
+
+export async function getAllBookingNotes(providerUsername: string): Promise<BookingNotes[]> {
+  const notesCol = collection(db, `providers/${providerUsername}/bookingNotes`);
+  const snapshot = await getDocs(notesCol);
+  return snapshot.docs.map(doc => toBookingNotes(doc.id, doc.data()));
+}
+
+// Read-modify-write in a transaction so two team members adding notes at the
+// same time don't overwrite each other.
+export async function updateBookingNotes(providerUsername: string, bookingId: string, update: (current: BookingNotes) => BookingNotes): Promise<BookingNotes> {
+  const notesRef = doc(db, `providers/${providerUsername}/bookingNotes`, bookingId);
+  return runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(notesRef);
+      const next = update(toBookingNotes(bookingId, snapshot.exists() ? snapshot.data() : null));
+      transaction.set(notesRef, { notes: next.notes, attachments: next.attachments, updatedAt: next.updatedAt });
+      return next;
+  });
+}
+
+export async function getBookingEvents(providerUsername: string, bookingId: string): Promise<BookingEvent[]> {
+  const eventsCol = collection(db, `providers/${providerUsername}/bookings/${bookingId}/events`);
+  const snapshot = await getDocs(query(eventsCol, orderBy('at', 'asc')));
+  return snapshot.docs.map(doc => ({
+      ...doc.data(),
+      id: doc.id,
+      at: doc.data().at?.toDate(),
+  }) as BookingEvent);
+}
+
+
+function toWaitlistEntry(id: string, data: any): WaitlistEntry {
+  return {
+      ...data,
+      id,
+      createdAt: data.createdAt?.toDate(),
+      offerExpiresAt: data.offerExpiresAt?.toDate() || null,
+  } as WaitlistEntry;
+}
+
+export async function addWaitlistEntry(username: string, entry: Omit<WaitlistEntry, 'id'>): Promise<string> {
+  const waitlistCol = collection(db, `providers/${username}/waitlist`);
+  const docRef = await addDoc(waitlistCol, entry);
+  return docRef.id;
+}
+
+// Oldest first, which is the order offers are made in.
+export async function getWaitlistEntries(username: string): Promise<WaitlistEntry[]> {
+  const waitlistCol = collection(db, `providers/${username}/waitlist`);
+  const q = query(waitlistCol, orderBy('createdAt', 'asc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => toWaitlistEntry(doc.id, doc.data()));
+}
+
+export async function getWaitlistEntriesForDate(username: string, date: string): Promise<WaitlistEntry[]> {
+  const waitlistCol = collection(db, `providers/${username}/waitlist`);
+  const q = query(waitlistCol, where('date', '==', date));
+  const snapshot = await getDocs(q);
+  const entries = snapshot.docs.map(doc => toWaitlistEntry(doc.id, doc.data()));
+  return entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export async function getWaitlistEntriesByStatus(username: string, status: WaitlistStatus): Promise<WaitlistEntry[]> {
+  const waitlistCol = collection(db, `providers/${username}/waitlist`);
+  const q = query(waitlistCol, where('status', '==', status));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(doc => toWaitlistEntry(doc.id, doc.data()));
+}
+
+export async function getWaitlistEntryById(username: string, entryId: string): Promise<WaitlistEntry | null> {
+  const entryRef = doc(db, `providers/${username}/waitlist`, entryId);
+  const docSnap = await getDoc(entryRef);
+  return docSnap.exists() ? toWaitlistEntry(docSnap.id, docSnap.data()) : null;
+}
+
+export async function updateWaitlistEntry(username: string, entryId: string, data: Partial<WaitlistEntry>): Promise<void> {
+  const entryRef = doc(db, `providers/${username}/waitlist`, entryId);
+  await updateDoc(entryRef, data);
+}
+
+export async function getCustomerProfiles(username: string): Promise<CustomerProfile[]> {
+  const customersCol = collection(db, `providers/${username}/customers`);
+  const snapshot = await getDocs(customersCol);
+  return snapshot.docs.map(doc => ({
+      ...doc.data(),
+      id: doc.id,
+      updatedAt: doc.data().updatedAt?.toDate(),
+  }) as CustomerProfile);
+}
+
+// Writes the profile and deletes the ones merged into it in one batch.
+export async function saveCustomerProfile(username: string, profile: Omit<CustomerProfile, 'id'>, profileId?: string | null, mergedProfileIds: string[] = []): Promise<string> {
+  const customersCol = collection(db, `providers/${username}/customers`);
+  const profileRef = profileId ? doc(customersCol, profileId) : doc(customersCol);
+  const batch = writeBatch(db);
+  batch.set(profileRef, profile);
+  mergedProfileIds.filter(id => id !== profileRef.id).forEach(id => batch.delete(doc(customersCol, id)));
+  await batch.commit();
+  return profileRef.id;
+}
+
+export async function getCustomerRestrictions(username: string): Promise<CustomerRestriction[]> {
+  const restrictionsCol = collection(db, `providers/${username}/customerRestrictions`);
+  const snapshot = await getDocs(restrictionsCol);
+  return snapshot.docs.map(doc => ({
+      ...doc.data(),
+      id: doc.id,
+      createdAt: doc.data().createdAt?.toDate(),
+  }) as CustomerRestriction);
+}
+
+export async function addCustomerRestriction(username: string, restriction: Omit<CustomerRestriction, 'id'>): Promise<string> {
+  const restrictionsCol = collection(db, `providers/${username}/customerRestrictions`);
+  const docRef = await addDoc(restrictionsCol, restriction);
+  return docRef.id;
+}
+
+export async function deleteCustomerRestriction(username: string, restrictionId: string): Promise<void> {
+  await deleteDoc(doc(db, `providers/${username}/customerRestrictions`, restrictionId));
+}
 
 export async function getAllProviders(): Promise<EnrichedProvider[]> {
   const providersCol = collection(db, 'providers');
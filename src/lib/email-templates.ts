@@ -4,9 +4,49 @@
 
 import { format } from 'date-fns';
 import { sendEmail } from './email';
+import { formatIntakeAnswer } from './intake';
+import type { CalendarInvite, IntakeAnswer } from './types';
 
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:9002';
 
+function getManageBookingLinkHtml(url?: string | null) {
+    return url ? `<a href="${url}" target="_blank">View, cancel or reschedule your booking</a>` : '';
+}
+
+// Free text written by the provider. Escaped so it can't inject markup, and
+// '$' doubled so String.replace in sendEmail leaves it alone.
+function toHtmlText(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\$/g, '$$$$')
+        .replace(/\r?\n/g, '<br>');
+}
+
+function getStaffRowHtml(staffName?: string | null) {
+    if (!staffName) return '';
+    return `<tr style="border-bottom: 1px solid #eee;"><td style="padding: 5px 0;"><strong>With:</strong></td><td style="padding: 5px 0; text-align: right;">${toHtmlText(staffName)}</td></tr>`;
+}
+
+function getSeriesDetailsHtml(recurrenceSummary?: string | null, seriesDates?: string[] | null) {
+    if (!recurrenceSummary || !seriesDates?.length) return '';
+    const dates = seriesDates.map(date => `<li>${date}</li>`).join('');
+    return `<p style="font-family: sans-serif; font-size: 14px; font-weight: normal; margin: 0; margin-bottom: 5px;">This is a recurring booking (${recurrenceSummary}):</p><ul style="font-family: sans-serif; font-size: 14px; margin: 0; margin-bottom: 15px;">${dates}</ul>`;
+}
+
+function getIntakeDetailsHtml(answers?: IntakeAnswer[] | null) {
+    if (!answers?.length) return '';
+    const rows = answers.map(answer => {
+        const value = answer.type === 'file'
+            ? `<a href="${toHtmlText(formatIntakeAnswer(answer))}" target="_blank">View file</a>`
+            : toHtmlText(formatIntakeAnswer(answer));
+        return `<tr style="border-bottom: 1px solid #eee;"><td style="padding: 5px 0; vertical-align: top;"><strong>${toHtmlText(answer.question)}</strong></td><td style="padding: 5px 0; text-align: right;">${value}</td></tr>`;
+    }).join('');
+    return `<h2 style="font-family: sans-serif; font-size: 18px; font-weight: bold; margin-top: 20px; margin-bottom: 10px;">Customer Answers</h2><table role="presentation" border="0" cellpadding="0" cellspacing="0" style="border-collapse: separate; mso-table-lspace: 0pt; mso-table-rspace: 0pt; width: 100%; margin-bottom: 15px;" width="100%">${rows}</table>`;
+}
+
 export async function sendWelcomeEmail(to: string, name: string) {
     await sendEmail({
         to,
@@ -19,6 +59,23 @@ export async function sendWelcomeEmail(to: string, name: string) {
     });
 }
 
+export async function sendTeamInviteEmail(to: string, data: {
+    providerName: string;
+    inviterName: string;
+    roleName: string;
+}) {
+    await sendEmail({
+        to,
+        subject: `You've been invited to ${data.providerName} on BroBookMe`,
+        template: 'team_invite_email.html',
+        data: {
+            ...data,
+            email: to,
+            loginUrl: `${siteUrl}/login`,
+        }
+    });
+}
+
 export async function sendSubscriptionEmail(to: string, name: string, planName: string, expiryDate: Date, isRenewal: boolean) {
     if (isRenewal) {
          await sendEmail({
@@ -63,6 +120,11 @@ export async function sendBookingConfirmationEmail(to: string, data: {
     paymentDetails: string;
     googleMeetLink?: string | null;
     googleMapLink?: string | null;
+    manageBookingUrl?: string | null;
+    recurrenceSummary?: string | null;
+    seriesDates?: string[] | null;
+    staffName?: string | null;
+    calendarInvite?: CalendarInvite | null;
 }) {
     let locationDetails = data.bookingAddress;
     if (data.googleMeetLink) {
@@ -75,7 +137,7 @@ export async function sendBookingConfirmationEmail(to: string, data: {
         ? `${data.serviceTitle || data.serviceType} (x${data.quantity})`
         : data.serviceTitle || data.serviceType;
 
-    await sendEmail({
+    return sendEmail({
         to,
         subject: `Booking Confirmed with ${data.providerName}`,
         template: 'booking_email.html',
@@ -96,7 +158,11 @@ export async function sendBookingConfirmationEmail(to: string, data: {
             googleMeetLink: data.googleMeetLink || '',
             googleMapLink: data.googleMapLink || '',
             locationDetails: locationDetails,
-        }
+            manageBookingLink: getManageBookingLinkHtml(data.manageBookingUrl),
+            seriesDetails: getSeriesDetailsHtml(data.recurrenceSummary, data.seriesDates),
+            staffRow: getStaffRowHtml(data.staffName),
+        },
+        calendarInvite: data.calendarInvite,
     });
 }
 
@@ -114,6 +180,11 @@ export async function sendProviderBookingNotificationEmail(to: string, data: {
     paymentDetails: string;
     googleMeetLink?: string | null;
     googleMapLink?: string | null;
+    recurrenceSummary?: string | null;
+    seriesDates?: string[] | null;
+    staffName?: string | null;
+    intakeAnswers?: IntakeAnswer[] | null;
+    awaitingApproval?: boolean;
 }) {
     let locationDetails = data.bookingAddress;
     if (data.googleMeetLink) {
@@ -126,9 +197,9 @@ export async function sendProviderBookingNotificationEmail(to: string, data: {
         ? `${data.serviceTitle || data.serviceType} (x${data.quantity})`
         : data.serviceTitle || data.serviceType;
         
-    await sendEmail({
+    return sendEmail({
         to,
-        subject: `New Booking from ${data.customerName}`,
+        subject: data.awaitingApproval ? `Booking Request from ${data.customerName}` : `New Booking from ${data.customerName}`,
         template: 'provider_booking_notification.html',
         data: {
             providerName: data.providerName,
@@ -145,6 +216,62 @@ export async function sendProviderBookingNotificationEmail(to: string, data: {
             googleMeetLink: data.googleMeetLink || '',
             googleMapLink: data.googleMapLink || '',
             locationDetails: locationDetails,
+            seriesDetails: getSeriesDetailsHtml(data.recurrenceSummary, data.seriesDates),
+            staffRow: getStaffRowHtml(data.staffName),
+            intakeDetails: getIntakeDetailsHtml(data.intakeAnswers),
+            approvalNotice: data.awaitingApproval
+                ? `<p style="font-family: sans-serif; font-size: 14px; font-weight: normal; margin: 0; margin-bottom: 15px;"><strong>This booking needs your approval.</strong> The slot is held until you <a href="${siteUrl}/bookings" target="_blank">approve or decline it</a>.</p>`
+                : '',
+        }
+    });
+}
+
+export async function sendBookingRequestEmail(to: string, data: {
+    customerName: string;
+    providerName: string;
+    serviceTitle?: string | null;
+    serviceType: string;
+    bookingDate: string;
+    bookingTime: string;
+    staffName?: string | null;
+}) {
+    const { staffName, ...rest } = data;
+    return sendEmail({
+        to,
+        subject: `Booking Request Received by ${data.providerName}`,
+        template: 'booking_request_email.html',
+        data: {
+            ...rest,
+            serviceTitle: data.serviceTitle || data.serviceType,
+            staffRow: getStaffRowHtml(staffName),
+        }
+    });
+}
+
+export async function sendBookingDeclinedEmail(to: string, data: {
+    customerName: string;
+    providerName: string;
+    serviceTitle?: string | null;
+    serviceType: string;
+    bookingDate: string;
+    bookingTime: string;
+    reason?: string | null;
+    bookingPath: string;
+    staffName?: string | null;
+}) {
+    const { reason, bookingPath, staffName, ...rest } = data;
+    return sendEmail({
+        to,
+        subject: `Booking Request Declined by ${data.providerName}`,
+        template: 'booking_declined_email.html',
+        data: {
+            ...rest,
+            serviceTitle: data.serviceTitle || data.serviceType,
+            declineReason: reason
+                ? `<p style="font-family: sans-serif; font-size: 14px; font-weight: normal; margin: 0; margin-bottom: 15px;"><strong>Reason:</strong> ${toHtmlText(reason)}</p>`
+                : '',
+            bookingUrl: `${siteUrl}${bookingPath}`,
+            staffRow: getStaffRowHtml(staffName),
         }
     });
 }
@@ -156,11 +283,48 @@ export async function sendBookingCancelledEmail(to: string, data: {
     serviceType: string;
     bookingDate: string;
     bookingTime: string;
+    cancellationFee?: string | null;
+    refundAmount?: string | null;
+    staffName?: string | null;
+    calendarInvite?: CalendarInvite | null;
 }) {
-    await sendEmail({
+    const { cancellationFee, refundAmount, staffName, calendarInvite, ...rest } = data;
+    let cancellationDetails = '';
+    if (cancellationFee) {
+        cancellationDetails += `<p style="font-family: sans-serif; font-size: 14px; font-weight: normal; margin: 0; margin-bottom: 15px;">A cancellation fee of <strong>${cancellationFee}</strong> was applied under ${data.providerName}'s cancellation policy.</p>`;
+    }
+    if (refundAmount) {
+        cancellationDetails += `<p style="font-family: sans-serif; font-size: 14px; font-weight: normal; margin: 0; margin-bottom: 15px;">A refund of <strong>${refundAmount}</strong> is due to you. Please contact ${data.providerName} if you have questions about your refund.</p>`;
+    }
+
+    return sendEmail({
         to,
         subject: `Booking Canceled with ${data.providerName}`,
         template: 'booking_cancelled_email.html',
+        data: {
+            ...rest,
+            serviceTitle: data.serviceTitle || data.serviceType,
+            cancellationDetails,
+            staffRow: getStaffRowHtml(staffName),
+        },
+        calendarInvite,
+    });
+}
+
+export async function sendWaitlistOfferEmail(to: string, data: {
+    customerName: string;
+    providerName: string;
+    serviceTitle?: string | null;
+    serviceType: string;
+    bookingDate: string;
+    bookingTime: string;
+    offerExpiresAt: string;
+    claimUrl: string;
+}) {
+    await sendEmail({
+        to,
+        subject: `A spot with ${data.providerName} is available`,
+        template: 'waitlist_offer_email.html',
         data: {
             ...data,
             serviceTitle: data.serviceTitle || data.serviceType,
@@ -168,26 +332,76 @@ export async function sendBookingCancelledEmail(to: string, data: {
     });
 }
 
-export async function sendRescheduleEmail(to: string, data: { customerName: string; providerName: string; newBookingDate: string; newBookingTime: string; serviceTitle?: string | null; serviceType: string; }) {
+export async function sendClassMessageEmail(to: string, data: {
+    customerName: string;
+    providerName: string;
+    providerEmail: string;
+    classTitle: string;
+    classDate: string;
+    classTime: string;
+    subject: string;
+    message: string;
+}) {
     await sendEmail({
         to,
-        subject: `Your Booking with ${data.providerName} has been Rescheduled`,
-        template: 'reschedule_email.html',
+        subject: `${data.subject} - ${data.classTitle}`,
+        template: 'class_message_email.html',
         data: {
             ...data,
+            subject: toHtmlText(data.subject),
+            message: toHtmlText(data.message),
+        }
+    });
+}
+
+export async function sendPaymentExpiredEmail(to: string, data: {
+    customerName: string;
+    providerName: string;
+    serviceTitle?: string | null;
+    serviceType: string;
+    bookingDate: string;
+    bookingTime: string;
+    bookingPath: string;
+}) {
+    const { bookingPath, ...rest } = data;
+    return sendEmail({
+        to,
+        subject: `Complete your booking with ${data.providerName}`,
+        template: 'payment_expired_email.html',
+        data: {
+            ...rest,
             serviceTitle: data.serviceTitle || data.serviceType,
+            bookingUrl: `${siteUrl}${bookingPath}`,
         }
     });
 }
 
-export async function sendProviderRescheduleEmail(to: string, data: { providerName: string; customerName: string; newBookingDate: string; newBookingTime: string; serviceTitle?: string | null; serviceType: string; }) {
-     await sendEmail({
+export async function sendRescheduleEmail(to: string, data: { customerName: string; providerName: string; newBookingDate: string; newBookingTime: string; serviceTitle?: string | null; serviceType: string; manageBookingUrl?: string | null; staffName?: string | null; calendarInvite?: CalendarInvite | null; }) {
+    const { manageBookingUrl, staffName, calendarInvite, ...rest } = data;
+    return sendEmail({
+        to,
+        subject: `Your Booking with ${data.providerName} has been Rescheduled`,
+        template: 'reschedule_email.html',
+        data: {
+            ...rest,
+            serviceTitle: data.serviceTitle || data.serviceType,
+            manageBookingLink: getManageBookingLinkHtml(manageBookingUrl),
+            staffRow: getStaffRowHtml(staffName),
+        },
+        calendarInvite,
+    });
+}
+
+export async function sendProviderRescheduleEmail(to: string, data: { providerName: string; customerName: string; newBookingDate: string; newBookingTime: string; serviceTitle?: string | null; serviceType: string; staffName?: string | null; }) {
+    const { staffName, ...rest } = data;
+     return sendEmail({
         to,
         subject: `Booking Rescheduled for ${data.customerName}`,
         template: 'provider_reschedule_email.html',
         data: {
-            ...data,
+            ...rest,
             serviceTitle: data.serviceTitle || data.serviceType,
+            staffRow: getStaffRowHtml(staffName),
         }
     });
 }
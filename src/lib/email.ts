@@ -5,6 +5,7 @@ import nodemailer from 'nodemailer';
 import { getAdminSettings } from './data';
 import fs from 'fs';
 import path from 'path';
+import type { CalendarInvite } from './types';
 
 type PlaceholderData = { [key: string]: string };
 
@@ -12,13 +13,18 @@ export async function sendEmail({
     to,
     subject,
     template,
-    data
+    data,
+    calendarInvite
 }: {
     to: string,
     subject: string,
     template: string,
-    data: PlaceholderData
-}): Promise<void> {
+    data: PlaceholderData,
+    calendarInvite?: CalendarInvite | null
+}): Promise<boolean> {
+    // Walk-in and phone bookings may have no customer email.
+    if (!to) return false;
+
     const settings = await getAdminSettings();
 
     if (!settings?.smtp?.host || !settings.smtp.port || !settings.smtp.senderEmail) {
@@ -30,7 +36,7 @@ export async function sendEmail({
         console.log(`Template: ${template}`);
         console.log(`Data:`, data);
         console.log("---------------------------------");
-        return;
+        return false;
     }
     
     const { host, port, senderEmail, username, password } = settings.smtp;
@@ -43,7 +49,7 @@ export async function sendEmail({
         console.log(`Template: ${template}`);
         console.log(`Data:`, data);
         console.log("---------------------------------");
-        return;
+        return false;
     }
     
     // Read and populate the HTML template
@@ -58,7 +64,7 @@ export async function sendEmail({
         }
     } catch (error) {
         console.error(`Failed to read or populate email template ${template}:`, error);
-        return; // Don't send if template fails
+        return false; // Don't send if template fails
     }
 
 
@@ -77,12 +83,16 @@ export async function sendEmail({
         to: to,
         subject: subject,
         html: htmlContent,
+        // Sent as a text/calendar part so mail apps offer to add or update the event.
+        ...(calendarInvite ? { icalEvent: { method: calendarInvite.method, filename: 'invite.ics', content: calendarInvite.content } } : {}),
     };
 
     try {
         await transporter.sendMail(mailOptions);
         console.log(`Email sent successfully to ${to} using template ${template}`);
+        return true;
     } catch (error) {
         console.error(`Failed to send email to ${to}:`, error);
+        return false;
     }
 }
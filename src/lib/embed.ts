@@ -0,0 +1,106 @@
+import type { CSSProperties } from 'react';
+
+// The booking widget other sites load from /embed.js. It renders
+// /embed/[username] in an iframe and talks to the host page with postMessage.
+// Messages never carry the customer's contact details, since any page can
+// embed the widget.
+
+export const EMBED_MESSAGE_SOURCE = 'brobookme';
+
+export type EmbedEventType =
+  | 'ready'
+  | 'resize'
+  | 'slot_selected'
+  | 'booking_completed'
+  | 'payment_failed';
+
+export type EmbedMessage = {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  type: EmbedEventType;
+  data: Record<string, unknown>;
+};
+
+export type EmbedTheme = {
+  mode: 'light' | 'dark';
+  primaryColor: string | null; // "#rrggbb"
+  radius: number | null; // rem
+};
+
+export function isEmbedded() {
+  return typeof window !== 'undefined' && window.parent !== window;
+}
+
+// Stripe Checkout can't run in a frame, so it takes over the host page. The
+// widget passes the host page's address along so the customer can get back to it.
+export function parseEmbedReturnUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function postEmbedMessage(type: EmbedEventType, data: Record<string, unknown> = {}) {
+  if (!isEmbedded()) return;
+  const message: EmbedMessage = { source: EMBED_MESSAGE_SOURCE, type, data };
+  window.parent.postMessage(message, '*');
+}
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function parseHexColor(value: string | null | undefined) {
+  const match = value?.trim().match(HEX_COLOR_PATTERN);
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+// The theme's colours are "H S% L%" triples, see globals.css.
+function hexToHslTriple(hex: string) {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  let hue = 0;
+  let saturation = 0;
+
+  if (max !== min) {
+    const delta = max - min;
+    saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    if (max === r) hue = (g - b) / delta + (g < b ? 6 : 0);
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue *= 60;
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return { h: round(hue), s: round(saturation * 100), l: round(lightness * 100) };
+}
+
+export function parseEmbedTheme(params: { theme?: string | null; primaryColor?: string | null; radius?: string | null }): EmbedTheme {
+  const radius = params.radius ? parseFloat(params.radius) : NaN;
+  return {
+    mode: params.theme === 'dark' ? 'dark' : 'light',
+    primaryColor: parseHexColor(params.primaryColor),
+    radius: Number.isFinite(radius) && radius >= 0 && radius <= 2 ? radius : null,
+  };
+}
+
+// CSS variables that override the site theme inside the widget.
+export function getEmbedThemeStyle(theme: EmbedTheme): CSSProperties {
+  const style: Record<string, string> = {};
+  if (theme.primaryColor) {
+    const { h, s, l } = hexToHslTriple(theme.primaryColor);
+    style['--primary'] = `${h} ${s}% ${l}%`;
+    style['--ring'] = `${h} ${s}% ${l}%`;
+    style['--primary-foreground'] = l > 60 ? '0 0% 9%' : '0 0% 98%';
+  }
+  if (theme.radius !== null) {
+    style['--radius'] = `${theme.radius}rem`;
+  }
+  return style as CSSProperties;
+}
@@ -25,6 +25,10 @@ const auth = getAuth(app);
 const db = getFirestore(app);
 const storage = getStorage(app);
 
+// Dashboard server actions take the signed-in user's ID token so they can
+// check the caller's team role.
+const getIdToken = async () => (await auth.currentUser?.getIdToken()) || '';
+
 let analytics;
 if (typeof window !== 'undefined') {
     isSupported().then((supported) => {
@@ -35,4 +39,4 @@ if (typeof window !== 'undefined') {
 }
 
 
-export { app, auth, db, storage, analytics };
+export { app, auth, db, storage, analytics, getIdToken };
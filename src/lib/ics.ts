@@ -0,0 +1,118 @@
+// iCalendar (RFC 5545) output for calendar feeds and invites.
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:9002';
+
+export type IcsEventStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export type IcsPerson = { name: string; email: string };
+
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: IcsEventStatus;
+  sequence?: number;
+  lastModified?: Date;
+  organizer?: IcsPerson; // Required by invites (METHOD:REQUEST and CANCEL)
+  attendees?: IcsPerson[];
+};
+
+export type IcsCalendar = {
+  name?: string;
+  method?: 'PUBLISH' | 'REQUEST' | 'CANCEL';
+  refreshIntervalMinutes?: number; // Hint for subscribed calendars
+  events: IcsEvent[];
+};
+
+// A booking keeps its UID for life, so calendars update the event instead of adding another.
+export function getBookingIcsUid(username: string, bookingId: string): string {
+  return `${username}-${bookingId}@${new URL(siteUrl).hostname}`;
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// CN is a quoted parameter value, which cannot contain double quotes.
+function formatIcsPerson(person: IcsPerson) {
+  return `CN="${person.name.replace(/["\r\n]/g, '')}":mailto:${person.email}`;
+}
+
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space.
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function getEventLines(event: IcsEvent, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(stamp)}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push(`SEQUENCE:${event.sequence || 0}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatIcsDate(event.lastModified)}`);
+  if (event.organizer) lines.push(`ORGANIZER;${formatIcsPerson(event.organizer)}`);
+  (event.attendees || []).forEach(attendee => {
+    lines.push(`ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;${formatIcsPerson(attendee)}`);
+  });
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildIcsCalendar(calendar: IcsCalendar, now = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BroBookMe//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${calendar.method || 'PUBLISH'}`,
+  ];
+  if (calendar.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(calendar.name)}`);
+  }
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`);
+  }
+  calendar.events.forEach(event => lines.push(...getEventLines(event, now)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,95 @@
+import { isValid, parse } from 'date-fns';
+import type { IntakeAnswer, IntakeQuestion, IntakeQuestionType, ProviderSettings, Service } from './types';
+
+// Intake questions are asked on the booking form after the customer's
+// details. Pure helpers shared by the form, createBooking and the dashboard.
+
+export type IntakeAnswerValues = Record<string, string | string[]>;
+
+export const intakeQuestionTypes: { id: IntakeQuestionType; name: string }[] = [
+  { id: 'text', name: 'Text' },
+  { id: 'choice', name: 'Single choice' },
+  { id: 'checkbox', name: 'Checkboxes' },
+  { id: 'date', name: 'Date' },
+  { id: 'file', name: 'File upload' },
+];
+
+export const MAX_INTAKE_TEXT_LENGTH = 1000;
+export const MAX_INTAKE_FILE_MB = 10;
+
+export function hasIntakeOptions(type: IntakeQuestionType) {
+  return type === 'choice' || type === 'checkbox';
+}
+
+// The service type's questions come first, then the service's own.
+export function getIntakeQuestions(settings: ProviderSettings, service: Service | null | undefined, serviceType: string | null | undefined): IntakeQuestion[] {
+  const serviceTypeSetting = settings.serviceTypes.find(st => st.name === serviceType);
+  return [...(serviceTypeSetting?.intakeQuestions || []), ...(service?.intakeQuestions || [])]
+    .filter(question => question.label.trim())
+    .map(question => hasIntakeOptions(question.type)
+      ? { ...question, options: (question.options || []).map(option => option.trim()).filter(Boolean) }
+      : question);
+}
+
+// Uploads go to Firebase Storage under intake/<username>/, so anything else
+// was not uploaded through the booking form.
+export function getIntakeUploadPath(username: string, fileName: string, id: string) {
+  return `intake/${username}/${id}-${fileName}`;
+}
+
+function isIntakeFileUrl(url: string, username: string) {
+  return url.startsWith('https://firebasestorage.googleapis.com/') && url.includes(`/o/${encodeURIComponent(`intake/${username}/`)}`);
+}
+
+function validateAnswer(question: IntakeQuestion, value: string | string[] | undefined, username: string): string | string[] | null | { error: string } {
+  const options = question.options || [];
+
+  switch (question.type) {
+    case 'checkbox': {
+      const selected = Array.isArray(value) ? value : [];
+      if (selected.some(option => !options.includes(option))) return { error: `"${question.label}" has an invalid choice.` };
+      return selected.length > 0 ? selected : null;
+    }
+    case 'choice': {
+      if (typeof value !== 'string' || !value) return null;
+      return options.includes(value) ? value : { error: `"${question.label}" has an invalid choice.` };
+    }
+    case 'date': {
+      if (typeof value !== 'string' || !value) return null;
+      return isValid(parse(value, 'yyyy-MM-dd', new Date())) ? value : { error: `"${question.label}" must be a valid date.` };
+    }
+    case 'file': {
+      if (typeof value !== 'string' || !value) return null;
+      return isIntakeFileUrl(value, username) ? value : { error: `The file for "${question.label}" could not be verified. Please upload it again.` };
+    }
+    default: {
+      const text = typeof value === 'string' ? value.trim() : '';
+      if (text.length > MAX_INTAKE_TEXT_LENGTH) return { error: `"${question.label}" must be at most ${MAX_INTAKE_TEXT_LENGTH} characters.` };
+      return text || null;
+    }
+  }
+}
+
+// Checks the answers against the questions and returns them in the form they
+// are stored on the booking. Unanswered optional questions are left out.
+export function validateIntakeAnswers(questions: IntakeQuestion[], values: IntakeAnswerValues, username: string): { answers: IntakeAnswer[]; errors: string[] } {
+  const answers: IntakeAnswer[] = [];
+  const errors: string[] = [];
+
+  for (const question of questions) {
+    const result = validateAnswer(question, values[question.id], username);
+    if (result && typeof result === 'object' && !Array.isArray(result)) {
+      errors.push(result.error);
+    } else if (result === null) {
+      if (question.required) errors.push(`Please answer "${question.label}".`);
+    } else {
+      answers.push({ questionId: question.id, question: question.label, type: question.type, value: result });
+    }
+  }
+
+  return { answers, errors };
+}
+
+export function formatIntakeAnswer(answer: IntakeAnswer): string {
+  return Array.isArray(answer.value) ? answer.value.join(', ') : answer.value;
+}
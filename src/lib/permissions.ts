@@ -0,0 +1,75 @@
+import type { Provider, TeamRole } from './types';
+
+// What each team role may do in the dashboard. Server actions check these with
+// authorizeTeamAction; the dashboard uses them to hide pages a role can't use.
+
+export type Permission =
+  | 'bookings:view'
+  | 'bookings:manage' // Cancel, reschedule and handle the waitlist
+  | 'business:manage' // Services, schedule, staff, site content and settings
+  | 'account:manage'; // Team, subscription, payouts and the account itself
+
+export const teamRoles: { id: TeamRole; name: string; description: string }[] = [
+  { id: 'owner', name: 'Owner', description: 'Full access, including billing and the team.' },
+  { id: 'manager', name: 'Manager', description: 'Everything except billing, payouts and the team.' },
+  { id: 'front-desk', name: 'Front Desk', description: 'Can view and manage bookings only.' },
+  { id: 'read-only', name: 'Read-only', description: 'Can view bookings but not change anything.' },
+];
+
+const rolePermissions: Record<TeamRole, Permission[]> = {
+  owner: ['bookings:view', 'bookings:manage', 'business:manage', 'account:manage'],
+  manager: ['bookings:view', 'bookings:manage', 'business:manage'],
+  'front-desk': ['bookings:view', 'bookings:manage'],
+  'read-only': ['bookings:view'],
+};
+
+const pagePermissions: Record<string, Permission> = {
+  '/dashboard': 'bookings:view',
+  '/notifications': 'bookings:view',
+  '/bookings': 'bookings:view',
+  '/customers': 'bookings:view',
+  '/services': 'business:manage',
+  '/classes': 'business:manage',
+  '/staff': 'business:manage',
+  '/testimonials': 'business:manage',
+  '/gallery': 'business:manage',
+  '/blog': 'business:manage',
+  '/floating-buttons': 'business:manage',
+  '/slot-management': 'business:manage',
+  '/calendar-setup': 'business:manage',
+  '/settings': 'business:manage',
+  '/team': 'account:manage',
+  '/profile': 'account:manage',
+  '/subscription': 'account:manage',
+  '/payment-setup': 'account:manage',
+};
+
+export function getTeamRoleName(role: TeamRole): string {
+  return teamRoles.find(r => r.id === role)?.name || role;
+}
+
+// The account's own email is always an owner; anyone else needs an invite.
+export function getTeamRole(provider: Provider, email?: string | null): TeamRole | null {
+  if (!email) return null;
+  const normalizedEmail = email.toLowerCase();
+  if (provider.contact.email.toLowerCase() === normalizedEmail) return 'owner';
+  return provider.team?.find(member => member.email === normalizedEmail)?.role || null;
+}
+
+// An invite only names an email address, so a teammate has to prove they own
+// that mailbox before the invite's role is theirs. The account's own email
+// doesn't: the account was created with it.
+export function needsEmailVerification(provider: Provider, email: string | null | undefined, emailVerified: boolean): boolean {
+  return !emailVerified && !!email && provider.contact.email.toLowerCase() !== email.toLowerCase();
+}
+
+export function hasPermission(role: TeamRole | null, permission: Permission): boolean {
+  return !!role && rolePermissions[role].includes(permission);
+}
+
+// Pages without an entry above are open to every team member.
+export function canAccessPage(role: TeamRole | null, pathname: string): boolean {
+  const page = `/${pathname.split('/').filter(Boolean)[0] || ''}`;
+  const permission = pagePermissions[page];
+  return permission ? hasPermission(role, permission) : !!role;
+}
@@ -0,0 +1,148 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { getBookingsInRange } from './data';
+import { getGoogleBusyTimes } from './calendar.actions';
+import { getWaitlistHolds } from './waitlist';
+import {
+  DATE_KEY_FORMAT,
+  computeDayAvailability,
+  eachDateKey,
+  findService,
+  getAppointmentLength,
+  getDateRangeBounds,
+  getStaffForService,
+  parseDateKey,
+  toDateKey,
+} from './availability';
+import type { Provider } from './types';
+
+// The read-only availability served to other sites and apps by
+// /api/[username]/availability. Only slots a customer could book right now
+// on the public booking page are listed.
+
+export const DEFAULT_AVAILABILITY_RANGE_DAYS = 7;
+export const MAX_AVAILABILITY_RANGE_DAYS = 31;
+
+const LOCAL_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm:ssXXX";
+
+export type PublicAvailabilityQuery = {
+  service?: string | null; // Service slug or id
+  serviceType?: string | null; // Service type id or name
+  staff?: string | null; // Staff member id
+  from?: string | null; // "yyyy-MM-dd" in the provider's timezone
+  to?: string | null;
+};
+
+export type PublicAvailabilitySlot = {
+  start: string; // ISO string (UTC)
+  end: string;
+  startLocal: string; // ISO string with the provider's UTC offset
+  endLocal: string;
+  capacity: number;
+  remaining: number;
+};
+
+export type PublicAvailability = {
+  provider: { username: string; name: string; timezone: string };
+  service: { slug: string; title: string; duration: number } | null;
+  serviceType: { id: string; name: string } | null;
+  staff: { id: string; name: string } | null;
+  from: string;
+  to: string;
+  generatedAt: string;
+  days: { date: string; slots: PublicAvailabilitySlot[] }[];
+};
+
+export type PublicAvailabilityResult =
+  | { availability: PublicAvailability }
+  | { error: string; status: number };
+
+// Same rule as the public booking page: suspended or lapsed accounts take no bookings.
+export function isProviderBookable(provider: Provider) {
+  if (provider.isSuspended) return false;
+  const isLifetime = provider.plan?.duration === 'lifetime';
+  return isLifetime || !!(provider.planId && provider.planExpiry && provider.planExpiry > new Date());
+}
+
+export async function getPublicAvailability(provider: Provider, query: PublicAvailabilityQuery, now = new Date()): Promise<PublicAvailabilityResult> {
+  const settings = provider.settings;
+  const timezone = settings.timezone || 'UTC';
+
+  const from = query.from || toDateKey(now, timezone);
+  const fromDate = parseDateKey(from);
+  if (!fromDate) {
+    return { error: '"from" must be a date in yyyy-MM-dd format.', status: 400 };
+  }
+  const to = query.to || format(addDays(fromDate, DEFAULT_AVAILABILITY_RANGE_DAYS - 1), DATE_KEY_FORMAT);
+  const toDate = parseDateKey(to);
+  if (!toDate) {
+    return { error: '"to" must be a date in yyyy-MM-dd format.', status: 400 };
+  }
+  const rangeDays = differenceInCalendarDays(toDate, fromDate) + 1;
+  if (rangeDays < 1) {
+    return { error: '"to" must not be before "from".', status: 400 };
+  }
+  if (rangeDays > MAX_AVAILABILITY_RANGE_DAYS) {
+    return { error: `At most ${MAX_AVAILABILITY_RANGE_DAYS} days can be requested at once.`, status: 400 };
+  }
+
+  // Services are only offered when the provider's services page is on.
+  const service = query.service ? findService(settings, query.service) : undefined;
+  if (query.service && (!service || !service.enabled || !settings.enableServicesPage)) {
+    return { error: 'Service not found.', status: 404 };
+  }
+
+  const offeredTypes = settings.serviceTypes.filter(st => st.enabled && (!service || service.assignedServiceTypes.includes(st.id)));
+  const serviceType = query.serviceType
+    ? offeredTypes.find(st => st.id === query.serviceType || st.name.toLowerCase() === query.serviceType!.toLowerCase())
+    : undefined;
+  if (query.serviceType && !serviceType) {
+    return { error: 'Service type not found.', status: 404 };
+  }
+  if (offeredTypes.length === 0) {
+    return { error: 'This service cannot be booked online.', status: 404 };
+  }
+
+  const staffMember = query.staff ? getStaffForService(settings, service?.slug).find(member => member.id === query.staff) : undefined;
+  if (query.staff && !staffMember) {
+    return { error: 'Staff member not found.', status: 404 };
+  }
+
+  const { start, end } = getDateRangeBounds(from, to, timezone);
+  const bookings = [...await getBookingsInRange(provider.username, start, end), ...await getWaitlistHolds(provider)];
+  const options = {
+    serviceSlug: service?.slug || null,
+    serviceType: serviceType?.name || null,
+    staffId: staffMember?.id || null,
+    length: getAppointmentLength(settings, service),
+    busyTimes: await getGoogleBusyTimes(provider),
+    now,
+  };
+
+  const days = eachDateKey(from, to).map(date => ({
+    date,
+    slots: computeDayAvailability(settings, date, bookings, options).slots
+      .filter(slot => slot.isAvailable)
+      .map(slot => ({
+        start: slot.start,
+        end: slot.end,
+        startLocal: formatInTimeZone(slot.start, timezone, LOCAL_TIME_FORMAT),
+        endLocal: formatInTimeZone(slot.end, timezone, LOCAL_TIME_FORMAT),
+        capacity: slot.capacity,
+        remaining: slot.remaining,
+      })),
+  }));
+
+  return {
+    availability: {
+      provider: { username: provider.username, name: provider.name, timezone },
+      service: service ? { slug: service.slug || service.id, title: service.title, duration: options.length.duration } : null,
+      serviceType: serviceType ? { id: serviceType.id, name: serviceType.name } : null,
+      staff: staffMember ? { id: staffMember.id, name: staffMember.name } : null,
+      from,
+      to,
+      generatedAt: now.toISOString(),
+      days,
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import type { Provider } from './types';
+
+// What the public pages (profile, booking, manage booking and the embed)
+// hand to client components. Everything passed to a client component ends up
+// in the page source, so nothing secret may be left in it.
+
+// Firestore Timestamps and Dates become ISO strings, all the way down.
+export const serializeObject = (obj: any): any => {
+  if (obj === null || obj === undefined || typeof obj !== 'object') {
+      return obj;
+  }
+  if (obj.toDate && typeof obj.toDate === 'function') {
+      return obj.toDate().toISOString();
+  }
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+  if (Array.isArray(obj)) {
+      return obj.map(serializeObject);
+  }
+  const newObj: { [key: string]: any } = {};
+  for (const key in obj) {
+      if (Object.prototype.hasOwnProperty.call(obj, key)) {
+          newObj[key] = serializeObject(obj[key]);
+      }
+  }
+  return newObj;
+};
+
+// Drops gateway secrets, calendar OAuth tokens, the calendar feed version and
+// the team. A gateway is left enabled only when it is fully set up, which is
+// all the booking form needs to know about it.
+export function toPublicProvider(provider: Provider): Provider {
+  const { googleCalendar, outlookCalendar, staffCalendars, calendarFeedVersion, team, teamEmails, ...profile } = provider;
+  const gateways = provider.settings.paymentGateways;
+
+  return serializeObject({
+    ...profile,
+    settings: {
+      ...provider.settings,
+      paymentGateways: gateways && {
+        razorpay: {
+          enabled: !!(gateways.razorpay?.enabled && gateways.razorpay.keyId && gateways.razorpay.keySecret),
+          keyId: gateways.razorpay?.keyId || '',
+          keySecret: '',
+        },
+        stripe: {
+          enabled: !!(gateways.stripe?.enabled && gateways.stripe.secretKey),
+          publicKey: gateways.stripe?.publicKey || '',
+          secretKey: '',
+        },
+        paypal: {
+          enabled: !!gateways.paypal?.enabled,
+          clientId: gateways.paypal?.clientId || '',
+          clientSecret: '',
+        },
+        custom: gateways.custom,
+      },
+    },
+  });
+}
@@ -0,0 +1,58 @@
+// Fixed-window rate limiting for the public API routes. Counts are kept in
+// memory, so each server instance limits on its own; that is enough to stop a
+// single client from hammering Firestore through us.
+
+type RateLimitWindow = { count: number; resetAt: number };
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch milliseconds
+};
+
+const windows = new Map<string, RateLimitWindow>();
+const MAX_TRACKED_KEYS = 10000;
+
+function pruneExpiredWindows(now: number) {
+  windows.forEach((window, key) => {
+    if (window.resetAt <= now) windows.delete(key);
+  });
+}
+
+export function checkRateLimit(key: string, limit: number, windowMs: number, now = Date.now()): RateLimitResult {
+  if (windows.size > MAX_TRACKED_KEYS) pruneExpiredWindows(now);
+
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    windows.set(key, window);
+  }
+  window.count++;
+
+  return {
+    allowed: window.count <= limit,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    resetAt: window.resetAt,
+  };
+}
+
+// Clients can send any X-Forwarded-For they like and proxies append to it, so
+// only its last address, the one our proxy added, can be trusted.
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwardedFor || headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export function getRateLimitHeaders(result: RateLimitResult, now = Date.now()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.resetAt - now) / 1000)));
+  }
+  return headers;
+}
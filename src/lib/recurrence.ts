@@ -0,0 +1,62 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, parse } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { RecurrenceFrequency, RecurrenceRule } from './types';
+
+// Recurring series are expanded in the provider's timezone so every occurrence
+// keeps the same wall-clock time, even across daylight saving changes.
+
+export const DEFAULT_MAX_RECURRING_OCCURRENCES = 12;
+// Hard limits, whatever the provider sets, so one series can't span years of bookings.
+export const RECURRING_OCCURRENCES_LIMIT = 52;
+export const RECURRENCE_INTERVAL_LIMIT = 12;
+
+const LOCAL_DATE_TIME_FORMAT = "yyyy-MM-dd'T'HH:mm:ss";
+
+const frequencyLabels: Record<RecurrenceFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+};
+
+function toLocalDateTime(date: Date, timezone: string): Date {
+  return parse(formatInTimeZone(date, timezone, LOCAL_DATE_TIME_FORMAT), LOCAL_DATE_TIME_FORMAT, new Date());
+}
+
+function fromLocalDateTime(local: Date, timezone: string): Date {
+  return fromZonedTime(format(local, LOCAL_DATE_TIME_FORMAT), timezone);
+}
+
+export function getMaxRecurringOccurrences(maxOccurrences?: number | null): number {
+  return Math.min(RECURRING_OCCURRENCES_LIMIT, Math.max(2, maxOccurrences || DEFAULT_MAX_RECURRING_OCCURRENCES));
+}
+
+export function getOccurrenceDates(first: Date, rule: RecurrenceRule, timezone: string): Date[] {
+  const local = toLocalDateTime(first, timezone);
+  const interval = Math.max(1, rule.interval || 1);
+  const dates: Date[] = [];
+
+  for (let i = 0; i < rule.count; i++) {
+    const step = i * interval;
+    const next = rule.frequency === 'daily' ? addDays(local, step)
+      : rule.frequency === 'weekly' ? addWeeks(local, step)
+      : addMonths(local, step);
+    dates.push(fromLocalDateTime(next, timezone));
+  }
+
+  return dates;
+}
+
+// Moves `dateTime` by the same number of calendar days and to the same local
+// time as the move from `from` to `to`. Used to reschedule a whole series.
+export function shiftOccurrence(dateTime: Date, from: Date, to: Date, timezone: string): Date {
+  const dayOffset = differenceInCalendarDays(toLocalDateTime(to, timezone), toLocalDateTime(from, timezone));
+  const targetDay = addDays(toLocalDateTime(dateTime, timezone), dayOffset);
+  return fromZonedTime(`${format(targetDay, 'yyyy-MM-dd')}T${formatInTimeZone(to, timezone, 'HH:mm:ss')}`, timezone);
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const [singular, plural] = frequencyLabels[rule.frequency];
+  const every = interval === 1 ? `Every ${singular}` : `Every ${interval} ${plural}`;
+  return `${every}, ${rule.count} sessions`;
+}
@@ -2,6 +2,7 @@
 
 import { z } from 'zod';
 import { countries } from './countries';
+import { RECURRENCE_INTERVAL_LIMIT, RECURRING_OCCURRENCES_LIMIT } from './recurrence';
 
 export const BookingSchema = z.object({
   customerName: z.string().min(1, 'You need to fill this field'),
@@ -20,6 +21,12 @@ export const BookingSchema = z.object({
   providerUsername: z.string(),
   paymentMethod: z.enum(['online', 'later']).optional(),
   quantity: z.coerce.number().optional(),
+  recurrenceFrequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  recurrenceInterval: z.coerce.number().int().min(1).max(RECURRENCE_INTERVAL_LIMIT).optional(),
+  recurrenceCount: z.coerce.number().int().min(1).max(RECURRING_OCCURRENCES_LIMIT).optional(),
+  classId: z.string().optional(),
+  seats: z.coerce.number().int().min(1).optional(),
+  staffId: z.string().optional(),
 }).superRefine((data, ctx) => {
     // Doorstep service address validation
     if (data.serviceType.toLowerCase() === 'doorstep') {
@@ -56,3 +63,31 @@ export const BookingSchema = z.object({
 });
 
 export type BookingFormValues = z.infer<typeof BookingSchema>;
+
+export const manualBookingSources = [
+  { id: 'phone', name: 'Phone' },
+  { id: 'walk-in', name: 'Walk-in' },
+  { id: 'whatsapp', name: 'WhatsApp' },
+] as const;
+
+// Bookings entered from the dashboard for customers who called, walked in or
+// sent a message. Only a name is required; walk-ins often leave no contact details.
+export const ManualBookingSchema = z.object({
+  customerName: z.string().trim().min(1, 'You need to fill this field'),
+  customerEmail: z.string().trim().email('Invalid email address').or(z.literal('')),
+  customerPhone: z.string().trim(),
+  serviceType: z.string().min(1, 'Please select a service type.'),
+  serviceSlug: z.string().optional(),
+  staffId: z.string().optional(),
+  address: z.string().trim().optional(),
+  dateTime: z.string().datetime('Invalid date and time'),
+  source: z.enum(['phone', 'walk-in', 'whatsapp']),
+  overrideAvailability: z.boolean(),
+  sendConfirmation: z.boolean(),
+}).superRefine((data, ctx) => {
+  if (data.sendConfirmation && !data.customerEmail) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An email address is needed to send a confirmation.', path: ['customerEmail'] });
+  }
+});
+
+export type ManualBookingValues = z.infer<typeof ManualBookingSchema>;
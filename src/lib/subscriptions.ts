@@ -0,0 +1,112 @@
+import { addDays, addMonths, addYears } from 'date-fns';
+import { revalidatePath } from 'next/cache';
+import { addNotification, createPaymentRecord, getPlan, getProviderByUsername, updateProvider } from './data';
+import { sendSubscriptionEmail } from './email-templates';
+import type { EnrichedProvider, Provider } from './types';
+
+// Puts a provider on a plan. It trusts its arguments, so it is only called by
+// the gated updateProviderSubscription action and the Razorpay webhook.
+export async function applyProviderSubscription(
+    username: string, 
+    planId: string, 
+    paymentDetails: {razorpay_payment_id: string; razorpay_order_id: string; amount?: number; }
+): Promise<{ success: boolean; error?: string; provider?: EnrichedProvider }> {
+  try {
+    const plan = await getPlan(planId);
+    if (!plan) {
+      throw new Error('Plan not found');
+    }
+
+    const provider = await getProviderByUsername(username);
+    if (!provider) {
+        throw new Error('Provider not found');
+    }
+
+    if (plan.duration === 'trial' && provider.hasUsedTrial) {
+        return { success: false, error: 'You have already used your trial plan. Please choose a paid plan.' };
+    }
+    
+    let newExpiryDate: Date;
+    const now = new Date();
+    
+    const isRenewal = !!(provider.planId && provider.planExpiry && provider.planExpiry > now);
+    const baseDateForExpiry = isRenewal ? provider.planExpiry! : now;
+
+    let notificationMessage = '';
+    if (isRenewal) {
+        const currentPlan = await getPlan(provider.planId!);
+        if (currentPlan && plan.price > currentPlan.price) {
+            notificationMessage = `${provider.name} has upgraded their plan to ${plan.name}.`;
+        } else {
+            notificationMessage = `${provider.name} has renewed their ${plan.name} plan.`;
+        }
+    } else {
+        notificationMessage = `${provider.name} has subscribed to the ${plan.name} plan.`;
+    }
+
+    const providerUpdateData: Partial<Provider> = {
+        planId: plan.id,
+        hasUsedTrial: provider.hasUsedTrial || plan.duration === 'trial',
+    };
+
+    switch (plan.duration) {
+      case 'monthly':
+        newExpiryDate = addMonths(baseDateForExpiry, 1);
+        break;
+      case 'yearly':
+        newExpiryDate = addYears(baseDateForExpiry, 1);
+        break;
+      case 'lifetime':
+        newExpiryDate = new Date('9999-12-31');
+        break;
+       case 'trial':
+         newExpiryDate = addDays(baseDateForExpiry, plan.days || 7);
+        break;
+      default:
+        throw new Error('Invalid plan duration');
+    }
+
+    providerUpdateData.planExpiry = newExpiryDate;
+
+    await updateProvider(username, providerUpdateData);
+
+    const amountPaid = paymentDetails.amount;
+
+    if (amountPaid != null && amountPaid > 0) {
+       if (!paymentDetails.razorpay_payment_id || !paymentDetails.razorpay_order_id) {
+        throw new Error('Payment details are required for paid plans.');
+      }
+      await createPaymentRecord({
+        providerUsername: username,
+        planId: plan.id,
+        amount: amountPaid,
+        currency: 'INR',
+        razorpay_payment_id: paymentDetails.razorpay_payment_id,
+        razorpay_order_id: paymentDetails.razorpay_order_id,
+      });
+    }
+
+    if (notificationMessage) {
+        await addNotification('admin', {
+            message: notificationMessage,
+            type: 'general',
+            link: `/admin/providers`,
+        });
+    }
+
+    await sendSubscriptionEmail(provider.contact.email, provider.name, plan.name, newExpiryDate, isRenewal);
+    
+    const updatedProvider = await getProviderByUsername(username);
+    if (!updatedProvider) {
+        throw new Error("Could not re-fetch provider data after update.");
+    }
+    const enrichedProvider: EnrichedProvider = { ...updatedProvider, plan };
+
+    revalidatePath('/', 'layout');
+
+    return { success: true, provider: enrichedProvider };
+  } catch (error: any) {
+    console.error('Subscription update failed:', error);
+    return { success: false, error: error.message || 'Failed to update subscription.' };
+  }
+}
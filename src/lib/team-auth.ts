@@ -0,0 +1,59 @@
+import { getProviderByUsername } from './data';
+import { getTeamRole, hasPermission, needsEmailVerification, type Permission } from './permissions';
+import type { Provider, TeamRole } from './types';
+
+// Server actions can be called by anyone, so dashboard actions take the
+// caller's Firebase ID token (auth.currentUser.getIdToken()) and check it here.
+
+export type TeamActionCheck =
+  | { allowed: true; provider: Provider; role: TeamRole; email: string }
+  | { allowed: false; reason: string };
+
+// Firebase Auth's accounts:lookup endpoint only answers for a valid, unexpired
+// token, which lets us trust the email without the Admin SDK. `emailVerified`
+// says whether the user has also proven they own that mailbox.
+export async function getVerifiedUser(idToken?: string | null): Promise<{ email: string; emailVerified: boolean } | null> {
+  const apiKey = process.env.NEXT_PUBLIC_FIREBASE_API_KEY;
+  if (!idToken || !apiKey) return null;
+
+  try {
+    const response = await fetch(`https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken }),
+      cache: 'no-store',
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    const user = data.users?.[0];
+    return user?.email ? { email: user.email.toLowerCase(), emailVerified: user.emailVerified === true } : null;
+  } catch (error) {
+    console.error('Failed to verify ID token:', error);
+    return null;
+  }
+}
+
+export async function authorizeTeamAction(idToken: string | null | undefined, username: string, permission: Permission): Promise<TeamActionCheck> {
+  const user = await getVerifiedUser(idToken);
+  if (!user) {
+    return { allowed: false, reason: 'Your session has expired. Please log in again.' };
+  }
+  const { email } = user;
+
+  const provider = await getProviderByUsername(username);
+  if (!provider) {
+    return { allowed: false, reason: 'Provider not found.' };
+  }
+
+  if (needsEmailVerification(provider, email, user.emailVerified)) {
+    return { allowed: false, reason: 'Verify your email address to join this account. Check your inbox for the link.' };
+  }
+
+  const role = getTeamRole(provider, email);
+  if (!hasPermission(role, permission)) {
+    return { allowed: false, reason: "Your role doesn't allow this action. Ask an account owner for access." };
+  }
+
+  return { allowed: true, provider, role: role!, email };
+}
@@ -0,0 +1,104 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { getProviderByEmail, updateProvider } from './data';
+import type { Provider, AccountMember, TeamRole } from './types';
+import { authorizeTeamAction } from './team-auth';
+import { getTeamRoleName, teamRoles } from './permissions';
+import { sendTeamInviteEmail } from './email-templates';
+
+async function saveTeam(provider: Provider, team: AccountMember[]) {
+  await updateProvider(provider.username, { team, teamEmails: team.map(member => member.email) });
+  revalidatePath('/(provider-dashboard)/team');
+}
+
+export async function inviteTeamMember(idToken: string, username: string, email: string, role: TeamRole) {
+  const access = await authorizeTeamAction(idToken, username, 'account:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    return { success: false, error: 'Please enter a valid email address.' };
+  }
+  if (!teamRoles.some(r => r.id === role)) {
+    return { success: false, error: 'Please choose a role.' };
+  }
+
+  try {
+    const provider = access.provider;
+    const team = provider.team || [];
+    if (provider.contact.email.toLowerCase() === normalizedEmail || team.some(member => member.email === normalizedEmail)) {
+      return { success: false, error: 'This person is already on your team.' };
+    }
+
+    // A login belongs to exactly one account.
+    if (await getProviderByEmail(normalizedEmail)) {
+      return { success: false, error: 'This email already has its own BroBookMe account or belongs to another team.' };
+    }
+
+    const member: AccountMember = {
+      email: normalizedEmail,
+      role,
+      invitedAt: new Date().toISOString(),
+      invitedBy: access.email,
+    };
+    await saveTeam(provider, [...team, member]);
+
+    await sendTeamInviteEmail(normalizedEmail, {
+      providerName: provider.name,
+      inviterName: access.email,
+      roleName: getTeamRoleName(role),
+    });
+
+    return { success: true, member };
+  } catch (error: any) {
+    console.error('Failed to invite team member:', error);
+    return { success: false, error: error.message || 'Failed to send the invitation.' };
+  }
+}
+
+export async function updateTeamMemberRole(idToken: string, username: string, email: string, role: TeamRole) {
+  const access = await authorizeTeamAction(idToken, username, 'account:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+  if (!teamRoles.some(r => r.id === role)) {
+    return { success: false, error: 'Please choose a role.' };
+  }
+  if (email === access.email) {
+    return { success: false, error: "You can't change your own role." };
+  }
+
+  try {
+    const team = access.provider.team || [];
+    if (!team.some(member => member.email === email)) {
+      return { success: false, error: 'Team member not found.' };
+    }
+
+    await saveTeam(access.provider, team.map(member => member.email === email ? { ...member, role } : member));
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to update team member role:', error);
+    return { success: false, error: error.message || 'Failed to update the role.' };
+  }
+}
+
+export async function removeTeamMember(idToken: string, username: string, email: string) {
+  const access = await authorizeTeamAction(idToken, username, 'account:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+  if (email === access.email) {
+    return { success: false, error: "You can't remove yourself from the team." };
+  }
+
+  try {
+    await saveTeam(access.provider, (access.provider.team || []).filter(member => member.email !== email));
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to remove team member:', error);
+    return { success: false, error: error.message || 'Failed to remove the team member.' };
+  }
+}
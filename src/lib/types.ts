@@ -2,7 +2,7 @@
 
 import type { ChartConfig } from "@/components/ui/chart"
 export type ServiceType = 'Online' | 'Shop Visit' | 'Doorstep';
-export type BookingStatus = 'Upcoming' | 'Completed' | 'Canceled' | 'Not Completed' | 'Pending';
+export type BookingStatus = 'Upcoming' | 'Completed' | 'Canceled' | 'Not Completed' | 'No-Show' | 'Pending' | 'Expired' | 'Awaiting Approval' | 'Declined';
 
 export type WorkingPeriod = { start: string; end: string };
 
@@ -19,6 +19,8 @@ export type Service = {
   price: number;
   offerPrice?: number;
   duration: number; // in minutes
+  bufferBefore?: number; // minutes kept free before each booking
+  bufferAfter?: number; // minutes kept free after each booking
   displayOrder: number;
   enabled: boolean;
   assignedServiceTypes: ('online' | 'shop' | 'doorstep')[];
@@ -26,8 +28,58 @@ export type Service = {
   maxQuantity?: number;
   included?: string[];
   excluded?: string[];
+  requiresApproval?: boolean; // Bookings wait for the provider to approve them
+  intakeQuestions?: IntakeQuestion[]; // Asked when this service is booked, after the service type's questions
 };
 
+export type IntakeQuestionType = 'text' | 'choice' | 'checkbox' | 'date' | 'file';
+
+// A question the provider asks on the booking form. 'choice' picks one of the
+// options and 'checkbox' any number of them.
+export type IntakeQuestion = {
+  id: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options?: string[];
+  helpText?: string;
+};
+
+// Stored on the booking with the question as it was asked, so editing the
+// form later doesn't change past answers.
+export type IntakeAnswer = {
+  questionId: string;
+  question: string;
+  type: IntakeQuestionType;
+  value: string | string[]; // File questions store the uploaded file's URL
+};
+
+// A scheduled class or event: one session that many customers book seats in.
+export type GroupClass = {
+  id: string;
+  title: string;
+  description: string;
+  dateTime: string; // ISO start of the session
+  duration: number; // in minutes
+  capacity: number; // Total seats
+  pricePerSeat: number;
+  maxSeatsPerBooking?: number | null;
+  serviceTypeId: ServiceTypeSetting['id']; // Where the session takes place
+  enabled: boolean;
+};
+
+// A bookable person at the business. Each has their own schedule; business
+// closures (settings.blockedDates, blockedSlots) still apply to everyone.
+export type StaffMember = {
+  id: string;
+  name: string;
+  email?: string; // Receives booking notifications for their appointments
+  workingHours: WorkingHours;
+  blockedDates?: string[]; // "yyyy-MM-dd" days off for this person only
+  serviceIds?: string[]; // Services this person performs; empty means all of them
+  enabled: boolean;
+  displayOrder: number;
+};
 
 export type ServiceTypeSetting = {
   id: 'online' | 'shop' | 'doorstep';
@@ -35,6 +87,8 @@ export type ServiceTypeSetting = {
   enabled: boolean;
   priceEnabled?: boolean;
   price?: number;
+  dailyLimit?: number | null; // Max bookings of this type per day
+  intakeQuestions?: IntakeQuestion[]; // Asked on every booking of this type
 }
 
 export type CustomPageAbout = {
@@ -58,6 +112,16 @@ export type CustomPageCancellation = {
   description: string;
 };
 
+export type CancellationFeeType = 'none' | 'fixed' | 'percentage';
+
+export type CancellationRules = {
+  cancellationCutoffHours?: number | null; // Customers can't cancel online within this many hours of the start
+  rescheduleCutoffHours?: number | null; // Customers can't reschedule online within this many hours of the start
+  maxReschedules?: number | null; // How many times a customer may reschedule the same booking
+  feeType?: CancellationFeeType;
+  feeValue?: number | null; // Fixed amount in the provider's currency, or percentage of the booking amount
+};
+
 export type ProviderTestimonial = {
   id: string;
   name: string;
@@ -95,6 +159,8 @@ export type ProviderSettings = {
   multipleBookingsPerSlot: boolean;
   bookingsPerSlot: number;
   bookingDelay: number;
+  bookingHorizonDays?: number | null; // How many days ahead customers can book
+  dailyBookingLimit?: number | null; // Max bookings per day across all service types
   serviceTypes: ServiceTypeSetting[];
   shopAddress: string | null;
   googleMapLink?: string | null;
@@ -103,8 +169,17 @@ export type ProviderSettings = {
   currency: string;
   onlinePaymentEnabled: boolean;
   payAfterServiceEnabled: boolean;
+  pendingBookingTimeoutMinutes?: number | null; // Unpaid online bookings expire after this long
+  sendPaymentExpiredEmail?: boolean; // Email the customer a link to book again when a booking expires
   blockedSlots?: string[]; // ISO strings for specific blocked slots
   blockedDates?: string[]; // "yyyy-MM-dd" strings for blocked dates
+  dateOverrides?: { [date: string]: WorkingPeriod[] }; // "yyyy-MM-dd" -> hours replacing the weekly template for that date
+  cancellationRules?: CancellationRules;
+  recurringBookingsEnabled?: boolean; // Let customers book a repeating series in one go
+  maxRecurringOccurrences?: number | null; // Longest series a customer can book
+  waitlistEnabled?: boolean; // Let customers join a waitlist for full slots and days
+  waitlistOfferMinutes?: number | null; // How long a waitlist offer stays with one customer
+  requireBookingApproval?: boolean; // Every online booking waits for the provider to approve it
   customPages?: {
     about: CustomPageAbout;
     contact: CustomPageContact;
@@ -113,6 +188,8 @@ export type ProviderSettings = {
   enableServicesPage?: boolean;
   enableBlogsPage?: boolean;
   services?: Service[];
+  groupClasses?: GroupClass[];
+  staff?: StaffMember[]; // When any are enabled, bookings are made with a staff member instead of the provider's own hours
   paymentGateways?: PaymentGatewaySettings;
   testimonials?: {
     enabled: boolean;
@@ -127,6 +204,32 @@ export type ProviderSettings = {
   blogs?: BlogPost[];
 };
 
+export type AvailabilitySlot = {
+  start: string; // ISO string (UTC)
+  end: string; // ISO string (UTC)
+  capacity: number;
+  booked: number;
+  remaining: number;
+  isBlocked: boolean;
+  isWithinLeadTime: boolean; // Past, or inside the provider's booking delay
+  isAvailable: boolean;
+};
+
+export type DayAvailability = {
+  date: string; // "yyyy-MM-dd" in the provider's timezone
+  isDateBlocked: boolean;
+  isBeyondHorizon: boolean; // Further ahead than settings.bookingHorizonDays
+  isDailyLimitReached: boolean; // Daily or per-service-type cap already met
+  slots: AvailabilitySlot[];
+};
+
+export type AvailabilityDaySummary = {
+  date: string; // "yyyy-MM-dd" in the provider's timezone
+  isDateBlocked: boolean;
+  openSlots: number; // Slots inside working hours and outside the booking delay
+  availableSlots: number; // Open slots that can still be booked
+};
+
 export type BlogFaqItem = {
   question: string;
   answer: string;
@@ -153,8 +256,42 @@ export type CalendarTokens = {
   accessToken: string;
   refreshToken: string;
   expiryDate: number;
+  busyCalendarIds?: string[]; // Google calendars whose events block booking slots; missing means just the primary one
 };
 
+// Time taken by an event in a connected Google Calendar. It blocks the
+// schedule of whoever owns the calendar: a staff member, or the provider.
+export type CalendarBusyTime = {
+  start: Date;
+  end: Date;
+  staffId: string | null;
+};
+
+export type GoogleCalendarOption = {
+  id: string;
+  name: string;
+  primary: boolean;
+};
+
+// A booking's event as Google has it now, for syncing changes back to the booking.
+export type GoogleBookingEvent = {
+  eventId: string;
+  staffId: string | null;
+  cancelled: boolean;
+  start: Date | null; // Deleted events may come back without their times
+};
+
+
+export type TeamRole = 'owner' | 'manager' | 'front-desk' | 'read-only';
+
+// Someone invited to sign in to this provider account with their own email.
+// The email in contact.email is always an owner and is not listed here.
+export type AccountMember = {
+  email: string; // Lowercased
+  role: TeamRole;
+  invitedAt: string; // ISO string
+  invitedBy: string;
+};
 
 export type ProviderProfile = {
   name: string;
@@ -172,6 +309,10 @@ export type ProviderProfile = {
   isSuspended?: boolean;
   googleCalendar?: CalendarTokens | null;
   outlookCalendar?: CalendarTokens | null;
+  staffCalendars?: { [staffId: string]: CalendarTokens | null }; // Google Calendar connections of staff members
+  calendarFeedVersion?: number; // Bumped to revoke every earlier calendar feed URL
+  team?: AccountMember[];
+  teamEmails?: string[]; // Mirrors team[].email so a teammate's account can be found with array-contains
   expiryNotified?: boolean;
   lastUsernameChange?: Date;
 };
@@ -203,17 +344,111 @@ export type Booking = {
   dateTime: Date;
   providerUsername: string;
   status: BookingStatus;
+  createdAt?: Date;
   googleCalendarEventId?: string;
+  googleCalendarStaffId?: string | null; // Set when the event is in a staff member's calendar rather than the provider's
   googleMeetLink?: string;
   payment?: {
     orderId?: string;
     paymentId?: string;
     amount?: number;
     status?: 'Paid' | 'Pending';
+    refundDue?: boolean; // Paid after the booking could no longer be confirmed, so the money must go back
   };
   serviceSlug?: string | null;
   service?: Service; // Added for convenience when enriching booking data
   quantity?: number;
+  duration?: number; // minutes, service duration x quantity at the time of booking
+  bufferBefore?: number;
+  bufferAfter?: number;
+  customerRescheduleCount?: number; // Reschedules the customer made through their manage-booking link
+  cancellation?: BookingCancellation;
+  decline?: BookingDecline;
+  seriesId?: string; // Id of the first booking in a recurring series, shared by every occurrence
+  seriesIndex?: number; // 0-based position of this occurrence in its series
+  recurrence?: RecurrenceRule; // The rule the series was booked with
+  classId?: string | null; // Set for seats in a group class instead of a private appointment
+  seats?: number; // Seats booked in the class
+  staffId?: string | null; // Staff member the appointment is with
+  source?: BookingSource; // How the booking arrived; missing means the public booking page
+  intakeAnswers?: IntakeAnswer[];
+  calendarSequence?: number; // iCalendar SEQUENCE of the customer's invite, bumped on every reschedule or cancellation
+};
+
+// An iCalendar invite attached to a booking email.
+export type CalendarInvite = {
+  method: 'REQUEST' | 'CANCEL';
+  content: string;
+};
+
+export type BookingEventType = 'created' | 'payment' | 'rescheduled' | 'status' | 'email' | 'calendar';
+
+// One entry in a booking's append-only activity log.
+export type BookingEvent = {
+  id: string;
+  type: BookingEventType;
+  at: Date;
+  actor: string; // Team member's email, 'customer' or 'system'
+  message: string;
+  from?: string | null; // Previous time (ISO string) or status
+  to?: string | null; // New time (ISO string) or status
+  success?: boolean; // Set for emails and calendar syncs
+};
+
+export type BookingNote = {
+  id: string;
+  text: string;
+  createdAt: Date;
+  createdBy: string; // Team member's email
+};
+
+export type BookingAttachment = {
+  id: string;
+  name: string;
+  path: string; // Firebase Storage path, under the provider's bookings
+  url: string;
+  contentType: string;
+  size: number; // bytes
+  uploadedAt: Date;
+  uploadedBy: string;
+};
+
+// The team's private notes and files on a booking. Kept out of the booking
+// document, which the customer's manage-booking page loads.
+export type BookingNotes = {
+  bookingId: string;
+  notes: BookingNote[];
+  attachments: BookingAttachment[];
+  updatedAt: Date | null;
+};
+
+// 'online' is the public booking page; the rest are entered from the dashboard.
+export type BookingSource = 'online' | 'phone' | 'walk-in' | 'whatsapp';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every `interval` days/weeks/months
+  count: number; // Total number of occurrences, including the first
+};
+
+export type SeriesOccurrence = {
+  dateTime: string; // ISO string
+  isAvailable: boolean;
+};
+
+export type BookingCancellation = {
+  canceledAt: Date;
+  canceledBy: 'customer' | 'provider';
+  fee: number; // Amount kept under the cancellation rules
+  refundAmount: number; // Amount of a paid booking owed back to the customer
+};
+
+export type BookingDecline = {
+  declinedAt: Date;
+  declinedBy: string; // Email of the team member who declined it
+  reason: string;
 };
 
 export type EnrichedBooking = Booking & {
@@ -241,8 +476,56 @@ export type BookingFormValues = {
   providerUsername: string;
   paymentMethod?: 'online' | 'later';
   quantity?: number;
+  classId?: string;
+  seats?: number;
+  staffId?: string; // A staff member's id, or empty for any available staff member
 }
 
+export type WaitlistStatus = 'Waiting' | 'Offered' | 'Claimed' | 'Expired' | 'Removed';
+
+export type WaitlistEntry = {
+  id: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  serviceType: string;
+  serviceSlug?: string | null;
+  quantity?: number;
+  date: string; // "yyyy-MM-dd" in the provider's timezone
+  slot?: string | null; // ISO start of the wanted slot; null means any time that day
+  formValues: Partial<BookingFormValues>; // Booking form answers, used to prefill the form when the offer is claimed
+  status: WaitlistStatus;
+  createdAt: Date;
+  offeredSlot?: string | null; // ISO start of the slot currently offered
+  offeredStaffId?: string | null; // Staff member the offered slot is held with, for "any staff member" entries
+  offerExpiresAt?: Date | null;
+};
+
+// What the provider adds on top of a customer derived from bookings. Keys are
+// the normalized identities ("email:..." or "phone:...") merged into it.
+export type CustomerProfile = {
+  id: string;
+  keys: string[];
+  notes: string;
+  tags: string[];
+  updatedAt: Date;
+  updatedBy: string;
+};
+
+// 'block' turns away online bookings; 'prepay' only accepts them paid online.
+export type CustomerRestrictionType = 'block' | 'prepay';
+
+// Kept apart from the provider's settings, which the public booking page loads.
+export type CustomerRestriction = {
+  id: string;
+  email: string | null;
+  phone: string | null;
+  type: CustomerRestrictionType;
+  reason: string;
+  createdAt: Date;
+  createdBy: string;
+};
+
 // Admin specific types
 export type RazorpaySettings = {
     keyId: string;
@@ -520,6 +803,8 @@ export type Notification = {
     message: string;
     read: boolean;
     createdAt: Date;
-    type: 'new_booking' | 'new_provider' | 'general';
+    type: 'new_booking' | 'booking_request' | 'new_provider' | 'general';
     link?: string;
+    bookingId?: string; // Set on booking requests so they can be approved from the notification
+
 };
@@ -0,0 +1,147 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import {
+  addWaitlistEntry,
+  getBookingsInRange,
+  getCustomerRestrictions,
+  getProviderByUsername,
+  getWaitlistEntriesForDate,
+  getWaitlistEntryById,
+  updateWaitlistEntry,
+} from './data';
+import type { BookingFormValues, WaitlistEntry } from './types';
+import { BookingSchema } from './schema';
+import { getDateRangeBounds } from './availability';
+import { verifyWaitlistToken } from './booking-links';
+import { getGoogleBusyTimes } from './calendar.actions';
+import { findSlotForEntry, getWaitlistHolds, sendOffer } from './waitlist';
+import { authorizeTeamAction } from './team-auth';
+import { findCustomerRestriction } from './customers';
+
+export async function joinWaitlist(
+  username: string,
+  formValues: Partial<BookingFormValues>,
+  date: string,
+  slot: string | null
+) {
+  const provider = await getProviderByUsername(username);
+  if (!provider?.settings.waitlistEnabled) {
+    return { success: false, error: 'This provider does not have a waitlist.' };
+  }
+
+  const parsed = BookingSchema.safeParse({
+    ...formValues,
+    providerUsername: username,
+    dateTime: slot || new Date().toISOString(),
+  });
+  if (!parsed.success) {
+    return { success: false, error: 'Please fill in your details before joining the waitlist.' };
+  }
+  const { data } = parsed;
+
+  const restriction = findCustomerRestriction(await getCustomerRestrictions(username), {
+    customerEmail: data.customerEmail,
+    customerPhone: `${data.countryCode}${data.customerPhone}`,
+  });
+  if (restriction?.type === 'block') {
+    return { success: false, error: `${provider.name} is not taking online bookings for these details. Please contact them directly.` };
+  }
+
+  const existing = await getWaitlistEntriesForDate(username, date);
+  const isAlreadyWaiting = existing.some(entry =>
+    entry.customerEmail === data.customerEmail &&
+    (entry.slot || null) === slot &&
+    (entry.status === 'Waiting' || entry.status === 'Offered')
+  );
+  if (isAlreadyWaiting) {
+    return { success: true };
+  }
+
+  const { dateTime, paymentMethod, ...storedValues } = data;
+  await addWaitlistEntry(username, {
+    customerName: data.customerName,
+    customerEmail: data.customerEmail,
+    customerPhone: `${data.countryCode}${data.customerPhone}`,
+    serviceType: data.serviceType,
+    serviceSlug: data.serviceSlug || null,
+    quantity: data.quantity || 1,
+    date,
+    slot,
+    formValues: JSON.parse(JSON.stringify(storedValues)),
+    status: 'Waiting',
+    createdAt: new Date(),
+  });
+
+  revalidatePath('/(provider-dashboard)/bookings');
+  return { success: true };
+}
+
+// Loads an active offer for the booking form. The offered slot is held for
+// this entry (see getWaitlistHolds); the form passes the entry id and token on
+// so its availability checks and the booking itself see the slot as free.
+export async function getWaitlistOffer(
+  username: string,
+  entryId: string,
+  token: string
+): Promise<{ entry: WaitlistEntry; error?: undefined } | { entry?: undefined; error: string }> {
+  if (!verifyWaitlistToken(username, entryId, token)) {
+    return { error: 'This waitlist link is invalid.' };
+  }
+
+  const entry = await getWaitlistEntryById(username, entryId);
+  if (!entry || entry.status !== 'Offered' || !entry.offeredSlot) {
+    return { error: 'This waitlist offer is no longer available.' };
+  }
+  if (entry.offerExpiresAt && entry.offerExpiresAt < new Date()) {
+    return { error: 'This waitlist offer has expired.' };
+  }
+
+  return { entry: JSON.parse(JSON.stringify(entry)) };
+}
+
+// Lets the provider send an offer by hand, e.g. after adding working hours.
+export async function offerWaitlistEntry(idToken: string, username: string, entryId: string) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  const provider = access.provider;
+  const entry = await getWaitlistEntryById(username, entryId);
+  if (!entry) {
+    return { success: false, error: 'Waitlist entry not found.' };
+  }
+
+  const timezone = provider.settings.timezone || 'UTC';
+  const { start, end } = getDateRangeBounds(entry.date, entry.date, timezone);
+  const dayBookings = [...await getBookingsInRange(username, start, end), ...await getWaitlistHolds(provider, entry.id)];
+
+  const slot = findSlotForEntry(provider, entry, dayBookings, await getGoogleBusyTimes(provider));
+  if (!slot) {
+    return { success: false, error: 'There is no free slot to offer for this entry yet.' };
+  }
+
+  const sent = await sendOffer(provider, entry, slot);
+  if (!sent) {
+    return { success: false, error: 'Waitlist links are not configured on this server.' };
+  }
+
+  revalidatePath('/(provider-dashboard)/bookings');
+  return { success: true, offeredSlot: slot.start };
+}
+
+export async function removeWaitlistEntry(idToken: string, username: string, entryId: string) {
+  const access = await authorizeTeamAction(idToken, username, 'bookings:manage');
+  if (!access.allowed) {
+    return { success: false, error: access.reason };
+  }
+
+  try {
+    await updateWaitlistEntry(username, entryId, { status: 'Removed' });
+    revalidatePath('/(provider-dashboard)/bookings');
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Failed to remove waitlist entry.' };
+  }
+}
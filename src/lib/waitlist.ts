@@ -0,0 +1,162 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { formatInTimeZone } from 'date-fns-tz';
+import { db } from './firebase';
+import { getBookingsInRange, getWaitlistEntriesByStatus, getWaitlistEntriesForDate, updateWaitlistEntry } from './data';
+import type { Booking, CalendarBusyTime, Provider, WaitlistEntry } from './types';
+import { computeDayAvailability, findAvailableStaff, findService, getActiveStaff, getAppointmentLength, getDateRangeBounds, toDateKey } from './availability';
+import { getWaitlistClaimUrl } from './booking-links';
+import { getGoogleBusyTimes } from './calendar.actions';
+import { sendWaitlistOfferEmail } from './email-templates';
+
+// Server-side waitlist offers. These trust the provider they are given, so
+// they are only called from actions.ts, the waitlist actions and the cron route.
+
+const DEFAULT_WAITLIST_OFFER_MINUTES = 120;
+
+export type WaitlistSlot = { start: string; staffId: string | null };
+
+// An active offer holds its slot like a Pending booking, so nobody else can
+// take it before the customer it was offered to claims it or the offer
+// expires. The holds are added to the bookings availability is checked
+// against; `claimingEntryId` is an offer being claimed, which doesn't hold
+// its slot against itself.
+export async function getWaitlistHolds(provider: Provider, claimingEntryId?: string | null): Promise<Booking[]> {
+  const now = new Date();
+  const offers = await getWaitlistEntriesByStatus(provider.username, 'Offered');
+  return offers
+    .filter(entry => entry.id !== claimingEntryId && entry.offeredSlot && entry.offerExpiresAt && entry.offerExpiresAt > now)
+    .map(entry => ({
+      id: `waitlist-${entry.id}`,
+      customerName: entry.customerName,
+      customerEmail: entry.customerEmail,
+      customerPhone: entry.customerPhone,
+      serviceType: entry.serviceType,
+      serviceSlug: entry.serviceSlug,
+      quantity: entry.quantity,
+      dateTime: new Date(entry.offeredSlot!),
+      providerUsername: provider.username,
+      status: 'Pending',
+      staffId: entry.offeredStaffId || entry.formValues.staffId || null,
+      ...getAppointmentLength(provider.settings, findService(provider.settings, entry.serviceSlug), entry.quantity),
+    }));
+}
+
+// Returns the slot to offer `entry`, or null if nothing suits it.
+// `dayBookings` must include the holds of other offers (getWaitlistHolds).
+// An "any staff member" entry is held with whoever would take the booking now.
+export function findSlotForEntry(provider: Provider, entry: WaitlistEntry, dayBookings: Booking[], busyTimes: CalendarBusyTime[], slotStart?: string): WaitlistSlot | null {
+  const settings = provider.settings;
+  const options = {
+    length: getAppointmentLength(settings, findService(settings, entry.serviceSlug), entry.quantity),
+    serviceType: entry.serviceType,
+    serviceSlug: entry.serviceSlug,
+    staffId: entry.formValues.staffId,
+    busyTimes,
+  };
+  const day = computeDayAvailability(settings, entry.date, dayBookings, options);
+
+  const wanted = slotStart || entry.slot;
+  const slot = day.slots.find(s => s.isAvailable && (!wanted || s.start === wanted));
+  if (!slot) return null;
+
+  const staffId = getActiveStaff(settings).length > 0
+    ? findAvailableStaff(settings, new Date(slot.start), dayBookings, options)?.id || null
+    : null;
+  return { start: slot.start, staffId };
+}
+
+export async function sendOffer(provider: Provider, entry: WaitlistEntry, slot: WaitlistSlot) {
+  const offerMinutes = provider.settings.waitlistOfferMinutes || DEFAULT_WAITLIST_OFFER_MINUTES;
+  const offerExpiresAt = new Date(Date.now() + offerMinutes * 60 * 1000);
+  const claimUrl = getWaitlistClaimUrl(provider.username, entry.id);
+  if (!claimUrl) {
+    console.error('BOOKING_LINK_SECRET is not configured; waitlist offers cannot be sent.');
+    return false;
+  }
+
+  await updateWaitlistEntry(provider.username, entry.id, { status: 'Offered', offeredSlot: slot.start, offeredStaffId: slot.staffId, offerExpiresAt });
+
+  const timezone = provider.settings.timezone;
+  const dateFormat = provider.settings.dateFormat || 'PPP';
+  const service = findService(provider.settings, entry.serviceSlug);
+
+  await sendWaitlistOfferEmail(entry.customerEmail, {
+    customerName: entry.customerName,
+    providerName: provider.name,
+    serviceTitle: service?.title,
+    serviceType: entry.serviceType,
+    bookingDate: formatInTimeZone(slot.start, timezone, dateFormat),
+    bookingTime: formatInTimeZone(slot.start, timezone, 'p'),
+    offerExpiresAt: `${formatInTimeZone(offerExpiresAt, timezone, `${dateFormat} p`)} (${timezone.replace(/_/g, ' ')})`,
+    claimUrl,
+  });
+  return true;
+}
+
+// Called whenever capacity frees up at `slotStart` (a cancellation, an expired
+// payment or an expired offer). Offers it to the longest-waiting customer it suits.
+export async function offerFreedSlot(provider: Provider, slotStart: Date) {
+  if (!provider.settings.waitlistEnabled || slotStart <= new Date()) return;
+
+  try {
+    const timezone = provider.settings.timezone || 'UTC';
+    const date = toDateKey(slotStart, timezone);
+    const slot = slotStart.toISOString();
+
+    const entries = await getWaitlistEntriesForDate(provider.username, date);
+    const candidates = entries.filter(entry => entry.status === 'Waiting' && (!entry.slot || entry.slot === slot));
+    if (candidates.length === 0) return;
+
+    const { start, end } = getDateRangeBounds(date, date, timezone);
+    const dayBookings = [...await getBookingsInRange(provider.username, start, end), ...await getWaitlistHolds(provider)];
+    const busyTimes = await getGoogleBusyTimes(provider);
+
+    for (const entry of candidates) {
+      const offer = findSlotForEntry(provider, entry, dayBookings, busyTimes, slot);
+      if (offer) {
+        await sendOffer(provider, entry, offer);
+        return;
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to offer freed slot for ${provider.username}:`, error);
+  }
+}
+
+// Called by the /api/cron/expire-waitlist-offers job. Unclaimed offers pass
+// to the next person in line, and entries for days that have passed are closed.
+export async function expireWaitlistOffers() {
+  const providersSnapshot = await getDocs(collection(db, 'providers'));
+  const now = new Date();
+  let expiredCount = 0;
+
+  for (const providerDoc of providersSnapshot.docs) {
+    const provider = providerDoc.data() as Provider;
+    if (!provider.settings?.waitlistEnabled) continue;
+
+    try {
+      const offered = await getWaitlistEntriesByStatus(provider.username, 'Offered');
+      for (const entry of offered) {
+        if (!entry.offerExpiresAt || entry.offerExpiresAt > now) continue;
+        await updateWaitlistEntry(provider.username, entry.id, { status: 'Expired' });
+        expiredCount++;
+        if (entry.offeredSlot) {
+          await offerFreedSlot(provider, new Date(entry.offeredSlot));
+        }
+      }
+
+      const today = toDateKey(now, provider.settings.timezone || 'UTC');
+      const waiting = await getWaitlistEntriesByStatus(provider.username, 'Waiting');
+      for (const entry of waiting) {
+        if (entry.date >= today) continue;
+        await updateWaitlistEntry(provider.username, entry.id, { status: 'Expired' });
+        expiredCount++;
+      }
+    } catch (error) {
+      console.error(`Failed to expire waitlist offers for ${provider.username}:`, error);
+    }
+  }
+
+  console.log(`Cron job: Expired ${expiredCount} waitlist entries.`);
+  return { success: true, count: expiredCount };
+}